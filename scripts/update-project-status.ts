@@ -13,6 +13,7 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import * as yaml from 'js-yaml';
 import { LLMService } from '../src/services/llm';
+import type { PromptRef } from '../src/services/llm-prompts';
 import { 
   UpdateProjectStatusParams,
   UpdateProjectStatusParamsSchema,
@@ -35,40 +36,41 @@ import {
 // ============================================================================
 
 /**
- * Generate LLM recommendations from YAML content
+ * Generate LLM recommendations from YAML content, with the prompt template version they came from
  */
 async function generateLLMRecommendationsFromYAML(
   yamlContent: string, 
   apiKey: string,
   params: UpdateProjectStatusParams
-): Promise<string[]> {
+): Promise<{ recommendations: string[]; prompt?: PromptRef }> {
   try {
     const llmService = new LLMService({
       maxCostPerCall: 0.10, // Moderate cost for recommendations
       minValueScore: 0.5, // Moderate value for project analysis
     });
     
-    const prompt = `Here is the current project status YAML for my automation codebase:\n\n${yamlContent}\n\nBased on this, generate 3-5 actionable recommendations to improve fossilization, test coverage, and automation quality. Be specific and practical.`;
+    const rendered = llmService.renderPrompt('project-recommendations', { statusYaml: yamlContent });
     
     const response = await llmService.callLLM({
       model: 'gpt-4',
       apiKey,
-      messages: [{ role: 'user', content: prompt }],
+      ...rendered,
       context: 'project-analysis',
       purpose: 'project-recommendations',
       valueScore: 0.6
     });
     
     // Parse response into bullet points (assuming LLM returns a markdown list)
-    return response.choices[0].message.content
+    const recommendations = response.choices[0].message.content
       .split('\n')
       .filter((line: string) => typeof line === 'string' && line.trim().startsWith('- '))
       .map((line: string) => typeof line === 'string' ? line.replace(/^\-\s*/, '').trim() : '');
+    return { recommendations, prompt: rendered.prompt };
   } catch (e) {
     if (params.verbose) {
       console.warn('LLM recommendation generation failed:', e);
     }
-    return [];
+    return { recommendations: [] };
   }
 }
 
@@ -392,7 +394,11 @@ async function mergeWithExistingYaml(
     let llmRecs: string[] | null = null;
     
     if (apiKey) {
-      llmRecs = await generateLLMRecommendationsFromYAML(yamlContent, apiKey, params);
+      const generated = await generateLLMRecommendationsFromYAML(yamlContent, apiKey, params);
+      llmRecs = generated.recommendations;
+      if (llmRecs.length > 0 && generated.prompt) {
+        preserved.promptTemplates = [generated.prompt];
+      }
     }
     
     preserved.recommendations = llmRecs && llmRecs.length > 0 ? llmRecs : [
@@ -626,13 +632,12 @@ async function main() {
         });
         
         const devSummaryYaml = yaml.dump(result.developer_summary);
-        const prompt = `Here is a developer summary of our project:\n\n${devSummaryYaml}\n\nPlease provide:\n- The top 3 most urgent and granular test plans (with file/function/class names)\n- Any architectural or documentation gaps you see\n- Suggestions for refactoring or improving code quality\nRespond in markdown.`;
         
         try {
           const response = await llmService.callLLM({
             model: 'gpt-4',
             apiKey,
-            messages: [{ role: 'user', content: prompt }],
+            ...llmService.renderPrompt('developer-insights', { summaryYaml: devSummaryYaml }),
             context: 'developer-analysis',
             purpose: 'developer-insights',
             valueScore: 0.8
@@ -7,8 +7,10 @@
  */
 
 import { Command } from 'commander';
-import { CreateCommandSchema } from '@/types/schemas';
-import { githubFossilSync } from './githubFossilSyncCore';
+import { CreateCommandSchema, MigrateIdsCommandSchema, ProjectSyncCommandSchema, SyncCommandSchema } from '@/types/schemas';
+import { githubFossilSync, githubRoadmapMigrateIds, githubRoadmapProjectSync, githubRoadmapSync } from './githubFossilSyncCore';
+import { formatRoadmapSyncPlan } from '../utils/roadmapSync';
+import { formatTaskLinkMigration } from '../utils/taskAnchor';
 import * as fs from 'fs';
 import type { E2ERoadmap } from '../types';
 
@@ -72,6 +74,116 @@ program
     }
   });
 
+program
+  .command('sync')
+  .description('Two-way sync between roadmap tasks and GitHub issues')
+  .requiredOption('--owner <owner>', 'Repository owner')
+  .requiredOption('--repo <repo>', 'Repository name')
+  .requiredOption('--roadmap <path>', 'Path to roadmap YAML file')
+  .option('--state <path>', 'Sync state file (default: fossils/roadmap_sync_state.json)')
+  .option('--prefer <side>', 'Resolve conflicting edits in favour of "local" or "remote"')
+  .option('--import-label <label>', 'Label of issues to import as new tasks (default: roadmap)')
+  .option('--dry-run', 'Print the merge plan without applying it')
+  .action(async (options) => {
+    try {
+      const validatedArgs = SyncCommandSchema.parse(options);
+      const { roadmap, plan, result } = await githubRoadmapSync({
+        owner: validatedArgs.owner,
+        repo: validatedArgs.repo,
+        roadmapPath: validatedArgs.roadmap,
+        statePath: validatedArgs.state,
+        prefer: validatedArgs.prefer,
+        importLabel: validatedArgs.importLabel,
+        dryRun: validatedArgs.dryRun
+      });
+
+      const lines = formatRoadmapSyncPlan(plan, roadmap);
+      console.log(validatedArgs.dryRun ? '📋 Merge plan (dry run):' : '📋 Merge plan:');
+      console.log(lines.length > 0 ? lines.join('\n') : '✅ Roadmap and GitHub are in sync');
+      if (result) {
+        console.log(`\n✅ Applied ${result.applied.length} action(s)`);
+        for (const failure of result.failed) {
+          console.error(`❌ ${failure.action.type} failed: ${failure.error}`);
+        }
+      }
+      const unresolved = plan.conflicts.filter(conflict => !conflict.resolution).length;
+      if (unresolved > 0) {
+        console.log(`⚠️ ${unresolved} conflict(s) left unresolved; rerun with --prefer local|remote or edit one side`);
+      }
+      if (result && result.failed.length > 0) process.exit(1);
+    } catch (error) {
+      console.error('❌ Sync failed:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('project-sync')
+  .description('Set project board fields (status, owner, deadline, milestone, priority) from roadmap tasks')
+  .requiredOption('--owner <owner>', 'Repository owner')
+  .requiredOption('--repo <repo>', 'Repository name')
+  .requiredOption('--roadmap <path>', 'Path to roadmap YAML file')
+  .requiredOption('--project <number>', 'Projects v2 board number')
+  .option('--project-owner <login>', 'User or organization owning the project (default: --owner)')
+  .option('--dry-run', 'Show the field changes without writing them')
+  .action(async (options) => {
+    try {
+      const validatedArgs = ProjectSyncCommandSchema.parse(options);
+      const result = await githubRoadmapProjectSync({
+        owner: validatedArgs.owner,
+        repo: validatedArgs.repo,
+        roadmapPath: validatedArgs.roadmap,
+        projectNumber: validatedArgs.project,
+        projectOwner: validatedArgs.projectOwner,
+        dryRun: validatedArgs.dryRun
+      });
+
+      for (const task of result.synced) {
+        for (const change of task.changes) {
+          console.log(`${validatedArgs.dryRun ? '📋' : '✅'} #${task.issue} ${change.field}: ${change.from ?? '(empty)'} → ${change.to}`);
+        }
+        for (const skipped of task.skipped) {
+          console.log(`⚠️ #${task.issue} ${skipped.field}: ${skipped.reason}`);
+        }
+      }
+      const changed = result.synced.reduce((count, task) => count + task.changes.length, 0);
+      console.log(`\n${validatedArgs.dryRun ? '📋 Would change' : '✅ Changed'} ${changed} field(s) on ${result.synced.length} item(s)`);
+      for (const failure of result.failed) {
+        console.error(`❌ ${failure.task}: ${failure.error}`);
+      }
+      if (result.failed.length > 0) process.exit(1);
+    } catch (error) {
+      console.error('❌ Project sync failed:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('migrate-ids')
+  .description('Give roadmap tasks ids and link them to existing issues')
+  .requiredOption('--owner <owner>', 'Repository owner')
+  .requiredOption('--repo <repo>', 'Repository name')
+  .requiredOption('--roadmap <path>', 'Path to roadmap YAML file')
+  .option('--dry-run', 'Show the links without writing the roadmap or the issues')
+  .action(async (options) => {
+    try {
+      const validatedArgs = MigrateIdsCommandSchema.parse(options);
+      const migration = await githubRoadmapMigrateIds({
+        owner: validatedArgs.owner,
+        repo: validatedArgs.repo,
+        roadmapPath: validatedArgs.roadmap,
+        dryRun: validatedArgs.dryRun
+      });
+
+      const lines = formatTaskLinkMigration(migration);
+      console.log(lines.length > 0 ? lines.join('\n') : '✅ No issues left to link');
+      console.log(`\n${validatedArgs.dryRun ? '📋 Would link' : '✅ Linked'} ${migration.linked.length} issue(s), ${migration.ambiguous.length} ambiguous`);
+    } catch (error) {
+      console.error('❌ Migration failed:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
 program
   .command('validate')
   .description('Validate roadmap YAML file')
@@ -11,12 +11,88 @@ import { Command } from 'commander';
 import { getEnv } from '../core/config';
 import { promises as fs } from 'fs';
 import path from 'path';
-import type { ContextEntry, ContextQuery } from '@/types';
+import type { ContextEntry, ContextQuery, ContextSearchResult, TextEmbedder } from '@/types';
+import type { LLMBatchOptions } from '../services/llm';
 import { SemanticTaggerService } from '../services/semantic-tagger';
+import { FossilSearchIndex } from '../services/fossil-search';
+import {
+  DEFAULT_NEAR_DUPLICATE_THRESHOLD,
+  FossilSimilarityIndex,
+  decodeSignature,
+  encodeSignature,
+  minhashSignature,
+  signatureSimilarity,
+} from '../services/fossil-similarity';
+import { FossilVectorIndex } from '../services/fossil-vectors';
+import {
+  createFossilStore,
+  migrateFossilStore,
+  readStoreConfig,
+  readStoreKind,
+  writeStoreConfig,
+  writeStoreKind,
+  FileSystemFossilStore,
+  FOSSIL_EDGE_TYPES,
+  type FossilEdge,
+  type FossilEdgeType,
+  type FossilStore,
+  type FossilStoreConfig,
+  type FossilStoreKind,
+} from '../services/fossil-store';
+import { diffEntryFields, diffFossilSets, diffLines, formatLineDiff, type FossilSetDiff } from '../utils/fossilDiff';
+import { findCycles, findPath, relationshipEdges, toDot, toMermaid, transitiveClosure, type GraphDirection, type GraphReach } from '../utils/fossilGraph';
+import { getVersionHistory, pruneVersionHistory, DEFAULT_VERSION_RETENTION, type EntryVersion } from '../utils/fossilHistory';
+import {
+  detectExportFormat,
+  parseFossilExport,
+  validateImportRecords,
+  importComparable,
+  IMPORT_MERGE_STRATEGIES,
+  type FossilImportReport,
+  type ImportEntryResult,
+  type ImportMergeStrategy,
+} from '../utils/fossilImport';
+import { serializeFossilExport, type CsvExportOptions, type FossilExportFormat } from '../utils/fossilExport';
 import { getFossilSummary } from '../utils/fossilSummary';
 import { extractJsonBlock } from '../utils/markdownChecklist';
 import { isTestMode } from '../cli/repo-orchestrator';
 
+/**
+ * Snapshot metadata stored in `snapshots/<id>/metadata.json`
+ */
+export interface FossilSnapshotMetadata {
+  id: string;
+  name: string;
+  timestamp: string;
+  entryCount: number;
+  description: string;
+}
+
+/** Entries embedded per embedder call */
+const EMBEDDING_BATCH_SIZE = 32;
+
+/** Changes logged to a search, similarity or vector index after which it is saved whole */
+const INDEX_LOG_COMPACT_AFTER = 200;
+
+type DerivedIndexName = 'search-index' | 'similarity-index' | 'vector-index';
+
+/**
+ * Entries written to and removed from a derived index, as logged between full saves
+ */
+interface IndexChange<T> {
+  remove: string[];
+  put: T[];
+}
+
+type SearchDocument = Pick<ContextEntry, 'id' | 'title' | 'content' | 'tags'>;
+
+/**
+ * Text an entry is embedded from
+ */
+function embeddingText(entry: ContextEntry): string {
+  return `${entry.title}\n${entry.tags.join(' ')}\n${entry.content}`;
+}
+
 /**
  * Context Fossil Storage Service
  * 
@@ -25,19 +101,25 @@ import { isTestMode } from '../cli/repo-orchestrator';
 export class ContextFossilService {
   private config: ReturnType<typeof getEnv>;
   private fossilDir: string;
-  private indexFile: string;
+  private store: FossilStore | null = null;
+  private searchIndex: FossilSearchIndex | null = null;
+  private similarityIndex: FossilSimilarityIndex | null = null;
+  private vectorIndex: FossilVectorIndex | null = null;
+  /** Changes logged to each derived index since it was last saved whole */
+  private indexLogLengths = new Map<DerivedIndexName, number>();
+  private embedder: TextEmbedder | null = null;
   private semanticTagger: SemanticTaggerService;
-  private llmOptions: { enableLocalLLM?: boolean; localBackend?: string; routingPreference?: 'auto' | 'local' | 'cloud' };
+  private llmOptions: { enableLocalLLM?: boolean; enableCaching?: boolean; localBackend?: string; routingPreference?: 'auto' | 'local' | 'cloud' };
   private options: any;
 
   constructor(options?: any) {
     this.config = getEnv();
-    this.fossilDir = '.context-fossil';
-    this.indexFile = path.join(this.fossilDir, 'index.json');
+    this.fossilDir = options?.fossilDir ?? '.context-fossil';
     this.llmOptions = {
       enableLocalLLM: options?.enableLocalLLM ?? true,
       localBackend: options?.localBackend,
       routingPreference: options?.routingPreference ?? 'auto',
+      ...(options?.enableCaching !== undefined && { enableCaching: options.enableCaching }),
     };
     this.semanticTagger = new SemanticTaggerService('gpt-4', undefined, this.llmOptions);
     this.options = options || {};
@@ -48,58 +130,101 @@ export class ContextFossilService {
    */
   async initialize(): Promise<void> {
     await fs.mkdir(this.fossilDir, { recursive: true });
-    await fs.mkdir(path.join(this.fossilDir, 'entries'), { recursive: true });
     await fs.mkdir(path.join(this.fossilDir, 'snapshots'), { recursive: true });
     await fs.mkdir(path.join(this.fossilDir, 'exports'), { recursive: true });
-    
-    // Create index if it doesn't exist
-    if (!await this.fileExists(this.indexFile)) {
-      await this.saveIndex({
-        entries: {},
-        tags: {},
-        types: {},
-        sources: {},
-        lastUpdated: new Date().toISOString(),
-        version: '1.0.0',
-      });
+    await (await this.getStore()).initialize();
+  }
+
+  /**
+   * Get the storage backend, resolved from `options.store` or `store.json`
+   */
+  async getStore(): Promise<FossilStore> {
+    if (!this.store) {
+      const kind: FossilStoreKind = this.options.store ?? await readStoreKind(this.fossilDir);
+      this.store = await createFossilStore(kind, this.fossilDir);
+    }
+    return this.store;
+  }
+
+  /**
+   * Replace another storage backend's contents with all fossil data and make it the active one
+   * @param to - Target backend
+   * @param dryRun - If true, only report what would be migrated
+   * @returns Migration summary
+   */
+  async migrateStore(to: FossilStoreKind, dryRun: boolean = false): Promise<{ from: FossilStoreKind; to: FossilStoreKind; entries: number }> {
+    const source = await this.getStore();
+    if (source.kind === to) {
+      throw new Error(`Fossil storage already uses the ${to} backend`);
+    }
+
+    if (dryRun) {
+      return { from: source.kind, to, entries: (await source.queryIds()).length };
+    }
+
+    const target = await createFossilStore(to, this.fossilDir);
+    try {
+      const entries = await migrateFossilStore(source, target);
+      const migrated = (await target.queryIds()).length;
+      if (migrated !== entries) {
+        throw new Error(`Migration incomplete: ${migrated}/${entries} entries in ${to} store`);
+      }
+      await writeStoreKind(this.fossilDir, to);
+      return { from: source.kind, to, entries };
+    } finally {
+      await target.close();
     }
   }
 
+  /**
+   * Release the storage backend (closes database handles)
+   */
+  async close(): Promise<void> {
+    await this.store?.close();
+    this.store = null;
+  }
+
   /**
    * Add a new context entry
    * @param entry - Context entry to add
+   * @param options - `similarityThreshold` (0-100) for near-duplicate detection; defaults to the store config
    * @returns Created entry with ID
    */
-  async addEntry(entry: Omit<ContextEntry, 'id' | 'createdAt' | 'updatedAt'>): Promise<ContextEntry> {
+  async addEntry(
+    entry: Omit<ContextEntry, 'id' | 'createdAt' | 'updatedAt'>,
+    options: { similarityThreshold?: number } = {}
+  ): Promise<ContextEntry> {
     const contentHash = this.generateContentHash(entry.content, entry.type, entry.title);
     
     // First, check for exact content match (existing deduplication logic)
     const existingFossil = await this.findFossilByContentHash(contentHash);
     if (existingFossil) {
-      // Update existing fossil instead of creating duplicate
-      const updatedFossil = await this.updateEntry(existingFossil.id, {
-        updatedAt: new Date().toISOString(),
-        version: existingFossil.version + 1,
-      });
-      return updatedFossil!;
+      // Nothing changed, so no new version: return the existing fossil instead of creating a duplicate
+      return existingFossil;
     }
     
-    // If no exact match, check for similar fossils
-    const similarFossils = await this.findSimilarFossils(entry.title, entry.content, 60);
+    // If no exact match, check for near-duplicates of the same type (any title);
+    // like cleanup, never merge across types
+    const similarityThreshold = options.similarityThreshold
+      ?? (await readStoreConfig(this.fossilDir)).nearDuplicateThreshold
+      ?? DEFAULT_NEAR_DUPLICATE_THRESHOLD;
+    const similarFossils = await this.findSimilarFossils(entry.content, similarityThreshold, { type: entry.type });
     if (similarFossils.length > 0) {
       const mostSimilar = similarFossils[0]!;
       console.log(`🔍 Found similar fossil (${mostSimilar.similarity}% similarity): ${mostSimilar.fossil.id}`);
       
-      // Update the most similar fossil with new content
-      const updatedFossil = await this.updateEntry(mostSimilar.fossil.id, {
+      // Update the most similar fossil with new content, keeping its title and metadata
+      // (nextVersion re-signs it, so the hash covers the fields the fossil ends up with)
+      const { fossil } = mostSimilar;
+      const updatedFossil = await this.updateEntry(fossil.id, {
         content: entry.content,
         metadata: {
+          ...fossil.metadata,
           ...entry.metadata,
-          contentHash,
           similarityScore: mostSimilar.similarity,
         },
         updatedAt: new Date().toISOString(),
-        version: mostSimilar.fossil.version + 1,
+        version: fossil.version + 1,
       });
       return updatedFossil!;
     }
@@ -114,6 +239,7 @@ export class ContextFossilService {
       metadata: {
         ...entry.metadata,
         contentHash, // Store content hash for deduplication
+        minhash: encodeSignature(minhashSignature(entry.content)), // Signature for near-duplicate detection
       },
       createdAt: now,
       updatedAt: now,
@@ -152,38 +278,17 @@ export class ContextFossilService {
       newEntry.tags.push(newEntry.semanticTags.semanticCategory);
     }
 
-    // Save entry file
-    const entryFile = path.join(this.fossilDir, 'entries', `${id}.json`);
-    await fs.writeFile(entryFile, JSON.stringify(newEntry, null, 2));
+    // Load the derived indexes before the entry lands so they are updated incrementally
+    await this.loadSearchIndex();
+    await this.loadSimilarityIndex();
+    await this.loadVectorIndex();
 
-    // Update index
-    const index = await this.loadIndex();
-    index.entries[id] = {
-      id,
-      type: newEntry.type,
-      title: newEntry.title,
-      tags: newEntry.tags,
-      source: newEntry.source,
-      createdAt: newEntry.createdAt,
-      updatedAt: newEntry.updatedAt,
-    };
-
-    // Update tag index
-    newEntry.tags.forEach(tag => {
-      if (!index.tags[tag]) index.tags[tag] = [];
-      index.tags[tag].push(id);
-    });
+    // Save entry and update store index, recording computed relationships as graph edges
+    const store = await this.getStore();
+    await store.writeBatch({ put: [newEntry], putEdges: relationshipEdges(newEntry) });
 
-    // Update type index
-    if (!index.types[newEntry.type]) index.types[newEntry.type] = [];
-    index.types[newEntry.type].push(id);
-
-    // Update source index
-    if (!index.sources[newEntry.source]) index.sources[newEntry.source] = [];
-    index.sources[newEntry.source].push(id);
-
-    index.lastUpdated = now;
-    await this.saveIndex(index);
+    // Update full-text search and similarity indexes
+    await this.updateIndexes([newEntry]);
 
     console.log('✅ Intelligent tags generated successfully');
     return newEntry;
@@ -195,14 +300,7 @@ export class ContextFossilService {
    * @returns Context entry or null
    */
   async getEntry(id: string): Promise<ContextEntry | null> {
-    const entryFile = path.join(this.fossilDir, 'entries', `${id}.json`);
-    
-    if (!await this.fileExists(entryFile)) {
-      return null;
-    }
-
-    const content = await fs.readFile(entryFile, 'utf8');
-    return JSON.parse(content);
+    return (await this.getStore()).getEntry(id);
   }
 
   /**
@@ -215,11 +313,41 @@ export class ContextFossilService {
     const entry = await this.getEntry(id);
     if (!entry) return null;
 
-    // Prepare previousVersions array
-    const previousVersions = entry.previousVersions || [];
-    // Push the old version (excluding previousVersions itself)
+    const updatedEntry = await this.nextVersion(entry, updates);
+
+    // Save updated entry (the store keeps its type/tag/source index in sync)
+    await (await this.getStore()).putEntry(updatedEntry);
+
+    // Update full-text search and similarity indexes
+    await this.updateIndexes([updatedEntry], [], [entry]);
+
+    return updatedEntry;
+  }
+
+  /**
+   * Delete a context entry along with its relationship edges and index entries
+   * @param id - Entry ID
+   * @returns Whether the entry existed
+   */
+  async deleteEntry(id: string): Promise<boolean> {
+    const store = await this.getStore();
+    if (!(await store.getEntry(id))) return false;
+
+    await this.loadSearchIndex();
+    await this.loadSimilarityIndex();
+    await this.loadVectorIndex();
+    await store.writeBatch({ remove: [id] });
+    await this.updateIndexes([], [id]);
+    return true;
+  }
+
+  /**
+   * Build the next version of an entry, pushing the current one onto its history
+   */
+  private async nextVersion(entry: ContextEntry, updates: Partial<Omit<ContextEntry, 'id' | 'createdAt'>>): Promise<ContextEntry> {
+    // Push the old version (excluding previousVersions itself), then apply the retention policy
     const { previousVersions: _omit, ...entryWithoutPrev } = entry;
-    previousVersions.push(entryWithoutPrev);
+    const previousVersions = await this.pruneVersions([...(entry.previousVersions || []), entryWithoutPrev]);
 
     const updatedEntry: ContextEntry = {
       ...entry,
@@ -228,43 +356,7 @@ export class ContextFossilService {
       version: entry.version + 1,
       previousVersions,
     };
-
-    // Save updated entry
-    const entryFile = path.join(this.fossilDir, 'entries', `${id}.json`);
-    await fs.writeFile(entryFile, JSON.stringify(updatedEntry, null, 2));
-
-    // Update index
-    const index = await this.loadIndex();
-    if (index.entries[id]) {
-      index.entries[id] = {
-        ...index.entries[id],
-        title: updatedEntry.title,
-        tags: updatedEntry.tags,
-        updatedAt: updatedEntry.updatedAt,
-      };
-    }
-
-    // Update tag index if tags changed
-    if (updates.tags) {
-      // Remove old tags
-      entry.tags.forEach(tag => {
-        if (index.tags[tag]) {
-          index.tags[tag] = index.tags[tag].filter((entryId: string) => entryId !== id);
-          if (index.tags[tag].length === 0) delete index.tags[tag];
-        }
-      });
-
-      // Add new tags
-      updatedEntry.tags.forEach(tag => {
-        if (!index.tags[tag]) index.tags[tag] = [];
-        if (!index.tags[tag].includes(id)) index.tags[tag].push(id);
-      });
-    }
-
-    index.lastUpdated = updatedEntry.updatedAt;
-    await this.saveIndex(index);
-
-    return updatedEntry;
+    return this.signEntry(updatedEntry);
   }
 
   /**
@@ -273,54 +365,37 @@ export class ContextFossilService {
    * @returns Matching entries
    */
   async queryEntries(query: ContextQuery): Promise<ContextEntry[]> {
-    const index = await this.loadIndex();
-    let matchingIds = Object.keys(index.entries);
-
-    // Filter by type
-    if (query.type) {
-      matchingIds = matchingIds.filter(id => index.entries[id].type === query.type);
-    }
-
-    // Filter by tags
-    if (query.tags && query.tags.length > 0) {
-      matchingIds = matchingIds.filter(id => {
-        const entryTags = index.entries[id].tags;
-        return query.tags!.some(tag => entryTags.includes(tag));
-      });
-    }
+    return (await this.queryScoredEntries(query)).map(result => result.entry);
+  }
 
-    // Filter by source
-    if (query.source) {
-      matchingIds = matchingIds.filter(id => index.entries[id].source === query.source);
-    }
+  /**
+   * Full-text search over context entries with BM25 relevance scores
+   * @param query - Query parameters; `search` supports terms, "phrases" and prefix* terms
+   * @returns Matching entries with scores, most relevant first
+   */
+  async searchEntries(query: ContextQuery & { search: string }): Promise<ContextSearchResult[]> {
+    return (await this.queryScoredEntries(query)).map(({ entry, score }) => ({ entry, score: score ?? 0 }));
+  }
 
-    // Filter by date range
-    if (query.dateRange) {
-      const { start, end } = query.dateRange;
-      matchingIds = matchingIds.filter(id => {
-        const createdAt = index.entries[id].createdAt;
-        if (start && createdAt < start) return false;
-        if (end && createdAt > end) return false;
-        return true;
-      });
-    }
+  /**
+   * Filter, rank and paginate entries; scores are present when the query has a search
+   */
+  private async queryScoredEntries(query: ContextQuery): Promise<Array<{ entry: ContextEntry; score?: number }>> {
+    // Filter by type, tags, source and date range using the store index
+    let matchingIds = await (await this.getStore()).queryIds({
+      type: query.type,
+      tags: query.tags,
+      source: query.source,
+      dateRange: query.dateRange,
+    });
 
-    // Apply search if provided
+    // Apply search if provided (ranked by relevance)
+    let scores: Map<string, number> | null = null;
     if (query.search) {
-      const searchLower = query.search.toLowerCase();
-      const searchMatchingIds: string[] = [];
-      
-      for (const id of matchingIds) {
-        const entry = await this.getEntry(id);
-        if (entry && (
-          entry.title.toLowerCase().includes(searchLower) ||
-          entry.content.toLowerCase().includes(searchLower) ||
-          entry.tags.some(tag => tag.toLowerCase().includes(searchLower))
-        )) {
-          searchMatchingIds.push(id);
-        }
-      }
-      matchingIds = searchMatchingIds;
+      const searchIndex = await this.loadSearchIndex();
+      const hits = searchIndex.search(query.search, matchingIds);
+      scores = new Map(hits.map(hit => [hit.id, hit.score]));
+      matchingIds = hits.map(hit => hit.id);
     }
 
     // Apply pagination
@@ -329,15 +404,52 @@ export class ContextFossilService {
     const paginatedIds = matchingIds.slice(start, end);
 
     // Load full entries
-    const entries: ContextEntry[] = [];
+    const entries: Array<{ entry: ContextEntry; score?: number }> = [];
     for (const id of paginatedIds) {
       const entry = await this.getEntry(id);
-      if (entry) entries.push(entry);
+      if (entry) entries.push(scores ? { entry, score: scores.get(id) } : { entry });
     }
 
     return entries;
   }
 
+  /**
+   * Semantic search: the nearest entries to `text` by embedding cosine similarity
+   * @param text - Free-text query
+   * @param query - Filters and pagination (`limit` is the k in top-k)
+   * @returns Entries with cosine scores, most similar first
+   */
+  async semanticSearch(text: string, query: Omit<ContextQuery, 'search'>): Promise<ContextSearchResult[]> {
+    const candidateIds = await (await this.getStore()).queryIds({
+      type: query.type,
+      tags: query.tags,
+      source: query.source,
+      dateRange: query.dateRange,
+    });
+    const vectorIndex = await this.loadVectorIndex();
+    const [vector] = await (await this.getEmbedder()).embed([text]);
+
+    const results: ContextSearchResult[] = [];
+    for (const hit of vectorIndex.search(vector!, query.offset + query.limit, candidateIds).slice(query.offset)) {
+      const entry = await this.getEntry(hit.id);
+      if (entry) results.push({ entry, score: hit.score });
+    }
+    return results;
+  }
+
+  /**
+   * Rebuild the full-text search index from the stored entries
+   * @returns Number of indexed entries
+   */
+  async rebuildSearchIndex(): Promise<number> {
+    const entries = await this.getAllEntries();
+    const searchIndex = this.searchIndex ?? new FossilSearchIndex();
+    searchIndex.rebuild(entries);
+    this.searchIndex = searchIndex;
+    await this.saveSearchIndex();
+    return searchIndex.size;
+  }
+
   /**
    * Get related entries
    * @param id - Entry ID
@@ -347,6 +459,7 @@ export class ContextFossilService {
   async getRelatedEntries(id: string, maxDepth: number = 2): Promise<ContextEntry[]> {
     const related: ContextEntry[] = [];
     const visited = new Set<string>();
+    const edges = await (await this.getStore()).listEdges();
 
     const traverse = async (entryId: string, depth: number) => {
       if (depth > maxDepth || visited.has(entryId)) return;
@@ -366,6 +479,12 @@ export class ContextFossilService {
       for (const childId of entry.children) {
         await traverse(childId, depth + 1);
       }
+
+      // Traverse relationship edges in either direction
+      for (const edge of edges) {
+        if (edge.from === entryId) await traverse(edge.to, depth + 1);
+        else if (edge.to === entryId) await traverse(edge.from, depth + 1);
+      }
     };
 
     await traverse(id, 0);
@@ -377,37 +496,20 @@ export class ContextFossilService {
    * @param name - Snapshot name
    * @returns Snapshot metadata
    */
-  async createSnapshot(name: string): Promise<{ id: string; name: string; timestamp: string; entryCount: number }> {
+  async createSnapshot(name: string): Promise<FossilSnapshotMetadata> {
     const snapshotId = this.generateId(`snapshot-${name}`, 'snapshot', name);
     const timestamp = new Date().toISOString();
     const snapshotDir = path.join(this.fossilDir, 'snapshots', snapshotId);
     
-    await fs.mkdir(snapshotDir, { recursive: true });
-
-    // Copy entries
-    const entriesDir = path.join(this.fossilDir, 'entries');
-    const snapshotEntriesDir = path.join(snapshotDir, 'entries');
-    await fs.mkdir(snapshotEntriesDir, { recursive: true });
-
-    const entryFiles = await fs.readdir(entriesDir);
-    for (const file of entryFiles) {
-      if (file.endsWith('.json')) {
-        await fs.copyFile(
-          path.join(entriesDir, file),
-          path.join(snapshotEntriesDir, file)
-        );
-      }
-    }
-
-    // Copy index
-    await fs.copyFile(this.indexFile, path.join(snapshotDir, 'index.json'));
+    // Snapshots always use the filesystem layout, whatever the live backend is
+    const entryCount = await migrateFossilStore(await this.getStore(), new FileSystemFossilStore(snapshotDir));
 
     // Create snapshot metadata
-    const metadata = {
+    const metadata: FossilSnapshotMetadata = {
       id: snapshotId,
       name,
       timestamp,
-      entryCount: entryFiles.length,
+      entryCount,
       description: `Snapshot created at ${timestamp}`,
     };
 
@@ -416,42 +518,386 @@ export class ContextFossilService {
       JSON.stringify(metadata, null, 2)
     );
 
+    // Apply configured retention so automatic backups do not pile up
+    const { snapshotRetention } = await readStoreConfig(this.fossilDir);
+    if (snapshotRetention?.maxCount !== undefined || snapshotRetention?.maxAgeDays !== undefined) {
+      await this.pruneSnapshots({ ...snapshotRetention, protect: [snapshotId] });
+    }
+
     return metadata;
   }
 
+  /**
+   * List snapshots, newest first
+   */
+  async listSnapshots(): Promise<FossilSnapshotMetadata[]> {
+    const snapshotsDir = path.join(this.fossilDir, 'snapshots');
+    const snapshots: FossilSnapshotMetadata[] = [];
+
+    let dirs: string[] = [];
+    try {
+      dirs = await fs.readdir(snapshotsDir);
+    } catch {
+      return snapshots;
+    }
+
+    for (const dir of dirs) {
+      try {
+        const metadata = JSON.parse(await fs.readFile(path.join(snapshotsDir, dir, 'metadata.json'), 'utf8'));
+        snapshots.push(metadata);
+      } catch {
+        // Skip incomplete snapshot directories
+      }
+    }
+
+    return snapshots.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  /**
+   * Restore the store contents from a snapshot.
+   * The store replaces its contents atomically, so a failed restore leaves the live data untouched.
+   * @param snapshotId - Snapshot to restore
+   * @param backup - If true, snapshot the current state first
+   * @returns Restored entry count and the id of the safety snapshot (if any)
+   */
+  async restoreSnapshot(snapshotId: string, backup: boolean = true): Promise<{ restored: number; backupId?: string }> {
+    const entries = await this.getSnapshotEntries(snapshotId);
+    const edges = await this.getSnapshotStore(snapshotId).listEdges();
+
+    let backupId: string | undefined;
+    if (backup) {
+      backupId = (await this.createSnapshot(`pre-restore-${snapshotId}`)).id;
+    }
+
+    await (await this.getStore()).replaceAll(entries, edges);
+    await this.rebuildSearchIndex();
+    await this.rebuildSimilarityIndex();
+    await this.rebuildVectorIndex();
+
+    return { restored: entries.length, backupId };
+  }
+
+  /**
+   * Diff a snapshot against the live store or against another snapshot
+   * @param fromId - Baseline snapshot
+   * @param toId - Snapshot to compare with (defaults to the live store)
+   */
+  async diffSnapshots(fromId: string, toId?: string): Promise<FossilSetDiff> {
+    const from = await this.getSnapshotEntries(fromId);
+    const to = toId ? await this.getSnapshotEntries(toId) : await this.getAllEntries();
+    return diffFossilSets(from, to);
+  }
+
+  /**
+   * Delete snapshots beyond the retention limits
+   * @param options - Keep at most `maxCount` snapshots and/or none older than `maxAgeDays`
+   * @returns Snapshots that were (or, in dry-run mode, would be) deleted
+   */
+  async pruneSnapshots(options: NonNullable<FossilStoreConfig['snapshotRetention']> & { dryRun?: boolean; protect?: string[] } = {}): Promise<FossilSnapshotMetadata[]> {
+    if (options.maxCount === undefined && options.maxAgeDays === undefined) {
+      const { snapshotRetention } = await readStoreConfig(this.fossilDir);
+      if (snapshotRetention?.maxCount === undefined && snapshotRetention?.maxAgeDays === undefined) {
+        throw new Error('No snapshot retention configured');
+      }
+      options = { ...options, ...snapshotRetention };
+    }
+
+    const snapshots = await this.listSnapshots();
+    const cutoff = options.maxAgeDays !== undefined
+      ? new Date(Date.now() - options.maxAgeDays * 24 * 60 * 60 * 1000).toISOString()
+      : undefined;
+
+    const pruned = snapshots.filter((snapshot, position) => {
+      if (options.protect?.includes(snapshot.id)) return false;
+      if (options.maxCount !== undefined && position >= options.maxCount) return true;
+      return cutoff !== undefined && snapshot.timestamp < cutoff;
+    });
+
+    if (!options.dryRun) {
+      for (const snapshot of pruned) {
+        await fs.rm(path.join(this.fossilDir, 'snapshots', snapshot.id), { recursive: true, force: true });
+      }
+    }
+
+    return pruned;
+  }
+
+  /**
+   * Persist the snapshot retention policy (undefined removes it)
+   */
+  async setSnapshotRetention(retention: FossilStoreConfig['snapshotRetention']): Promise<FossilStoreConfig['snapshotRetention']> {
+    return (await writeStoreConfig(this.fossilDir, { snapshotRetention: retention })).snapshotRetention;
+  }
+
+  private async getSnapshotEntries(snapshotId: string): Promise<ContextEntry[]> {
+    const snapshotDir = path.join(this.fossilDir, 'snapshots', snapshotId);
+    try {
+      await fs.access(path.join(snapshotDir, 'index.json'));
+    } catch {
+      throw new Error(`Snapshot not found: ${snapshotId}`);
+    }
+    return this.getSnapshotStore(snapshotId).getAllEntries();
+  }
+
+  private getSnapshotStore(snapshotId: string): FileSystemFossilStore {
+    return new FileSystemFossilStore(path.join(this.fossilDir, 'snapshots', snapshotId));
+  }
+
+  /**
+   * All retained versions of an entry, oldest first, ending with the current one
+   * @param id - Entry ID
+   * @returns Versions, or null if the entry does not exist
+   */
+  async getHistory(id: string): Promise<EntryVersion[] | null> {
+    const entry = await this.getEntry(id);
+    return entry ? getVersionHistory(entry) : null;
+  }
+
+  /**
+   * Roll an entry back to an earlier version.
+   * The rollback is recorded as a new version, so it can itself be reverted.
+   * @param id - Entry ID
+   * @param version - Version number to restore
+   * @returns Updated entry, or null if the entry does not exist
+   */
+  async revertEntry(id: string, version: number): Promise<ContextEntry | null> {
+    const entry = await this.getEntry(id);
+    if (!entry) return null;
+    if (entry.version === version) {
+      throw new Error(`Entry ${id} is already at version ${version}`);
+    }
+
+    const target = [...(entry.previousVersions || [])].reverse().find(previous => previous.version === version);
+    if (!target) {
+      throw new Error(`Version ${version} of entry ${id} is not in its history`);
+    }
+
+    // Fields the target version did not have are cleared rather than carried over
+    const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, version: _version, ...restored } = target;
+    const cleared = Object.fromEntries(
+      Object.keys(entry)
+        .filter(key => !(key in target) && key !== 'previousVersions')
+        .map(key => [key, undefined])
+    );
+
+    return this.updateEntry(id, { ...cleared, ...restored });
+  }
+
+  /**
+   * Persist the version history retention policy (undefined restores the default)
+   */
+  async setVersionRetention(retention: FossilStoreConfig['versionRetention']): Promise<FossilStoreConfig['versionRetention']> {
+    return (await writeStoreConfig(this.fossilDir, { versionRetention: retention })).versionRetention;
+  }
+
+  /**
+   * Add a typed relationship edge between two entries
+   * @param from - Source entry (e.g. the one that depends on `to`)
+   * @param to - Target entry
+   * @param type - Relationship type
+   */
+  async addRelationship(from: string, to: string, type: FossilEdgeType): Promise<FossilEdge> {
+    if (from === to) {
+      throw new Error('An entry cannot be related to itself');
+    }
+    const edge: FossilEdge = { from, to, type, createdAt: new Date().toISOString() };
+    await (await this.getStore()).writeBatch({ putEdges: [edge] });
+    return edge;
+  }
+
+  /**
+   * Remove a relationship edge
+   * @returns Whether the edge existed
+   */
+  async removeRelationship(from: string, to: string, type: FossilEdgeType): Promise<boolean> {
+    const store = await this.getStore();
+    const existing = await store.listEdges({ from, to, types: [type] });
+    if (existing.length === 0) return false;
+    await store.writeBatch({ removeEdges: [{ from, to, type }] });
+    return true;
+  }
+
+  /**
+   * Relationship edges, optionally restricted to types
+   */
+  async getRelationships(types?: FossilEdgeType[]): Promise<FossilEdge[]> {
+    return (await this.getStore()).listEdges({ types });
+  }
+
+  /**
+   * Shortest relationship path between two entries
+   * @returns Entry ids along the path, or null if `to` is unreachable
+   */
+  async findRelationshipPath(from: string, to: string, options: { types?: FossilEdgeType[]; direction?: GraphDirection } = {}): Promise<string[] | null> {
+    return findPath(await this.getRelationships(options.types), from, to, options.direction);
+  }
+
+  /**
+   * Transitive closure of an entry's relationships (e.g. everything it depends on, directly or not)
+   */
+  async getTransitiveRelationships(id: string, options: { types?: FossilEdgeType[]; direction?: GraphDirection; maxDepth?: number } = {}): Promise<GraphReach[]> {
+    return transitiveClosure(await this.getRelationships(options.types), id, options.direction, options.maxDepth);
+  }
+
+  /**
+   * Relationship cycles, e.g. circular dependencies
+   */
+  async findRelationshipCycles(types?: FossilEdgeType[]): Promise<string[][]> {
+    return findCycles(await this.getRelationships(types));
+  }
+
+  /**
+   * Export the relationship graph as Graphviz DOT or Mermaid
+   * @param options - Restrict to edge types and/or the neighbourhood of a root entry
+   */
+  async exportGraph(format: 'dot' | 'mermaid', options: { types?: FossilEdgeType[]; root?: string; depth?: number } = {}): Promise<string> {
+    let edges = await this.getRelationships(options.types);
+    if (options.root) {
+      const reachable = new Set([options.root, ...transitiveClosure(edges, options.root, 'both', options.depth).map(reach => reach.id)]);
+      edges = edges.filter(edge => reachable.has(edge.from) && reachable.has(edge.to));
+    }
+
+    const labels: Record<string, string> = {};
+    for (const record of await (await this.getStore()).listRecords()) {
+      labels[record.id] = record.title;
+    }
+    return format === 'dot' ? toDot(edges, labels) : toMermaid(edges, labels);
+  }
+
+  /**
+   * Edges of entries about to be removed, re-pointed at the entry replacing them
+   */
+  private async redirectEdges(ids: string[], targetId: string): Promise<FossilEdge[]> {
+    const removed = new Set(ids);
+    const redirect = (id: string) => removed.has(id) ? targetId : id;
+    return (await (await this.getStore()).listEdges())
+      .filter(edge => removed.has(edge.from) || removed.has(edge.to))
+      .map(edge => ({ ...edge, from: redirect(edge.from), to: redirect(edge.to) }))
+      .filter(edge => edge.from !== edge.to && !removed.has(edge.from) && !removed.has(edge.to));
+  }
+
+  private async pruneVersions(versions: EntryVersion[]): Promise<EntryVersion[]> {
+    const { versionRetention } = await readStoreConfig(this.fossilDir);
+    return pruneVersionHistory(versions, versionRetention ?? DEFAULT_VERSION_RETENTION);
+  }
+
   /**
    * Export fossil storage in various formats
    * @param format - Export format
    * @param query - Optional query to filter entries
    * @param stable - If true, write to a stable filename for canonical exports
+   * @param options - CSV options (flattened metadata columns)
    * @returns Export file path
    */
-  async export(format: 'json' | 'markdown' | 'csv' | 'yaml', query?: ContextQuery, stable: boolean = true): Promise<string> {
+  async export(format: FossilExportFormat, query?: ContextQuery, stable: boolean = true, options: CsvExportOptions = {}): Promise<string> {
     const entries = query ? await this.queryEntries(query) : await this.queryEntries({ limit: 100, offset: 0 });
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
     const filename = stable ? `fossil-export-latest.${format}` : `fossil-export-${timestamp}.${format}`;
     const exportPath = path.join(this.fossilDir, 'exports', filename);
 
-    switch (format) {
-      case 'json':
-        await fs.writeFile(exportPath, JSON.stringify(entries, null, 2));
-        break;
-      case 'markdown':
-        const markdown = this.generateMarkdownExport(entries);
-        await fs.writeFile(exportPath, markdown);
-        break;
-      case 'csv':
-        const csv = this.generateCsvExport(entries);
-        await fs.writeFile(exportPath, csv);
-        break;
-      case 'yaml':
-        const yaml = this.generateYamlExport(entries);
-        await fs.writeFile(exportPath, yaml);
-        break;
-    }
+    await fs.writeFile(exportPath, serializeFossilExport(entries, format, options));
     return exportPath;
   }
 
+  /**
+   * Import an export file (any of the four export formats)
+   * @param filePath - File to import
+   * @param options - Format (inferred from the extension by default), merge strategy and dry-run
+   * @returns Per-record report of what was (or would be) changed
+   */
+  async importFile(
+    filePath: string,
+    options: { format?: FossilExportFormat; strategy?: ImportMergeStrategy; dryRun?: boolean } = {}
+  ): Promise<FossilImportReport> {
+    const format = options.format ?? detectExportFormat(filePath);
+    const records = parseFossilExport(await fs.readFile(filePath, 'utf-8'), format);
+    return { format, ...(await this.importEntries(records, options)) };
+  }
+
+  /**
+   * Validate and merge entry records into the store
+   * @param records - Raw records, validated against `ContextEntrySchema`; invalid ones are reported and skipped
+   * @param options - Merge strategy for records whose id already exists (default `skip`) and dry-run
+   */
+  async importEntries(
+    records: Record<string, unknown>[],
+    options: { strategy?: ImportMergeStrategy; dryRun?: boolean } = {}
+  ): Promise<FossilImportReport> {
+    const strategy = options.strategy ?? 'skip';
+    const dryRun = options.dryRun ?? false;
+    const { entries, errors } = validateImportRecords(records);
+    const store = await this.getStore();
+
+    const report: FossilImportReport = {
+      strategy,
+      dryRun,
+      results: [],
+      errors,
+      counts: { add: 0, overwrite: 0, 'version-bump': 0, skip: 0, unchanged: 0 },
+    };
+    // Entries as they will be written, so repeated ids within one file see earlier records
+    const pending = new Map<string, ContextEntry>();
+
+    for (const incoming of entries) {
+      const contentHash = this.generateContentHash(incoming.content, incoming.type, incoming.title);
+      let existing = pending.get(incoming.id) ?? (await store.getEntry(incoming.id));
+      if (!existing && strategy === 'version-bump') {
+        const match = await this.findFossilByContentHash(contentHash);
+        existing = match ? pending.get(match.id) ?? match : null;
+      }
+
+      const result: ImportEntryResult = { id: incoming.id, title: incoming.title, action: 'add', changedFields: [] };
+      if (existing) {
+        result.targetId = existing.id;
+        const fields = diffEntryFields(importComparable(existing), importComparable(incoming));
+        result.changedFields = [...fields.addedFields, ...fields.removedFields, ...fields.changedFields];
+      }
+
+      if (!existing) {
+        pending.set(incoming.id, this.signEntry({ ...incoming }));
+      } else if (result.changedFields.length === 0) {
+        result.action = 'unchanged';
+      } else if (strategy === 'skip') {
+        result.action = 'skip';
+        result.reason = 'entry already exists';
+      } else if (strategy === 'newest-wins' && incoming.updatedAt <= existing.updatedAt) {
+        result.action = 'skip';
+        result.reason = `existing entry is newer (${existing.updatedAt})`;
+      } else if (strategy === 'version-bump') {
+        result.action = 'version-bump';
+        pending.set(existing.id, await this.nextVersion(existing, {
+          type: incoming.type,
+          title: incoming.title,
+          content: incoming.content,
+          tags: incoming.tags,
+          source: incoming.source,
+          metadata: { ...existing.metadata, ...incoming.metadata },
+        }));
+      } else {
+        result.action = 'overwrite';
+        pending.set(incoming.id, this.signEntry({ ...incoming }));
+      }
+
+      report.results.push(result);
+      report.counts[result.action]++;
+    }
+
+    if (dryRun || pending.size === 0) return report;
+
+    // Relationship edges can only point at entries that exist after the import
+    const put = [...pending.values()];
+    const knownIds = new Set([...(await store.queryIds()), ...pending.keys()]);
+    const putEdges = put.flatMap(entry => relationshipEdges(entry)).filter(edge => knownIds.has(edge.to));
+
+    await this.loadSearchIndex();
+    await this.loadSimilarityIndex();
+    await this.loadVectorIndex();
+    await store.writeBatch({ put, putEdges });
+    await this.updateIndexes(put);
+
+    return report;
+  }
+
   /**
    * Generate context summary for LLMs
    * @param query - Optional query to filter entries
@@ -509,68 +955,238 @@ export class ContextFossilService {
     lastUpdated: string;
     storageSize: number;
   }> {
-    const index = await this.loadIndex();
-    const entries = Object.values(index.entries);
+    const store = await this.getStore();
+    const records = await store.listRecords();
 
     const stats = {
-      totalEntries: entries.length,
+      totalEntries: records.length,
       byType: {} as Record<string, number>,
       bySource: {} as Record<string, number>,
       byTag: {} as Record<string, number>,
-      lastUpdated: index.lastUpdated,
-      storageSize: 0,
+      lastUpdated: await store.getLastUpdated(),
+      storageSize: await store.getStorageSize(),
     };
 
     // Calculate statistics
-    entries.forEach((entry: unknown) => {
-      if (typeof entry === 'object' && entry !== null && 'type' in entry && 'source' in entry && 'tags' in entry) {
-        const typedEntry = entry as ContextEntry;
-        stats.byType[typedEntry.type] = (stats.byType[typedEntry.type] || 0) + 1;
-        stats.bySource[typedEntry.source] = (stats.bySource[typedEntry.source] || 0) + 1;
-      
-        typedEntry.tags.forEach((tag: string) => {
+    records.forEach(record => {
+      stats.byType[record.type] = (stats.byType[record.type] || 0) + 1;
+      stats.bySource[record.source] = (stats.bySource[record.source] || 0) + 1;
+      record.tags.forEach(tag => {
         stats.byTag[tag] = (stats.byTag[tag] || 0) + 1;
       });
-      }
     });
 
-    // Calculate storage size
-    try {
-      const entriesDir = path.join(this.fossilDir, 'entries');
-      const entryFiles = await fs.readdir(entriesDir);
-      
-      for (const file of entryFiles) {
-        if (file.endsWith('.json')) {
-          const filePath = path.join(entriesDir, file);
-          const stat = await fs.stat(filePath);
-          stats.storageSize += stat.size;
-        }
-      }
-    } catch (error) {
-      // Ignore storage size calculation errors
-    }
-
     return stats;
   }
 
   // Private helper methods
 
-  private async loadIndex(): Promise<any> {
-    const content = await fs.readFile(this.indexFile, 'utf8');
-    return JSON.parse(content);
-  }
-
-  private async saveIndex(index: any): Promise<void> {
-    await fs.writeFile(this.indexFile, JSON.stringify(index, null, 2));
-  }
+  /**
+   * Load the full-text search index, rebuilding it when missing or out of sync
+   */
+  private async loadSearchIndex(): Promise<FossilSearchIndex> {
+    if (this.searchIndex) return this.searchIndex;
+
+    const store = await this.getStore();
+    const data = await store.loadData('search-index');
+    if (data) {
+      const searchIndex = FossilSearchIndex.fromJSON(data);
+      const log = await store.loadDataLog<IndexChange<SearchDocument>>('search-index');
+      for (const change of log) {
+        change.remove.forEach(id => searchIndex.removeEntry(id));
+        change.put.forEach(document => searchIndex.addEntry(document));
+      }
+      this.indexLogLengths.set('search-index', log.length);
+      this.searchIndex = searchIndex;
+    }
 
-  private async fileExists(filePath: string): Promise<boolean> {
-    try {
-      await fs.access(filePath);
-      return true;
-    } catch {
-      return false;
+    const ids = await store.queryIds();
+    if (!this.searchIndex || this.searchIndex.size !== ids.length || ids.some(id => !this.searchIndex!.has(id))) {
+      await this.rebuildSearchIndex();
+    }
+
+    return this.searchIndex!;
+  }
+
+  private async saveSearchIndex(): Promise<void> {
+    if (!this.searchIndex) return;
+    await this.saveIndex('search-index', this.searchIndex);
+  }
+
+  /**
+   * Save a derived index whole, which clears its change log
+   */
+  private async saveIndex(name: DerivedIndexName, index: unknown): Promise<void> {
+    await (await this.getStore()).saveData(name, index);
+    this.indexLogLengths.set(name, 0);
+  }
+
+  /**
+   * Persist a change to a derived index: append it to the index's log, or save the index whole
+   * once the log is long, so a write does not reserialize every index
+   */
+  private async persistIndexChange<T>(name: DerivedIndexName, index: unknown, change: IndexChange<T>): Promise<void> {
+    const logged = this.indexLogLengths.get(name) ?? 0;
+    if (logged >= INDEX_LOG_COMPACT_AFTER) {
+      await this.saveIndex(name, index);
+      return;
+    }
+    await (await this.getStore()).appendDataLog(name, change);
+    this.indexLogLengths.set(name, logged + 1);
+  }
+
+  /**
+   * Rebuild the near-duplicate (MinHash LSH) index from every stored entry
+   * @returns Number of indexed entries
+   */
+  async rebuildSimilarityIndex(): Promise<number> {
+    const entries = await this.getAllEntries();
+    const similarityIndex = this.similarityIndex ?? (this.similarityIndex = new FossilSimilarityIndex());
+    similarityIndex.rebuild(entries.map(entry => ({ id: entry.id, signature: this.signatureOf(entry) })));
+    await this.saveIndex('similarity-index', similarityIndex);
+    return similarityIndex.size;
+  }
+
+  private async loadSimilarityIndex(): Promise<FossilSimilarityIndex> {
+    if (this.similarityIndex) return this.similarityIndex;
+
+    const store = await this.getStore();
+    const data = await store.loadData('similarity-index');
+    if (data) {
+      const similarityIndex = FossilSimilarityIndex.fromJSON(data);
+      const log = await store.loadDataLog<IndexChange<{ id: string; signature: string }>>('similarity-index');
+      for (const change of log) {
+        change.remove.forEach(id => similarityIndex.removeEntry(id));
+        change.put.forEach(({ id, signature }) => similarityIndex.addEntry(id, decodeSignature(signature)!));
+      }
+      this.indexLogLengths.set('similarity-index', log.length);
+      this.similarityIndex = similarityIndex;
+    }
+
+    const ids = await store.queryIds();
+    if (!this.similarityIndex || this.similarityIndex.size !== ids.length || ids.some(id => !this.similarityIndex!.has(id))) {
+      await this.rebuildSimilarityIndex();
+    }
+
+    return this.similarityIndex!;
+  }
+
+  /**
+   * Re-embed every stored entry with the current embedder
+   * @returns Number of indexed entries
+   */
+  async rebuildVectorIndex(): Promise<number> {
+    const entries = await this.getAllEntries();
+    const embedder = await this.getEmbedder();
+    const vectors = await this.embedEntries(entries);
+    const vectorIndex = this.vectorIndex ?? (this.vectorIndex = new FossilVectorIndex());
+    vectorIndex.rebuild(embedder.name, entries.map((entry, i) => ({ id: entry.id, vector: vectors[i]! })));
+    await this.saveIndex('vector-index', vectorIndex);
+    return vectorIndex.size;
+  }
+
+  private async loadVectorIndex(): Promise<FossilVectorIndex> {
+    if (this.vectorIndex) return this.vectorIndex;
+
+    const store = await this.getStore();
+    const data = await store.loadData('vector-index');
+    if (data) {
+      const vectorIndex = FossilVectorIndex.fromJSON(data);
+      const log = await store.loadDataLog<IndexChange<{ id: string; vector: number[] }>>('vector-index');
+      for (const change of log) {
+        change.remove.forEach(id => vectorIndex.removeEntry(id));
+        change.put.forEach(({ id, vector }) => vectorIndex.addEntry(id, vector));
+      }
+      this.indexLogLengths.set('vector-index', log.length);
+      this.vectorIndex = vectorIndex;
+    }
+
+    // Vectors from another embedder are not comparable, so a provider change forces a rebuild
+    const ids = await store.queryIds();
+    const model = (await this.getEmbedder()).name;
+    if (!this.vectorIndex || this.vectorIndex.model !== model || this.vectorIndex.size !== ids.length || ids.some(id => !this.vectorIndex!.has(id))) {
+      await this.rebuildVectorIndex();
+    }
+
+    return this.vectorIndex!;
+  }
+
+  /**
+   * Embedder for semantic search: `options.embedder`, else the LLM service's (registered backend or hashing fallback)
+   */
+  private async getEmbedder(): Promise<TextEmbedder> {
+    if (!this.embedder) {
+      this.embedder = this.options.embedder ?? await this.semanticTagger.getEmbedder();
+    }
+    return this.embedder!;
+  }
+
+  private async embedEntries(entries: ContextEntry[]): Promise<number[][]> {
+    const embedder = await this.getEmbedder();
+    const vectors: number[][] = [];
+    for (let i = 0; i < entries.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = entries.slice(i, i + EMBEDDING_BATCH_SIZE);
+      vectors.push(...await embedder.embed(batch.map(embeddingText)));
+    }
+    return vectors;
+  }
+
+  /**
+   * Apply written and removed entries to the search, similarity and vector indexes, logging
+   * just the change to each. Entries whose embedded text is the same as in `previous` keep their vector.
+   */
+  private async updateIndexes(put: ContextEntry[], removed: string[] = [], previous: ContextEntry[] = []): Promise<void> {
+    const searchIndex = await this.loadSearchIndex();
+    const similarityIndex = await this.loadSimilarityIndex();
+    const vectorIndex = await this.loadVectorIndex();
+
+    for (const id of removed) {
+      searchIndex.removeEntry(id);
+      similarityIndex.removeEntry(id);
+      vectorIndex.removeEntry(id);
     }
+    const previousText = new Map(previous.map(entry => [entry.id, embeddingText(entry)]));
+    const reembed = put.filter(entry => !vectorIndex.has(entry.id) || previousText.get(entry.id) !== embeddingText(entry));
+    const vectors = await this.embedEntries(reembed);
+    const signatures = put.map(entry => this.signatureOf(entry));
+    put.forEach((entry, i) => {
+      searchIndex.addEntry(entry);
+      similarityIndex.addEntry(entry.id, signatures[i]!);
+    });
+    reembed.forEach((entry, i) => vectorIndex.addEntry(entry.id, vectors[i]!));
+
+    await this.persistIndexChange<SearchDocument>('search-index', searchIndex, {
+      remove: removed,
+      put: put.map(({ id, title, content, tags }) => ({ id, title, content, tags })),
+    });
+    await this.persistIndexChange('similarity-index', similarityIndex, {
+      remove: removed,
+      put: put.map((entry, i) => ({ id: entry.id, signature: encodeSignature(signatures[i]!) })),
+    });
+    await this.persistIndexChange('vector-index', vectorIndex, {
+      remove: removed,
+      put: reembed.map((entry, i) => ({ id: entry.id, vector: vectors[i]! })),
+    });
+  }
+
+  /**
+   * MinHash signature of an entry, from its metadata when present
+   */
+  private signatureOf(entry: ContextEntry): number[] {
+    const stored = entry.metadata?.minhash;
+    return (typeof stored === 'string' && decodeSignature(stored)) || minhashSignature(entry.content);
+  }
+
+  /**
+   * Store a fresh content hash and MinHash signature in the entry's metadata
+   */
+  private signEntry(entry: ContextEntry): ContextEntry {
+    entry.metadata = {
+      ...entry.metadata,
+      contentHash: this.generateContentHash(entry.content, entry.type, entry.title),
+      minhash: encodeSignature(minhashSignature(entry.content)),
+    };
+    return entry;
   }
 
   /**
@@ -597,16 +1213,7 @@ export class ContextFossilService {
    * Find existing fossil by content hash
    */
   private async findFossilByContentHash(contentHash: string): Promise<ContextEntry | null> {
-    const index = await this.loadIndex();
-    
-    for (const [id, entryData] of Object.entries(index.entries)) {
-      const entry = await this.getEntry(id);
-      if (entry && entry.metadata?.contentHash === contentHash) {
-        return entry;
-      }
-    }
-    
-    return null;
+    return (await this.getStore()).findByContentHash(contentHash);
   }
 
   /**
@@ -614,203 +1221,131 @@ export class ContextFossilService {
    */
   async enhanceEntryWithTags(entry: ContextEntry, dryRun: boolean): Promise<ContextEntry> {
     console.log(`🧠 Generating intelligent tags for: ${entry.title}`);
-    
+    const [enhanced] = await this.enhanceEntriesWithTags([entry], dryRun);
+    return enhanced!;
+  }
+
+  /**
+   * Enhance existing entries with intelligent semantic tags. Entries are tagged concurrently
+   * through `LLMService.callLLMBatch` and saved in one batch.
+   */
+  async enhanceEntriesWithTags(entries: ContextEntry[], dryRun: boolean, batchOptions: LLMBatchOptions = {}): Promise<ContextEntry[]> {
     // Generate semantic tags
-    const semanticTags = await this.semanticTagger.generateSemanticTags(entry);
+    const semanticTags = await this.semanticTagger.generateSemanticTagsBatch(entries, batchOptions);
     
     // Get all entries for relationship analysis
     const allEntries = await this.getAllEntries();
     
-    // Generate relationship tags
-    const relationships = await this.semanticTagger.generateRelationshipTags(entry, allEntries);
-    
-    // Generate temporal tags
-    const temporal = this.semanticTagger.generateTemporalTags(entry);
-    
-    // Create enhanced entry
-    const enhancedEntry: ContextEntry = {
-      ...entry,
-      semanticTags,
-      relationships,
-      temporal,
-      updatedAt: new Date().toISOString(),
-    };
-    
-    // Add semantic tags to regular tags for backward compatibility
-    if (semanticTags?.concepts) {
-      enhancedEntry.tags = [...entry.tags, ...semanticTags.concepts];
-    }
-    if (semanticTags?.semanticCategory) {
-      enhancedEntry.tags.push(semanticTags.semanticCategory);
-    }
-    
-    if (!dryRun) {
-      // Save enhanced entry
-      const entryFile = path.join(this.fossilDir, 'entries', `${entry.id}.json`);
-      await fs.writeFile(entryFile, JSON.stringify(enhancedEntry, null, 2));
-      
-      // Update index
-      const index = await this.loadIndex();
-      if (index.entries[entry.id]) {
-        index.entries[entry.id] = {
-          ...index.entries[entry.id],
-          tags: enhancedEntry.tags,
-          updatedAt: enhancedEntry.updatedAt,
-        };
-      }
+    const enhancedEntries = await Promise.all(entries.map(async (entry, index) => {
+      const tags = semanticTags[index];
+
+      // Generate relationship tags
+      const relationships = await this.semanticTagger.generateRelationshipTags(entry, allEntries);
       
-      // Update tag index
-      enhancedEntry.tags.forEach(tag => {
-        if (!index.tags[tag]) index.tags[tag] = [];
-        if (!index.tags[tag].includes(entry.id)) {
-          index.tags[tag].push(entry.id);
-        }
-      });
+      // Generate temporal tags
+      const temporal = this.semanticTagger.generateTemporalTags(entry);
       
-      index.lastUpdated = enhancedEntry.updatedAt;
-      await this.saveIndex(index);
+      // Add semantic tags to regular tags for backward compatibility
+      const entryTags = [...entry.tags, ...(tags?.concepts ?? [])];
+      if (tags?.semanticCategory) {
+        entryTags.push(tags.semanticCategory);
+      }
+
+      // Tag updates are new versions like any other update, so they keep history
+      return this.nextVersion(entry, { semanticTags: tags, relationships, temporal, tags: entryTags });
+    }));
+    
+    if (!dryRun && enhancedEntries.length > 0) {
+      // Save enhanced entries along with edges for their relationships
+      await (await this.getStore()).writeBatch({ put: enhancedEntries, putEdges: enhancedEntries.flatMap(entry => relationshipEdges(entry)) });
+      await this.updateIndexes(enhancedEntries);
     }
     
-    return enhancedEntry;
+    return enhancedEntries;
   }
 
   /**
    * Get all entries (public method for CLI commands)
    */
   async getAllEntries(): Promise<ContextEntry[]> {
-    const index = await this.loadIndex();
-    const entries: ContextEntry[] = [];
-    
-    for (const id of Object.keys(index.entries)) {
-      const entry = await this.getEntry(id);
-      if (entry) entries.push(entry);
-    }
-    
-    return entries;
-  }
-
-  private generateMarkdownExport(entries: ContextEntry[]): string {
-    let markdown = '# Context Fossil Storage Export\n\n';
-    markdown += `Generated: ${new Date().toISOString()}\n`;
-    markdown += `Total Entries: ${entries.length}\n\n`;
-
-    // Group by type
-    const byType = entries.reduce((acc, entry) => {
-      if (!acc[entry.type]) acc[entry.type] = [];
-      if (acc[entry.type]) {
-        acc[entry.type]!.push(entry);
-      }
-      return acc;
-    }, {} as Record<string, ContextEntry[]>);
-
-    for (const [type, typeEntries] of Object.entries(byType)) {
-      markdown += `## ${type.charAt(0).toUpperCase() + type.slice(1)} (${typeEntries.length})\n\n`;
-      
-      typeEntries.forEach(entry => {
-        markdown += `### ${entry.title}\n\n`;
-        markdown += `**ID:** ${entry.id}\n`;
-        markdown += `**Created:** ${entry.createdAt}\n`;
-        markdown += `**Source:** ${entry.source}\n`;
-        markdown += `**Tags:** ${entry.tags.join(', ')}\n\n`;
-        markdown += `${entry.content}\n\n`;
-        markdown += `---\n\n`;
-      });
-    }
-
-    return markdown;
-  }
-
-  private generateCsvExport(entries: ContextEntry[]): string {
-    const headers = ['id', 'type', 'title', 'content', 'tags', 'source', 'createdAt', 'updatedAt', 'version'];
-    const csv = [headers.join(',')];
-
-    entries.forEach(entry => {
-      const row = [
-        entry.id,
-        entry.type,
-        `"${entry.title.replace(/"/g, '""')}"`,
-        `"${entry.content.replace(/"/g, '""')}"`,
-        `"${entry.tags.join(';')}"`,
-        entry.source,
-        entry.createdAt,
-        entry.updatedAt,
-        entry.version,
-      ];
-      csv.push(row.join(','));
-    });
-
-    return csv.join('\n');
-  }
-
-  private generateYamlExport(entries: ContextEntry[]): string {
-    let yaml = `# Context Fossil Storage Export\n`;
-    yaml += `generated: ${new Date().toISOString()}\n`;
-    yaml += `total_entries: ${entries.length}\n\n`;
-    yaml += `entries:\n`;
-
-    entries.forEach(entry => {
-      yaml += `  - id: ${entry.id}\n`;
-      yaml += `    type: ${entry.type}\n`;
-      yaml += `    title: ${entry.title}\n`;
-      yaml += `    content: |\n`;
-      yaml += `      ${entry.content.split('\n').map(line => `      ${line}`).join('\n')}\n`;
-      yaml += `    tags: [${entry.tags.map(tag => `"${tag}"`).join(', ')}]\n`;
-      yaml += `    source: ${entry.source}\n`;
-      yaml += `    created_at: ${entry.createdAt}\n`;
-      yaml += `    updated_at: ${entry.updatedAt}\n`;
-      yaml += `    version: ${entry.version}\n\n`;
-    });
-
-    return yaml;
+    return (await this.getStore()).getAllEntries();
   }
 
   /**
-   * Calculate content similarity percentage using Levenshtein distance
+   * Find near-duplicate fossils by content, whatever their title.
+   * Candidates come from the LSH index; only they are loaded and compared.
+   * @param similarityThreshold - Minimum estimated similarity (0-100)
+   * @param options - `type` restricts matches to entries of that type
    */
-  private calculateSimilarity(str1: string, str2: string): number {
-    const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
-    
-    for (let i = 0; i <= str1.length; i++) matrix[0]![i] = i;
-    for (let j = 0; j <= str2.length; j++) matrix[j]![0] = j;
-    
-    for (let j = 1; j <= str2.length; j++) {
-      for (let i = 1; i <= str1.length; i++) {
-        const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
-        matrix[j]![i] = Math.min(
-          matrix[j]![i - 1]! + 1, // deletion
-          matrix[j - 1]![i]! + 1, // insertion
-          matrix[j - 1]![i - 1]! + indicator // substitution
-        );
+  private async findSimilarFossils(
+    content: string,
+    similarityThreshold: number = DEFAULT_NEAR_DUPLICATE_THRESHOLD,
+    options: { type?: ContextEntry['type'] } = {}
+  ): Promise<{ fossil: ContextEntry; similarity: number }[]> {
+    const similarFossils: { fossil: ContextEntry; similarity: number }[] = [];
+    const signature = minhashSignature(content);
+    const similarityIndex = await this.loadSimilarityIndex();
+
+    for (const id of similarityIndex.candidates(signature)) {
+      const entry = await this.getEntry(id);
+      if (!entry || (options.type && entry.type !== options.type)) continue;
+      const similarity = signatureSimilarity(signature, this.signatureOf(entry));
+      if (similarity >= similarityThreshold) {
+        similarFossils.push({ fossil: entry, similarity });
       }
     }
-    
-    const maxLength = Math.max(str1.length, str2.length);
-    const similarity = ((maxLength - matrix[str2.length]![str1.length]!) / maxLength) * 100;
-    return Math.round(similarity * 100) / 100; // Round to 2 decimal places
+
+    // Sort by similarity (highest first)
+    return similarFossils.sort((a, b) => b.similarity - a.similarity);
   }
 
   /**
-   * Find similar fossils by title and content similarity
+   * Merge a duplicate group into its first entry: the others become previous
+   * versions, their edges move to the survivor and they are removed
    */
-  private async findSimilarFossils(title: string, content: string, similarityThreshold: number = 60): Promise<{ fossil: ContextEntry; similarity: number }[]> {
-    const index = await this.loadIndex();
-    const similarFossils: { fossil: ContextEntry; similarity: number }[] = [];
-    
-    for (const [id, entryData] of Object.entries(index.entries)) {
-      const entry = await this.getEntry(id);
-      if (!entry) continue;
-      
-      // Check if titles are similar (exact match for now, could be enhanced)
-      if (entry.title === title) {
-        const similarity = this.calculateSimilarity(entry.content, content);
-        if (similarity >= similarityThreshold) {
-          similarFossils.push({ fossil: entry, similarity });
+  private async consolidateGroup(
+    group: ContextEntry[],
+    result: { totalAfter: number; duplicatesFound: number; consolidated: number; storageSaved: number; duplicateGroups: ContextEntry[][] },
+    options: { dryRun: boolean; mergeMetadata?: boolean }
+  ): Promise<void> {
+    result.duplicatesFound++;
+    result.totalAfter -= (group.length - 1);
+    result.storageSaved += (group.length - 1) * 1024;
+    if (!options.dryRun) {
+      const consolidatedEntry = group[0]!;
+      const duplicates = group.slice(1);
+      const previousVersions = duplicates.map(e => {
+        const { previousVersions: _omit, ...entryWithoutPrev } = e;
+        return entryWithoutPrev;
+      });
+      consolidatedEntry.previousVersions = await this.pruneVersions([
+        ...(consolidatedEntry.previousVersions || []),
+        ...previousVersions
+      ]);
+      consolidatedEntry.updatedAt = new Date().toISOString();
+      consolidatedEntry.version += group.length - 1;
+      if (options.mergeMetadata) {
+        for (const duplicate of duplicates) {
+          consolidatedEntry.metadata = {
+            ...consolidatedEntry.metadata,
+            ...duplicate.metadata,
+          };
         }
       }
+      // Merged metadata may carry a duplicate's hash; re-signing makes it cover the survivor's own fields
+      this.signEntry(consolidatedEntry);
+
+      // Save the consolidated entry and drop duplicates in one batch
+      const duplicateIds = duplicates.map(duplicate => duplicate.id);
+      await (await this.getStore()).writeBatch({
+        put: [consolidatedEntry],
+        remove: duplicateIds,
+        putEdges: await this.redirectEdges(duplicateIds, consolidatedEntry.id),
+      });
+      await this.updateIndexes([consolidatedEntry], duplicateIds);
     }
-    
-    // Sort by similarity (highest first)
-    return similarFossils.sort((a, b) => b.similarity - a.similarity);
+    result.consolidated++;
+    result.duplicateGroups.push(group.slice(1));
   }
 
   // Cleanup duplicates
@@ -838,10 +1373,10 @@ export class ContextFossilService {
         }
         duplicates[contentHash].push(entry);
       }
-      // Group by JSON block if present
+      // Group by JSON block if present; like near-duplicates, never across types
       const json = extractJsonBlock(entry.content);
       if (json) {
-        const jsonKey = JSON.stringify(json);
+        const jsonKey = `${entry.type}:${JSON.stringify(json)}`;
         if (!jsonBlockGroups[jsonKey]) jsonBlockGroups[jsonKey] = [];
         jsonBlockGroups[jsonKey].push(entry);
       }
@@ -867,113 +1402,46 @@ export class ContextFossilService {
     };
 
     // Consolidate by content hash and content match (existing logic)
+    const removedIds = new Set<string>();
     for (const [key, group] of Object.entries(duplicates)) {
       if (group.length > 1) {
-        result.duplicatesFound++;
-        result.totalAfter -= (group.length - 1);
-        result.storageSaved += (group.length - 1) * 1024;
-        if (!options.dryRun) {
-          const consolidatedEntry = group[0]!;
-          const previousVersions = group.slice(1).map(e => {
-            const { previousVersions: _omit, ...entryWithoutPrev } = e;
-            return entryWithoutPrev;
-          });
-          consolidatedEntry.previousVersions = [
-            ...(consolidatedEntry.previousVersions || []),
-            ...previousVersions
-          ];
-          consolidatedEntry.updatedAt = new Date().toISOString();
-          consolidatedEntry.version += group.length - 1;
-          if (!consolidatedEntry.metadata?.contentHash) {
-            const contentHash = this.generateContentHash(consolidatedEntry.content, consolidatedEntry.type, consolidatedEntry.title);
-            consolidatedEntry.metadata = {
-              ...consolidatedEntry.metadata,
-              contentHash,
-            };
-          }
-          const entryFile = path.join(this.fossilDir, 'entries', `${consolidatedEntry.id}.json`);
-          await fs.writeFile(entryFile, JSON.stringify(consolidatedEntry, null, 2));
-          for (let i = 1; i < group.length; i++) {
-            const duplicateFile = path.join(this.fossilDir, 'entries', `${group[i]!.id}.json`);
-            try { await fs.unlink(duplicateFile); } catch {}
-          }
-          const updatedIndex = await this.loadIndex();
-          for (let i = 1; i < group.length; i++) {
-            delete updatedIndex.entries[group[i]!.id];
-          }
-          updatedIndex.entries[consolidatedEntry.id] = {
-            id: consolidatedEntry.id,
-            type: consolidatedEntry.type,
-            title: consolidatedEntry.title,
-            tags: consolidatedEntry.tags,
-            source: consolidatedEntry.source,
-            createdAt: consolidatedEntry.createdAt,
-            updatedAt: consolidatedEntry.updatedAt,
-          };
-          updatedIndex.lastUpdated = consolidatedEntry.updatedAt;
-          await this.saveIndex(updatedIndex);
-        }
-        result.consolidated++;
-        result.duplicateGroups.push(group.slice(1));
+        await this.consolidateGroup(group, result, { dryRun: options.dryRun });
+        group.slice(1).forEach(duplicate => removedIds.add(duplicate.id));
       }
     }
 
     // Consolidate by JSON block (new logic)
-    for (const [jsonKey, group] of Object.entries(jsonBlockGroups)) {
+    for (const jsonGroup of Object.values(jsonBlockGroups)) {
+      // Fossils already merged into another by content hash are gone and cannot be merged again
+      const group = jsonGroup.filter(entry => !removedIds.has(entry.id));
       if (group.length > 1) {
-        // Avoid double-consolidating fossils already handled by content hash
-        const alreadyConsolidated = group.every(f => result.duplicateGroups.flat().some(d => d.id === f.id));
-        if (alreadyConsolidated) continue;
-        result.duplicatesFound++;
-        result.totalAfter -= (group.length - 1);
-        result.storageSaved += (group.length - 1) * 1024;
-        if (!options.dryRun) {
-          const consolidatedEntry = group[0]!;
-          const previousVersions = group.slice(1).map(e => {
-            const { previousVersions: _omit, ...entryWithoutPrev } = e;
-            return entryWithoutPrev;
-          });
-          consolidatedEntry.previousVersions = [
-            ...(consolidatedEntry.previousVersions || []),
-            ...previousVersions
-          ];
-          consolidatedEntry.updatedAt = new Date().toISOString();
-          consolidatedEntry.version += group.length - 1;
-          // Merge metadata
-          for (let i = 1; i < group.length; i++) {
-            consolidatedEntry.metadata = {
-              ...consolidatedEntry.metadata,
-              ...group[i]!.metadata,
-            };
-          }
-          const entryFile = path.join(this.fossilDir, 'entries', `${consolidatedEntry.id}.json`);
-          await fs.writeFile(entryFile, JSON.stringify(consolidatedEntry, null, 2));
-          for (let i = 1; i < group.length; i++) {
-            const duplicateFile = path.join(this.fossilDir, 'entries', `${group[i]!.id}.json`);
-            try { await fs.unlink(duplicateFile); } catch {}
-          }
-          const updatedIndex = await this.loadIndex();
-          for (let i = 1; i < group.length; i++) {
-            delete updatedIndex.entries[group[i]!.id];
-          }
-          updatedIndex.entries[consolidatedEntry.id] = {
-            id: consolidatedEntry.id,
-            type: consolidatedEntry.type,
-            title: consolidatedEntry.title,
-            tags: consolidatedEntry.tags,
-            source: consolidatedEntry.source,
-            createdAt: consolidatedEntry.createdAt,
-            updatedAt: consolidatedEntry.updatedAt,
-          };
-          updatedIndex.lastUpdated = consolidatedEntry.updatedAt;
-          await this.saveIndex(updatedIndex);
-        }
-        result.consolidated++;
-        result.duplicateGroups.push(group.slice(1));
+        await this.consolidateGroup(group, result, { dryRun: options.dryRun, mergeMetadata: true });
+        group.slice(1).forEach(duplicate => removedIds.add(duplicate.id));
         console.log(`🔍 Consolidated fossils by JSON block: ${group.map(f => f.id).join(', ')}`);
       }
     }
 
+    // Consolidate near-duplicates (MinHash LSH, across titles, within a type) among the remaining fossils
+    const remaining = allEntries.filter(entry => !removedIds.has(entry.id));
+    const signatures = new Map(remaining.map(entry => [entry.id, this.signatureOf(entry)]));
+    const nearDuplicateIndex = new FossilSimilarityIndex();
+    nearDuplicateIndex.rebuild([...signatures].map(([id, signature]) => ({ id, signature })));
+    const byId = new Map(remaining.map(entry => [entry.id, entry]));
+    const grouped = new Set<string>();
+    for (const entry of remaining) {
+      if (grouped.has(entry.id)) continue;
+      const signature = signatures.get(entry.id)!;
+      const matches = nearDuplicateIndex.candidates(signature)
+        .filter(id => id !== entry.id && !grouped.has(id) && byId.get(id)!.type === entry.type)
+        .filter(id => signatureSimilarity(signature, signatures.get(id)!) >= options.similarityThreshold);
+      if (matches.length === 0) continue;
+
+      const group = [entry, ...remaining.filter(other => matches.includes(other.id))];
+      group.forEach(member => grouped.add(member.id));
+      await this.consolidateGroup(group, result, { dryRun: options.dryRun, mergeMetadata: true });
+      console.log(`🔍 Consolidated near-duplicate fossils: ${group.map(f => f.id).join(', ')}`);
+    }
+
     return result;
   }
 }
@@ -1014,9 +1482,11 @@ program
   .option('--source <source>', 'Entry source (llm|terminal|api|manual|automated)', 'manual')
   .option('--parent-id <id>', 'Parent entry ID')
   .option('--metadata <metadata>', 'JSON string for additional metadata')
+  .option('--similarity-threshold <number>', 'Near-duplicate similarity (0-100) above which an existing fossil is updated instead')
+  .option('--no-cache', 'Bypass the LLM response cache for tagging')
   .action(async (options) => {
     try {
-      const service = new ContextFossilService();
+      const service = new ContextFossilService(options.cache ? undefined : { enableCaching: false });
       await service.initialize();
       let metadata = {};
       if (options.metadata) {
@@ -1037,6 +1507,8 @@ program
         metadata,
         version: 1,
         children: [],
+      }, {
+        similarityThreshold: options.similarityThreshold !== undefined ? parseFloat(options.similarityThreshold) : undefined,
       });
       console.log('✅ Entry added:', entry.id);
     } catch (error) {
@@ -1052,7 +1524,8 @@ program
   .option('-t, --type <type>', 'Filter by type')
   .option('--tags <tags>', 'Comma-separated tags to filter by')
   .option('--source <source>', 'Filter by source')
-  .option('--search <search>', 'Search in title and content')
+  .option('--search <search>', 'Full-text search in title, tags and content ("phrase", prefix*)')
+  .option('--semantic <text>', 'Semantic search: nearest entries by embedding cosine similarity (top --limit)')
   .option('--limit <number>', 'Limit results', '50')
   .option('--offset <number>', 'Offset for pagination', '0')
   .option('--format <format>', 'Output format (json|table)', 'table')
@@ -1070,14 +1543,24 @@ program
         offset: parseInt(options.offset),
       };
 
-      const entries = await service.queryEntries(query);
+      if (options.semantic && options.search) {
+        console.error('❌ Use either --search or --semantic, not both');
+        process.exit(1);
+      }
+
+      const results: Array<{ entry: ContextEntry; score?: number }> = options.semantic
+        ? await service.semanticSearch(options.semantic, query)
+        : query.search
+          ? await service.searchEntries({ ...query, search: query.search })
+          : (await service.queryEntries(query)).map(entry => ({ entry }));
 
       if (options.format === 'json') {
-        console.log(JSON.stringify(entries, null, 2));
+        console.log(JSON.stringify(results.map(({ entry, score }) => score === undefined ? entry : { ...entry, score }), null, 2));
       } else {
-        console.log(`Found ${entries.length} entries:\n`);
-        entries.forEach(entry => {
+        console.log(`Found ${results.length} entries:\n`);
+        results.forEach(({ entry, score }) => {
           console.log(`📝 ${entry.title} (${entry.type})`);
+          if (score !== undefined) console.log(`   Score: ${score.toFixed(4)}`);
           console.log(`   ID: ${entry.id}`);
           console.log(`   Tags: ${entry.tags.join(', ')}`);
           console.log(`   Source: ${entry.source}`);
@@ -1092,6 +1575,27 @@ program
     }
   });
 
+// Rebuild search index
+program
+  .command('reindex')
+  .description('Rebuild the full-text search, near-duplicate and vector indexes')
+  .action(async () => {
+    try {
+      const service = new ContextFossilService();
+      await service.initialize();
+
+      const count = await service.rebuildSearchIndex();
+      console.log(`✅ Search index rebuilt: ${count} entries indexed`);
+      const similarityCount = await service.rebuildSimilarityIndex();
+      console.log(`✅ Near-duplicate index rebuilt: ${similarityCount} entries indexed`);
+      const vectorCount = await service.rebuildVectorIndex();
+      console.log(`✅ Vector index rebuilt: ${vectorCount} entries embedded`);
+    } catch (error) {
+      console.error('❌ Error rebuilding indexes:', error);
+      process.exit(1);
+    }
+  });
+
 // Get entry
 program
   .command('get')
@@ -1146,6 +1650,110 @@ program
     }
   });
 
+// Version history
+program
+  .command('history')
+  .description('Show the version history of an entry with a line-level diff')
+  .argument('<id>', 'Entry ID')
+  .option('--from <version>', 'Base version of the diff (default: the version before --to)')
+  .option('--to <version>', 'Target version of the diff (default: current version)')
+  .option('--json', 'Output versions as JSON', false)
+  .action(async (id, options) => {
+    try {
+      const service = new ContextFossilService();
+      await service.initialize();
+
+      const history = await service.getHistory(id);
+      if (!history) {
+        console.error('❌ Entry not found');
+        process.exit(1);
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(history, null, 2));
+        return;
+      }
+
+      console.log(`📜 History of ${id} (${history.length} version${history.length === 1 ? '' : 's'}):`);
+      history.forEach((version, index) => {
+        const marker = index === history.length - 1 ? ' (current)' : '';
+        console.log(`   v${version.version}  ${version.updatedAt}  ${version.title}${marker}`);
+      });
+
+      // Resolve versions from the end so duplicate numbers (from consolidation) pick the latest
+      const findIndex = (version: string) => history.map(v => v.version).lastIndexOf(parseInt(version));
+      const toIndex = options.to !== undefined ? findIndex(options.to) : history.length - 1;
+      const fromIndex = options.from !== undefined ? findIndex(options.from) : toIndex - 1;
+      if (toIndex < 0 || (options.from !== undefined && fromIndex < 0)) {
+        console.error('❌ Version not found in history');
+        process.exit(1);
+      }
+      if (fromIndex < 0) {
+        console.log('\nNo earlier version to compare against.');
+        return;
+      }
+
+      const before = history[fromIndex]!;
+      const after = history[toIndex]!;
+      const { content: beforeContent, updatedAt: _b, version: _bv, ...beforeFields } = before;
+      const { content: afterContent, updatedAt: _a, version: _av, ...afterFields } = after;
+      const fields = diffEntryFields(beforeFields, afterFields);
+      const changedFields = [...fields.addedFields, ...fields.removedFields, ...fields.changedFields];
+
+      console.log(`\n🔍 v${before.version} → v${after.version}`);
+      if (changedFields.length > 0) console.log(`   Fields changed: ${changedFields.join(', ')}`);
+      const contentDiff = formatLineDiff(diffLines(beforeContent, afterContent));
+      console.log(contentDiff ? `\n${contentDiff}` : '\n   Content unchanged');
+    } catch (error) {
+      console.error('❌ Error showing history:', error);
+      process.exit(1);
+    }
+  });
+
+// Roll back to an earlier version
+program
+  .command('revert')
+  .description('Revert an entry to an earlier version (recorded as a new version)')
+  .argument('<id>', 'Entry ID')
+  .requiredOption('--to <version>', 'Version number to restore')
+  .action(async (id, options) => {
+    try {
+      const service = new ContextFossilService();
+      await service.initialize();
+
+      const entry = await service.revertEntry(id, parseInt(options.to));
+      if (!entry) {
+        console.error('❌ Entry not found');
+        process.exit(1);
+      }
+
+      console.log(`✅ Reverted ${entry.id} to v${options.to} (now v${entry.version})`);
+    } catch (error) {
+      console.error('❌ Error reverting entry:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('version-retention')
+  .description(`Configure how many previous versions each entry keeps (default: ${DEFAULT_VERSION_RETENTION.maxVersions})`)
+  .option('--keep <number>', 'Keep at most this many previous versions per entry')
+  .option('--max-age-days <days>', 'Drop previous versions older than this many days')
+  .option('--clear', 'Restore the default policy', false)
+  .action(async (options) => {
+    try {
+      const service = new ContextFossilService();
+      const retention = await service.setVersionRetention(options.clear ? undefined : {
+        maxVersions: options.keep !== undefined ? parseInt(options.keep) : undefined,
+        maxAgeDays: options.maxAgeDays !== undefined ? parseInt(options.maxAgeDays) : undefined,
+      });
+      console.log('✅ Version retention:', JSON.stringify(retention ?? DEFAULT_VERSION_RETENTION));
+    } catch (error) {
+      console.error('❌ Error configuring version retention:', error);
+      process.exit(1);
+    }
+  });
+
 // Export
 program
   .command('export')
@@ -1154,6 +1762,8 @@ program
   .option('--output <file>', 'Output file path')
   .option('--type <type>', 'Filter by type')
   .option('--tags <tags>', 'Comma-separated tags to filter by')
+  .option('--limit <number>', 'Maximum entries to export', '100')
+  .option('--flatten-metadata', 'CSV only: add a metadata.<key> column per metadata key', false)
   .action(async (options) => {
     try {
       const service = new ContextFossilService();
@@ -1166,7 +1776,7 @@ program
         offset: 0,
       };
 
-      const exportPath = await service.export(options.format as any, query);
+      const exportPath = await service.export(options.format as FossilExportFormat, query, true, { flattenMetadata: options.flattenMetadata });
       console.log(`✅ Export completed: ${exportPath}`);
     } catch (error) {
       console.error('❌ Error exporting:', error);
@@ -1174,6 +1784,418 @@ program
     }
   });
 
+// Import
+program
+  .command('import <file>')
+  .description('Import fossils from an export file (json|markdown|csv|yaml)')
+  .option('-f, --format <format>', 'Import format (default: inferred from the file extension)')
+  .option('--strategy <strategy>', `Merge strategy for existing ids (${IMPORT_MERGE_STRATEGIES.join('|')})`, 'skip')
+  .option('--dry-run', 'Report what would change without writing', false)
+  .option('--json', 'Print the report as JSON', false)
+  .action(async (file, options) => {
+    try {
+      if (!IMPORT_MERGE_STRATEGIES.includes(options.strategy)) {
+        console.error(`❌ Unknown merge strategy: ${options.strategy} (expected ${IMPORT_MERGE_STRATEGIES.join(', ')})`);
+        process.exit(1);
+      }
+
+      const service = new ContextFossilService();
+      await service.initialize();
+
+      const report = await service.importFile(file, {
+        format: options.format as FossilExportFormat | undefined,
+        strategy: options.strategy as ImportMergeStrategy,
+        dryRun: options.dryRun,
+      });
+
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+      }
+
+      const icons: Record<ImportEntryResult['action'], string> = {
+        add: '➕',
+        overwrite: '✏️',
+        'version-bump': '⬆️',
+        skip: '⏭️',
+        unchanged: '·',
+      };
+      console.log(`📥 ${options.dryRun ? 'Dry run: ' : ''}importing ${file} (${report.format}, strategy: ${report.strategy})`);
+      for (const result of report.results) {
+        const target = result.targetId && result.targetId !== result.id ? ` → ${result.targetId}` : '';
+        const fields = result.changedFields.length > 0 ? ` [${result.changedFields.join(', ')}]` : '';
+        const reason = result.reason ? ` (${result.reason})` : '';
+        console.log(`  ${icons[result.action]} ${result.action}: ${result.id}${target} - ${result.title}${fields}${reason}`);
+      }
+      for (const error of report.errors) {
+        console.log(`  ❌ invalid record #${error.index + 1}${error.id ? ` (${error.id})` : ''}: ${error.message}`);
+      }
+
+      const { counts } = report;
+      console.log(`\n${options.dryRun ? '🔍 Would import' : '✅ Imported'}: ${counts.add} added, ${counts.overwrite} overwritten, ${counts['version-bump']} version-bumped, ${counts.skip} skipped, ${counts.unchanged} unchanged, ${report.errors.length} invalid`);
+    } catch (error) {
+      console.error('❌ Error importing:', error);
+      process.exit(1);
+    }
+  });
+
+// Snapshots
+const snapshotCommand = program
+  .command('snapshot')
+  .description('Create, list, restore, diff and prune fossil storage snapshots');
+
+snapshotCommand
+  .command('create')
+  .description('Create a snapshot of the current fossil storage')
+  .requiredOption('--name <name>', 'Snapshot name')
+  .action(async (options) => {
+    try {
+      const service = new ContextFossilService();
+      await service.initialize();
+
+      const snapshot = await service.createSnapshot(options.name);
+      console.log(`✅ Snapshot created: ${snapshot.id} (${snapshot.entryCount} entries)`);
+    } catch (error) {
+      console.error('❌ Error creating snapshot:', error);
+      process.exit(1);
+    }
+  });
+
+snapshotCommand
+  .command('list')
+  .description('List snapshots, newest first')
+  .option('--json', 'Output as JSON array')
+  .action(async (options) => {
+    try {
+      const service = new ContextFossilService();
+      await service.initialize();
+
+      const snapshots = await service.listSnapshots();
+      if (options.json) {
+        console.log(JSON.stringify(snapshots, null, 2));
+        return;
+      }
+      if (snapshots.length === 0) {
+        console.log('No snapshots found.');
+        return;
+      }
+      console.table(snapshots.map(snapshot => ({
+        ID: snapshot.id,
+        Name: snapshot.name,
+        Created: snapshot.timestamp,
+        Entries: snapshot.entryCount,
+      })));
+    } catch (error) {
+      console.error('❌ Error listing snapshots:', error);
+      process.exit(1);
+    }
+  });
+
+snapshotCommand
+  .command('restore')
+  .description('Replace the fossil storage contents with a snapshot')
+  .argument('<id>', 'Snapshot ID')
+  .option('--no-backup', 'Skip the safety snapshot of the current state')
+  .action(async (id, options) => {
+    try {
+      const service = new ContextFossilService();
+      await service.initialize();
+
+      const result = await service.restoreSnapshot(id, options.backup);
+      if (result.backupId) {
+        console.log(`📦 Previous state saved as snapshot: ${result.backupId}`);
+      }
+      console.log(`✅ Restored ${result.restored} entries from snapshot ${id}`);
+      await service.close();
+    } catch (error) {
+      console.error('❌ Error restoring snapshot:', error);
+      process.exit(1);
+    }
+  });
+
+snapshotCommand
+  .command('diff')
+  .description('Show per-entry changes between a snapshot and the live store (or a second snapshot)')
+  .argument('<from>', 'Baseline snapshot ID')
+  .argument('[to]', 'Snapshot ID to compare with (defaults to the live store)')
+  .option('--format <format>', 'Output format (json|text)', 'text')
+  .action(async (fromId, toId, options) => {
+    try {
+      const service = new ContextFossilService();
+      await service.initialize();
+
+      const diff = await service.diffSnapshots(fromId, toId);
+      if (options.format === 'json') {
+        console.log(JSON.stringify(diff, null, 2));
+        return;
+      }
+
+      console.log(`📊 Snapshot diff: ${fromId} → ${toId ?? 'live'}`);
+      console.log(`   Added: ${diff.added.length}  Removed: ${diff.removed.length}  Changed: ${diff.changed.length}  Unchanged: ${diff.unchanged}\n`);
+      diff.added.forEach(entry => console.log(`+ ${entry.id}: "${entry.title}"`));
+      diff.removed.forEach(entry => console.log(`- ${entry.id}: "${entry.title}"`));
+      diff.changed.forEach(entry => {
+        console.log(`~ ${entry.id}: "${entry.title}"`);
+        if (entry.addedFields.length > 0) console.log(`    added fields: ${entry.addedFields.join(', ')}`);
+        if (entry.removedFields.length > 0) console.log(`    removed fields: ${entry.removedFields.join(', ')}`);
+        if (entry.changedFields.length > 0) console.log(`    changed fields: ${entry.changedFields.join(', ')}`);
+      });
+    } catch (error) {
+      console.error('❌ Error diffing snapshots:', error);
+      process.exit(1);
+    }
+  });
+
+snapshotCommand
+  .command('prune')
+  .description('Delete snapshots beyond the retention limits')
+  .option('--keep <number>', 'Keep at most this many snapshots (newest first)')
+  .option('--max-age-days <days>', 'Delete snapshots older than this many days')
+  .option('--dry-run', 'Show what would be deleted without making changes', false)
+  .action(async (options) => {
+    try {
+      const service = new ContextFossilService();
+      await service.initialize();
+
+      // Falls back to the configured retention policy when no limits are given
+      const pruned = await service.pruneSnapshots({
+        maxCount: options.keep !== undefined ? parseInt(options.keep) : undefined,
+        maxAgeDays: options.maxAgeDays !== undefined ? parseInt(options.maxAgeDays) : undefined,
+        dryRun: options.dryRun,
+      });
+      pruned.forEach(snapshot => console.log(`🗑️  ${snapshot.id} (${snapshot.name}, ${snapshot.timestamp})`));
+      console.log(options.dryRun
+        ? `🔍 Would delete ${pruned.length} snapshots`
+        : `✅ Deleted ${pruned.length} snapshots`);
+    } catch (error) {
+      console.error('❌ Error pruning snapshots:', error);
+      process.exit(1);
+    }
+  });
+
+snapshotCommand
+  .command('retention')
+  .description('Configure snapshot retention (applied after each new snapshot)')
+  .option('--keep <number>', 'Keep at most this many snapshots')
+  .option('--max-age-days <days>', 'Delete snapshots older than this many days')
+  .option('--clear', 'Remove the retention policy', false)
+  .action(async (options) => {
+    try {
+      const service = new ContextFossilService();
+      const retention = await service.setSnapshotRetention(options.clear ? undefined : {
+        maxCount: options.keep !== undefined ? parseInt(options.keep) : undefined,
+        maxAgeDays: options.maxAgeDays !== undefined ? parseInt(options.maxAgeDays) : undefined,
+      });
+      console.log('✅ Snapshot retention:', JSON.stringify(retention ?? 'none'));
+    } catch (error) {
+      console.error('❌ Error configuring snapshot retention:', error);
+      process.exit(1);
+    }
+  });
+
+// Relationship graph
+const parseEdgeTypes = (value?: string): FossilEdgeType[] | undefined => {
+  if (!value) return undefined;
+  const types = value.split(',').map(type => type.trim());
+  const unknown = types.find(type => !FOSSIL_EDGE_TYPES.includes(type as FossilEdgeType));
+  if (unknown !== undefined) {
+    throw new Error(`Unknown relationship type "${unknown}" (expected ${FOSSIL_EDGE_TYPES.join(', ')})`);
+  }
+  return types as FossilEdgeType[];
+};
+
+const graphCommand = program
+  .command('graph')
+  .description('Query and export the typed relationship graph between entries');
+
+graphCommand
+  .command('export', { isDefault: true })
+  .description('Export the relationship graph as DOT or Mermaid')
+  .option('-f, --format <format>', 'Output format (dot|mermaid)', 'dot')
+  .option('--type <types>', `Comma-separated relationship types (${FOSSIL_EDGE_TYPES.join(', ')})`)
+  .option('--root <id>', 'Only include entries connected to this entry')
+  .option('--depth <number>', 'Maximum hops from --root')
+  .option('--output <file>', 'Write to a file instead of stdout')
+  .action(async (options) => {
+    try {
+      if (options.format !== 'dot' && options.format !== 'mermaid') {
+        throw new Error(`Unsupported graph format: ${options.format}`);
+      }
+      const service = new ContextFossilService();
+      await service.initialize();
+
+      const graph = await service.exportGraph(options.format, {
+        types: parseEdgeTypes(options.type),
+        root: options.root,
+        depth: options.depth !== undefined ? parseInt(options.depth) : undefined,
+      });
+
+      if (options.output) {
+        await fs.writeFile(options.output, graph + '\n');
+        console.log(`✅ Graph written to ${options.output}`);
+      } else {
+        console.log(graph);
+      }
+    } catch (error) {
+      console.error('❌ Error exporting graph:', error);
+      process.exit(1);
+    }
+  });
+
+graphCommand
+  .command('link')
+  .description('Add a typed relationship from one entry to another')
+  .argument('<from>', 'Source entry ID')
+  .argument('<to>', 'Target entry ID')
+  .requiredOption('--type <type>', `Relationship type (${FOSSIL_EDGE_TYPES.join(', ')})`)
+  .action(async (from, to, options) => {
+    try {
+      const service = new ContextFossilService();
+      await service.initialize();
+
+      const [type] = parseEdgeTypes(options.type)!;
+      await service.addRelationship(from, to, type!);
+      console.log(`✅ ${from} --${type}--> ${to}`);
+    } catch (error) {
+      console.error('❌ Error adding relationship:', error);
+      process.exit(1);
+    }
+  });
+
+graphCommand
+  .command('unlink')
+  .description('Remove a typed relationship')
+  .argument('<from>', 'Source entry ID')
+  .argument('<to>', 'Target entry ID')
+  .requiredOption('--type <type>', `Relationship type (${FOSSIL_EDGE_TYPES.join(', ')})`)
+  .action(async (from, to, options) => {
+    try {
+      const service = new ContextFossilService();
+      await service.initialize();
+
+      const [type] = parseEdgeTypes(options.type)!;
+      if (!await service.removeRelationship(from, to, type!)) {
+        console.error('❌ Relationship not found');
+        process.exit(1);
+      }
+      console.log(`✅ Removed ${from} --${type}--> ${to}`);
+    } catch (error) {
+      console.error('❌ Error removing relationship:', error);
+      process.exit(1);
+    }
+  });
+
+graphCommand
+  .command('path')
+  .description('Find the shortest relationship path between two entries')
+  .argument('<from>', 'Start entry ID')
+  .argument('<to>', 'End entry ID')
+  .option('--type <types>', 'Comma-separated relationship types to follow')
+  .option('--undirected', 'Follow edges in either direction', false)
+  .action(async (from, to, options) => {
+    try {
+      const service = new ContextFossilService();
+      await service.initialize();
+
+      const pathIds = await service.findRelationshipPath(from, to, {
+        types: parseEdgeTypes(options.type),
+        direction: options.undirected ? 'both' : 'out',
+      });
+      if (!pathIds) {
+        console.log(`No path from ${from} to ${to}`);
+        process.exit(1);
+      }
+      console.log(`🔗 Path (${pathIds.length - 1} hop${pathIds.length === 2 ? '' : 's'}):`);
+      pathIds.forEach(id => console.log(`   ${id}`));
+    } catch (error) {
+      console.error('❌ Error finding path:', error);
+      process.exit(1);
+    }
+  });
+
+graphCommand
+  .command('closure')
+  .description('List every entry reachable from an entry (transitive closure)')
+  .argument('<id>', 'Start entry ID')
+  .option('--type <types>', 'Comma-separated relationship types to follow', 'depends-on')
+  .option('--reverse', 'Follow edges backwards (e.g. everything that depends on <id>)', false)
+  .option('--depth <number>', 'Maximum number of hops')
+  .option('--json', 'Output as JSON', false)
+  .action(async (id, options) => {
+    try {
+      const service = new ContextFossilService();
+      await service.initialize();
+
+      const reached = await service.getTransitiveRelationships(id, {
+        types: parseEdgeTypes(options.type),
+        direction: options.reverse ? 'in' : 'out',
+        maxDepth: options.depth !== undefined ? parseInt(options.depth) : undefined,
+      });
+      if (options.json) {
+        console.log(JSON.stringify(reached, null, 2));
+        return;
+      }
+      console.log(`🕸️  ${reached.length} entr${reached.length === 1 ? 'y' : 'ies'} reachable from ${id}:`);
+      reached.forEach(reach => console.log(`   [${reach.depth}] ${reach.id}`));
+    } catch (error) {
+      console.error('❌ Error computing closure:', error);
+      process.exit(1);
+    }
+  });
+
+graphCommand
+  .command('cycles')
+  .description('Detect relationship cycles (exits non-zero when any are found)')
+  .option('--type <types>', 'Comma-separated relationship types to check', 'depends-on,supersedes')
+  .action(async (options) => {
+    try {
+      const service = new ContextFossilService();
+      await service.initialize();
+
+      const cycles = await service.findRelationshipCycles(parseEdgeTypes(options.type));
+      if (cycles.length === 0) {
+        console.log('✅ No cycles found');
+        return;
+      }
+      console.log(`⚠️  ${cycles.length} cycle${cycles.length === 1 ? '' : 's'} found:`);
+      cycles.forEach(cycle => console.log(`   ${cycle.join(' → ')}`));
+      process.exit(1);
+    } catch (error) {
+      console.error('❌ Error detecting cycles:', error);
+      process.exit(1);
+    }
+  });
+
+// Migrate between storage backends
+program
+  .command('migrate-store')
+  .description('Move fossil data to another storage backend and switch to it')
+  .requiredOption('--to <backend>', 'Target backend (fs|sqlite)')
+  .option('--dry-run', 'Show what would be migrated without making changes', false)
+  .action(async (options) => {
+    try {
+      if (options.to !== 'fs' && options.to !== 'sqlite') {
+        console.error('❌ Invalid backend. Use fs or sqlite');
+        process.exit(1);
+      }
+
+      const service = new ContextFossilService();
+      await service.initialize();
+
+      const result = await service.migrateStore(options.to as FossilStoreKind, options.dryRun);
+      if (options.dryRun) {
+        console.log(`🔍 Would migrate ${result.entries} entries from ${result.from} to ${result.to}`);
+      } else {
+        console.log(`✅ Migrated ${result.entries} entries from ${result.from} to ${result.to}`);
+        console.log(`   Active backend: ${result.to} (previous ${result.from} data left in place)`);
+      }
+      await service.close();
+    } catch (error) {
+      console.error('❌ Error migrating fossil storage:', error);
+      process.exit(1);
+    }
+  });
+
 // Statistics
 program
   .command('stats')
@@ -1245,7 +2267,7 @@ program
   .description('Clean up duplicate fossils and consolidate them')
   .option('--dry-run', 'Show what would be cleaned up without making changes', false)
   .option('--backup', 'Create backup before cleanup', true)
-  .option('--similarity-threshold <number>', 'Similarity threshold for consolidation', '80')
+  .option('--similarity-threshold <number>', 'Near-duplicate similarity (0-100) for consolidating fossils with different content', '80')
   .option('--report-file <file>', 'Output cleanup report to file')
   .action(async (options) => {
     try {
@@ -1314,9 +2336,11 @@ program
   .option('--dry-run', 'Show what would be enhanced without making changes', false)
   .option('--entry-id <id>', 'Enhance specific entry by ID')
   .option('--all', 'Enhance all existing fossils', false)
+  .option('--concurrency <count>', 'LLM calls in flight at once when enhancing all fossils')
+  .option('--no-cache', 'Bypass the LLM response cache and re-tag from scratch')
   .action(async (options) => {
     try {
-      const service = new ContextFossilService();
+      const service = new ContextFossilService(options.cache ? undefined : { enableCaching: false });
       await service.initialize();
 
       console.log('🧠 Starting fossil enhancement process...\n');
@@ -1344,14 +2368,15 @@ program
         const allEntries = await service.getAllEntries();
         console.log(`📊 Found ${allEntries.length} entries to enhance\n`);
 
-        let enhanced = 0;
-        for (const entry of allEntries) {
-          console.log(`📝 Enhancing: ${entry.title}`);
-          await service.enhanceEntryWithTags(entry, options.dryRun);
-          enhanced++;
-        }
+        const enhanced = await service.enhanceEntriesWithTags(allEntries, options.dryRun, {
+          concurrency: options.concurrency ? parseInt(options.concurrency) : undefined,
+          onProgress: ({ completed, failed, total, result }) => {
+            const status = result.success ? '📝' : '⚠️';
+            console.log(`${status} [${completed}/${total}] ${allEntries[result.index]!.title}${failed > 0 ? ` (${failed} fell back to basic tags)` : ''}`);
+          },
+        });
 
-        console.log(`\n✅ Enhanced ${enhanced} entries`);
+        console.log(`\n✅ Enhanced ${enhanced.length} entries`);
       } else {
         console.error('❌ Please specify --entry-id <id> or --all');
         process.exit(1);
@@ -1377,7 +2402,9 @@ program
   .option('--json', 'Output as JSON array')
   .action(async (options) => {
     try {
-      let summary = await getFossilSummary();
+      const service = new ContextFossilService();
+      await service.initialize();
+      let summary = await getFossilSummary(await service.getAllEntries());
       if (options.type) {
         summary = summary.filter(f => f.type === options.type);
       }
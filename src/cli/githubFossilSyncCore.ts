@@ -2,6 +2,21 @@ import { GitHubFossilManager } from '../utils/githubFossilManager';
 import { yamlToJson } from '../utils/yamlToJson';
 import { E2ERoadmap } from '../types';
 import { GitHubService } from '../services/github';
+import { createGitHubClient } from '../services/github-client';
+import { GitHubProjects, type ProjectRoadmapSyncResult } from '../services/github-projects';
+import {
+  DEFAULT_ROADMAP_SYNC_STATE,
+  applyRoadmapSyncPlan,
+  loadRoadmapSyncState,
+  migrateRoadmapTaskIds,
+  planRoadmapSync,
+  saveRoadmapSyncState,
+  writeRoadmap,
+  type RoadmapSyncPlan,
+  type RoadmapSyncResult,
+  type RoadmapSyncSide,
+} from '../utils/roadmapSync';
+import { anchorRoadmapTasks, indexIssuesByTaskId, type TaskLinkMigration } from '../utils/taskAnchor';
 import * as fs from 'fs';
 
 export interface GithubFossilSyncOptions {
@@ -108,4 +123,102 @@ export async function githubFossilSync(options: GithubFossilSyncOptions): Promis
 
   const summary = `Issues created: ${issues.length}, Milestones created: ${milestones.length}, Labels created: ${labels.length}`;
   return { issues, milestones, labels, fossilCollection, outputPath, summary };
-} 
\ No newline at end of file
+}
+
+export interface GithubRoadmapSyncOptions {
+  owner: string;
+  repo: string;
+  roadmapPath: string;
+  /** Last synced state (default `fossils/roadmap_sync_state.json`) */
+  statePath?: string;
+  prefer?: RoadmapSyncSide;
+  importLabel?: string;
+  dryRun?: boolean;
+}
+
+export interface GithubRoadmapSyncResult {
+  roadmap: E2ERoadmap;
+  plan: RoadmapSyncPlan;
+  /** Absent on dry runs */
+  result?: RoadmapSyncResult;
+}
+
+/**
+ * Two-way sync: push task edits to their issues, pull issue edits into the roadmap,
+ * create issues for new tasks and import new `roadmap` issues as tasks. The roadmap
+ * and the sync state are rewritten unless `dryRun` is set.
+ */
+export async function githubRoadmapSync(options: GithubRoadmapSyncOptions): Promise<GithubRoadmapSyncResult> {
+  const { owner, repo, roadmapPath, statePath = DEFAULT_ROADMAP_SYNC_STATE, prefer, importLabel, dryRun = false } = options;
+  if (!fs.existsSync(roadmapPath)) {
+    throw new Error(`Roadmap file not found: ${roadmapPath}`);
+  }
+
+  const roadmap = yamlToJson<E2ERoadmap>(roadmapPath);
+  anchorRoadmapTasks(roadmap);
+  const state = loadRoadmapSyncState(statePath);
+  const client = createGitHubClient(owner, repo);
+  const issues = await client.listIssues({ state: 'all' });
+  const plan = planRoadmapSync(roadmap, issues, state, { prefer, importLabel });
+  if (dryRun) {
+    return { roadmap, plan };
+  }
+
+  const manager = new GitHubFossilManager(owner, repo);
+  const issuesByTaskId = indexIssuesByTaskId(issues);
+  const result = await applyRoadmapSyncPlan(plan, roadmap, issues, state, client, {
+    importLabel,
+    createIssue: async (task) => {
+      const fossil = await manager.createIssueForTask(task, roadmap);
+      if (fossil?.issueNumber) return fossil.issueNumber;
+      // Deduplicated against an existing fossil: link the issue that already carries the task id,
+      // which predates this run, so the listing above has it
+      return task.id ? issuesByTaskId.get(task.id)?.number : undefined;
+    },
+  });
+  writeRoadmap(roadmapPath, roadmap);
+  saveRoadmapSyncState(result.state, statePath);
+  return { roadmap, plan, result };
+}
+
+/**
+ * Give roadmap tasks ids and link them to the issues created before ids existed. The
+ * roadmap is rewritten unless `dryRun` is set.
+ */
+export async function githubRoadmapMigrateIds(options: Pick<GithubRoadmapSyncOptions, 'owner' | 'repo' | 'roadmapPath' | 'dryRun'>): Promise<TaskLinkMigration> {
+  const { owner, repo, roadmapPath, dryRun = false } = options;
+  if (!fs.existsSync(roadmapPath)) {
+    throw new Error(`Roadmap file not found: ${roadmapPath}`);
+  }
+
+  const roadmap = yamlToJson<E2ERoadmap>(roadmapPath);
+  const client = createGitHubClient(owner, repo);
+  const migration = await migrateRoadmapTaskIds(roadmap, await client.listIssues({ state: 'all' }), client, { dryRun });
+  if (!dryRun) writeRoadmap(roadmapPath, roadmap);
+  return migration;
+}
+
+export interface GithubRoadmapProjectSyncOptions {
+  owner: string;
+  repo: string;
+  roadmapPath: string;
+  projectNumber: number;
+  /** User or organization owning the project (default: `owner`) */
+  projectOwner?: string;
+  dryRun?: boolean;
+}
+
+/**
+ * Push the status, owner, deadline, milestone and priority of each linked roadmap task
+ * onto the project board. Nothing is written when `dryRun` is set.
+ */
+export async function githubRoadmapProjectSync(options: GithubRoadmapProjectSyncOptions): Promise<ProjectRoadmapSyncResult> {
+  const { owner, repo, roadmapPath, projectNumber, projectOwner, dryRun = false } = options;
+  if (!fs.existsSync(roadmapPath)) {
+    throw new Error(`Roadmap file not found: ${roadmapPath}`);
+  }
+
+  const roadmap = yamlToJson<E2ERoadmap>(roadmapPath);
+  const projects = new GitHubProjects(createGitHubClient(owner, repo), projectNumber, { projectOwner });
+  return projects.syncRoadmap(roadmap, { dryRun });
+}
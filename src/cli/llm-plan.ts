@@ -10,8 +10,12 @@
 import { Command } from 'commander';
 import { getEnv } from '../core/config';
 import { LLMService } from '../services/llm';
+import type { PromptRef, RenderedPrompt } from '../services/llm-prompts';
+import { StructuredOutputError } from '../services/llm-structured';
 import { PlanRequestSchema, TaskBreakdownSchema } from '@/types/schemas';
+import type { ContextEntry } from '../types';
 import type { Task } from '../types/workflow';
+import { ContextFossilService } from './context-fossil';
 
 // For type inference:
 type PlanRequest = typeof PlanRequestSchema._type;
@@ -28,63 +32,139 @@ class LLMPlanningService {
   private model: string;
   private apiKey: string;
   private llmService: LLMService;
+  private timeoutMs?: number;
+  /** Prompt template versions rendered so far, for fossils of the results */
+  readonly promptsUsed: PromptRef[] = [];
 
-  constructor(model: string, apiKey: string) {
+  /**
+   * @param llmService - Service to make the calls through (default: one configured for planning)
+   */
+  constructor(model: string, apiKey: string, timeoutMs?: number, llmService?: LLMService) {
     this.config = getEnv();
     this.model = model;
     this.apiKey = apiKey;
-    this.llmService = new LLMService({
+    this.timeoutMs = timeoutMs;
+    this.llmService = llmService ?? new LLMService({
       maxCostPerCall: 0.15, // Higher cost for planning
       minValueScore: 0.6, // High value for planning tasks
     });
   }
 
+  /**
+   * Render a prompt template, remembering its version in `promptsUsed`
+   */
+  private renderPrompt(id: string, variables: Record<string, unknown>): RenderedPrompt {
+    const rendered = this.llmService.renderPrompt(id, variables);
+    if (!this.promptsUsed.some(used => used.id === id && used.version === rendered.prompt.version)) {
+      this.promptsUsed.push(rendered.prompt);
+    }
+    return rendered;
+  }
+
+  /**
+   * Record a result as a fossil, with the prompt template versions that produced it
+   */
+  async fossilizeResult(
+    fossilService: Pick<ContextFossilService, 'initialize' | 'addEntry'>,
+    result: Pick<ContextEntry, 'type' | 'title' | 'content' | 'tags'>
+  ): Promise<ContextEntry> {
+    await fossilService.initialize();
+    return fossilService.addEntry({
+      ...result,
+      tags: ['llm-plan', ...result.tags],
+      source: 'llm',
+      version: 1,
+      children: [],
+      metadata: { model: this.model, promptTemplates: [...this.promptsUsed] },
+    });
+  }
+
+  /**
+   * Completion text for a rendered prompt, streamed through `onDelta` as it arrives when given
+   */
+  private async complete(
+    rendered: RenderedPrompt,
+    call: { context: string; purpose: string; valueScore: number },
+    onDelta?: (delta: string) => void
+  ): Promise<string> {
+    const options = { model: this.model, apiKey: this.apiKey, ...rendered, ...call, timeoutMs: this.timeoutMs };
+    if (!onDelta) {
+      const response = await this.llmService.callLLM(options);
+      return response.choices?.[0]?.message?.content || 'No response';
+    }
+
+    let content = '';
+    for await (const chunk of this.llmService.streamLLM(options)) {
+      content += chunk.delta;
+      onDelta(chunk.delta);
+    }
+    return content || 'No response';
+  }
+
   /**
    * Decomposes a high-level goal into actionable tasks
    * @param goal - The goal to decompose
    * @param context - Additional context for planning
    * @param issueMode - Treat the goal/context as a GitHub issue for checklist generation
-   * @returns Structured task breakdown
+   * @param onDelta - Receives the LLM output as it streams in
+   * @returns Structured task breakdown. Goals are decomposed into schema-validated tasks; issue
+   * checklists and streamed output come back as a single task holding the LLM's text.
    */
-  async decomposeGoal(goal: string, context?: Record<string, unknown>, issueMode: boolean = false): Promise<TaskBreakdown> {
+  async decomposeGoal(goal: string, context?: Record<string, unknown>, issueMode: boolean = false, onDelta?: (delta: string) => void): Promise<TaskBreakdown> {
     if (this.model && this.apiKey) {
-      const messages = [
-        { role: 'system' as const, content: 'You are an expert project planner.' },
-        { role: 'user' as const, content: issueMode
-          ? `Given this GitHub issue, generate a concise checklist of actionable steps required to resolve it. Output the checklist in Markdown format.\n\nIssue Title: ${goal}\nContext: ${JSON.stringify(context || {})}`
-          : `Break down the following goal into actionable tasks.\nGoal: ${goal}\nContext: ${JSON.stringify(context || {})}`
-        },
-      ];
-      const response = await this.llmService.callLLM({ 
-        model: this.model, 
-        apiKey: this.apiKey, 
-        messages,
+      const rendered = issueMode
+        ? this.renderPrompt('issue-checklist', { title: goal, context: context || {} })
+        : this.renderPrompt('goal-decomposition', { goal, context: context || {} });
+      const call = {
         context: 'goal-decomposition',
         purpose: issueMode ? 'issue-checklist' : 'goal-decomposition',
         valueScore: 0.8 // High value for planning
-      });
-      // You may want to parse/validate response. For now, just return the content as a single task.
-      const content = response.choices?.[0]?.message?.content || 'No response';
-      return {
-        tasks: [
-          {
-            id: 'llm-task',
-            title: 'LLM Output',
-            description: content,
-            acceptanceCriteria: [],
-            dependencies: [],
-            estimatedEffort: '',
-            priority: 'high',
-          },
-        ],
-        timeline: { startDate: new Date().toISOString(), endDate: new Date().toISOString(), milestones: [] },
-        risks: [],
       };
+
+      if (!issueMode && !onDelta) {
+        try {
+          return await this.llmService.callLLM({
+            model: this.model,
+            apiKey: this.apiKey,
+            ...rendered,
+            ...call,
+            timeoutMs: this.timeoutMs,
+            schema: TaskBreakdownSchema,
+          });
+        } catch (error) {
+          if (!(error instanceof StructuredOutputError)) throw error;
+          console.warn(`⚠️ ${error.message}; returning the raw output`);
+          return this.singleTaskBreakdown(error.lastOutput || 'No response');
+        }
+      }
+
+      return this.singleTaskBreakdown(await this.complete(rendered, call, onDelta));
     }
     // fallback simulation
     return await this.simulateDecomposeGoal(goal, context);
   }
 
+  /**
+   * Breakdown with the LLM's unstructured output as its only task
+   */
+  private singleTaskBreakdown(content: string): TaskBreakdown {
+    return {
+      tasks: [
+        {
+          id: 'llm-task',
+          title: 'LLM Output',
+          description: content,
+          acceptanceCriteria: [],
+          dependencies: [],
+          estimatedEffort: '',
+          priority: 'high',
+        },
+      ],
+      timeline: { startDate: new Date().toISOString(), endDate: new Date().toISOString(), milestones: [] },
+      risks: [],
+    };
+  }
+
   private async simulateDecomposeGoal(goal: string, context?: Record<string, unknown>): Promise<TaskBreakdown> {
     console.log('🤖 Decomposing goal with LLM assistance...');
     
@@ -218,23 +298,16 @@ class LLMPlanningService {
    * Generates content with LLM assistance
    * @param contentType - Type of content to generate
    * @param topic - Topic for the content
+   * @param onDelta - Receives the content as it streams in
    * @returns Generated content
    */
-  async generateContent(contentType: string, topic: string): Promise<string> {
+  async generateContent(contentType: string, topic: string, onDelta?: (delta: string) => void): Promise<string> {
     if (this.model && this.apiKey) {
-      const messages = [
-        { role: 'system' as const, content: `You are an expert ${contentType} writer.` },
-        { role: 'user' as const, content: `Generate ${contentType} content about: ${topic}` },
-      ];
-      const response = await this.llmService.callLLM({ 
-        model: this.model, 
-        apiKey: this.apiKey, 
-        messages,
+      return await this.complete(this.renderPrompt('content-generation', { contentType, topic }), {
         context: 'content-generation',
         purpose: 'content-generation',
         valueScore: 0.7 // High value for content generation
-      });
-      return response.choices?.[0]?.message?.content || 'No response';
+      }, onDelta);
     }
     // fallback simulation
     return await this.simulateGenerateContent(contentType, topic);
@@ -300,8 +373,14 @@ program
   .version('1.0.0')
   .option('--quiet', 'Suppress all output except errors', false)
   .option('--json', 'Output the plan as JSON (default)')
+  .option('--no-cache', 'Bypass the LLM response cache')
+  .option('--no-fossilize', 'Do not record plans and content as context fossils')
   .hook('preAction', (thisCommand) => {
     isQuiet = thisCommand.opts().quiet || process.env.LLM_PLAN_QUIET === '1';
+    if (thisCommand.opts().cache === false) {
+      // Read by every LLMService created for this run
+      process.env.LLM_NO_CACHE = '1';
+    }
     if (isQuiet) {
       // Suppress all output
       // @ts-ignore
@@ -311,6 +390,29 @@ program
     }
   });
 
+/**
+ * Writer for streamed LLM output, or undefined when not streaming (or quiet)
+ */
+const streamTo = (stream: NodeJS.WriteStream, enabled?: boolean) =>
+  enabled && !isQuiet ? (delta: string) => { stream.write(delta); } : undefined;
+
+const parseTimeout = (seconds?: string): number | undefined =>
+  seconds ? parseFloat(seconds) * 1000 : undefined;
+
+/**
+ * Fossilize a result unless `--no-fossilize` was given; reported on stderr so stdout stays parseable
+ */
+async function fossilizeUnlessDisabled(service: LLMPlanningService, result: Pick<ContextEntry, 'type' | 'title' | 'content' | 'tags'>): Promise<void> {
+  if (program.opts().fossilize === false) return;
+  const fossilService = new ContextFossilService();
+  try {
+    const fossil = await service.fossilizeResult(fossilService, result);
+    console.error(`🗿 Fossilized as: ${fossil.id}`);
+  } finally {
+    await fossilService.close();
+  }
+}
+
 // Goal decomposition command
 program
   .command('decompose')
@@ -321,11 +423,14 @@ program
   .option('--model <model>', 'LLM model to use (e.g., gpt-4, gpt-3.5-turbo)', 'gpt-4')
   .option('--api-key <apiKey>', 'OpenAI API key (optional, falls back to env)')
   .option('--issue-mode', 'Treat the goal/context as a GitHub issue for checklist generation')
+  .option('--stream', 'Stream the LLM output to stderr as it arrives (stdout stays JSON)')
+  .option('--timeout <seconds>', 'Give up on a provider after this many seconds')
   .action(async (goal, options) => {
     try {
       const model = options.model || 'gpt-4';
       const apiKey = options.apiKey || process.env.OPENAI_API_KEY;
-      const service = new LLMPlanningService(model, apiKey);
+      const service = new LLMPlanningService(model, apiKey, parseTimeout(options.timeout));
+      const onDelta = streamTo(process.stderr, options.stream);
       
       let context: Record<string, unknown> = {};
       if (options.context) {
@@ -343,15 +448,24 @@ program
         breakdown = await service.decomposeGoal(
           goal,
           context,
-          true // issueMode
+          true, // issueMode
+          onDelta
         );
       } else {
         breakdown = await service.decomposeGoal(
           goal,
           context,
-          false // issueMode
+          false, // issueMode
+          onDelta
         );
       }
+      if (onDelta) process.stderr.write('\n');
+      await fossilizeUnlessDisabled(service, {
+        type: 'plan',
+        title: `LLM Plan - ${goal.slice(0, 80)}`,
+        content: JSON.stringify(breakdown, null, 2),
+        tags: ['llm', 'plan', ...(options.issueMode ? ['issue-checklist'] : [])],
+      });
       
       if (options.output) {
         // Write to file
@@ -422,18 +536,28 @@ program
   .option('-o, --output <file>', 'Output file for the content')
   .option('--model <model>', 'LLM model to use (e.g., gpt-4, gpt-3.5-turbo)', 'gpt-4')
   .option('--api-key <apiKey>', 'OpenAI API key (optional, falls back to env)')
+  .option('--stream', 'Print the content as it arrives')
+  .option('--timeout <seconds>', 'Give up on a provider after this many seconds')
   .action(async (type, topic, options) => {
     try {
       const model = options.model || 'gpt-4';
       const apiKey = options.apiKey || process.env.OPENAI_API_KEY;
-      const service = new LLMPlanningService(model, apiKey);
-      const content = await service.generateContent(type, topic);
+      const service = new LLMPlanningService(model, apiKey, parseTimeout(options.timeout));
+      const onDelta = streamTo(process.stdout, options.stream);
+      const content = await service.generateContent(type, topic, onDelta);
+      if (onDelta) process.stdout.write('\n');
+      await fossilizeUnlessDisabled(service, {
+        type: 'knowledge',
+        title: `LLM ${type} - ${topic.slice(0, 80)}`,
+        content,
+        tags: ['llm', 'content', type],
+      });
       
       if (options.output) {
         const fs = await import('fs/promises');
         await fs.writeFile(options.output, content);
         console.log(`✅ Content saved to ${options.output}`);
-      } else {
+      } else if (!onDelta) {
         console.log(content);
       }
     } catch (error) {
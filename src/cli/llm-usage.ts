@@ -9,6 +9,10 @@
 
 import { Command } from 'commander';
 import { LLMService, LLMOptimizationConfig } from '../services/llm';
+import { BUDGET_PERIODS, budgetId, type BudgetPeriod, type LLMBudget } from '../services/llm-budget';
+import { createOpenAICompatibleProvider, localBackendFromEnv } from '../services/llm-openai-compatible';
+import { comparePromptVersions } from '../services/llm-prompts';
+import type { UsageRange } from '../services/llm-usage-log';
 import { UsageReportSchema, OptimizationConfigSchema } from '@/types/schemas';
 
 // For type inference:
@@ -26,26 +30,39 @@ program
   .option('--prefer-cloud', 'Prefer cloud LLM for all tasks')
   .option('--auto', 'Use intelligent routing (default)');
 
+/**
+ * Date range of a report: `--since`/`--until`, else the last `--days` days
+ */
+function reportRange(options: { days?: string; since?: string; until?: string }): UsageRange {
+  const parseDay = (value: string, flag: string) => {
+    const date = new Date(`${value}T00:00:00.000Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(date.getTime())) {
+      throw new Error(`Invalid ${flag} date "${value}" (expected YYYY-MM-DD)`);
+    }
+    return date;
+  };
+  const since = options.since
+    ? parseDay(options.since, '--since')
+    : options.days ? new Date(Date.now() - parseInt(options.days) * 24 * 60 * 60 * 1000) : undefined;
+  const until = options.until ? parseDay(options.until, '--until') : undefined;
+  return { since, until };
+}
+
 // Usage report command
 program
   .command('report')
   .description('Generate LLM usage report')
   .option('-f, --format <format>', 'Output format (text, json, csv)', 'text')
-  .option('-d, --days <days>', 'Number of days to analyze', '30')
+  .option('-d, --days <days>', 'Number of days to analyze (ignored with --since)', '30')
+  .option('--since <date>', 'First day to include (YYYY-MM-DD, UTC)')
+  .option('--until <date>', 'Last day to include (YYYY-MM-DD, UTC)')
   .option('-p, --purpose <purpose>', 'Filter by purpose')
   .option('-r, --provider <provider>', 'Filter by provider')
   .action(async (options) => {
     try {
       const llmService = new LLMService();
-      const analytics = llmService.getUsageAnalytics();
-      
-      // Filter by days if specified
-      if (options.days) {
-        const cutoffDate = new Date();
-        cutoffDate.setDate(cutoffDate.getDate() - parseInt(options.days));
-        // Note: This would require filtering the usage log by date
-        // For now, we'll show all data
-      }
+      const range = reportRange(options);
+      const analytics = llmService.getUsageAnalytics(range);
       
       switch (options.format) {
         case 'json':
@@ -58,7 +75,7 @@ program
           });
           break;
         default:
-          console.log(llmService.generateUsageReport());
+          console.log(llmService.generateUsageReport(range));
       }
     } catch (error) {
       console.error('❌ Error generating usage report:', error);
@@ -76,9 +93,18 @@ program
   .option('--enable-local-llm', 'Enable local LLM support', true)
   .option('--enable-caching', 'Enable response caching', true)
   .option('--cache-expiry <hours>', 'Cache expiry in hours', '24')
+  .option('--cache-max-entries <count>', 'Maximum cached responses', '1000')
+  .option('--cache-max-size <mb>', 'Maximum response cache size in MB', '50')
+  .option('--cache-purposes <purposes>', 'Comma-separated purposes whose responses are cached')
   .option('--retry-attempts <attempts>', 'Number of retry attempts', '3')
   .option('--retry-delay <ms>', 'Retry delay in milliseconds', '1000')
   .option('--rate-limit-delay <ms>', 'Rate limit delay in milliseconds', '60000')
+  .option('--provider-chain <providers>', 'Comma-separated providers to try, in order')
+  .option('--circuit-failure-threshold <count>', 'Consecutive failures that open a provider\'s circuit', '3')
+  .option('--circuit-cooldown <ms>', 'How long an open circuit skips its provider', '300000')
+  .option('--structured-repair-attempts <count>', 'Re-prompts after invalid structured output', '2')
+  .option('--usage-log-max-size <mb>', 'Size at which the usage log segment is rotated, in MB', '5')
+  .option('--batch-concurrency <count>', 'Calls in flight at once for batch calls', '4')
   .option('--show', 'Show current configuration')
   .action(async (options) => {
     try {
@@ -99,9 +125,18 @@ program
       if (options.enableLocalLlm !== undefined) config.enableLocalLLM = options.enableLocalLlm;
       if (options.enableCaching !== undefined) config.enableCaching = options.enableCaching;
       if (options.cacheExpiry) config.cacheExpiryHours = parseInt(options.cacheExpiry);
+      if (options.cacheMaxEntries) config.cacheMaxEntries = parseInt(options.cacheMaxEntries);
+      if (options.cacheMaxSize) config.cacheMaxSizeMB = parseFloat(options.cacheMaxSize);
+      if (options.cachePurposes) config.cachePurposes = options.cachePurposes.split(',').map((p: string) => p.trim());
       if (options.retryAttempts) config.retryAttempts = parseInt(options.retryAttempts);
       if (options.retryDelay) config.retryDelayMs = parseInt(options.retryDelay);
       if (options.rateLimitDelay) config.rateLimitDelayMs = parseInt(options.rateLimitDelay);
+      if (options.providerChain) config.providerChain = options.providerChain.split(',').map((p: string) => p.trim());
+      if (options.circuitFailureThreshold) config.circuitFailureThreshold = parseInt(options.circuitFailureThreshold);
+      if (options.circuitCooldown) config.circuitCooldownMs = parseInt(options.circuitCooldown);
+      if (options.structuredRepairAttempts) config.structuredRepairAttempts = parseInt(options.structuredRepairAttempts);
+      if (options.usageLogMaxSize) config.usageLogMaxSegmentMB = parseFloat(options.usageLogMaxSize);
+      if (options.batchConcurrency) config.batchConcurrency = parseInt(options.batchConcurrency);
       
       // Create new service with updated config
       const updatedService = new LLMService(config);
@@ -113,6 +148,267 @@ program
     }
   });
 
+// Budget commands
+const budgetCommand = program
+  .command('budget')
+  .description('Show, set and remove daily/weekly/monthly spend budgets');
+
+const progressBar = (used: number, width: number = 20): string => {
+  const filled = Math.min(width, Math.round(Math.min(used, 1) * width));
+  return '█'.repeat(filled) + '░'.repeat(width - filled);
+};
+
+budgetCommand
+  .command('show', { isDefault: true })
+  .description('Show current-period spend and burn-down for each budget')
+  .option('--json', 'Output as JSON', false)
+  .action(async (options) => {
+    try {
+      const llmService = new LLMService();
+      const statuses = await llmService.getBudgetStatuses();
+
+      if (options.json) {
+        console.log(JSON.stringify(statuses, null, 2));
+        return;
+      }
+      if (statuses.length === 0) {
+        console.log('📭 No budgets configured. Add one with: llm-usage budget set --period daily --limit 5');
+        return;
+      }
+
+      for (const status of statuses) {
+        const icon = status.exhausted ? '🛑' : status.projected > status.budget.limit ? '⚠️' : '✅';
+        console.log(`${icon} ${status.id} (${status.budget.onExhausted} when exhausted)`);
+        console.log(`   ${progressBar(status.used)} $${status.spent.toFixed(4)} of $${status.budget.limit.toFixed(2)} (${(status.used * 100).toFixed(1)}%), ${status.calls} calls`);
+        console.log(`   Remaining: $${status.remaining.toFixed(4)} until ${status.periodEnd}`);
+        console.log(`   Projected: $${status.projected.toFixed(4)} at the current rate`);
+        if (status.burnDown.length > 1) {
+          console.log('   Burn-down:');
+          status.burnDown.forEach(day => {
+            console.log(`     ${day.date} ${progressBar(day.spent / status.budget.limit, 10)} $${day.remaining.toFixed(4)} left`);
+          });
+        }
+        console.log('');
+      }
+    } catch (error) {
+      console.error('❌ Error showing budgets:', error);
+      process.exit(1);
+    }
+  });
+
+budgetCommand
+  .command('set')
+  .description('Add or replace a budget (one per period, context and purpose)')
+  .requiredOption('--period <period>', `Budget period (${BUDGET_PERIODS.join('|')})`)
+  .requiredOption('--limit <usd>', 'Maximum spend per period ($)')
+  .option('--context <context>', 'Only limit calls with this context')
+  .option('--purpose <purpose>', 'Only limit calls with this purpose')
+  .option('--on-exhausted <action>', 'stop (throw) or degrade (local model or fallback)', 'degrade')
+  .action(async (options) => {
+    try {
+      const limit = parseFloat(options.limit);
+      if (!BUDGET_PERIODS.includes(options.period) || isNaN(limit) || limit < 0 || !['stop', 'degrade'].includes(options.onExhausted)) {
+        console.error(`❌ Invalid budget: period must be ${BUDGET_PERIODS.join('|')}, limit a non-negative number, on-exhausted stop|degrade`);
+        process.exit(1);
+      }
+
+      const budget: LLMBudget = {
+        period: options.period as BudgetPeriod,
+        limit,
+        context: options.context,
+        purpose: options.purpose,
+        onExhausted: options.onExhausted,
+      };
+      await new LLMService().setBudget(budget);
+      console.log(`✅ Budget ${budgetId(budget)}: $${limit.toFixed(2)} (${budget.onExhausted} when exhausted)`);
+    } catch (error) {
+      console.error('❌ Error setting budget:', error);
+      process.exit(1);
+    }
+  });
+
+budgetCommand
+  .command('remove <id>')
+  .description('Remove a budget by id (e.g. daily:all, weekly:context=llm-plan)')
+  .action(async (id) => {
+    try {
+      if (!(await new LLMService().removeBudget(id))) {
+        console.error(`❌ No budget with id ${id}`);
+        process.exit(1);
+      }
+      console.log(`✅ Budget ${id} removed`);
+    } catch (error) {
+      console.error('❌ Error removing budget:', error);
+      process.exit(1);
+    }
+  });
+
+// Response cache command
+program
+  .command('cache')
+  .description('Show response cache size and savings, or clear it')
+  .option('--clear', 'Remove every cached response', false)
+  .action(async (options) => {
+    try {
+      const llmService = new LLMService();
+      const cache = llmService.getResponseCache();
+
+      if (options.clear) {
+        const removed = await cache.clear();
+        console.log(`🧹 Removed ${removed} cached responses`);
+        return;
+      }
+
+      const stats = await cache.stats();
+      const analytics = llmService.getUsageAnalytics();
+      console.log('🗄️ LLM Response Cache');
+      console.log(`- Entries: ${stats.entries} (${(stats.bytes / 1024).toFixed(1)} KB)`);
+      console.log(`- Hits: ${analytics.cacheHits} (${(analytics.cacheHitRate * 100).toFixed(1)}% of cacheable calls)`);
+      console.log(`- Saved: $${analytics.cacheSavings.toFixed(4)}`);
+    } catch (error) {
+      console.error('❌ Error reading response cache:', error);
+      process.exit(1);
+    }
+  });
+
+// Provider health command
+program
+  .command('providers')
+  .description('Show circuit breaker state of each provider, or reset it')
+  .option('--reset [provider]', 'Close a provider\'s circuit (all providers when no name is given)')
+  .option('--json', 'Output as JSON', false)
+  .action(async (options) => {
+    try {
+      const llmService = new LLMService();
+
+      if (options.reset) {
+        const reset = await llmService.resetProviderHealth(options.reset === true ? undefined : options.reset);
+        console.log(reset.length > 0 ? `🔄 Reset ${reset.join(', ')}` : '📭 Nothing to reset');
+        return;
+      }
+
+      const health = await llmService.getProviderHealth();
+      if (options.json) {
+        console.log(JSON.stringify(health, null, 2));
+        return;
+      }
+      if (health.length === 0) {
+        console.log('📭 No provider health recorded yet');
+        return;
+      }
+
+      const icons = { closed: '✅', 'half-open': '🟡', open: '🛑' };
+      for (const provider of health) {
+        console.log(`${icons[provider.state]} ${provider.provider} (${provider.state})`);
+        console.log(`   Successes: ${provider.totalSuccesses}, failures: ${provider.totalFailures} (${provider.consecutiveFailures} in a row)`);
+        if (provider.retryAt && provider.state === 'open') {
+          console.log(`   Skipped until: ${provider.retryAt}`);
+        }
+        if (provider.lastError) {
+          console.log(`   Last error (${provider.lastFailureAt}): ${provider.lastError}`);
+        }
+      }
+    } catch (error) {
+      console.error('❌ Error reading provider health:', error);
+      process.exit(1);
+    }
+  });
+
+// Pricing table command
+program
+  .command('pricing')
+  .description('Show the model pricing table used for cost estimates (.llm-pricing.json over the built-in prices)')
+  .option('--json', 'Output as JSON', false)
+  .action(async (options) => {
+    try {
+      const pricing = new LLMService().getPricingTable();
+
+      if (options.json) {
+        console.log(JSON.stringify(pricing, null, 2));
+        return;
+      }
+
+      console.log(`💲 Pricing table ${pricing.version} (${pricing.currency} per 1M tokens)`);
+      Object.entries(pricing.models)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .forEach(([model, price]) => {
+          console.log(`- ${model.padEnd(24)} input $${price.input.toFixed(2).padStart(6)}  output $${price.output.toFixed(2).padStart(6)}`);
+        });
+      console.log(pricing.fallback ? `Unknown models are priced as ${pricing.fallback}` : 'Unknown models are not priced');
+    } catch (error) {
+      console.error('❌ Error reading pricing table:', error);
+      process.exit(1);
+    }
+  });
+
+// Prompt template commands
+program
+  .command('prompts')
+  .description('List the prompt templates in prompts/ and the version each one renders')
+  .option('--json', 'Output as JSON', false)
+  .action(async (options) => {
+    try {
+      const registry = new LLMService().getPromptRegistry();
+      const templates = registry.list();
+
+      if (options.json) {
+        console.log(JSON.stringify(templates, null, 2));
+        return;
+      }
+      if (templates.length === 0) {
+        console.log('📭 No prompt templates found');
+        return;
+      }
+
+      console.log('📝 Prompt templates');
+      for (const id of [...new Set(templates.map(template => template.id))]) {
+        const active = registry.get(id);
+        const versions = templates.filter(template => template.id === id).map(template => template.version === active.version ? `v${template.version}*` : `v${template.version}`);
+        const variables = Object.entries(active.variables).map(([name, type]) => `${name}: ${type}`).join(', ');
+        console.log(`- ${id} (${versions.join(', ')})${active.description ? ` - ${active.description}` : ''}`);
+        console.log(`   Variables: ${variables || 'none'}`);
+      }
+      console.log('* rendered version (pin others with LLM_PROMPT_VERSIONS=id=version,...)');
+    } catch (error) {
+      console.error('❌ Error loading prompt templates:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('compare-prompts [id]')
+  .description('Compare success rate, cost and validation pass-rate between prompt template versions')
+  .option('--days <days>', 'Number of days to compare', '30')
+  .option('--json', 'Output as JSON', false)
+  .action(async (id, options) => {
+    try {
+      const since = new Date();
+      since.setDate(since.getDate() - parseInt(options.days));
+      const stats = comparePromptVersions(await new LLMService().getUsageLog(since), id);
+
+      if (options.json) {
+        console.log(JSON.stringify(stats, null, 2));
+        return;
+      }
+      if (stats.length === 0) {
+        console.log(`📭 No calls from ${id ? `prompt template ${id}` : 'prompt templates'} in the last ${options.days} days`);
+        return;
+      }
+
+      const percent = (rate: number | null) => rate === null ? 'n/a' : `${(rate * 100).toFixed(1)}%`;
+      console.log(`🧪 Prompt template versions (last ${options.days} days)`);
+      for (const templateId of [...new Set(stats.map(row => row.id))]) {
+        console.log(`\n${templateId}`);
+        for (const row of stats.filter(row => row.id === templateId)) {
+          console.log(`  v${row.version}: ${row.calls} calls, ${percent(row.successRate)} success, $${row.averageCost.toFixed(4)}/call ($${row.totalCost.toFixed(4)} total), ${percent(row.validationPassRate)} valid${row.validatedCalls > 0 ? ` of ${row.validatedCalls}` : ''}`);
+        }
+      }
+    } catch (error) {
+      console.error('❌ Error comparing prompt versions:', error);
+      process.exit(1);
+    }
+  });
+
 // Analyze wasteful calls command
 program
   .command('analyze-waste')
@@ -126,9 +422,38 @@ program
       const analytics = llmService.getUsageAnalytics();
       
       console.log('🔍 Analyzing potentially wasteful LLM calls...\n');
+
+      const since = new Date();
+      since.setDate(since.getDate() - parseInt(options.days));
+      const calls = await llmService.getUsageLog(since);
+      const minCost = parseFloat(options.minCost);
+      const maxValueScore = parseFloat(options.maxValueScore);
+
+      const wasteful = calls
+        .filter(call => call.cost >= minCost && call.valueScore <= maxValueScore)
+        .sort((a, b) => b.cost - a.cost);
+      const failedSpend = calls.filter(call => !call.success).reduce((sum, call) => sum + call.cost, 0);
+      // Records from before per-model input/output pricing only priced the estimated input
+      const unpriced = calls.filter(call => call.pricingVersion === undefined && !call.cacheHit).length;
+
+      console.log(`📋 ${calls.length} calls in the last ${options.days} days`);
+      if (wasteful.length > 0) {
+        console.log(`\n💸 ${wasteful.length} calls cost ≥ $${minCost} with value score ≤ ${maxValueScore} ($${wasteful.reduce((sum, call) => sum + call.cost, 0).toFixed(4)} total):`);
+        wasteful.slice(0, 10).forEach(call => {
+          console.log(`  → ${call.timestamp} ${call.purpose} (${call.model}): ${call.inputTokens} in / ${call.outputTokens} out, $${call.cost.toFixed(4)}, value ${call.valueScore}`);
+        });
+        if (wasteful.length > 10) console.log(`  … and ${wasteful.length - 10} more`);
+      } else {
+        console.log('✅ No calls above the cost threshold with a low value score');
+      }
+      if (failedSpend > 0) {
+        console.log(`\n❌ $${failedSpend.toFixed(4)} spent on failed calls`);
+      }
+      if (unpriced > 0) {
+        console.log(`\n⚠️ ${unpriced} calls predate token-accurate pricing; their costs are input-only estimates`);
+      }
+      console.log('');
       
-      // This would require access to the detailed usage log
-      // For now, we'll provide general recommendations
       console.log('💡 General Waste Reduction Recommendations:');
       
       if (analytics.averageValueScore < parseFloat(options.maxValueScore)) {
@@ -168,9 +493,31 @@ program
   .command('test-local')
   .description('Test local LLM availability and performance')
   .option('--model <model>', 'Model to test', 'llama2')
+  .option('--base-url <url>', 'Test an OpenAI-compatible server (llama.cpp, vLLM, LM Studio) instead of Ollama')
   .action(async (options) => {
     try {
       console.log('🧪 Testing local LLM availability...\n');
+
+      // OpenAI-compatible server from --base-url or LOCAL_LLM_BASE_URL
+      const backend = options.baseUrl ? { name: 'local-openai', baseUrl: options.baseUrl } : localBackendFromEnv();
+      if (backend) {
+        const provider = createOpenAICompatibleProvider(backend, () => 0);
+        if (!await provider.isAvailable()) {
+          console.log(`❌ ${backend.baseUrl} is not reachable (GET /models failed)`);
+          return;
+        }
+        console.log(`✅ ${backend.baseUrl} is available`);
+
+        const started = Date.now();
+        const result = await provider.call({
+          model: options.model,
+          apiKey: '',
+          messages: [{ role: 'user', content: 'Say "Hello, local LLM is working!"' }],
+        });
+        console.log(`✅ Local LLM test successful (${Date.now() - started}ms)`);
+        console.log('Response:', result.choices?.[0]?.message?.content);
+        return;
+      }
       
       const llmService = new LLMService({ enableLocalLLM: true });
       
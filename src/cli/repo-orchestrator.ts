@@ -1256,10 +1256,13 @@ class RepoOrchestratorService {
     if (planMode === 'global' || planMode === 'both') {
       const summary = issues.map(i => `#${i.number}: ${i.title}\n${i.body || ''}`).join('\n---\n');
       const plan = await llmService.decomposeGoal(summary);
-      if (plan && plan.tasks && plan.tasks[0] && typeof plan.tasks[0].description === 'string') {
-        globalPlan = plan.tasks[0].description;
+      if (plan && plan.tasks && plan.tasks.length > 0) {
+        // Validated breakdowns list one task per item; unstructured output is a single 'llm-task'
+        globalPlan = plan.tasks
+          .map(task => task.id === 'llm-task' ? task.description : `- [ ] ${task.title}`)
+          .join('\n');
         // Parse checklist items for allTasks
-        const tasks = plan.tasks[0].description.match(/- \[.\] (.+)/g) || [];
+        const tasks = globalPlan.match(/- \[.\] (.+)/g) || [];
         for (const t of tasks) {
           allTasks.push({ issue: null, task: t.replace(/- \[.\] /, '') });
         }
@@ -1276,7 +1279,7 @@ class RepoOrchestratorService {
       source: 'llm',
       version: 1,
       children: [],
-      metadata: {},
+      metadata: { promptTemplates: [...llmService.promptsUsed] },
     });
     console.log(`Plan fossilized as: ${fossil.id}`);
     return { perIssueChecklists, globalPlan, allTasks, fossilId: fossil.id };
@@ -1,7 +1,23 @@
 // If you see a type error for 'js-yaml', run: bun add -d @types/js-yaml
 // If needed, add: declare module 'js-yaml';
 import { Command } from "commander";
-import { syncTrackerWithGitHub } from '../utils/syncTracker';
+import {
+  DEFAULT_SYNC_JOURNAL_PATH,
+  DEFAULT_SYNC_PLAN_PATH,
+  applyTrackerSyncPlan,
+  formatTrackerSyncPlan,
+  loadTrackerSyncPlan,
+  migrateTrackerTaskIds,
+  planTrackerSync,
+  revertTrackerSync,
+  saveTrackerSyncPlan,
+  syncTrackerWithGitHub,
+  type TrackerSyncRunResult,
+  type TrackerSyncStep,
+} from '../utils/syncTracker';
+import { SyncJournal } from '../utils/syncJournal';
+import { formatTaskLinkMigration } from '../utils/taskAnchor';
+import { createGitHubClient } from '../services/github-client';
 
 const program = new Command();
 
@@ -29,6 +45,100 @@ program
     });
   });
 
+function reportRun(verb: string, result: TrackerSyncRunResult) {
+  console.log(`\n${result.failed.length === 0 ? '✅' : '⚠️'} ${verb} plan ${result.planId}: ${result.done.length} done, ${result.skipped.length} skipped, ${result.failed.length} failed`);
+  for (const failure of result.failed) {
+    console.error(`❌ ${failure.stepId}: ${failure.error}`);
+  }
+  if (result.failed.length > 0) process.exit(1);
+}
+
+program
+  .command("plan")
+  .description("Print every change sync-tracker would make and save the plan for apply")
+  .option("--auto-close", "Auto-close issues for checked-off items")
+  .option("--sync-tests", "Sync missing tests/fossils from fossils/project_status.yml")
+  .option("--out <path>", "Where to save the plan", DEFAULT_SYNC_PLAN_PATH)
+  .action(async (opts) => {
+    try {
+      const plan = await planTrackerSync({
+        trackerMdPath: TRACKER_MD,
+        projectStatusYmlPath: PROJECT_STATUS_YML,
+        owner: OWNER,
+        repo: REPO,
+        projectNumber: PROJECT_NUMBER,
+        autoClose: opts.autoClose,
+        syncTests: opts.syncTests,
+      });
+      const lines = formatTrackerSyncPlan(plan);
+      console.log(lines.length > 0 ? lines.join("\n") : "✅ Nothing to change");
+      saveTrackerSyncPlan(plan, opts.out);
+      console.log(`\n📋 Plan ${plan.id}: ${plan.steps.length} step(s) saved to ${opts.out}`);
+    } catch (error) {
+      console.error('❌ Failed to plan tracker sync:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("apply")
+  .description("Execute a saved plan, resuming where an interrupted apply stopped")
+  .option("--plan <path>", "Saved plan", DEFAULT_SYNC_PLAN_PATH)
+  .option("--journal <path>", "Journal of executed steps", DEFAULT_SYNC_JOURNAL_PATH)
+  .action(async (opts) => {
+    try {
+      const plan = loadTrackerSyncPlan(opts.plan);
+      const result = await applyTrackerSyncPlan(plan, createGitHubClient(plan.owner, plan.repo), {
+        journal: new SyncJournal<TrackerSyncStep>(opts.journal),
+      });
+      reportRun("Applied", result);
+    } catch (error) {
+      console.error('❌ Failed to apply tracker sync:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("revert")
+  .description("Undo the completed steps of an applied plan")
+  .option("--plan-id <id>", "Plan to revert (default: the most recent in the journal)")
+  .option("--journal <path>", "Journal of executed steps", DEFAULT_SYNC_JOURNAL_PATH)
+  .action(async (opts) => {
+    try {
+      const journal = new SyncJournal<TrackerSyncStep>(opts.journal);
+      const planId = opts.planId ?? journal.lastPlanId();
+      if (!planId) {
+        console.log("ℹ️ Journal is empty, nothing to revert");
+        return;
+      }
+      const result = await revertTrackerSync(planId, createGitHubClient(OWNER, REPO), { journal, owner: OWNER });
+      reportRun("Reverted", result);
+    } catch (error) {
+      console.error('❌ Failed to revert tracker sync:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("migrate-ids")
+  .description("Give tracker items and project status gaps task ids and link them to existing issues with the same title")
+  .option("--dry-run", "Show the links without writing the tracker or the issues")
+  .action(async (opts) => {
+    try {
+      const migration = await migrateTrackerTaskIds(
+        { trackerMdPath: TRACKER_MD, projectStatusYmlPath: PROJECT_STATUS_YML, owner: OWNER, repo: REPO },
+        undefined,
+        { dryRun: opts.dryRun }
+      );
+      const lines = formatTaskLinkMigration(migration);
+      console.log(lines.length > 0 ? lines.join("\n") : "✅ No issues left to link");
+      console.log(`\n${opts.dryRun ? "📋 Would link" : "✅ Linked"} ${migration.linked.length} issue(s), ${migration.ambiguous.length} ambiguous`);
+    } catch (error) {
+      console.error('❌ Failed to migrate task ids:', error);
+      process.exit(1);
+    }
+  });
+
 if (import.meta.main) {
   program.parse(process.argv);
 } 
\ No newline at end of file
@@ -13,6 +13,8 @@ import { execSync } from 'child_process';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { GitHubCLICommands } from '../utils/githubCliCommands';
+import { createGitHubClient } from '../services/github-client';
+import { GitHubProjects, type ProjectBoardState } from '../services/github-projects';
 import { 
   z, 
   TrackingConfigSchema, 
@@ -60,6 +62,7 @@ class ProgressTrackingService {
       trends: {} as TrendAnalysis,
       recommendations: [] as string[],
       nextSteps: [] as string[],
+      board: undefined as ProjectBoardState | undefined,
     };
 
     try {
@@ -91,9 +94,17 @@ class ProgressTrackingService {
         results.trends = trendData;
       }
 
+      if (trackingConfig.projectNumber) {
+        console.log(`🗂️ Reading project board #${trackingConfig.projectNumber}...`);
+        results.board = await this.readProjectBoard(owner, repo, trackingConfig.projectNumber);
+      }
+
       // Step 4: Generate recommendations
       console.log('🎯 Step 4: Generating recommendations...');
       results.recommendations = this.generateRecommendations(results.metrics, results.trends);
+      if (results.board && results.board.overdue.length > 0) {
+        results.recommendations.unshift(`⏰ ${results.board.overdue.length} project item(s) past their deadline - Re-plan or close them`);
+      }
 
       // Step 5: Determine next steps
       console.log('🔄 Step 5: Determining next steps...');
@@ -185,12 +196,12 @@ class ProgressTrackingService {
       const automationIssuesData = JSON.parse(automationResult.stdout);
 
       const totalActionPlans = actionPlans.length;
-      const completedActionPlans = actionPlans.filter((issue: any) => issue.state === 'CLOSED').length;
-      const openActionPlans = actionPlans.filter((issue: any) => issue.state === 'OPEN').length;
+      const completedActionPlans = actionPlans.filter((issue: any) => issue.state === 'closed').length;
+      const openActionPlans = actionPlans.filter((issue: any) => issue.state === 'open').length;
 
       const totalAutomationIssues = automationIssuesData.length;
-      const completedAutomationIssues = automationIssuesData.filter((issue: any) => issue.state === 'CLOSED').length;
-      const openAutomationIssues = automationIssuesData.filter((issue: any) => issue.state === 'OPEN').length;
+      const completedAutomationIssues = automationIssuesData.filter((issue: any) => issue.state === 'closed').length;
+      const openAutomationIssues = automationIssuesData.filter((issue: any) => issue.state === 'open').length;
 
       const actionPlanCompletion = totalActionPlans > 0 ? (completedActionPlans / totalActionPlans * 100) : 0;
       const automationCompletion = totalAutomationIssues > 0 ? (completedAutomationIssues / totalAutomationIssues * 100) : 0;
@@ -221,6 +232,22 @@ class ProgressTrackingService {
     }
   }
 
+  /**
+   * Read the Projects v2 board state (status counts, overdue items)
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param projectNumber - Project number
+   * @returns Board state, or undefined when the board cannot be read
+   */
+  private async readProjectBoard(owner: string, repo: string, projectNumber: number): Promise<ProjectBoardState | undefined> {
+    try {
+      return await new GitHubProjects(createGitHubClient(owner, repo), projectNumber).getBoardState();
+    } catch (error) {
+      console.warn('⚠️  Could not read project board:', error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
   /**
    * Analyze trends over time
    * @param owner - Repository owner
@@ -382,7 +409,7 @@ class ProgressTrackingService {
    * @returns Report content
    */
   private async generateProgressReport(results: any, config: TrackingConfig): Promise<string> {
-    const { metrics, trends, recommendations, nextSteps } = results;
+    const { metrics, trends, recommendations, nextSteps, board } = results;
     const timestamp = new Date().toISOString();
 
     let report = `# 📊 Progress Tracking Report
@@ -419,6 +446,16 @@ class ProgressTrackingService {
       report += `- **Status:** Insufficient historical data for trend analysis
 - **Next Update:** Will be available after more tracking cycles
 
+`;
+    }
+
+    if (board) {
+      report += `## 🗂️ Project Board: ${board.project}
+
+- **Items:** ${board.total}
+${Object.entries(board.byStatus as Record<string, number>).map(([status, count]) => `- **${status}:** ${count}`).join('\n')}
+- **Overdue:** ${board.overdue.length}
+
 `;
     }
 
@@ -526,6 +563,7 @@ program
   .option('--no-trends', 'Skip trend analysis')
   .option('--no-trigger', 'Skip triggering next steps')
   .option('--output <file>', 'Output file for results (JSON)')
+  .option('-p, --project <number>', 'Projects v2 board to include in the report')
   .action(async (owner, repo, options) => {
     try {
       // Validate CLI arguments using Zod
@@ -538,6 +576,7 @@ program
         trends: options.trends,
         trigger: options.trigger,
         output: options.output,
+        project: options.project,
       });
 
       const service = new ProgressTrackingService();
@@ -548,6 +587,7 @@ program
         outputDir: validatedArgs.outputDir,
         includeTrends: validatedArgs.trends,
         triggerNextSteps: validatedArgs.trigger,
+        projectNumber: validatedArgs.project,
       };
 
       const results = await service.trackProgress(validatedArgs.owner, validatedArgs.repo, trackingConfig);
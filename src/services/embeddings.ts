@@ -0,0 +1,63 @@
+import type { TextEmbedder } from '../types/llm';
+import { tokenize } from './fossil-search';
+import { fnv1a, mix32 } from '../utils/hashing';
+
+/** Dimensions of the offline hashing-trick embedder */
+export const HASHING_EMBEDDING_DIMENSIONS = 256;
+
+/**
+ * Scale a vector to unit length (zero vectors are returned unchanged)
+ */
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+/**
+ * Cosine similarity of two vectors of equal length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * (b[i] ?? 0);
+    normA += a[i]! * a[i]!;
+    normB += (b[i] ?? 0) * (b[i] ?? 0);
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Deterministic bag-of-words embedding using the hashing trick.
+ * Unigrams and bigrams are hashed into signed buckets and weighted by 1 + log(tf).
+ */
+export function hashingEmbedding(text: string, dimensions: number = HASHING_EMBEDDING_DIMENSIONS): number[] {
+  const tokens = tokenize(text);
+  const counts = new Map<string, number>();
+  tokens.forEach((token, i) => {
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+    if (i > 0) {
+      const bigram = `${tokens[i - 1]} ${token}`;
+      counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+    }
+  });
+
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const [feature, count] of counts) {
+    const h = fnv1a(feature);
+    const sign = mix32(h) & 1 ? 1 : -1;
+    vector[h % dimensions]! += sign * (1 + Math.log(count));
+  }
+  return normalizeVector(vector);
+}
+
+/**
+ * Offline default embedder: no model or network required
+ */
+export function createHashingEmbedder(dimensions: number = HASHING_EMBEDDING_DIMENSIONS): TextEmbedder {
+  return {
+    name: `hashing-${dimensions}`,
+    embed: async (texts: string[]) => texts.map(text => hashingEmbedding(text, dimensions)),
+  };
+}
@@ -0,0 +1,41 @@
+import { promises as fs } from 'fs';
+
+export interface FileLockOptions {
+  /** What the lock guards, for the timeout error, e.g. `usage log` */
+  name: string;
+  /** How long to wait for the lock before giving up */
+  timeoutMs: number;
+  /** A lock older than this is assumed to belong to a crashed process and is broken */
+  staleMs: number;
+}
+
+/**
+ * Run `fn` holding a lock file, so read-modify-write cycles of several processes do not interleave
+ * @throws Error when the lock cannot be acquired within `timeoutMs`
+ */
+export async function withFileLock<T>(lockPath: string, options: FileLockOptions, fn: () => Promise<T>): Promise<T> {
+  const deadline = Date.now() + options.timeoutMs;
+  for (;;) {
+    try {
+      await fs.writeFile(lockPath, String(process.pid), { flag: 'wx' });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      const lockedAt = await fs.stat(lockPath).then(stat => stat.mtimeMs, () => null);
+      if (lockedAt !== null && Date.now() - lockedAt > options.staleMs) {
+        await fs.rm(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out after ${options.timeoutMs}ms waiting for ${options.name} lock ${lockPath}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 10 + Math.random() * 20));
+    }
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await fs.rm(lockPath, { force: true });
+  }
+}
@@ -0,0 +1,270 @@
+import type { ContextEntry } from '../types';
+
+/**
+ * Serialized form of the inverted index, persisted next to the fossil index
+ */
+export interface FossilSearchIndexData {
+  version: number;
+  /** Token count and indexed terms per document */
+  docs: Record<string, { length: number; terms: string[] }>;
+  /** Number of documents, so scoring does not count `docs` */
+  docCount: number;
+  /** Sum of all document lengths (for average document length) */
+  totalLength: number;
+  /** term -> document id -> token positions */
+  postings: Record<string, Record<string, number[]>>;
+}
+
+/**
+ * A single ranked search hit
+ */
+export interface FossilSearchHit {
+  id: string;
+  score: number;
+}
+
+/**
+ * Parsed search clause: a plain term, a quoted phrase or a `prefix*` term
+ */
+type SearchClause =
+  | { kind: 'term'; term: string }
+  | { kind: 'phrase'; terms: string[] }
+  | { kind: 'prefix'; prefix: string };
+
+const INDEX_VERSION = 1;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+/** Title tokens are repeated so that title matches outrank content matches */
+const TITLE_BOOST = 2;
+
+/**
+ * Split text into lowercase alphanumeric tokens
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 0);
+}
+
+/**
+ * Persisted inverted index over context fossils with BM25 ranking.
+ *
+ * Supports plain terms, quoted phrase queries (`"release plan"`) and
+ * prefix queries (`autom*`). Every clause in a query must match.
+ */
+export class FossilSearchIndex {
+  private data: FossilSearchIndexData;
+
+  constructor(data?: FossilSearchIndexData) {
+    if (data && data.version === INDEX_VERSION) {
+      // Terms such as "constructor" must not resolve to Object.prototype members
+      this.data = {
+        ...data,
+        docs: Object.assign(Object.create(null), data.docs),
+        // Indexes persisted before the count was stored
+        docCount: data.docCount ?? Object.keys(data.docs).length,
+        postings: Object.assign(Object.create(null), data.postings),
+      };
+    } else {
+      this.data = FossilSearchIndex.emptyData();
+    }
+  }
+
+  /**
+   * Restore an index from its persisted form
+   */
+  static fromJSON(data: unknown): FossilSearchIndex {
+    return new FossilSearchIndex(data as FossilSearchIndexData);
+  }
+
+  private static emptyData(): FossilSearchIndexData {
+    return { version: INDEX_VERSION, docs: Object.create(null), docCount: 0, totalLength: 0, postings: Object.create(null) };
+  }
+
+  toJSON(): FossilSearchIndexData {
+    return this.data;
+  }
+
+  /**
+   * Number of indexed documents
+   */
+  get size(): number {
+    return this.data.docCount;
+  }
+
+  has(id: string): boolean {
+    return id in this.data.docs;
+  }
+
+  /**
+   * Index (or re-index) an entry
+   */
+  addEntry(entry: Pick<ContextEntry, 'id' | 'title' | 'content' | 'tags'>): void {
+    if (this.has(entry.id)) {
+      this.removeEntry(entry.id);
+    }
+
+    // Fields are separated by a position gap so phrases never span two fields
+    const fields: string[][] = [];
+    const titleTokens = tokenize(entry.title);
+    for (let i = 0; i < TITLE_BOOST; i++) fields.push(titleTokens);
+    fields.push(tokenize(entry.tags.join(' ')));
+    fields.push(tokenize(entry.content));
+
+    let position = 0;
+    let length = 0;
+    const terms = new Set<string>();
+    for (const tokens of fields) {
+      for (const token of tokens) {
+        const postings = this.data.postings[token] ?? (this.data.postings[token] = Object.create(null));
+        (postings[entry.id] ?? (postings[entry.id] = [])).push(position++);
+        terms.add(token);
+        length++;
+      }
+      position++;
+    }
+
+    this.data.docs[entry.id] = { length, terms: [...terms] };
+    this.data.docCount++;
+    this.data.totalLength += length;
+  }
+
+  /**
+   * Remove an entry from the index
+   */
+  removeEntry(id: string): void {
+    const doc = this.data.docs[id];
+    if (!doc) return;
+
+    for (const term of doc.terms) {
+      const postings = this.data.postings[term];
+      if (!postings) continue;
+      delete postings[id];
+      if (Object.keys(postings).length === 0) delete this.data.postings[term];
+    }
+    this.data.totalLength -= doc.length;
+    this.data.docCount--;
+    delete this.data.docs[id];
+  }
+
+  /**
+   * Drop every document and rebuild from the given entries
+   */
+  rebuild(entries: Array<Pick<ContextEntry, 'id' | 'title' | 'content' | 'tags'>>): void {
+    this.data = FossilSearchIndex.emptyData();
+    entries.forEach(entry => this.addEntry(entry));
+  }
+
+  /**
+   * Search the index, returning hits ordered by descending BM25 score
+   * @param query - Query string with terms, "quoted phrases" and prefix* terms
+   * @param candidateIds - Optional set of ids to restrict the search to
+   */
+  search(query: string, candidateIds?: Iterable<string>): FossilSearchHit[] {
+    const clauses = this.parseQuery(query);
+    if (clauses.length === 0) return [];
+
+    let candidates: Set<string> | null = candidateIds ? new Set(candidateIds) : null;
+    const scores = new Map<string, number>();
+
+    for (const clause of clauses) {
+      const clauseScores = this.scoreClause(clause);
+      const matched = new Set<string>();
+      for (const [id, score] of clauseScores) {
+        if (candidates && !candidates.has(id)) continue;
+        matched.add(id);
+        scores.set(id, (scores.get(id) ?? 0) + score);
+      }
+      candidates = matched;
+      if (candidates.size === 0) return [];
+    }
+
+    return [...candidates!]
+      .map(id => ({ id, score: Math.round(scores.get(id)! * 10000) / 10000 }))
+      .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+  }
+
+  private parseQuery(query: string): SearchClause[] {
+    const clauses: SearchClause[] = [];
+    const pattern = /"([^"]*)"|(\S+)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(query)) !== null) {
+      if (match[1] !== undefined) {
+        const terms = tokenize(match[1]);
+        if (terms.length === 1) clauses.push({ kind: 'term', term: terms[0]! });
+        else if (terms.length > 1) clauses.push({ kind: 'phrase', terms });
+        continue;
+      }
+
+      const raw = match[2]!;
+      if (raw.endsWith('*')) {
+        const [prefix] = tokenize(raw.slice(0, -1));
+        if (prefix) clauses.push({ kind: 'prefix', prefix });
+        continue;
+      }
+      tokenize(raw).forEach(term => clauses.push({ kind: 'term', term }));
+    }
+
+    return clauses;
+  }
+
+  private scoreClause(clause: SearchClause): Map<string, number> {
+    switch (clause.kind) {
+      case 'term':
+        return this.scoreTerm(clause.term);
+      case 'prefix': {
+        // Score each document by its best-matching expansion of the prefix
+        const result = new Map<string, number>();
+        for (const term of Object.keys(this.data.postings)) {
+          if (!term.startsWith(clause.prefix)) continue;
+          for (const [id, score] of this.scoreTerm(term)) {
+            result.set(id, Math.max(result.get(id) ?? 0, score));
+          }
+        }
+        return result;
+      }
+      case 'phrase': {
+        const result = new Map<string, number>();
+        const [first, ...rest] = clause.terms;
+        const firstPostings = this.data.postings[first!] ?? {};
+        const docFrequencies = clause.terms.map(term => this.docFrequency(term));
+        for (const [id, positions] of Object.entries(firstPostings)) {
+          const phraseCount = positions.filter(start =>
+            rest.every((term, offset) => this.data.postings[term]?.[id]?.includes(start + offset + 1))
+          ).length;
+          if (phraseCount === 0) continue;
+          const score = docFrequencies.reduce((sum, docFrequency) => sum + this.bm25(docFrequency, id, phraseCount), 0);
+          result.set(id, score);
+        }
+        return result;
+      }
+    }
+  }
+
+  private scoreTerm(term: string): Map<string, number> {
+    const result = new Map<string, number>();
+    const postings = this.data.postings[term];
+    if (!postings) return result;
+    const matches = Object.entries(postings);
+    for (const [id, positions] of matches) {
+      result.set(id, this.bm25(matches.length, id, positions.length));
+    }
+    return result;
+  }
+
+  private docFrequency(term: string): number {
+    return Object.keys(this.data.postings[term] ?? {}).length;
+  }
+
+  private bm25(docFrequency: number, id: string, termFrequency: number): number {
+    const docCount = this.data.docCount;
+    const docLength = this.data.docs[id]?.length ?? 0;
+    const avgLength = docCount > 0 ? this.data.totalLength / docCount : 0;
+
+    const idf = Math.log(1 + (docCount - docFrequency + 0.5) / (docFrequency + 0.5));
+    const norm = termFrequency + BM25_K1 * (1 - BM25_B + BM25_B * (avgLength > 0 ? docLength / avgLength : 0));
+    return idf * (termFrequency * (BM25_K1 + 1)) / norm;
+  }
+}
@@ -0,0 +1,194 @@
+import { fnv1a, mix32 } from '../utils/hashing';
+
+/**
+ * Serialized form of the LSH bucket index, persisted next to the fossil index
+ */
+export interface FossilSimilarityIndexData {
+  version: number;
+  /** Band keys per document (needed to remove a document from its buckets) */
+  docs: Record<string, string[]>;
+  /** band key -> document ids sharing that band */
+  buckets: Record<string, string[]>;
+}
+
+/** Default minimum similarity (0-100) for `addEntry` to treat a fossil as a near-duplicate */
+export const DEFAULT_NEAR_DUPLICATE_THRESHOLD = 60;
+
+const INDEX_VERSION = 1;
+/** Character shingle length */
+const SHINGLE_SIZE = 5;
+/** Signature length (number of hash permutations) */
+export const MINHASH_PERMUTATIONS = 128;
+/**
+ * LSH banding: 32 bands of 4 rows. Pairs with Jaccard similarity s collide in
+ * at least one band with probability 1 - (1 - s^4)^32, i.e. ~42% is the
+ * inflection point and pairs above ~60% are found with >98% probability.
+ */
+const LSH_BANDS = 32;
+const LSH_ROWS = MINHASH_PERMUTATIONS / LSH_BANDS;
+
+const SEEDS = Array.from({ length: MINHASH_PERMUTATIONS }, (_, i) => mix32(i + 0x9e3779b9));
+
+/**
+ * Overlapping character shingles of normalized (lowercased, whitespace-collapsed) text
+ */
+export function shingle(text: string, size: number = SHINGLE_SIZE): Set<string> {
+  const normalized = text.toLowerCase().replace(/\s+/g, ' ').trim();
+  const shingles = new Set<string>();
+  if (normalized.length <= size) {
+    shingles.add(normalized);
+    return shingles;
+  }
+  for (let i = 0; i + size <= normalized.length; i++) {
+    shingles.add(normalized.slice(i, i + size));
+  }
+  return shingles;
+}
+
+/**
+ * MinHash signature of a text's shingle set
+ */
+export function minhashSignature(text: string): number[] {
+  const signature = new Array<number>(MINHASH_PERMUTATIONS).fill(0xffffffff);
+  for (const value of shingle(text)) {
+    const h = fnv1a(value);
+    for (let i = 0; i < MINHASH_PERMUTATIONS; i++) {
+      const permuted = mix32(h ^ SEEDS[i]!);
+      if (permuted < signature[i]!) signature[i] = permuted;
+    }
+  }
+  return signature;
+}
+
+/**
+ * Compact base64 form of a signature, stored in entry metadata
+ */
+export function encodeSignature(signature: number[]): string {
+  const buffer = Buffer.alloc(signature.length * 4);
+  signature.forEach((value, i) => buffer.writeUInt32LE(value, i * 4));
+  return buffer.toString('base64');
+}
+
+export function decodeSignature(encoded: string): number[] | null {
+  const buffer = Buffer.from(encoded, 'base64');
+  if (buffer.length !== MINHASH_PERMUTATIONS * 4) return null;
+  return Array.from({ length: MINHASH_PERMUTATIONS }, (_, i) => buffer.readUInt32LE(i * 4));
+}
+
+/**
+ * Estimated Jaccard similarity of the underlying shingle sets, as a percentage
+ */
+export function signatureSimilarity(a: number[], b: number[]): number {
+  let equal = 0;
+  for (let i = 0; i < MINHASH_PERMUTATIONS; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return Math.round((equal / MINHASH_PERMUTATIONS) * 10000) / 100;
+}
+
+function bandKeys(signature: number[]): string[] {
+  const keys: string[] = [];
+  for (let band = 0; band < LSH_BANDS; band++) {
+    let h = 0x811c9dc5;
+    for (let row = 0; row < LSH_ROWS; row++) {
+      h = mix32(h ^ signature[band * LSH_ROWS + row]!);
+    }
+    keys.push(`${band}:${h.toString(36)}`);
+  }
+  return keys;
+}
+
+/**
+ * Locality-sensitive hashing index over MinHash signatures.
+ *
+ * Only documents sharing at least one band with the query are returned as
+ * candidates, so near-duplicate lookups do not scan the whole store.
+ */
+export class FossilSimilarityIndex {
+  private data: FossilSimilarityIndexData;
+
+  constructor(data?: FossilSimilarityIndexData) {
+    if (data && data.version === INDEX_VERSION) {
+      this.data = {
+        ...data,
+        docs: Object.assign(Object.create(null), data.docs),
+        buckets: Object.assign(Object.create(null), data.buckets),
+      };
+    } else {
+      this.data = FossilSimilarityIndex.emptyData();
+    }
+  }
+
+  /**
+   * Restore an index from its persisted form
+   */
+  static fromJSON(data: unknown): FossilSimilarityIndex {
+    return new FossilSimilarityIndex(data as FossilSimilarityIndexData);
+  }
+
+  private static emptyData(): FossilSimilarityIndexData {
+    return { version: INDEX_VERSION, docs: Object.create(null), buckets: Object.create(null) };
+  }
+
+  toJSON(): FossilSimilarityIndexData {
+    return this.data;
+  }
+
+  /**
+   * Number of indexed documents
+   */
+  get size(): number {
+    return Object.keys(this.data.docs).length;
+  }
+
+  has(id: string): boolean {
+    return id in this.data.docs;
+  }
+
+  /**
+   * Index (or re-index) a document by its signature
+   */
+  addEntry(id: string, signature: number[]): void {
+    if (this.has(id)) {
+      this.removeEntry(id);
+    }
+    const keys = bandKeys(signature);
+    for (const key of keys) {
+      (this.data.buckets[key] ?? (this.data.buckets[key] = [])).push(id);
+    }
+    this.data.docs[id] = keys;
+  }
+
+  /**
+   * Remove a document from the index
+   */
+  removeEntry(id: string): void {
+    const keys = this.data.docs[id];
+    if (!keys) return;
+    for (const key of keys) {
+      const bucket = this.data.buckets[key]?.filter(member => member !== id);
+      if (bucket && bucket.length > 0) this.data.buckets[key] = bucket;
+      else delete this.data.buckets[key];
+    }
+    delete this.data.docs[id];
+  }
+
+  /**
+   * Drop every document and rebuild from the given signatures
+   */
+  rebuild(documents: Array<{ id: string; signature: number[] }>): void {
+    this.data = FossilSimilarityIndex.emptyData();
+    documents.forEach(document => this.addEntry(document.id, document.signature));
+  }
+
+  /**
+   * Ids sharing at least one LSH band with the signature (unverified candidates)
+   */
+  candidates(signature: number[]): string[] {
+    const ids = new Set<string>();
+    for (const key of bandKeys(signature)) {
+      this.data.buckets[key]?.forEach(id => ids.add(id));
+    }
+    return [...ids];
+  }
+}
@@ -0,0 +1,703 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ContextEntry, ContextQuery } from '../types';
+
+/**
+ * Available fossil storage backends
+ */
+export type FossilStoreKind = 'fs' | 'sqlite';
+
+/**
+ * Lightweight per-entry record kept in the store index
+ */
+export interface FossilIndexRecord {
+  id: string;
+  type: ContextEntry['type'];
+  title: string;
+  tags: string[];
+  source: ContextEntry['source'];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Indexed filters supported by every store
+ */
+export type FossilStoreFilter = Pick<ContextQuery, 'type' | 'tags' | 'source' | 'dateRange'>;
+
+/**
+ * Relationship kinds stored as typed edges between fossils
+ */
+export type FossilEdgeType = 'depends-on' | 'supersedes' | 'references' | 'duplicate-of';
+
+export const FOSSIL_EDGE_TYPES: FossilEdgeType[] = ['depends-on', 'supersedes', 'references', 'duplicate-of'];
+
+/**
+ * Directed, typed edge between two entries (`from` depends on / supersedes / ... `to`)
+ */
+export interface FossilEdge {
+  from: string;
+  to: string;
+  type: FossilEdgeType;
+  createdAt: string;
+}
+
+export type FossilEdgeKey = Pick<FossilEdge, 'from' | 'to' | 'type'>;
+
+export type FossilEdgeFilter = Partial<Pick<FossilEdge, 'from' | 'to'>> & { types?: FossilEdgeType[] };
+
+/**
+ * Batch of writes applied as one unit (transactional where the backend allows).
+ * Removing an entry also removes every edge that touches it.
+ */
+export interface FossilStoreBatch {
+  put?: ContextEntry[];
+  remove?: string[];
+  /** Insert edges (existing edges with the same key are kept); both endpoints must exist */
+  putEdges?: FossilEdge[];
+  removeEdges?: FossilEdgeKey[];
+}
+
+/**
+ * Storage backend for context fossils
+ */
+export interface FossilStore {
+  readonly kind: FossilStoreKind;
+  /** Create directories, tables or index files as needed */
+  initialize(): Promise<void>;
+  getEntry(id: string): Promise<ContextEntry | null>;
+  /** Insert or replace an entry and its index record */
+  putEntry(entry: ContextEntry): Promise<void>;
+  deleteEntry(id: string): Promise<void>;
+  writeBatch(batch: FossilStoreBatch): Promise<void>;
+  /**
+   * Atomically replace every entry; on failure the previous contents stay in place.
+   * Edges are replaced too when given, otherwise edges between surviving entries are kept.
+   */
+  replaceAll(entries: ContextEntry[], edges?: FossilEdge[]): Promise<void>;
+  /** Ids matching the filter, in insertion order */
+  queryIds(filter?: FossilStoreFilter): Promise<string[]>;
+  listRecords(): Promise<FossilIndexRecord[]>;
+  getAllEntries(): Promise<ContextEntry[]>;
+  findByContentHash(contentHash: string): Promise<ContextEntry | null>;
+  /** Edges matching the filter, in insertion order */
+  listEdges(filter?: FossilEdgeFilter): Promise<FossilEdge[]>;
+  getLastUpdated(): Promise<string>;
+  /** Approximate bytes used by entry data */
+  getStorageSize(): Promise<number>;
+  /** Named auxiliary documents (e.g. the search index) */
+  loadData<T = unknown>(name: string): Promise<T | null>;
+  /** Replace a document, clearing its change log */
+  saveData(name: string, data: unknown): Promise<void>;
+  /** Append a change to a document without rewriting it */
+  appendDataLog(name: string, change: unknown): Promise<void>;
+  /** Changes appended since the document was last saved, oldest first */
+  loadDataLog<T = unknown>(name: string): Promise<T[]>;
+  /** Remove a document and its change log */
+  deleteData(name: string): Promise<void>;
+  listDataNames(): Promise<string[]>;
+  /** Write out anything held back, e.g. a compacted index */
+  close(): Promise<void>;
+}
+
+/**
+ * Build the index record for an entry
+ */
+export function toIndexRecord(entry: ContextEntry): FossilIndexRecord {
+  return {
+    id: entry.id,
+    type: entry.type,
+    title: entry.title,
+    tags: entry.tags,
+    source: entry.source,
+    createdAt: entry.createdAt,
+    updatedAt: entry.updatedAt,
+  };
+}
+
+/**
+ * Check an index record against a store filter
+ */
+export function matchesFilter(record: FossilIndexRecord, filter: FossilStoreFilter = {}): boolean {
+  if (filter.type && record.type !== filter.type) return false;
+  if (filter.tags && filter.tags.length > 0 && !filter.tags.some(tag => record.tags.includes(tag))) return false;
+  if (filter.source && record.source !== filter.source) return false;
+  if (filter.dateRange) {
+    const { start, end } = filter.dateRange;
+    if (start && record.createdAt < start) return false;
+    if (end && record.createdAt > end) return false;
+  }
+  return true;
+}
+
+/**
+ * Check an edge against an edge filter
+ */
+export function matchesEdgeFilter(edge: FossilEdge, filter: FossilEdgeFilter = {}): boolean {
+  if (filter.from !== undefined && edge.from !== filter.from) return false;
+  if (filter.to !== undefined && edge.to !== filter.to) return false;
+  if (filter.types && filter.types.length > 0 && !filter.types.includes(edge.type)) return false;
+  return true;
+}
+
+export function sameEdge(a: FossilEdgeKey, b: FossilEdgeKey): boolean {
+  return a.from === b.from && a.to === b.to && a.type === b.type;
+}
+
+/** Files in a fossil directory that are not auxiliary data documents */
+const RESERVED_FILES = ['index.json', 'store.json', 'metadata.json', 'replace.json'];
+
+/** `index.json` format; 1.0.0 indexes have no content hashes */
+const INDEX_VERSION = '1.1.0';
+
+/** Index changes logged after which `index.json` is rewritten and the log cleared */
+const INDEX_LOG_COMPACT_AFTER = 500;
+
+interface FileSystemIndex {
+  entries: Record<string, FossilIndexRecord>;
+  tags: Record<string, string[]>;
+  types: Record<string, string[]>;
+  sources: Record<string, string[]>;
+  /** Content hash of each entry that has one, by id */
+  contentHashes?: Record<string, string>;
+  /** Relationship edges (absent in indexes written before edges existed) */
+  edges?: FossilEdge[];
+  lastUpdated: string;
+  version: string;
+}
+
+/**
+ * One batch's changes to the index, as appended to `index.log`
+ */
+interface IndexChange {
+  put?: Array<{ record: FossilIndexRecord; contentHash?: string }>;
+  remove?: string[];
+  putEdges?: FossilEdge[];
+  removeEdges?: FossilEdgeKey[];
+  lastUpdated: string;
+}
+
+/**
+ * `replaceAll` swap in progress, written before the live layout is touched so a crash
+ * mid-swap can be undone on the next `initialize`. Paths are relative to the fossil dir.
+ */
+interface ReplaceManifest {
+  staging: string;
+  backupEntries: string;
+}
+
+/**
+ * The index as last read or written, with what it was read from
+ */
+interface CachedIndex {
+  index: FileSystemIndex;
+  /** Entry ids by content hash */
+  byContentHash: Map<string, Set<string>>;
+  /** Changes in `index.log` */
+  logged: number;
+  /** Size and mtime of `index.json` and `index.log`, to notice other processes' writes */
+  stamp: string;
+}
+
+function contentHashOf(entry: ContextEntry): string | undefined {
+  const contentHash = entry.metadata?.contentHash;
+  return typeof contentHash === 'string' ? contentHash : undefined;
+}
+
+function parseLog<T>(data: string): T[] {
+  const changes: T[] = [];
+  for (const line of data.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      changes.push(JSON.parse(line));
+    } catch {
+      // A line cut short by a crash mid-append
+    }
+  }
+  return changes;
+}
+
+/**
+ * Original directory layout: one JSON file per entry under `entries/`
+ * plus an `index.json` with type, tag and source lookups.
+ *
+ * Batches append their index changes to `index.log` instead of rewriting `index.json`, which is
+ * compacted once the log grows past `INDEX_LOG_COMPACT_AFTER` changes and on `close`. The index is
+ * kept in memory and only re-read when another process has written it.
+ */
+export class FileSystemFossilStore implements FossilStore {
+  readonly kind = 'fs' as const;
+  private entriesDir: string;
+  private indexFile: string;
+  private indexLogFile: string;
+  private replaceManifestFile: string;
+  private cached?: CachedIndex;
+
+  constructor(private fossilDir: string) {
+    this.entriesDir = path.join(fossilDir, 'entries');
+    this.indexFile = path.join(fossilDir, 'index.json');
+    this.indexLogFile = path.join(fossilDir, 'index.log');
+    this.replaceManifestFile = path.join(fossilDir, 'replace.json');
+  }
+
+  async initialize(): Promise<void> {
+    await this.recoverReplace();
+    await fs.mkdir(this.entriesDir, { recursive: true });
+    if (!await this.fileExists(this.indexFile)) {
+      await this.saveIndex({
+        entries: {},
+        tags: {},
+        types: {},
+        sources: {},
+        contentHashes: {},
+        lastUpdated: new Date().toISOString(),
+        version: INDEX_VERSION,
+      });
+    }
+  }
+
+  async getEntry(id: string): Promise<ContextEntry | null> {
+    const entryFile = this.entryFile(id);
+    if (!await this.fileExists(entryFile)) {
+      return null;
+    }
+    return JSON.parse(await fs.readFile(entryFile, 'utf8'));
+  }
+
+  async putEntry(entry: ContextEntry): Promise<void> {
+    await this.writeBatch({ put: [entry] });
+  }
+
+  async deleteEntry(id: string): Promise<void> {
+    await this.writeBatch({ remove: [id] });
+  }
+
+  async writeBatch(batch: FossilStoreBatch): Promise<void> {
+    const { index } = await this.loadIndex();
+
+    // Validate edges against the post-batch entry set before anything is written
+    if (batch.putEdges && batch.putEdges.length > 0) {
+      const removed = new Set(batch.remove ?? []);
+      const ids = new Set([...Object.keys(index.entries), ...(batch.put ?? []).map(entry => entry.id)].filter(id => !removed.has(id)));
+      for (const edge of batch.putEdges) {
+        const missing = [edge.from, edge.to].find(id => !ids.has(id));
+        if (missing !== undefined) throw new Error(`Unknown entry in ${edge.type} edge: ${missing}`);
+      }
+    }
+
+    for (const entry of batch.put ?? []) {
+      await fs.writeFile(this.entryFile(entry.id), JSON.stringify(entry, null, 2));
+    }
+    for (const id of batch.remove ?? []) {
+      try { await fs.unlink(this.entryFile(id)); } catch {}
+    }
+
+    const put = batch.put ?? [];
+    const change: IndexChange = {
+      put: put.map(entry => ({ record: toIndexRecord(entry), contentHash: contentHashOf(entry) })),
+      remove: batch.remove,
+      putEdges: batch.putEdges,
+      removeEdges: batch.removeEdges,
+      lastUpdated: batch.remove && batch.remove.length > 0 ? new Date().toISOString() : put.at(-1)?.updatedAt ?? index.lastUpdated,
+    };
+    await this.commitChange(change);
+  }
+
+  async replaceAll(entries: ContextEntry[], edges?: FossilEdge[]): Promise<void> {
+    if (!edges) {
+      const kept = new Set(entries.map(entry => entry.id));
+      edges = (await this.listEdges()).filter(edge => kept.has(edge.from) && kept.has(edge.to));
+    }
+
+    const stamp = `${Date.now()}-${process.pid}`;
+    const stagingDir = path.join(this.fossilDir, `.staging-${stamp}`);
+    const backupEntriesDir = path.join(this.fossilDir, `.replaced-entries-${stamp}`);
+
+    // Build the complete replacement aside; the live layout is untouched until it succeeds
+    try {
+      const staging = new FileSystemFossilStore(stagingDir);
+      await staging.initialize();
+      await staging.writeBatch({ put: entries, putEdges: edges });
+      await staging.close();
+    } catch (error) {
+      await fs.rm(stagingDir, { recursive: true, force: true });
+      throw error;
+    }
+
+    // No log may outlive the index it was written against
+    await this.loadIndex();
+    await this.compact();
+    this.cached = undefined;
+    const manifest: ReplaceManifest = { staging: path.basename(stagingDir), backupEntries: path.basename(backupEntriesDir) };
+    await this.writeFileAtomic(this.replaceManifestFile, JSON.stringify(manifest, null, 2));
+    try {
+      await fs.rename(this.entriesDir, backupEntriesDir);
+      await fs.rename(path.join(stagingDir, 'entries'), this.entriesDir);
+      // Renaming over index.json is atomic and commits the swap: readers see either the old or the new index
+      await fs.rename(path.join(stagingDir, 'index.json'), this.indexFile);
+    } catch (error) {
+      await this.recoverReplace();
+      throw error;
+    }
+    await this.finishReplace(manifest);
+  }
+
+  /**
+   * Undo a `replaceAll` swap that did not reach the `index.json` rename (restoring the
+   * replaced entries from the backup), or clean up after one that did
+   */
+  private async recoverReplace(): Promise<void> {
+    let manifest: ReplaceManifest;
+    try {
+      manifest = JSON.parse(await fs.readFile(this.replaceManifestFile, 'utf8'));
+    } catch {
+      return;
+    }
+
+    const backupEntriesDir = path.join(this.fossilDir, manifest.backupEntries);
+    const committed = !await this.fileExists(path.join(this.fossilDir, manifest.staging, 'index.json'));
+    if (!committed && await this.fileExists(backupEntriesDir)) {
+      await fs.rm(this.entriesDir, { recursive: true, force: true });
+      await fs.rename(backupEntriesDir, this.entriesDir);
+    }
+    this.cached = undefined;
+    await this.finishReplace(manifest);
+  }
+
+  private async finishReplace(manifest: ReplaceManifest): Promise<void> {
+    await fs.rm(path.join(this.fossilDir, manifest.backupEntries), { recursive: true, force: true });
+    await fs.rm(path.join(this.fossilDir, manifest.staging), { recursive: true, force: true });
+    await fs.rm(this.replaceManifestFile, { force: true });
+  }
+
+  async queryIds(filter: FossilStoreFilter = {}): Promise<string[]> {
+    const { index } = await this.loadIndex();
+    return Object.values(index.entries)
+      .filter(record => matchesFilter(record, filter))
+      .map(record => record.id);
+  }
+
+  async listRecords(): Promise<FossilIndexRecord[]> {
+    const { index } = await this.loadIndex();
+    return Object.values(index.entries);
+  }
+
+  async getAllEntries(): Promise<ContextEntry[]> {
+    const entries: ContextEntry[] = [];
+    for (const id of await this.queryIds()) {
+      const entry = await this.getEntry(id);
+      if (entry) entries.push(entry);
+    }
+    return entries;
+  }
+
+  async findByContentHash(contentHash: string): Promise<ContextEntry | null> {
+    const [id] = (await this.loadIndex()).byContentHash.get(contentHash) ?? [];
+    return id === undefined ? null : this.getEntry(id);
+  }
+
+  async listEdges(filter: FossilEdgeFilter = {}): Promise<FossilEdge[]> {
+    return ((await this.loadIndex()).index.edges ?? []).filter(edge => matchesEdgeFilter(edge, filter));
+  }
+
+  async getLastUpdated(): Promise<string> {
+    return (await this.loadIndex()).index.lastUpdated;
+  }
+
+  async getStorageSize(): Promise<number> {
+    let size = 0;
+    try {
+      for (const file of await fs.readdir(this.entriesDir)) {
+        if (file.endsWith('.json')) {
+          size += (await fs.stat(path.join(this.entriesDir, file))).size;
+        }
+      }
+    } catch {
+      // Ignore storage size calculation errors
+    }
+    return size;
+  }
+
+  async loadData<T = unknown>(name: string): Promise<T | null> {
+    const dataFile = this.dataFile(name);
+    if (!await this.fileExists(dataFile)) return null;
+    return JSON.parse(await fs.readFile(dataFile, 'utf8'));
+  }
+
+  async saveData(name: string, data: unknown): Promise<void> {
+    await this.writeFileAtomic(this.dataFile(name), JSON.stringify(data));
+    await fs.rm(this.dataLogFile(name), { force: true });
+  }
+
+  async appendDataLog(name: string, change: unknown): Promise<void> {
+    await fs.appendFile(this.dataLogFile(name), JSON.stringify(change) + '\n');
+  }
+
+  async loadDataLog<T = unknown>(name: string): Promise<T[]> {
+    try {
+      return parseLog<T>(await fs.readFile(this.dataLogFile(name), 'utf8'));
+    } catch {
+      return [];
+    }
+  }
+
+  async deleteData(name: string): Promise<void> {
+    await fs.rm(this.dataFile(name), { force: true });
+    await fs.rm(this.dataLogFile(name), { force: true });
+  }
+
+  async listDataNames(): Promise<string[]> {
+    const files = await fs.readdir(this.fossilDir);
+    return files
+      .filter(file => file.endsWith('.json') && !RESERVED_FILES.includes(file))
+      .map(file => file.slice(0, -'.json'.length));
+  }
+
+  async close(): Promise<void> {
+    if (this.cached && this.cached.logged > 0) await this.compact();
+  }
+
+  private entryFile(id: string): string {
+    return path.join(this.entriesDir, `${id}.json`);
+  }
+
+  private dataFile(name: string): string {
+    return path.join(this.fossilDir, `${name}.json`);
+  }
+
+  private dataLogFile(name: string): string {
+    return path.join(this.fossilDir, `${name}.log`);
+  }
+
+  private async indexStamp(): Promise<string> {
+    const stat = (file: string) => fs.stat(file).then(({ size, mtimeMs }) => `${size}:${mtimeMs}`, () => '-');
+    return `${await stat(this.indexFile)}|${await stat(this.indexLogFile)}`;
+  }
+
+  /**
+   * The index with its log applied, re-read only when the files changed since they were last read
+   */
+  private async loadIndex(): Promise<CachedIndex> {
+    const stamp = await this.indexStamp();
+    if (this.cached?.stamp === stamp) return this.cached;
+
+    const index: FileSystemIndex = JSON.parse(await fs.readFile(this.indexFile, 'utf8'));
+    const legacy = !index.contentHashes;
+    const changes = await fs.readFile(this.indexLogFile, 'utf8').then(data => parseLog<IndexChange>(data), () => []);
+    this.cached = { index, byContentHash: new Map(), logged: changes.length, stamp };
+    changes.forEach(change => this.applyChange(this.cached!, change));
+
+    const contentHashes = index.contentHashes ??= {};
+    if (legacy) {
+      // Written before content hashes were indexed: read them once from the entries
+      for (const id of Object.keys(index.entries)) {
+        const entry = await this.getEntry(id);
+        const contentHash = entry && contentHashOf(entry);
+        if (contentHash) contentHashes[id] = contentHash;
+      }
+      await this.compact();
+    }
+    for (const [id, contentHash] of Object.entries(contentHashes)) {
+      this.addContentHash(this.cached.byContentHash, contentHash, id);
+    }
+    return this.cached;
+  }
+
+  /**
+   * Apply a batch's index changes in memory and append them to the log, compacting when it is long
+   */
+  private async commitChange(change: IndexChange): Promise<void> {
+    const cached = await this.loadIndex();
+    this.applyChange(cached, change);
+    if (cached.logged + 1 > INDEX_LOG_COMPACT_AFTER) {
+      await this.compact();
+      return;
+    }
+    await fs.appendFile(this.indexLogFile, JSON.stringify(change) + '\n');
+    cached.logged++;
+    cached.stamp = await this.indexStamp();
+  }
+
+  private applyChange(cached: CachedIndex, change: IndexChange): void {
+    const { index } = cached;
+    const contentHashes = index.contentHashes ??= {};
+    for (const { record, contentHash } of change.put ?? []) {
+      this.unindex(cached, record.id);
+      index.entries[record.id] = record;
+      record.tags.forEach(tag => this.addToLookup(index.tags, tag, record.id));
+      this.addToLookup(index.types, record.type, record.id);
+      this.addToLookup(index.sources, record.source, record.id);
+      if (contentHash) {
+        contentHashes[record.id] = contentHash;
+        this.addContentHash(cached.byContentHash, contentHash, record.id);
+      }
+    }
+
+    for (const id of change.remove ?? []) {
+      this.unindex(cached, id);
+      delete index.entries[id];
+      index.edges = (index.edges ?? []).filter(edge => edge.from !== id && edge.to !== id);
+    }
+
+    if (change.removeEdges && change.removeEdges.length > 0) {
+      index.edges = (index.edges ?? []).filter(edge => !change.removeEdges!.some(key => sameEdge(edge, key)));
+    }
+    for (const edge of change.putEdges ?? []) {
+      const edges = index.edges ?? (index.edges = []);
+      if (!edges.some(existing => sameEdge(existing, edge))) edges.push(edge);
+    }
+    index.lastUpdated = change.lastUpdated;
+  }
+
+  /**
+   * Rewrite `index.json` from memory and clear the log
+   */
+  private async compact(): Promise<void> {
+    if (!this.cached) return;
+    this.cached.index.version = INDEX_VERSION;
+    await this.saveIndex(this.cached.index);
+    await fs.rm(this.indexLogFile, { force: true });
+    this.cached.logged = 0;
+    this.cached.stamp = await this.indexStamp();
+  }
+
+  private async saveIndex(index: FileSystemIndex): Promise<void> {
+    await this.writeFileAtomic(this.indexFile, JSON.stringify(index, null, 2));
+  }
+
+  /**
+   * Write then rename, so readers never see a half-written file
+   */
+  private async writeFileAtomic(filePath: string, data: string): Promise<void> {
+    const temporary = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, data);
+    await fs.rename(temporary, filePath);
+  }
+
+  private addContentHash(byContentHash: Map<string, Set<string>>, contentHash: string, id: string): void {
+    if (!byContentHash.has(contentHash)) byContentHash.set(contentHash, new Set());
+    byContentHash.get(contentHash)!.add(id);
+  }
+
+  private addToLookup(lookup: Record<string, string[]>, key: string, id: string): void {
+    if (!Object.hasOwn(lookup, key)) lookup[key] = [];
+    if (!lookup[key]!.includes(id)) lookup[key]!.push(id);
+  }
+
+  private unindex({ index, byContentHash }: CachedIndex, id: string): void {
+    const contentHash = index.contentHashes?.[id];
+    if (contentHash !== undefined) {
+      byContentHash.get(contentHash)?.delete(id);
+      if (byContentHash.get(contentHash)?.size === 0) byContentHash.delete(contentHash);
+      delete index.contentHashes![id];
+    }
+    const previous = index.entries[id];
+    if (!previous) return;
+    const remove = (lookup: Record<string, string[]>, key: string) => {
+      if (!Object.hasOwn(lookup, key)) return;
+      lookup[key] = lookup[key]!.filter(entryId => entryId !== id);
+      if (lookup[key].length === 0) delete lookup[key];
+    };
+    previous.tags.forEach(tag => remove(index.tags, tag));
+    remove(index.types, previous.type);
+    remove(index.sources, previous.source);
+  }
+
+  private async fileExists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Per-directory fossil storage settings (`store.json`)
+ */
+export interface FossilStoreConfig {
+  /** Active storage backend */
+  backend: FossilStoreKind;
+  /** Snapshot retention applied by `snapshot prune` and after each new snapshot */
+  snapshotRetention?: {
+    /** Keep at most this many snapshots (newest first) */
+    maxCount?: number;
+    /** Delete snapshots older than this many days */
+    maxAgeDays?: number;
+  };
+  /** Minimum estimated similarity (0-100) for `addEntry` to merge into a near-duplicate */
+  nearDuplicateThreshold?: number;
+  /** Per-entry version history retention applied on every update */
+  versionRetention?: {
+    /** Keep at most this many previous versions per entry (newest first) */
+    maxVersions?: number;
+    /** Drop previous versions older than this many days */
+    maxAgeDays?: number;
+  };
+}
+
+export async function readStoreConfig(fossilDir: string): Promise<FossilStoreConfig> {
+  try {
+    const config = JSON.parse(await fs.readFile(path.join(fossilDir, 'store.json'), 'utf8'));
+    return { ...config, backend: config.backend === 'sqlite' ? 'sqlite' : 'fs' };
+  } catch {
+    return { backend: 'fs' };
+  }
+}
+
+export async function writeStoreConfig(fossilDir: string, updates: Partial<FossilStoreConfig>): Promise<FossilStoreConfig> {
+  const config = { ...await readStoreConfig(fossilDir), ...updates };
+  await fs.mkdir(fossilDir, { recursive: true });
+  await fs.writeFile(path.join(fossilDir, 'store.json'), JSON.stringify(config, null, 2));
+  return config;
+}
+
+/**
+ * Persisted choice of backend for a fossil directory
+ */
+export async function readStoreKind(fossilDir: string): Promise<FossilStoreKind> {
+  return (await readStoreConfig(fossilDir)).backend;
+}
+
+export async function writeStoreKind(fossilDir: string, kind: FossilStoreKind): Promise<void> {
+  await writeStoreConfig(fossilDir, { backend: kind });
+}
+
+/**
+ * Create a store of the given kind rooted at the fossil directory
+ */
+export async function createFossilStore(kind: FossilStoreKind, fossilDir: string): Promise<FossilStore> {
+  if (kind === 'sqlite') {
+    const { SqliteFossilStore } = await import('./sqlite-fossil-store');
+    return new SqliteFossilStore(path.join(fossilDir, 'fossils.db'));
+  }
+  return new FileSystemFossilStore(fossilDir);
+}
+
+/**
+ * Replace the contents of one store with every entry, edge and auxiliary document of another.
+ * Entries and documents the target holds that the source does not are removed.
+ * @returns Number of entries copied
+ */
+export async function migrateFossilStore(from: FossilStore, to: FossilStore): Promise<number> {
+  await to.initialize();
+  const entries = await from.getAllEntries();
+  await to.replaceAll(entries, await from.listEdges());
+  const names = await from.listDataNames();
+  for (const name of await to.listDataNames()) {
+    if (!names.includes(name)) await to.deleteData(name);
+  }
+  for (const name of names) {
+    const data = await from.loadData(name);
+    if (data === null) {
+      await to.deleteData(name);
+    } else {
+      await to.saveData(name, data);
+    }
+    for (const change of await from.loadDataLog(name)) {
+      await to.appendDataLog(name, change);
+    }
+  }
+  return entries.length;
+}
@@ -0,0 +1,107 @@
+import { cosineSimilarity, normalizeVector } from './embeddings';
+
+/**
+ * Serialized form of the vector index, persisted next to the fossil index
+ */
+export interface FossilVectorIndexData {
+  version: number;
+  /** Embedder that produced the vectors; a different embedder requires a rebuild */
+  model: string;
+  /** Unit-length Float32 vectors, base64 encoded */
+  vectors: Record<string, string>;
+}
+
+/**
+ * A nearest-neighbour hit with its cosine score
+ */
+export interface FossilVectorHit {
+  id: string;
+  score: number;
+}
+
+const INDEX_VERSION = 1;
+
+function encodeVector(vector: number[]): string {
+  return Buffer.from(new Float32Array(vector).buffer).toString('base64');
+}
+
+function decodeVector(encoded: string): number[] {
+  const buffer = Buffer.from(encoded, 'base64');
+  return Array.from(new Float32Array(buffer.buffer, buffer.byteOffset, buffer.length / 4));
+}
+
+/**
+ * Persisted embedding vectors per entry with exact (brute-force) cosine top-k search
+ */
+export class FossilVectorIndex {
+  private data: FossilVectorIndexData;
+
+  constructor(data?: FossilVectorIndexData) {
+    if (data && data.version === INDEX_VERSION) {
+      this.data = { ...data, vectors: Object.assign(Object.create(null), data.vectors) };
+    } else {
+      this.data = FossilVectorIndex.emptyData(data?.model ?? '');
+    }
+  }
+
+  /**
+   * Restore an index from its persisted form
+   */
+  static fromJSON(data: unknown): FossilVectorIndex {
+    return new FossilVectorIndex(data as FossilVectorIndexData);
+  }
+
+  private static emptyData(model: string): FossilVectorIndexData {
+    return { version: INDEX_VERSION, model, vectors: Object.create(null) };
+  }
+
+  toJSON(): FossilVectorIndexData {
+    return this.data;
+  }
+
+  get model(): string {
+    return this.data.model;
+  }
+
+  /**
+   * Number of indexed documents
+   */
+  get size(): number {
+    return Object.keys(this.data.vectors).length;
+  }
+
+  has(id: string): boolean {
+    return id in this.data.vectors;
+  }
+
+  /**
+   * Index (or re-index) a document's embedding
+   */
+  addEntry(id: string, vector: number[]): void {
+    this.data.vectors[id] = encodeVector(normalizeVector(vector));
+  }
+
+  removeEntry(id: string): void {
+    delete this.data.vectors[id];
+  }
+
+  /**
+   * Drop every vector and rebuild for the given embedder
+   */
+  rebuild(model: string, documents: Array<{ id: string; vector: number[] }>): void {
+    this.data = FossilVectorIndex.emptyData(model);
+    documents.forEach(document => this.addEntry(document.id, document.vector));
+  }
+
+  /**
+   * The `limit` nearest documents by cosine similarity, best first
+   * @param candidateIds - Optional set of ids to restrict the search to
+   */
+  search(vector: number[], limit: number, candidateIds?: Iterable<string>): FossilVectorHit[] {
+    const ids = candidateIds ? [...candidateIds].filter(id => this.has(id)) : Object.keys(this.data.vectors);
+    return ids
+      .map(id => ({ id, score: Math.round(cosineSimilarity(vector, decodeVector(this.data.vectors[id]!)) * 10000) / 10000 }))
+      .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+      .slice(0, limit);
+  }
+}
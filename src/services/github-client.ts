@@ -0,0 +1,634 @@
+/**
+ * Typed GitHub API client (REST and GraphQL)
+ * @module services/github-client
+ */
+
+import { spawn } from 'child_process';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { GitHubIssue } from '../types';
+import { isCommandAvailable, executeCommand } from '../utils/cli';
+import { systemClock, type RateLimitClock } from './llm-rate-limit';
+
+/**
+ * Raw HTTP exchange with the GitHub API. `path` is either relative to the API root
+ * (`/repos/owner/repo/issues?state=all`) or an absolute URL taken from a `Link` header.
+ */
+export interface GitHubHttpRequest {
+  method: string;
+  path: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface GitHubHttpResponse {
+  status: number;
+  /** Header names are lower-case */
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Sends requests to the GitHub API. Pagination, conditional requests and rate limiting
+ * live in `GitHubClient`, so every transport gets them.
+ */
+export interface GitHubTransport {
+  readonly name: string;
+  send(request: GitHubHttpRequest): Promise<GitHubHttpResponse>;
+  /** Whether the transport has credentials to talk to GitHub */
+  isReady(): Promise<boolean>;
+}
+
+export interface FetchTransportOptions {
+  token: string;
+  /** API root, e.g. `https://github.example.com/api/v3` for GitHub Enterprise */
+  baseUrl?: string;
+}
+
+export const DEFAULT_GITHUB_API_URL = 'https://api.github.com';
+
+/** Directory `createGitHubClient` keeps ETag-cached responses in, so later runs revalidate instead of refetching */
+export const GITHUB_CACHE_DIR = '.github-cache';
+
+/**
+ * Calls the GitHub REST and GraphQL endpoints over HTTPS with a token
+ */
+export class FetchTransport implements GitHubTransport {
+  readonly name = 'rest';
+  private baseUrl: string;
+
+  constructor(private options: FetchTransportOptions) {
+    this.baseUrl = (options.baseUrl || DEFAULT_GITHUB_API_URL).replace(/\/+$/, '');
+  }
+
+  async send(request: GitHubHttpRequest): Promise<GitHubHttpResponse> {
+    const url = /^https?:\/\//.test(request.path) ? request.path : `${this.baseUrl}${request.path}`;
+    const headers: Record<string, string> = {
+      Accept: 'application/vnd.github+json',
+      'X-GitHub-Api-Version': '2022-11-28',
+      'User-Agent': 'automate_workloads',
+      Authorization: `Bearer ${this.options.token}`,
+      ...request.headers,
+    };
+    if (request.body !== undefined) headers['Content-Type'] = 'application/json';
+
+    const response = await fetch(url, {
+      method: request.method,
+      headers,
+      body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+    });
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      responseHeaders[key.toLowerCase()] = value;
+    });
+    return { status: response.status, headers: responseHeaders, body: await response.text() };
+  }
+
+  async isReady(): Promise<boolean> {
+    return this.options.token.length > 0;
+  }
+}
+
+/**
+ * Calls the GitHub API through `gh api`, reusing the CLI's stored credentials.
+ * Arguments are passed as an array and bodies go through stdin, so no value is ever
+ * interpreted by a shell.
+ */
+export class GhCliTransport implements GitHubTransport {
+  readonly name = 'gh';
+
+  async send(request: GitHubHttpRequest): Promise<GitHubHttpResponse> {
+    const endpoint = /^https?:\/\//.test(request.path)
+      ? (() => {
+          const url = new URL(request.path);
+          return `${url.pathname}${url.search}`;
+        })()
+      : request.path;
+    const args = ['api', endpoint.replace(/^\/+/, ''), '--method', request.method, '--include'];
+    for (const [name, value] of Object.entries(request.headers ?? {})) {
+      args.push('--header', `${name}: ${value}`);
+    }
+    const input = request.body !== undefined ? JSON.stringify(request.body) : undefined;
+    if (input !== undefined) args.push('--input', '-');
+
+    const { stdout, stderr } = await runGh(args, input);
+    // `gh api` exits non-zero on error statuses but still prints the response
+    if (!stdout.startsWith('HTTP/')) {
+      throw new GitHubApiError(stderr.trim() || 'gh api produced no response', 0);
+    }
+    return parseHttpResponse(stdout);
+  }
+
+  async isReady(): Promise<boolean> {
+    if (!isCommandAvailable('gh')) return false;
+    try {
+      return executeCommand('gh auth status').success;
+    } catch {
+      return false;
+    }
+  }
+}
+
+function runGh(args: string[], input?: string): Promise<{ stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('gh', args, { stdio: ['pipe', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.setEncoding('utf8').on('data', chunk => { stdout += chunk; });
+    child.stderr.setEncoding('utf8').on('data', chunk => { stderr += chunk; });
+    child.on('error', reject);
+    child.on('close', () => resolve({ stdout, stderr }));
+    child.stdin.end(input ?? '');
+  });
+}
+
+/**
+ * Split `gh api --include` output into status, headers and body
+ */
+export function parseHttpResponse(raw: string): GitHubHttpResponse {
+  const normalized = raw.replace(/\r\n/g, '\n');
+  const split = normalized.indexOf('\n\n');
+  const head = split === -1 ? normalized : normalized.slice(0, split);
+  const body = split === -1 ? '' : normalized.slice(split + 2);
+  const [statusLine = '', ...headerLines] = head.split('\n');
+  const headers: Record<string, string> = {};
+  for (const line of headerLines) {
+    const colon = line.indexOf(':');
+    if (colon > 0) headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+  }
+  return { status: Number(statusLine.split(' ')[1]) || 0, headers, body };
+}
+
+/**
+ * Non-success response from the GitHub API
+ */
+export class GitHubApiError extends Error {
+  constructor(message: string, public status: number, public response?: unknown) {
+    super(message);
+    this.name = 'GitHubApiError';
+  }
+}
+
+/**
+ * The rate limit is exhausted and resets later than the client is willing to wait
+ */
+export class GitHubRateLimitError extends GitHubApiError {
+  constructor(public resetAt: number, status = 403) {
+    super(`GitHub API rate limit exceeded until ${new Date(resetAt).toISOString()}`, status);
+    this.name = 'GitHubRateLimitError';
+  }
+}
+
+export interface GitHubRateLimit {
+  limit: number;
+  remaining: number;
+  /** Epoch milliseconds */
+  resetAt: number;
+}
+
+export interface GitHubClientOptions {
+  transport?: GitHubTransport;
+  /** Longest wait for a rate-limit reset before a request fails instead (default 60s) */
+  maxRateLimitWaitMs?: number;
+  clock?: RateLimitClock;
+  /** Directory to keep ETag-cached responses in across runs (default: in memory only) */
+  cacheDir?: string;
+}
+
+export interface GitHubRequestOptions {
+  query?: Record<string, string | number | undefined>;
+  body?: unknown;
+}
+
+export interface GitHubRepository {
+  name: string;
+  full_name: string;
+  description: string | null;
+  html_url: string;
+  default_branch: string;
+  open_issues_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GitHubMilestone {
+  number: number;
+  title: string;
+  description: string | null;
+  state: 'open' | 'closed';
+  due_on: string | null;
+}
+
+export interface GitHubLabel {
+  name: string;
+  color: string;
+  description: string | null;
+}
+
+export interface GitHubComment {
+  id: number;
+  body: string;
+  html_url: string;
+}
+
+export interface ListIssuesOptions {
+  state?: 'open' | 'closed' | 'all';
+  labels?: string[];
+  assignee?: string;
+  milestone?: string | number;
+}
+
+export interface CreateIssueInput {
+  title: string;
+  body?: string;
+  labels?: string[];
+  /** Milestone number, or its title */
+  milestone?: string | number;
+  assignees?: string[];
+}
+
+export interface UpdateIssueInput {
+  title?: string;
+  body?: string;
+  state?: 'open' | 'closed';
+  state_reason?: 'completed' | 'not_planned' | 'reopened';
+  labels?: string[];
+  milestone?: number | null;
+}
+
+interface RestIssue {
+  number: number;
+  title: string;
+  state: 'open' | 'closed';
+  body?: string | null;
+  labels: Array<string | { name: string }>;
+  assignees?: Array<{ login: string }>;
+  created_at: string;
+  updated_at: string;
+  pull_request?: unknown;
+}
+
+function toIssue(raw: RestIssue): GitHubIssue {
+  return {
+    number: raw.number,
+    title: raw.title,
+    state: raw.state,
+    body: raw.body ?? undefined,
+    labels: raw.labels.map(label => (typeof label === 'string' ? label : label.name)),
+    assignees: (raw.assignees ?? []).map(assignee => assignee.login),
+    created_at: raw.created_at,
+    updated_at: raw.updated_at,
+  };
+}
+
+function nextLink(link: string | undefined): string | null {
+  const match = link?.match(/<([^>]+)>;\s*rel="next"/);
+  return match?.[1] ?? null;
+}
+
+/**
+ * Rate-limit bucket a request counts against; search has its own, much smaller one
+ */
+function rateLimitResource(requestPath: string): string {
+  const pathname = /^https?:\/\//.test(requestPath) ? new URL(requestPath).pathname : requestPath;
+  if (pathname.startsWith('/search/')) return 'search';
+  if (pathname.startsWith('/graphql')) return 'graphql';
+  return 'core';
+}
+
+/**
+ * Repository-scoped GitHub client. GET responses are cached by ETag (in `cacheDir`
+ * when given) and revalidated with `If-None-Match` (a 304 does not count against the
+ * rate limit), list endpoints follow `Link` pagination, and requests wait for the
+ * rate-limit reset when the remaining quota hits zero.
+ *
+ * @example
+ * ```typescript
+ * const client = createGitHubClient('BarreraSlzr', 'automate_workloads');
+ * const [issue] = await client.findIssuesByTitle('Fix "quoted" $titles', 'all');
+ * ```
+ */
+export class GitHubClient {
+  readonly transport: GitHubTransport;
+  private maxRateLimitWaitMs: number;
+  private clock: RateLimitClock;
+  private cacheDir?: string;
+  private etags = new Map<string, { etag: string; body: string }>();
+  /** Rate-limit state by resource (`core`, `search`, `graphql`) */
+  private rateLimits = new Map<string, GitHubRateLimit>();
+
+  constructor(public readonly owner: string, public readonly repo: string, options: GitHubClientOptions = {}) {
+    this.transport = options.transport ?? new GhCliTransport();
+    this.maxRateLimitWaitMs = options.maxRateLimitWaitMs ?? 60_000;
+    this.clock = options.clock ?? systemClock;
+    this.cacheDir = options.cacheDir;
+  }
+
+  isReady(): Promise<boolean> {
+    return this.transport.isReady();
+  }
+
+  /**
+   * Rate-limit state of a resource from its most recent response, if it carried one
+   */
+  getRateLimit(resource: string = 'core'): GitHubRateLimit | null {
+    const rateLimit = this.rateLimits.get(resource);
+    return rateLimit ? { ...rateLimit } : null;
+  }
+
+  private get repoPath(): string {
+    return `/repos/${encodeURIComponent(this.owner)}/${encodeURIComponent(this.repo)}`;
+  }
+
+  private async waitForRateLimit(resource: string): Promise<void> {
+    const rateLimit = this.rateLimits.get(resource);
+    if (!rateLimit || rateLimit.remaining > 0) return;
+    const wait = rateLimit.resetAt - this.clock.now();
+    if (wait <= 0) return;
+    if (wait > this.maxRateLimitWaitMs) throw new GitHubRateLimitError(rateLimit.resetAt);
+    await this.clock.sleep(wait);
+  }
+
+  private recordRateLimit(resource: string, headers: Record<string, string>): void {
+    const remaining = headers['x-ratelimit-remaining'];
+    const reset = headers['x-ratelimit-reset'];
+    if (remaining === undefined || reset === undefined) return;
+    this.rateLimits.set(headers['x-ratelimit-resource'] ?? resource, {
+      limit: Number(headers['x-ratelimit-limit'] ?? 0),
+      remaining: Number(remaining),
+      resetAt: Number(reset) * 1000,
+    });
+  }
+
+  /**
+   * How long to back off after a primary or secondary rate-limit response, or null when
+   * the response is an ordinary error
+   */
+  private rateLimitDelay(resource: string, response: GitHubHttpResponse): number | null {
+    if (response.status !== 403 && response.status !== 429) return null;
+    const retryAfter = response.headers['retry-after'];
+    if (retryAfter !== undefined) return Number(retryAfter) * 1000;
+    const rateLimit = this.rateLimits.get(resource);
+    if (response.headers['x-ratelimit-remaining'] === '0' && rateLimit) {
+      return Math.max(0, rateLimit.resetAt - this.clock.now());
+    }
+    return null;
+  }
+
+  private cacheFile(requestPath: string): string {
+    return path.join(this.cacheDir!, `${createHash('sha256').update(requestPath).digest('hex')}.json`);
+  }
+
+  /**
+   * ETag and body of the last response to a GET, from memory or `cacheDir`
+   */
+  private async cachedResponse(requestPath: string): Promise<{ etag: string; body: string } | undefined> {
+    const cached = this.etags.get(requestPath);
+    if (cached || !this.cacheDir) return cached;
+    try {
+      const stored = JSON.parse(await fs.readFile(this.cacheFile(requestPath), 'utf-8'));
+      if (stored.path !== requestPath) return undefined;
+      const entry = { etag: stored.etag, body: stored.body };
+      this.etags.set(requestPath, entry);
+      return entry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async cacheResponse(requestPath: string, entry: { etag: string; body: string }): Promise<void> {
+    this.etags.set(requestPath, entry);
+    if (!this.cacheDir) return;
+    // A cache that cannot be written only costs a refetch on the next run
+    try {
+      await fs.mkdir(this.cacheDir, { recursive: true });
+      const file = this.cacheFile(requestPath);
+      const tmp = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify({ path: requestPath, ...entry }));
+      await fs.rename(tmp, file);
+    } catch (error) {
+      console.warn('Failed to save GitHub response cache:', error);
+    }
+  }
+
+  private async send(request: GitHubHttpRequest): Promise<GitHubHttpResponse> {
+    const resource = rateLimitResource(request.path);
+    const cached = request.method === 'GET' ? await this.cachedResponse(request.path) : undefined;
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForRateLimit(resource);
+      const response = await this.transport.send({
+        ...request,
+        headers: cached ? { ...request.headers, 'If-None-Match': cached.etag } : request.headers,
+      });
+      this.recordRateLimit(resource, response.headers);
+
+      if (response.status === 304 && cached) {
+        return { ...response, status: 200, body: cached.body };
+      }
+
+      const delay = this.rateLimitDelay(resource, response);
+      if (delay !== null) {
+        const resetAt = this.clock.now() + delay;
+        if (attempt > 0 || delay > this.maxRateLimitWaitMs) throw new GitHubRateLimitError(resetAt, response.status);
+        await this.clock.sleep(delay);
+        continue;
+      }
+
+      if (response.status >= 400) {
+        const parsed = parseBody(response.body);
+        const message = (parsed as { message?: string } | undefined)?.message || `HTTP ${response.status}`;
+        throw new GitHubApiError(`GitHub API ${request.method} ${request.path} failed: ${message}`, response.status, parsed);
+      }
+
+      if (request.method === 'GET' && response.headers.etag) {
+        await this.cacheResponse(request.path, { etag: response.headers.etag, body: response.body });
+      }
+      return response;
+    }
+  }
+
+  /**
+   * Call a REST endpoint and return its parsed JSON body
+   */
+  async request<T>(method: string, path: string, options: GitHubRequestOptions = {}): Promise<T> {
+    const response = await this.send({ method, path: withQuery(path, options.query), body: options.body });
+    return parseBody(response.body) as T;
+  }
+
+  /**
+   * GET every page of a list endpoint
+   */
+  async paginate<T>(path: string, query: GitHubRequestOptions['query'] = {}): Promise<T[]> {
+    return this.collectPages(withQuery(path, { per_page: 100, ...query }), body => (body as T[] | undefined) ?? []);
+  }
+
+  private async collectPages<T>(first: string, itemsOf: (body: unknown) => T[]): Promise<T[]> {
+    const items: T[] = [];
+    let next: string | null = first;
+    while (next) {
+      const response = await this.send({ method: 'GET', path: next });
+      items.push(...itemsOf(parseBody(response.body)));
+      next = nextLink(response.headers.link);
+    }
+    return items;
+  }
+
+  /**
+   * Run a GraphQL query or mutation, failing on any reported error
+   */
+  async graphql<T>(query: string, variables: Record<string, unknown> = {}): Promise<T> {
+    const result = await this.request<{ data?: T; errors?: Array<{ message: string }> }>('POST', '/graphql', {
+      body: { query, variables },
+    });
+    if (result.errors?.length) {
+      throw new GitHubApiError(`GitHub GraphQL error: ${result.errors.map(error => error.message).join('; ')}`, 200, result);
+    }
+    return result.data as T;
+  }
+
+  async getRepo(): Promise<GitHubRepository> {
+    return this.request<GitHubRepository>('GET', this.repoPath);
+  }
+
+  /**
+   * List issues, excluding pull requests
+   */
+  async listIssues(options: ListIssuesOptions = {}): Promise<GitHubIssue[]> {
+    const issues = await this.paginate<RestIssue>(`${this.repoPath}/issues`, {
+      state: options.state ?? 'open',
+      labels: options.labels?.length ? options.labels.join(',') : undefined,
+      assignee: options.assignee,
+      milestone: options.milestone,
+    });
+    return issues.filter(issue => !issue.pull_request).map(toIssue);
+  }
+
+  async getIssue(issueNumber: number): Promise<GitHubIssue> {
+    return toIssue(await this.request<RestIssue>('GET', `${this.repoPath}/issues/${issueNumber}`));
+  }
+
+  /**
+   * Issues of this repository matching a search (`/search/issues`), excluding pull requests
+   * @param terms - Search terms and qualifiers, e.g. `in:title "flaky test" is:open`
+   */
+  async searchIssues(terms: string): Promise<GitHubIssue[]> {
+    const q = `repo:${this.owner}/${this.repo} is:issue ${terms}`;
+    const issues = await this.collectPages(withQuery('/search/issues', { q, per_page: 100 }),
+      body => (body as { items?: RestIssue[] } | undefined)?.items ?? []);
+    return issues.filter(issue => !issue.pull_request).map(toIssue);
+  }
+
+  /**
+   * Issues whose title matches exactly (ignoring surrounding whitespace), found with one
+   * title search instead of listing every issue. The search index lags behind by up to
+   * a minute, so to see an issue created moments ago, match against `listIssues` instead.
+   */
+  async findIssuesByTitle(title: string, state: 'open' | 'closed' | 'all' = 'open'): Promise<GitHubIssue[]> {
+    const wanted = title.trim();
+    // A search phrase cannot contain quotes; the exact match below does the rest
+    const phrase = wanted.replace(/"/g, ' ').replace(/\s+/g, ' ').trim();
+    const terms = `in:title "${phrase}"${state === 'all' ? '' : ` is:${state}`}`;
+    return (await this.searchIssues(terms)).filter(issue => issue.title.trim() === wanted);
+  }
+
+  async createIssue(input: CreateIssueInput): Promise<GitHubIssue> {
+    const milestone = input.milestone === undefined ? undefined : await this.resolveMilestone(input.milestone);
+    const raw = await this.request<RestIssue>('POST', `${this.repoPath}/issues`, {
+      body: {
+        title: input.title,
+        body: input.body,
+        labels: input.labels,
+        assignees: input.assignees,
+        milestone,
+      },
+    });
+    return toIssue(raw);
+  }
+
+  async updateIssue(issueNumber: number, input: UpdateIssueInput): Promise<GitHubIssue> {
+    return toIssue(await this.request<RestIssue>('PATCH', `${this.repoPath}/issues/${issueNumber}`, { body: input }));
+  }
+
+  async closeIssue(issueNumber: number, comment?: string): Promise<GitHubIssue> {
+    if (comment?.trim()) await this.addComment(issueNumber, comment.trim());
+    return this.updateIssue(issueNumber, { state: 'closed', state_reason: 'completed' });
+  }
+
+  async reopenIssue(issueNumber: number): Promise<GitHubIssue> {
+    return this.updateIssue(issueNumber, { state: 'open' });
+  }
+
+  async addComment(issueNumber: number, body: string): Promise<GitHubComment> {
+    return this.request<GitHubComment>('POST', `${this.repoPath}/issues/${issueNumber}/comments`, { body: { body } });
+  }
+
+  async listLabels(): Promise<GitHubLabel[]> {
+    return this.paginate<GitHubLabel>(`${this.repoPath}/labels`);
+  }
+
+  async createLabel(label: { name: string; color: string; description?: string }): Promise<GitHubLabel> {
+    return this.request<GitHubLabel>('POST', `${this.repoPath}/labels`, { body: label });
+  }
+
+  async listMilestones(state: 'open' | 'closed' | 'all' = 'open'): Promise<GitHubMilestone[]> {
+    return this.paginate<GitHubMilestone>(`${this.repoPath}/milestones`, { state });
+  }
+
+  async findMilestone(title: string): Promise<GitHubMilestone | null> {
+    return (await this.listMilestones('all')).find(milestone => milestone.title === title) ?? null;
+  }
+
+  async createMilestone(input: { title: string; description?: string; dueOn?: string }): Promise<GitHubMilestone> {
+    return this.request<GitHubMilestone>('POST', `${this.repoPath}/milestones`, {
+      body: {
+        title: input.title,
+        description: input.description,
+        due_on: input.dueOn ? new Date(input.dueOn).toISOString() : undefined,
+      },
+    });
+  }
+
+  async deleteMilestone(milestoneNumber: number): Promise<void> {
+    await this.request<void>('DELETE', `${this.repoPath}/milestones/${milestoneNumber}`);
+  }
+
+  private async resolveMilestone(milestone: string | number): Promise<number> {
+    if (typeof milestone === 'number') return milestone;
+    if (/^\d+$/.test(milestone)) return Number(milestone);
+    const found = await this.findMilestone(milestone);
+    if (!found) throw new GitHubApiError(`Milestone not found: ${milestone}`, 404);
+    return found.number;
+  }
+}
+
+function withQuery(path: string, query: GitHubRequestOptions['query'] = {}): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+  const search = params.toString();
+  if (!search) return path;
+  return `${path}${path.includes('?') ? '&' : '?'}${search}`;
+}
+
+function parseBody(body: string): unknown {
+  if (!body.trim()) return undefined;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Client for `owner/repo` over the REST transport when `GITHUB_TOKEN` (or `GH_TOKEN`) is
+ * set, otherwise over the `gh` CLI. `GITHUB_API_URL` overrides the API root. ETag-cached
+ * responses are kept in `.github-cache/` unless `cacheDir` says otherwise.
+ */
+export function createGitHubClient(owner: string, repo: string, options: GitHubClientOptions = {}): GitHubClient {
+  const token = process.env.GITHUB_TOKEN || process.env.GH_TOKEN;
+  const transport = options.transport
+    ?? (token ? new FetchTransport({ token, baseUrl: process.env.GITHUB_API_URL }) : new GhCliTransport());
+  return new GitHubClient(owner, repo, { cacheDir: path.join(process.cwd(), GITHUB_CACHE_DIR), ...options, transport });
+}
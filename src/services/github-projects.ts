@@ -0,0 +1,446 @@
+/**
+ * GitHub Projects v2 board access and roadmap field sync
+ * @module services/github-projects
+ */
+
+import type { E2ERoadmap, E2ERoadmapTask, Priority, Status } from '../types';
+import type { GitHubClient } from './github-client';
+
+/** Roadmap task fields that map to project fields */
+export type ProjectFieldKey = 'status' | 'owner' | 'deadline' | 'milestone' | 'priority';
+
+export type ProjectFieldNames = Record<ProjectFieldKey, string>;
+
+export const DEFAULT_PROJECT_FIELDS: ProjectFieldNames = {
+  status: 'Status',
+  owner: 'Owner',
+  deadline: 'Deadline',
+  milestone: 'Milestone',
+  priority: 'Priority',
+};
+
+/** Roadmap status → option of the project's Status field (GitHub's default board has Todo / In Progress / Done) */
+export const DEFAULT_STATUS_OPTIONS: Record<Status, string> = {
+  pending: 'Todo',
+  ready: 'Todo',
+  open: 'Todo',
+  partial: 'In Progress',
+  done: 'Done',
+  closed: 'Done',
+};
+
+export interface ProjectV2Field {
+  id: string;
+  name: string;
+  /** e.g. TEXT, DATE, NUMBER, SINGLE_SELECT, MILESTONE, ASSIGNEES */
+  dataType: string;
+  options?: Array<{ id: string; name: string }>;
+}
+
+export interface ProjectV2Board {
+  id: string;
+  title: string;
+  fields: ProjectV2Field[];
+}
+
+export interface ProjectV2Item {
+  id: string;
+  /** Absent for draft items and pull requests */
+  issue?: { number: number; title: string; state: 'open' | 'closed'; repository: string };
+  /** Field values by field name */
+  values: Record<string, string | number>;
+}
+
+export interface ProjectTaskFields {
+  status?: Status;
+  owner?: string;
+  deadline?: string;
+  milestone?: string;
+  priority?: Priority;
+}
+
+export interface ProjectFieldChange {
+  field: ProjectFieldKey;
+  from?: string | number;
+  to: string;
+}
+
+export interface ProjectTaskSyncResult {
+  issue: number;
+  itemId: string;
+  changes: ProjectFieldChange[];
+  /** Fields the board cannot hold, e.g. a missing field or select option */
+  skipped: Array<{ field: ProjectFieldKey; reason: string }>;
+}
+
+export interface ProjectRoadmapSyncResult {
+  synced: ProjectTaskSyncResult[];
+  failed: Array<{ task: string; error: string }>;
+}
+
+/** Board summary for progress reports */
+export interface ProjectBoardState {
+  project: string;
+  total: number;
+  /** Item count per Status option; items without one count as `No status` */
+  byStatus: Record<string, number>;
+  /** Open items whose deadline has passed */
+  overdue: Array<{ issue?: number; title?: string; deadline: string }>;
+  items: Array<{ issue?: number; title?: string } & ProjectTaskFields>;
+}
+
+export interface GitHubProjectsOptions {
+  /** User or organization owning the project (default: the repository owner) */
+  projectOwner?: string;
+  fieldNames?: Partial<ProjectFieldNames>;
+  statusOptions?: Partial<Record<Status, string>>;
+}
+
+const FIELD_NAME = '... on ProjectV2FieldCommon { name }';
+
+const PROJECT_FIELDS_QUERY = `query ProjectFields($owner: String!, $number: Int!) {
+  repositoryOwner(login: $owner) {
+    ... on ProjectV2Owner {
+      projectV2(number: $number) {
+        id
+        title
+        fields(first: 50) {
+          nodes {
+            ... on ProjectV2FieldCommon { id name dataType }
+            ... on ProjectV2SingleSelectField { options { id name } }
+          }
+        }
+      }
+    }
+  }
+}`;
+
+const PROJECT_ITEMS_QUERY = `query ProjectItems($projectId: ID!, $cursor: String) {
+  node(id: $projectId) {
+    ... on ProjectV2 {
+      items(first: 100, after: $cursor) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          id
+          content { ... on Issue { number title state repository { nameWithOwner } } }
+          fieldValues(first: 30) {
+            nodes {
+              ... on ProjectV2ItemFieldSingleSelectValue { name field { ${FIELD_NAME} } }
+              ... on ProjectV2ItemFieldTextValue { text field { ${FIELD_NAME} } }
+              ... on ProjectV2ItemFieldDateValue { date field { ${FIELD_NAME} } }
+              ... on ProjectV2ItemFieldNumberValue { number field { ${FIELD_NAME} } }
+              ... on ProjectV2ItemFieldMilestoneValue { milestone { title } field { ${FIELD_NAME} } }
+            }
+          }
+        }
+      }
+    }
+  }
+}`;
+
+const ISSUE_NODE_ID_QUERY = `query IssueNodeId($owner: String!, $repo: String!, $number: Int!) {
+  repository(owner: $owner, name: $repo) { issue(number: $number) { id } }
+}`;
+
+const ADD_ITEM_MUTATION = `mutation AddProjectItem($projectId: ID!, $contentId: ID!) {
+  addProjectV2ItemById(input: { projectId: $projectId, contentId: $contentId }) { item { id } }
+}`;
+
+const DELETE_ITEM_MUTATION = `mutation DeleteProjectItem($projectId: ID!, $itemId: ID!) {
+  deleteProjectV2Item(input: { projectId: $projectId, itemId: $itemId }) { deletedItemId }
+}`;
+
+const UPDATE_FIELD_MUTATION = `mutation UpdateItemField($projectId: ID!, $itemId: ID!, $fieldId: ID!, $value: ProjectV2FieldValue!) {
+  updateProjectV2ItemFieldValue(input: { projectId: $projectId, itemId: $itemId, fieldId: $fieldId, value: $value }) {
+    projectV2Item { id }
+  }
+}`;
+
+interface RawFieldValue {
+  name?: string;
+  text?: string;
+  date?: string;
+  number?: number;
+  milestone?: { title: string };
+  field?: { name?: string };
+}
+
+interface RawItem {
+  id: string;
+  content?: { number?: number; title?: string; state?: string; repository?: { nameWithOwner: string } } | null;
+  fieldValues: { nodes: RawFieldValue[] };
+}
+
+/**
+ * A Projects v2 board, read and written through the GitHub GraphQL API. Roadmap tasks are
+ * mapped onto the board's custom fields; the board's own Milestone field mirrors the issue,
+ * so a task milestone is set on the issue instead.
+ *
+ * @example
+ * ```typescript
+ * const projects = new GitHubProjects(createGitHubClient('BarreraSlzr', 'automate_workloads'), 4);
+ * await projects.syncTask({ task: 'Ship docs', status: 'partial', priority: 'high', issues: [42] });
+ * const board = await projects.getBoardState();
+ * ```
+ */
+export class GitHubProjects {
+  readonly projectOwner: string;
+  private fieldNames: ProjectFieldNames;
+  private statusOptions: Record<Status, string>;
+  private board: ProjectV2Board | null = null;
+
+  constructor(private client: GitHubClient, readonly projectNumber: number, options: GitHubProjectsOptions = {}) {
+    this.projectOwner = options.projectOwner ?? client.owner;
+    this.fieldNames = { ...DEFAULT_PROJECT_FIELDS, ...options.fieldNames };
+    this.statusOptions = { ...DEFAULT_STATUS_OPTIONS, ...options.statusOptions };
+  }
+
+  /**
+   * Project id and field definitions, fetched once per instance
+   */
+  async getBoard(): Promise<ProjectV2Board> {
+    if (this.board) return this.board;
+    const data = await this.client.graphql<{
+      repositoryOwner: { projectV2: { id: string; title: string; fields: { nodes: Array<Partial<ProjectV2Field>> } } | null } | null;
+    }>(PROJECT_FIELDS_QUERY, { owner: this.projectOwner, number: this.projectNumber });
+    const project = data.repositoryOwner?.projectV2;
+    if (!project) throw new Error(`Project ${this.projectOwner}#${this.projectNumber} not found`);
+    this.board = {
+      id: project.id,
+      title: project.title,
+      // Fields of types this query does not select come back as empty objects
+      fields: project.fields.nodes.filter((field): field is ProjectV2Field => Boolean(field.id && field.name)),
+    };
+    return this.board;
+  }
+
+  async listItems(): Promise<ProjectV2Item[]> {
+    const { id } = await this.getBoard();
+    const items: ProjectV2Item[] = [];
+    let cursor: string | null = null;
+    do {
+      const data: { node: { items: { pageInfo: { hasNextPage: boolean; endCursor: string | null }; nodes: RawItem[] } } } =
+        await this.client.graphql(PROJECT_ITEMS_QUERY, { projectId: id, cursor });
+      items.push(...data.node.items.nodes.map(toItem));
+      cursor = data.node.items.pageInfo.hasNextPage ? data.node.items.pageInfo.endCursor : null;
+    } while (cursor);
+    return items;
+  }
+
+  /**
+   * Items for issues of the client's repository, by issue number. Each call pages through
+   * the whole board, so callers touching several issues should list once and reuse it.
+   */
+  async itemsByIssue(): Promise<Map<number, ProjectV2Item>> {
+    const repository = `${this.client.owner}/${this.client.repo}`.toLowerCase();
+    const items = new Map<number, ProjectV2Item>();
+    for (const item of await this.listItems()) {
+      if (item.issue && item.issue.repository.toLowerCase() === repository) items.set(item.issue.number, item);
+    }
+    return items;
+  }
+
+  async findItem(issueNumber: number): Promise<ProjectV2Item | undefined> {
+    return (await this.itemsByIssue()).get(issueNumber);
+  }
+
+  /**
+   * Add an issue of the client's repository to the board; adding an issue already there
+   * returns its existing item
+   * @returns The project item id
+   */
+  async addIssue(issueNumber: number): Promise<string> {
+    const { id } = await this.getBoard();
+    const issue = await this.client.graphql<{ repository: { issue: { id: string } | null } }>(ISSUE_NODE_ID_QUERY, {
+      owner: this.client.owner,
+      repo: this.client.repo,
+      number: issueNumber,
+    });
+    if (!issue.repository.issue) throw new Error(`Issue #${issueNumber} not found`);
+    const data = await this.client.graphql<{ addProjectV2ItemById: { item: { id: string } } }>(ADD_ITEM_MUTATION, {
+      projectId: id,
+      contentId: issue.repository.issue.id,
+    });
+    return data.addProjectV2ItemById.item.id;
+  }
+
+  async removeItem(itemId: string): Promise<void> {
+    const { id } = await this.getBoard();
+    await this.client.graphql(DELETE_ITEM_MUTATION, { projectId: id, itemId });
+  }
+
+  /**
+   * Roadmap-side view of an item's field values
+   */
+  readTaskFields(item: ProjectV2Item): ProjectTaskFields {
+    const value = (key: ProjectFieldKey) => {
+      const raw = item.values[this.fieldNames[key]];
+      return raw === undefined ? undefined : String(raw);
+    };
+    const fields: ProjectTaskFields = {};
+    const status = value('status');
+    const matched = status === undefined
+      ? undefined
+      : (Object.keys(this.statusOptions) as Status[]).find(key => sameName(this.statusOptions[key], status));
+    if (matched) fields.status = matched;
+    const priority = value('priority')?.toLowerCase();
+    if (priority && ['low', 'medium', 'high', 'critical'].includes(priority)) fields.priority = priority as Priority;
+    for (const key of ['owner', 'deadline', 'milestone'] as const) {
+      const found = value(key);
+      if (found !== undefined) fields[key] = found;
+    }
+    return fields;
+  }
+
+  /**
+   * Put a task's first linked issue on the board and set its status, owner, deadline,
+   * milestone and priority fields. Fields the task leaves empty are not touched. Pass
+   * `items` from `itemsByIssue` to skip reading the board.
+   */
+  async syncTask(
+    task: E2ERoadmapTask,
+    options: { dryRun?: boolean; items?: Map<number, ProjectV2Item> } = {}
+  ): Promise<ProjectTaskSyncResult> {
+    const issue = task.issues?.[0];
+    if (issue === undefined) throw new Error(`Task "${task.task}" has no linked issue`);
+    const board = await this.getBoard();
+    const existing = options.items ? options.items.get(issue) : await this.findItem(issue);
+    const itemId = existing?.id ?? (options.dryRun ? '(new item)' : await this.addIssue(issue));
+    const result: ProjectTaskSyncResult = { issue, itemId, changes: [], skipped: [] };
+
+    for (const [key, wanted] of Object.entries(this.desiredValues(task)) as Array<[ProjectFieldKey, string]>) {
+      const name = this.fieldNames[key];
+      const field = board.fields.find(candidate => sameName(candidate.name, name));
+      if (!field) {
+        result.skipped.push({ field: key, reason: `No "${name}" field on the project` });
+        continue;
+      }
+      const current = existing?.values[field.name];
+      if (current !== undefined && sameName(String(current), wanted)) continue;
+
+      if (field.dataType === 'MILESTONE') {
+        // The board's Milestone field mirrors the issue, so set it there
+        const milestone = await this.client.findMilestone(wanted);
+        if (!milestone) {
+          result.skipped.push({ field: key, reason: `Milestone not found: ${wanted}` });
+          continue;
+        }
+        if (!options.dryRun) await this.client.updateIssue(issue, { milestone: milestone.number });
+      } else {
+        const converted = fieldValue(field, wanted);
+        if ('reason' in converted) {
+          result.skipped.push({ field: key, reason: converted.reason });
+          continue;
+        }
+        if (!options.dryRun) {
+          await this.client.graphql(UPDATE_FIELD_MUTATION, { projectId: board.id, itemId, fieldId: field.id, value: converted.value });
+        }
+      }
+      result.changes.push({ field: key, ...(current !== undefined ? { from: current } : {}), to: wanted });
+    }
+    return result;
+  }
+
+  /**
+   * Sync every roadmap task that links an issue; one failing task does not stop the rest
+   */
+  async syncRoadmap(roadmap: E2ERoadmap, options: { dryRun?: boolean } = {}): Promise<ProjectRoadmapSyncResult> {
+    const result: ProjectRoadmapSyncResult = { synced: [], failed: [] };
+    const items = await this.itemsByIssue();
+    for (const task of roadmap.tasks) {
+      if (!task.issues?.length) continue;
+      try {
+        result.synced.push(await this.syncTask(task, { ...options, items }));
+      } catch (error) {
+        result.failed.push({ task: task.task, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Read the board back: item counts per status and items past their deadline
+   */
+  async getBoardState(now: Date = new Date()): Promise<ProjectBoardState> {
+    const board = await this.getBoard();
+    const today = now.toISOString().slice(0, 10);
+    const state: ProjectBoardState = { project: board.title, total: 0, byStatus: {}, overdue: [], items: [] };
+    for (const item of await this.listItems()) {
+      const fields = this.readTaskFields(item);
+      const status = item.values[this.fieldNames.status];
+      const key = status === undefined ? 'No status' : String(status);
+      state.total++;
+      state.byStatus[key] = (state.byStatus[key] ?? 0) + 1;
+      state.items.push({ issue: item.issue?.number, title: item.issue?.title, ...fields });
+      const finished = item.issue?.state === 'closed' || fields.status === 'done' || fields.status === 'closed';
+      if (fields.deadline && fields.deadline < today && !finished) {
+        state.overdue.push({ issue: item.issue?.number, title: item.issue?.title, deadline: fields.deadline });
+      }
+    }
+    return state;
+  }
+
+  private desiredValues(task: E2ERoadmapTask): Partial<Record<ProjectFieldKey, string>> {
+    const values: Partial<Record<ProjectFieldKey, string>> = {};
+    if (task.status) values.status = this.statusOptions[task.status] ?? task.status;
+    if (task.owner) values.owner = task.owner;
+    if (task.deadline) values.deadline = toDate(task.deadline);
+    if (task.milestone) values.milestone = task.milestone;
+    if (task.priority) values.priority = task.priority;
+    return values;
+  }
+}
+
+function toItem(raw: RawItem): ProjectV2Item {
+  const values: Record<string, string | number> = {};
+  for (const node of raw.fieldValues.nodes) {
+    const name = node.field?.name;
+    const value = node.name ?? node.text ?? node.date ?? node.number ?? node.milestone?.title;
+    if (name && value !== undefined) values[name] = value;
+  }
+  const content = raw.content;
+  return {
+    id: raw.id,
+    ...(content?.number !== undefined ? {
+      issue: {
+        number: content.number,
+        title: content.title ?? '',
+        state: content.state?.toLowerCase() === 'closed' ? 'closed' as const : 'open' as const,
+        repository: content.repository?.nameWithOwner ?? '',
+      },
+    } : {}),
+    values,
+  };
+}
+
+/**
+ * GraphQL `ProjectV2FieldValue` for a field, or why the value does not fit it
+ */
+function fieldValue(field: ProjectV2Field, wanted: string): { value: Record<string, string | number> } | { reason: string } {
+  switch (field.dataType) {
+    case 'TEXT':
+      return { value: { text: wanted } };
+    case 'DATE':
+      return { value: { date: toDate(wanted) } };
+    case 'NUMBER':
+      return Number.isFinite(Number(wanted)) ? { value: { number: Number(wanted) } } : { reason: `"${wanted}" is not a number` };
+    case 'SINGLE_SELECT': {
+      const option = field.options?.find(candidate => sameName(candidate.name, wanted));
+      return option ? { value: { singleSelectOptionId: option.id } } : { reason: `No "${wanted}" option in "${field.name}"` };
+    }
+    default:
+      return { reason: `"${field.name}" (${field.dataType}) cannot be set through the API` };
+  }
+}
+
+/**
+ * YAML loads unquoted dates as Date objects; the API wants YYYY-MM-DD
+ */
+function toDate(value: unknown): string {
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value).slice(0, 10);
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
@@ -1,9 +1,9 @@
 /**
- * GitHub service integration using GitHub CLI
+ * GitHub service integration
  * @module services/github
  */
 
-import { executeCommand, executeCommandJSON, isCommandAvailable } from "../utils/cli";
+import { createGitHubClient, GitHubApiError, type GitHubClient, type GitHubRepository } from "./github-client";
 import type { GitHubIssue, ServiceResponse, CLIOptions } from "../types";
 import * as fs from 'fs';
 import * as path from 'path';
@@ -56,33 +56,40 @@ export function loadAndFillAutomationTemplate(fields: AutomationTemplateFields):
   return body;
 }
 
+function statusOf(error: unknown): number {
+  return error instanceof GitHubApiError && error.status > 0 ? error.status : 500;
+}
+
 /**
  * GitHub service class for managing GitHub operations
  */
 export class GitHubService {
   private owner: string;
   private repo: string;
+  private client: GitHubClient;
 
   /**
    * Creates a new GitHub service instance
    * 
    * @param {string} owner - Repository owner
    * @param {string} repo - Repository name
+   * @param {GitHubClient} client - API client (defaults to `createGitHubClient(owner, repo)`)
    * 
    * @example
    * ```typescript
    * const github = new GitHubService('BarreraSlzr', 'automate_workloads');
    * ```
    */
-  constructor(owner: string, repo: string) {
+  constructor(owner: string, repo: string, client: GitHubClient = createGitHubClient(owner, repo)) {
     this.owner = owner;
     this.repo = repo;
+    this.client = client;
   }
 
   /**
-   * Checks if GitHub CLI is available and authenticated
+   * Checks if the GitHub client has credentials (a token, or an authenticated GitHub CLI)
    * 
-   * @returns {Promise<boolean>} True if GitHub CLI is ready
+   * @returns {Promise<boolean>} True if the client is ready
    * 
    * @example
    * ```typescript
@@ -93,13 +100,8 @@ export class GitHubService {
    * ```
    */
   async isReady(): Promise<boolean> {
-    if (!isCommandAvailable('gh')) {
-      return false;
-    }
-
     try {
-      const result = executeCommand('gh auth status');
-      return result.success;
+      return await this.client.isReady();
     } catch {
       return false;
     }
@@ -122,18 +124,7 @@ export class GitHubService {
   async getIssues(options: Partial<GitHubOptions> = {}): Promise<ServiceResponse<GitHubIssue[]>> {
     try {
       const { state = 'open', labels, assignee } = options;
-      
-      let command = `gh issue list --repo ${this.owner}/${this.repo} --state ${state} --json number,title,state,body,labels,assignees,createdAt,updatedAt`;
-      
-      if (labels && labels.length > 0) {
-        command += ` --label "${labels.join(',')}"`;
-      }
-      
-      if (assignee) {
-        command += ` --assignee "${assignee}"`;
-      }
-
-      const issues = executeCommandJSON<GitHubIssue[]>(command);
+      const issues = await this.client.listIssues({ state, labels, assignee });
       
       return {
         success: true,
@@ -144,7 +135,7 @@ export class GitHubService {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Failed to fetch issues',
-        statusCode: 500,
+        statusCode: statusOf(error),
       };
     }
   }
@@ -231,26 +222,18 @@ export class GitHubService {
    */
   async closeIssue(issueNumber: number, comment?: string): Promise<ServiceResponse<boolean>> {
     try {
-      let command = `gh issue close ${issueNumber} --repo ${this.owner}/${this.repo}`;
-      
-      const trimmedComment = comment?.trim();
-      if (trimmedComment) {
-        command += ` --reason completed --comment "${trimmedComment}"`;
-      }
-
-      const result = executeCommand(command);
+      await this.client.closeIssue(issueNumber, comment);
       
       return {
-        success: result.success,
-        data: result.success,
-        error: result.success ? undefined : result.stderr,
-        statusCode: result.exitCode,
+        success: true,
+        data: true,
+        statusCode: 200,
       };
     } catch (error) {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Failed to close issue',
-        statusCode: 500,
+        statusCode: statusOf(error),
       };
     }
   }
@@ -269,20 +252,18 @@ export class GitHubService {
    */
   async addComment(issueNumber: number, comment: string): Promise<ServiceResponse<boolean>> {
     try {
-      const command = `gh issue comment ${issueNumber} --repo ${this.owner}/${this.repo} --body "${comment}"`;
-      const result = executeCommand(command);
+      await this.client.addComment(issueNumber, comment);
       
       return {
-        success: result.success,
-        data: result.success,
-        error: result.success ? undefined : result.stderr,
-        statusCode: result.exitCode,
+        success: true,
+        data: true,
+        statusCode: 201,
       };
     } catch (error) {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Failed to add comment',
-        statusCode: 500,
+        statusCode: statusOf(error),
       };
     }
   }
@@ -290,17 +271,16 @@ export class GitHubService {
   /**
    * Gets repository information
    * 
-   * @returns {Promise<ServiceResponse<any>>} Repository information
+   * @returns {Promise<ServiceResponse<GitHubRepository>>} Repository information
    * 
    * @example
    * ```typescript
    * const response = await github.getRepoInfo();
    * ```
    */
-  async getRepoInfo(): Promise<ServiceResponse<any>> {
+  async getRepoInfo(): Promise<ServiceResponse<GitHubRepository>> {
     try {
-      const command = `gh repo view ${this.owner}/${this.repo} --json name,description,url,createdAt,updatedAt,issues`;
-      const repoInfo = executeCommandJSON(command);
+      const repoInfo = await this.client.getRepo();
       
       return {
         success: true,
@@ -311,7 +291,7 @@ export class GitHubService {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Failed to fetch repository info',
-        statusCode: 500,
+        statusCode: statusOf(error),
       };
     }
   }
@@ -366,6 +346,7 @@ export class GitHubService {
    * @param {string} title - Issue title to search for
    * @param {'open' | 'all'} state - Issue state to search (default: 'open')
    * @returns {boolean} True if an issue with the title exists
+   * @deprecated Titles change; tracker and roadmap tasks are matched by task id (see utils/taskAnchor)
    */
   issueExistsByTitle(title: string, state: 'open' | 'all' = 'open'): boolean {
     // Use the shared utility
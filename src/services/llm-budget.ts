@@ -0,0 +1,209 @@
+import { promises as fs } from 'fs';
+import type { LLMUsageMetrics } from './llm';
+import type { DailyUsageRollup } from './llm-usage-log';
+
+export type BudgetPeriod = 'daily' | 'weekly' | 'monthly';
+
+export const BUDGET_PERIODS: BudgetPeriod[] = ['daily', 'weekly', 'monthly'];
+
+/** Budgets file, next to the usage log */
+export const BUDGETS_FILE = '.llm-budgets.json';
+
+/** The parts of a usage record that count against budgets; also used for in-flight reservations and daily totals */
+export type BudgetSpend = Pick<LLMUsageMetrics, 'timestamp' | 'cost' | 'context' | 'purpose'> & {
+  /** Calls the record stands for (default 1) */
+  calls?: number;
+};
+
+/**
+ * A spend limit over a calendar period (UTC), optionally scoped to a context and/or purpose
+ */
+export interface LLMBudget {
+  period: BudgetPeriod;
+  /** Maximum spend (USD) per period */
+  limit: number;
+  /** Only calls with this context count against (and are limited by) the budget */
+  context?: string;
+  /** Only calls with this purpose count against (and are limited by) the budget */
+  purpose?: string;
+  /**
+   * What happens to a paid call that would exceed the budget:
+   * `stop` throws `LLMBudgetExceededError`, `degrade` routes to a free local provider or the fallback response
+   */
+  onExhausted: 'stop' | 'degrade';
+}
+
+/**
+ * Spend against a budget in its current period
+ */
+export interface BudgetStatus {
+  id: string;
+  budget: LLMBudget;
+  periodStart: string;
+  periodEnd: string;
+  spent: number;
+  remaining: number;
+  calls: number;
+  /** Share of the limit spent, 0-1 (can exceed 1) */
+  used: number;
+  /** Spend at the end of the period if the current rate continues */
+  projected: number;
+  exhausted: boolean;
+  /** Cumulative spend per day of the period so far */
+  burnDown: Array<{ date: string; spent: number; remaining: number }>;
+}
+
+/**
+ * Thrown by `LLMService.callLLM` when a `stop` budget would be exceeded
+ */
+export class LLMBudgetExceededError extends Error {
+  constructor(public readonly statuses: BudgetStatus[]) {
+    super(`LLM budget exhausted: ${statuses.map(status => `${status.id} ($${status.spent.toFixed(4)} of $${status.budget.limit})`).join(', ')}`);
+    this.name = 'LLMBudgetExceededError';
+  }
+}
+
+/**
+ * Stable identifier of a budget: its period and scope, e.g. `daily:context=llm-plan`
+ */
+export function budgetId(budget: Pick<LLMBudget, 'period' | 'context' | 'purpose'>): string {
+  const scope = [
+    budget.context !== undefined ? `context=${budget.context}` : null,
+    budget.purpose !== undefined ? `purpose=${budget.purpose}` : null,
+  ].filter(Boolean);
+  return `${budget.period}:${scope.length > 0 ? scope.join(',') : 'all'}`;
+}
+
+/**
+ * Start (inclusive) and end (exclusive) of the UTC calendar period containing `now`.
+ * Weeks start on Monday.
+ */
+export function getBudgetWindow(period: BudgetPeriod, now: Date = new Date()): { start: Date; end: Date } {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const end = new Date(start);
+
+  switch (period) {
+    case 'daily':
+      end.setUTCDate(end.getUTCDate() + 1);
+      break;
+    case 'weekly':
+      start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+      end.setTime(start.getTime());
+      end.setUTCDate(end.getUTCDate() + 7);
+      break;
+    case 'monthly':
+      start.setUTCDate(1);
+      end.setTime(start.getTime());
+      end.setUTCMonth(end.getUTCMonth() + 1);
+      break;
+  }
+
+  return { start, end };
+}
+
+/**
+ * Whether calls with this context and purpose count against the budget
+ */
+export function budgetApplies(budget: LLMBudget, call: { context: string; purpose: string }): boolean {
+  return (budget.context === undefined || budget.context === call.context)
+    && (budget.purpose === undefined || budget.purpose === call.purpose);
+}
+
+/**
+ * Current-period status of a budget, computed from the usage log
+ */
+export function getBudgetStatus(budget: LLMBudget, usage: BudgetSpend[], now: Date = new Date()): BudgetStatus {
+  const { start, end } = getBudgetWindow(budget.period, now);
+  const inPeriod = usage.filter(entry => {
+    const time = new Date(entry.timestamp).getTime();
+    return time >= start.getTime() && time < end.getTime() && budgetApplies(budget, entry);
+  });
+
+  const byDay = new Map<string, number>();
+  for (const entry of inPeriod) {
+    const date = entry.timestamp.split('T')[0]!;
+    byDay.set(date, (byDay.get(date) ?? 0) + entry.cost);
+  }
+
+  const burnDown: BudgetStatus['burnDown'] = [];
+  let cumulative = 0;
+  for (const day = new Date(start); day.getTime() < end.getTime() && day.getTime() <= now.getTime(); day.setUTCDate(day.getUTCDate() + 1)) {
+    const date = day.toISOString().split('T')[0]!;
+    cumulative += byDay.get(date) ?? 0;
+    burnDown.push({ date, spent: cumulative, remaining: Math.max(0, budget.limit - cumulative) });
+  }
+
+  const spent = inPeriod.reduce((sum, entry) => sum + entry.cost, 0);
+  const elapsed = Math.min(1, Math.max(0, (now.getTime() - start.getTime()) / (end.getTime() - start.getTime())));
+
+  return {
+    id: budgetId(budget),
+    budget,
+    periodStart: start.toISOString(),
+    periodEnd: end.toISOString(),
+    spent,
+    remaining: Math.max(0, budget.limit - spent),
+    calls: inPeriod.reduce((sum, entry) => sum + (entry.calls ?? 1), 0),
+    used: budget.limit > 0 ? spent / budget.limit : spent > 0 ? Infinity : 0,
+    projected: elapsed > 0 ? spent / elapsed : spent,
+    exhausted: spent >= budget.limit,
+    burnDown,
+  };
+}
+
+/**
+ * A day's spend as one record per context and purpose, or null when the rollup's per-scope
+ * totals do not cover all of its calls
+ */
+export function rollupBudgetSpend(day: DailyUsageRollup): BudgetSpend[] | null {
+  const spend = Object.entries(day.scopes ?? {}).flatMap(([context, purposes]) =>
+    Object.entries(purposes).map(([purpose, { calls, cost }]) => ({ timestamp: `${day.date}T00:00:00.000Z`, cost, context, purpose, calls }))
+  );
+  return spend.reduce((sum, entry) => sum + entry.calls, 0) === day.calls ? spend : null;
+}
+
+/**
+ * Budgets a call with the given estimated cost would exceed.
+ * Free calls (e.g. local models) never exceed a budget.
+ */
+export function checkBudgets(
+  budgets: LLMBudget[],
+  usage: BudgetSpend[],
+  call: { context: string; purpose: string; estimatedCost: number },
+  now: Date = new Date()
+): BudgetStatus[] {
+  if (call.estimatedCost <= 0) return [];
+  return budgets
+    .filter(budget => budgetApplies(budget, call))
+    .map(budget => getBudgetStatus(budget, usage, now))
+    .filter(status => status.spent + call.estimatedCost > status.budget.limit);
+}
+
+/**
+ * Read persisted budgets (none when the file does not exist). An unreadable or malformed
+ * file throws rather than lifting every limit.
+ */
+export async function readBudgets(filePath: string): Promise<LLMBudget[]> {
+  let text: string;
+  try {
+    text = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+  const data = JSON.parse(text);
+  if (!Array.isArray(data?.budgets)) {
+    throw new Error(`Invalid budgets file ${filePath}: expected a "budgets" array`);
+  }
+  return data.budgets;
+}
+
+/**
+ * Persist budgets. A budget replaces any existing one with the same id.
+ */
+export async function writeBudgets(filePath: string, budgets: LLMBudget[]): Promise<LLMBudget[]> {
+  const byId = new Map(budgets.map(budget => [budgetId(budget), budget]));
+  const unique = [...byId.values()];
+  await fs.writeFile(filePath, JSON.stringify({ budgets: unique }, null, 2));
+  return unique;
+}
@@ -0,0 +1,159 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ChatCompletionRequestMessage } from '../types/llm';
+
+/** Cache directory, next to the usage log */
+export const LLM_CACHE_DIR = '.llm-cache';
+
+/**
+ * A cached provider response
+ */
+export interface LLMCacheEntry {
+  key: string;
+  model: string;
+  purpose: string;
+  provider: string;
+  /** Cost of the original call, i.e. what each hit saves */
+  cost: number;
+  createdAt: string;
+  response: any;
+}
+
+export interface LLMCacheOptions {
+  /** Directory holding one file per entry; entries are kept in memory when omitted */
+  dir?: string;
+  ttlHours: number;
+  maxEntries: number;
+  maxBytes: number;
+}
+
+/**
+ * Content address of a prompt: model, messages (role and content) and temperature
+ */
+export function promptFingerprint(model: string, messages: ChatCompletionRequestMessage[], temperature?: number): string {
+  const canonical = JSON.stringify({
+    model,
+    messages: messages.map(message => [message.role, message.content]),
+    temperature: temperature ?? null,
+  });
+  return createHash('sha256').update(canonical).digest('hex');
+}
+
+/**
+ * Persistent, content-addressed LLM response cache with TTL and size limits.
+ * When over a limit, the least recently used entries are evicted first.
+ */
+export class LLMResponseCache {
+  private memory = new Map<string, { entry: LLMCacheEntry; bytes: number; usedAt: number }>();
+
+  constructor(private options: LLMCacheOptions) {}
+
+  private filePath(key: string): string {
+    return path.join(this.options.dir!, `${key}.json`);
+  }
+
+  private isExpired(entry: LLMCacheEntry, now: Date): boolean {
+    return now.getTime() - new Date(entry.createdAt).getTime() > this.options.ttlHours * 3600_000;
+  }
+
+  /**
+   * Cached entry for a fingerprint, or null when missing or expired
+   */
+  async get(key: string, now: Date = new Date()): Promise<LLMCacheEntry | null> {
+    let entry: LLMCacheEntry;
+    if (!this.options.dir) {
+      const cached = this.memory.get(key);
+      if (!cached) return null;
+      entry = cached.entry;
+      cached.usedAt = now.getTime();
+    } else {
+      try {
+        entry = JSON.parse(await fs.readFile(this.filePath(key), 'utf-8'));
+      } catch {
+        return null;
+      }
+      // Touch the file so eviction sees it as recently used
+      await fs.utimes(this.filePath(key), now, now).catch(() => undefined);
+    }
+
+    if (this.isExpired(entry, now)) {
+      await this.delete(key);
+      return null;
+    }
+    return entry;
+  }
+
+  /**
+   * Store an entry, then evict expired and least recently used entries over the limits
+   */
+  async set(entry: LLMCacheEntry, now: Date = new Date()): Promise<void> {
+    const data = JSON.stringify(entry);
+    if (!this.options.dir) {
+      this.memory.set(entry.key, { entry, bytes: Buffer.byteLength(data), usedAt: now.getTime() });
+    } else {
+      await fs.mkdir(this.options.dir, { recursive: true });
+      await fs.writeFile(this.filePath(entry.key), data);
+    }
+    await this.prune(now);
+  }
+
+  async delete(key: string): Promise<void> {
+    if (!this.options.dir) {
+      this.memory.delete(key);
+    } else {
+      await fs.unlink(this.filePath(key)).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Remove every entry
+   * @returns Number of entries removed
+   */
+  async clear(): Promise<number> {
+    const files = await this.list();
+    await Promise.all(files.map(file => this.delete(file.key)));
+    return files.length;
+  }
+
+  /**
+   * Number and total size of cached entries
+   */
+  async stats(): Promise<{ entries: number; bytes: number }> {
+    const files = await this.list();
+    return { entries: files.length, bytes: files.reduce((sum, file) => sum + file.bytes, 0) };
+  }
+
+  private async list(): Promise<Array<{ key: string; bytes: number; usedAt: number }>> {
+    if (!this.options.dir) {
+      return [...this.memory].map(([key, cached]) => ({ key, bytes: cached.bytes, usedAt: cached.usedAt }));
+    }
+
+    let names: string[];
+    try {
+      names = (await fs.readdir(this.options.dir)).filter(name => name.endsWith('.json'));
+    } catch {
+      return [];
+    }
+    const files = await Promise.all(names.map(async name => {
+      const stat = await fs.stat(path.join(this.options.dir!, name)).catch(() => null);
+      return stat ? { key: name.slice(0, -'.json'.length), bytes: stat.size, usedAt: stat.mtimeMs } : null;
+    }));
+    return files.filter(file => file !== null);
+  }
+
+  private async prune(now: Date): Promise<void> {
+    // Least recently used first
+    const files = (await this.list()).sort((a, b) => a.usedAt - b.usedAt);
+    const expiredBefore = now.getTime() - this.options.ttlHours * 3600_000;
+    let count = files.length;
+    let bytes = files.reduce((sum, file) => sum + file.bytes, 0);
+
+    for (const file of files) {
+      if (file.usedAt >= expiredBefore && count <= this.options.maxEntries && bytes <= this.options.maxBytes) continue;
+      await this.delete(file.key);
+      count--;
+      bytes -= file.bytes;
+    }
+  }
+}
@@ -0,0 +1,203 @@
+import { promises as fs } from 'fs';
+import { withFileLock } from './file-lock';
+
+/** Provider health file, next to the usage log */
+export const PROVIDER_HEALTH_FILE = '.llm-provider-health.json';
+
+/**
+ * `closed`: calls go through. `open`: the provider is skipped until the cooldown ends.
+ * `half-open`: the cooldown has ended and the next call is a trial; success closes the circuit, failure reopens it.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Persisted health of one provider
+ */
+export interface ProviderHealth {
+  provider: string;
+  state: CircuitState;
+  /** Failures since the last success */
+  consecutiveFailures: number;
+  totalFailures: number;
+  totalSuccesses: number;
+  openedAt?: string;
+  /** When an open circuit allows its next trial call */
+  retryAt?: string;
+  lastFailureAt?: string;
+  lastSuccessAt?: string;
+  lastError?: string;
+  /** When the half-open circuit's trial call was handed out */
+  trialStartedAt?: string;
+}
+
+export interface CircuitBreakerOptions {
+  /** Health file; health is kept in memory only when omitted */
+  path?: string;
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** How long an open circuit skips the provider before allowing a trial call */
+  cooldownMs: number;
+}
+
+/**
+ * One step of a call's provider chain, recorded in the usage log
+ */
+export interface ProviderAttempt {
+  provider: string;
+  outcome: 'success' | 'failure' | 'skipped';
+  /** Error message for failures, why the provider was passed over for skips */
+  reason?: string;
+  duration: number;
+}
+
+/** Lock on the health file, held while it is re-read, changed and written back */
+const HEALTH_LOCK = { name: 'provider health', timeoutMs: 5000, staleMs: 30000 };
+
+function currentState(health: ProviderHealth, now: Date): CircuitState {
+  return health.state === 'open' && now.getTime() >= new Date(health.retryAt!).getTime() ? 'half-open' : health.state;
+}
+
+/**
+ * Per-provider circuit breakers with health persisted across runs. Processes sharing the health file
+ * change it under a lock, each writing back only the provider it recorded.
+ */
+export class ProviderCircuitBreakers {
+  private health = new Map<string, ProviderHealth>();
+  private loaded = false;
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  private async load(): Promise<void> {
+    if (!this.loaded) await this.reload();
+  }
+
+  /**
+   * Take the health file as it is now, including other processes' changes
+   */
+  private async reload(): Promise<void> {
+    this.loaded = true;
+    if (!this.options.path) return;
+    try {
+      const data = JSON.parse(await fs.readFile(this.options.path, 'utf-8'));
+      this.health = new Map((Array.isArray(data?.providers) ? data.providers as ProviderHealth[] : []).map(health => [health.provider, health]));
+    } catch {
+      // No health recorded yet
+    }
+  }
+
+  /**
+   * Apply a change to the latest health: re-read the file under its lock, change it and write it back,
+   * so a concurrent process's update to another provider is not lost
+   */
+  private async update<T>(change: () => T): Promise<T> {
+    const filePath = this.options.path;
+    if (!filePath) {
+      await this.load();
+      return change();
+    }
+    return withFileLock(`${filePath}.lock`, HEALTH_LOCK, async () => {
+      await this.reload();
+      const result = change();
+      // Write then rename, so readers never see a half-written file
+      const temporary = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(temporary, JSON.stringify({ providers: [...this.health.values()] }, null, 2));
+      await fs.rename(temporary, filePath);
+      return result;
+    });
+  }
+
+  private entry(provider: string): ProviderHealth {
+    let health = this.health.get(provider);
+    if (!health) {
+      health = { provider, state: 'closed', consecutiveFailures: 0, totalFailures: 0, totalSuccesses: 0 };
+      this.health.set(provider, health);
+    }
+    return health;
+  }
+
+  /**
+   * Current state, moving an open circuit to half-open once its cooldown has ended
+   */
+  async getState(provider: string, now: Date = new Date()): Promise<CircuitState> {
+    await this.load();
+    const health = this.health.get(provider);
+    if (!health) return 'closed';
+    health.state = currentState(health, now);
+    return health.state;
+  }
+
+  /**
+   * Whether a call may go to the provider now: always while closed, never while open. A half-open
+   * circuit hands its trial call to one caller across processes; the others are kept out until the
+   * trial is recorded, or until another cooldown passes without it being recorded.
+   */
+  async allowCall(provider: string, now: Date = new Date()): Promise<boolean> {
+    const state = await this.getState(provider, now);
+    if (state !== 'half-open') return state === 'closed';
+    return this.update(() => {
+      const health = this.health.get(provider);
+      if (!health) return true;
+      health.state = currentState(health, now);
+      if (health.state !== 'half-open') return health.state === 'closed';
+      if (health.trialStartedAt && now.getTime() < new Date(health.trialStartedAt).getTime() + this.options.cooldownMs) return false;
+      health.trialStartedAt = now.toISOString();
+      return true;
+    });
+  }
+
+  async recordSuccess(provider: string, now: Date = new Date()): Promise<void> {
+    await this.update(() => {
+      const health = this.entry(provider);
+      health.state = 'closed';
+      health.consecutiveFailures = 0;
+      health.totalSuccesses++;
+      health.lastSuccessAt = now.toISOString();
+      delete health.openedAt;
+      delete health.retryAt;
+      delete health.trialStartedAt;
+    });
+  }
+
+  /**
+   * Record a failed call. `openForMs` opens the circuit right away for that long (e.g. after a rate limit).
+   */
+  async recordFailure(provider: string, error: string, now: Date = new Date(), openForMs?: number): Promise<void> {
+    await this.update(() => {
+      const health = this.entry(provider);
+      health.consecutiveFailures++;
+      health.totalFailures++;
+      health.lastFailureAt = now.toISOString();
+      health.lastError = error;
+      // A failed trial reopens immediately; a closed circuit opens at the threshold
+      if (openForMs !== undefined || currentState(health, now) === 'half-open' || health.consecutiveFailures >= this.options.failureThreshold) {
+        health.state = 'open';
+        health.openedAt = now.toISOString();
+        health.retryAt = new Date(now.getTime() + (openForMs ?? this.options.cooldownMs)).toISOString();
+      }
+      delete health.trialStartedAt;
+    });
+  }
+
+  /**
+   * Health of every provider seen so far
+   */
+  async getHealth(now: Date = new Date()): Promise<ProviderHealth[]> {
+    await this.reload();
+    for (const health of this.health.values()) {
+      health.state = currentState(health, now);
+    }
+    return [...this.health.values()];
+  }
+
+  /**
+   * Close one provider's circuit (or all) and forget its failures
+   * @returns Providers that were reset
+   */
+  async reset(provider?: string): Promise<string[]> {
+    return this.update(() => {
+      const names = provider ? [provider].filter(name => this.health.has(name)) : [...this.health.keys()];
+      names.forEach(name => this.health.delete(name));
+      return names;
+    });
+  }
+}
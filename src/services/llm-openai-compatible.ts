@@ -0,0 +1,200 @@
+import type { z } from 'zod';
+import type { ChatCompletionRequestMessage, LLMProvider, OpenAIChatOptions } from '../types/llm';
+import { OpenAICompatibleBackendSchema } from '../types/schemas';
+import { streamOpenAICompatible } from './llm-stream';
+
+/** Backend settings as configured (defaults filled in by `createOpenAICompatibleProvider`) */
+export type OpenAICompatibleBackendConfig = z.input<typeof OpenAICompatibleBackendSchema>;
+type OpenAICompatibleBackend = z.output<typeof OpenAICompatibleBackendSchema>;
+
+/**
+ * Backend from `LOCAL_LLM_BASE_URL` (and `LOCAL_LLM_MODEL`, served for every requested model), if set
+ */
+export function localBackendFromEnv(env: NodeJS.ProcessEnv = process.env): OpenAICompatibleBackendConfig | undefined {
+  if (!env.LOCAL_LLM_BASE_URL) return undefined;
+  return {
+    name: 'local-openai',
+    baseUrl: env.LOCAL_LLM_BASE_URL,
+    apiKey: env.LOCAL_LLM_API_KEY,
+    modelAliases: env.LOCAL_LLM_MODEL ? { '*': env.LOCAL_LLM_MODEL } : {},
+  };
+}
+
+/**
+ * Model the server should run for a requested model: its alias, else the `*` alias, else itself
+ */
+export function resolveModelAlias(model: string, aliases: Record<string, string>): string {
+  return aliases[model] ?? aliases['*'] ?? model;
+}
+
+/**
+ * Runs at most `max` tasks at once; the rest wait in order
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private max: number) {}
+
+  async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Wait for a slot. Rejects if `signal` aborts first.
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    if (this.active < this.max) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort);
+        this.active++;
+        resolve();
+      };
+      const onAbort = () => {
+        this.waiting = this.waiting.filter(waiter => waiter !== grant);
+        reject(signal!.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiting.push(grant);
+    });
+  }
+
+  release(): void {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+
+  get inFlight(): number {
+    return this.active;
+  }
+}
+
+/**
+ * Health of a server from `GET {baseUrl}/models`, reused for `intervalMs`
+ */
+export class HealthProbe {
+  private checkedAt = -Infinity;
+  private healthy = false;
+  private pending: Promise<boolean> | null = null;
+
+  constructor(
+    private baseUrl: string,
+    private options: { apiKey?: string; intervalMs: number; timeoutMs: number },
+    private now: () => number = Date.now
+  ) {}
+
+  async isHealthy(): Promise<boolean> {
+    if (this.now() - this.checkedAt < this.options.intervalMs) return this.healthy;
+    // Concurrent callers share one probe
+    this.pending ??= this.probe().finally(() => {
+      this.pending = null;
+    });
+    return this.pending;
+  }
+
+  /** Forget the last result, e.g. after a failed request */
+  invalidate(): void {
+    this.checkedAt = -Infinity;
+  }
+
+  private async probe(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, {
+        headers: this.options.apiKey ? { 'Authorization': `Bearer ${this.options.apiKey}` } : {},
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+      });
+      this.healthy = response.ok;
+    } catch {
+      this.healthy = false;
+    }
+    this.checkedAt = this.now();
+    return this.healthy;
+  }
+}
+
+/**
+ * Provider for a server with an OpenAI-compatible `/chat/completions` endpoint. Requests use the
+ * backend's own key and model aliases, wait for a free slot when `maxConcurrency` are in flight, and
+ * the provider reports itself unavailable while the health probe fails. Local servers are free.
+ *
+ * @throws Error when the backend settings are invalid
+ */
+export function createOpenAICompatibleProvider(
+  config: OpenAICompatibleBackendConfig,
+  estimateTokens: (messages: ChatCompletionRequestMessage[]) => number
+): LLMProvider {
+  const parsed = OpenAICompatibleBackendSchema.safeParse(config);
+  if (!parsed.success) {
+    throw new Error(`Invalid local backend ${config.name ?? ''}: ${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+  }
+  const backend: OpenAICompatibleBackend = { ...parsed.data, baseUrl: parsed.data.baseUrl.replace(/\/+$/, '') };
+  const limiter = new ConcurrencyLimiter(backend.maxConcurrency);
+  const health = new HealthProbe(backend.baseUrl, {
+    apiKey: backend.apiKey,
+    intervalMs: backend.healthCheckIntervalMs,
+    timeoutMs: backend.healthCheckTimeoutMs,
+  });
+  const label = `${backend.name} (${backend.baseUrl})`;
+  const forBackend = (options: OpenAIChatOptions): OpenAIChatOptions => ({
+    ...options,
+    model: resolveModelAlias(options.model, backend.modelAliases),
+    apiKey: backend.apiKey ?? '',
+  });
+
+  return {
+    name: backend.name,
+    isAvailable: () => health.isHealthy(),
+    call: options => limiter.run(async () => {
+      const request = forBackend(options);
+      try {
+        const response = await fetch(`${backend.baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            ...(request.apiKey && { 'Authorization': `Bearer ${request.apiKey}` }),
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            model: request.model,
+            messages: request.messages,
+            temperature: request.temperature,
+            max_tokens: request.max_tokens,
+          }),
+          signal: request.signal,
+        });
+        if (!response.ok) {
+          throw new Error(`${label} error: ${response.status} ${await response.text()}`);
+        }
+        return await response.json();
+      } catch (error) {
+        if (!request.signal?.aborted) health.invalidate();
+        throw error;
+      }
+    }, options.signal),
+    stream: options => limitStream(limiter, () => streamOpenAICompatible(backend.baseUrl, forBackend(options), label), options.signal),
+    estimateTokens,
+    estimateCost: () => 0,
+  };
+}
+
+/**
+ * A stream that holds a limiter slot from its first read until it ends
+ */
+async function* limitStream(limiter: ConcurrencyLimiter, open: () => AsyncIterable<string>, signal?: AbortSignal): AsyncGenerator<string> {
+  await limiter.acquire(signal);
+  try {
+    yield* open();
+  } finally {
+    limiter.release();
+  }
+}
@@ -0,0 +1,80 @@
+import { readFileSync } from 'fs';
+import type { z } from 'zod';
+import { PricingTableSchema, type ModelPricingSchema } from '../types/schemas';
+
+export type ModelPricing = z.infer<typeof ModelPricingSchema>;
+export type PricingTable = z.infer<typeof PricingTableSchema>;
+
+/** Pricing overrides, next to the usage log */
+export const PRICING_FILE = '.llm-pricing.json';
+
+/**
+ * Built-in list prices (USD per 1M tokens)
+ */
+export const DEFAULT_PRICING: PricingTable = {
+  version: '2025-07-01',
+  currency: 'USD',
+  models: {
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4.1': { input: 2, output: 8 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+    'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+    'gpt-4-turbo': { input: 10, output: 30 },
+    'gpt-4': { input: 30, output: 60 },
+    'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+    'o1': { input: 15, output: 60 },
+    'o3-mini': { input: 1.1, output: 4.4 },
+    'text-embedding-3-small': { input: 0.02, output: 0 },
+    'text-embedding-3-large': { input: 0.13, output: 0 },
+  },
+  fallback: 'gpt-3.5-turbo',
+};
+
+/**
+ * Pricing table from a JSON file, layered over the built-in prices: the file's models add to or
+ * replace the defaults and its version identifies the result. Returns the defaults when the file
+ * does not exist; throws when it exists but is invalid.
+ */
+export function loadPricingTable(filePath: string): PricingTable {
+  let raw: string;
+  try {
+    raw = readFileSync(filePath, 'utf-8');
+  } catch {
+    return DEFAULT_PRICING;
+  }
+
+  const result = PricingTableSchema.safeParse(JSON.parse(raw));
+  if (!result.success) {
+    throw new Error(`Invalid pricing table ${filePath}: ${result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+  }
+  return {
+    ...result.data,
+    models: { ...DEFAULT_PRICING.models, ...result.data.models },
+    fallback: result.data.fallback ?? DEFAULT_PRICING.fallback,
+  };
+}
+
+/**
+ * Pricing for a model: an exact match, else the longest matching prefix
+ * (so dated snapshots like `gpt-4o-2024-08-06` use `gpt-4o`), else the table's fallback model
+ */
+export function getModelPricing(table: PricingTable, model: string): ModelPricing | null {
+  const exact = table.models[model];
+  if (exact) return exact;
+
+  const prefix = Object.keys(table.models)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  if (prefix) return table.models[prefix]!;
+
+  return table.fallback ? table.models[table.fallback] ?? null : null;
+}
+
+/**
+ * Cost in USD of a call with the given token counts
+ */
+export function calculateCost(pricing: ModelPricing | null, inputTokens: number, outputTokens: number = 0): number {
+  if (!pricing) return 0;
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+}
@@ -0,0 +1,229 @@
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import type { z } from 'zod';
+import type { ChatCompletionRequestMessage } from '../types/llm';
+import { PromptTemplateSchema } from '../types/schemas';
+import type { LLMUsageMetrics } from './llm';
+
+export type PromptTemplate = z.infer<typeof PromptTemplateSchema>;
+
+/** Template directory shipped with the repo, resolved from this module so any working directory works */
+export const PROMPTS_DIR = path.resolve(__dirname, '../../prompts');
+
+/**
+ * Template and version a call was rendered from, recorded on usage records and fossils
+ */
+export interface PromptRef {
+  id: string;
+  version: number;
+}
+
+/**
+ * Rendered template, ready to spread into `callLLM` options
+ */
+export interface RenderedPrompt {
+  prompt: PromptRef;
+  messages: ChatCompletionRequestMessage[];
+}
+
+/**
+ * Thrown for unknown templates, invalid template files and variables that don't match a template
+ */
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Named, versioned prompt templates. `get` and `render` use the pinned version of a template when
+ * one is configured, else its latest version.
+ */
+export class PromptRegistry {
+  private templates = new Map<string, Map<number, PromptTemplate>>();
+
+  constructor(templates: PromptTemplate[] = [], private pins: Record<string, number> = {}) {
+    templates.forEach(template => this.register(template));
+  }
+
+  register(template: PromptTemplate): void {
+    const undeclared = placeholders(template).filter(name => !(name in template.variables));
+    if (undeclared.length > 0) {
+      throw new PromptTemplateError(`Prompt ${formatPromptRef(template)} uses undeclared variables: ${undeclared.join(', ')}`);
+    }
+
+    const versions = this.templates.get(template.id) ?? new Map<number, PromptTemplate>();
+    if (versions.has(template.version)) {
+      throw new PromptTemplateError(`Prompt ${formatPromptRef(template)} is already registered`);
+    }
+    versions.set(template.version, template);
+    this.templates.set(template.id, versions);
+  }
+
+  get(id: string, version?: number): PromptTemplate {
+    const versions = this.templates.get(id);
+    if (!versions) throw new PromptTemplateError(`Unknown prompt template: ${id}`);
+
+    const wanted = version ?? this.pins[id] ?? Math.max(...versions.keys());
+    const template = versions.get(wanted);
+    if (!template) throw new PromptTemplateError(`Unknown prompt template version: ${id}@v${wanted}`);
+    return template;
+  }
+
+  /** Every template version, by id then version */
+  list(): PromptTemplate[] {
+    return [...this.templates.values()]
+      .flatMap(versions => [...versions.values()])
+      .sort((a, b) => a.id.localeCompare(b.id) || a.version - b.version);
+  }
+
+  /**
+   * Fill in a template's `{{name}}` placeholders. Strings are inserted as is, numbers and booleans
+   * as text and `json` variables serialized; optional variables that are missing render empty.
+   */
+  render(id: string, variables: Record<string, unknown>, version?: number): RenderedPrompt {
+    const template = this.get(id, version);
+    const values = checkVariables(template, variables);
+    return {
+      prompt: { id: template.id, version: template.version },
+      messages: template.messages.map(message => ({
+        role: message.role,
+        content: message.content.replace(PLACEHOLDER, (_, name: string) => values[name] ?? ''),
+      })),
+    };
+  }
+}
+
+function placeholders(template: PromptTemplate): string[] {
+  const names = template.messages.flatMap(message => [...message.content.matchAll(PLACEHOLDER)].map(match => match[1]!));
+  return [...new Set(names)];
+}
+
+function checkVariables(template: PromptTemplate, variables: Record<string, unknown>): Record<string, string> {
+  const errors: string[] = [];
+  const values: Record<string, string> = {};
+
+  for (const [name, declared] of Object.entries(template.variables)) {
+    const type = declared.replace(/\?$/, '');
+    const value = variables[name];
+    if (value === undefined) {
+      if (!declared.endsWith('?')) errors.push(`${name} is required`);
+      continue;
+    }
+    if (type === 'json') {
+      values[name] = JSON.stringify(value);
+    } else if (typeof value !== type) {
+      errors.push(`${name} must be a ${type}, got ${typeof value}`);
+    } else {
+      values[name] = String(value);
+    }
+  }
+  Object.keys(variables)
+    .filter(name => !(name in template.variables))
+    .forEach(name => errors.push(`${name} is not a variable of this template`));
+
+  if (errors.length > 0) {
+    throw new PromptTemplateError(`Invalid variables for prompt ${formatPromptRef(template)}: ${errors.join('; ')}`);
+  }
+  return values;
+}
+
+/**
+ * Registry of the templates in a directory (`.yaml`, `.yml` or `.json`, one template per file).
+ * A missing directory gives an empty registry; an invalid template throws.
+ */
+export function loadPromptRegistry(dir: string, pins: Record<string, number> = {}): PromptRegistry {
+  let files: string[];
+  try {
+    files = readdirSync(dir).filter(file => /\.(ya?ml|json)$/.test(file)).sort();
+  } catch {
+    return new PromptRegistry([], pins);
+  }
+
+  const templates = files.map(file => {
+    const filePath = path.join(dir, file);
+    const raw = readFileSync(filePath, 'utf-8');
+    const result = PromptTemplateSchema.safeParse(file.endsWith('.json') ? JSON.parse(raw) : yaml.load(raw));
+    if (!result.success) {
+      throw new PromptTemplateError(`Invalid prompt template ${filePath}: ${result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+    }
+    return result.data;
+  });
+  return new PromptRegistry(templates, pins);
+}
+
+/**
+ * Template version pins from a `id=version,id=version` list (the `LLM_PROMPT_VERSIONS` variable)
+ */
+export function parsePromptPins(value: string | undefined): Record<string, number> {
+  const pins: Record<string, number> = {};
+  for (const pin of (value ?? '').split(',').map(part => part.trim()).filter(Boolean)) {
+    const match = pin.match(/^([a-z0-9][a-z0-9-]*)=(\d+)$/);
+    if (!match) throw new PromptTemplateError(`Invalid prompt version pin "${pin}" (expected id=version)`);
+    pins[match[1]!] = parseInt(match[2]!);
+  }
+  return pins;
+}
+
+export function formatPromptRef(ref: PromptRef): string {
+  return `${ref.id}@v${ref.version}`;
+}
+
+/**
+ * Usage of one template version
+ */
+export interface PromptVersionStats {
+  id: string;
+  version: number;
+  calls: number;
+  successRate: number;
+  totalCost: number;
+  averageCost: number;
+  /** Calls with structured-output validation */
+  validatedCalls: number;
+  /** Share of validated calls whose output was valid; null without any */
+  validationPassRate: number | null;
+}
+
+/**
+ * Per-version stats for the usage records made from templates, by id then version
+ */
+export function comparePromptVersions(
+  log: Array<Pick<LLMUsageMetrics, 'prompt' | 'success' | 'cost' | 'validation'>>,
+  id?: string
+): PromptVersionStats[] {
+  const groups = new Map<string, typeof log>();
+  for (const record of log) {
+    if (!record.prompt || (id && record.prompt.id !== id)) continue;
+    const key = formatPromptRef(record.prompt);
+    const group = groups.get(key);
+    if (group) {
+      group.push(record);
+    } else {
+      groups.set(key, [record]);
+    }
+  }
+
+  return [...groups.values()]
+    .map(records => {
+      const totalCost = records.reduce((sum, record) => sum + record.cost, 0);
+      const validated = records.filter(record => record.validation);
+      return {
+        id: records[0]!.prompt!.id,
+        version: records[0]!.prompt!.version,
+        calls: records.length,
+        successRate: records.filter(record => record.success).length / records.length,
+        totalCost,
+        averageCost: totalCost / records.length,
+        validatedCalls: validated.length,
+        validationPassRate: validated.length > 0
+          ? validated.filter(record => record.validation!.valid).length / validated.length
+          : null,
+      };
+    })
+    .sort((a, b) => a.id.localeCompare(b.id) || a.version - b.version);
+}
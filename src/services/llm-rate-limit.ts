@@ -0,0 +1,143 @@
+/**
+ * Per-provider request and token rates. A provider without limits is never throttled.
+ */
+export interface ProviderRateLimit {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+/**
+ * Time source for rate limiting (replaceable in tests)
+ */
+export interface RateLimitClock {
+  now(): number;
+  /** Resolve after `ms`, or reject with the abort reason if `signal` aborts first */
+  sleep(ms: number, signal?: AbortSignal): Promise<void>;
+}
+
+export const systemClock: RateLimitClock = {
+  now: () => Date.now(),
+  sleep: (ms, signal) => new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }),
+};
+
+/**
+ * Bucket of `capacity` units refilled continuously at `capacity` per minute
+ */
+export class TokenBucket {
+  private available: number;
+  private updatedAt: number;
+
+  constructor(private capacity: number, private clock: RateLimitClock = systemClock) {
+    this.available = capacity;
+    this.updatedAt = clock.now();
+  }
+
+  private refill(): void {
+    const now = this.clock.now();
+    this.available = Math.min(this.capacity, this.available + ((now - this.updatedAt) * this.capacity) / 60_000);
+    this.updatedAt = now;
+  }
+
+  /**
+   * Milliseconds until `amount` units are available (0 when they are now). Amounts above the
+   * capacity wait for a full bucket.
+   */
+  delayFor(amount: number): number {
+    this.refill();
+    const missing = Math.min(amount, this.capacity) - this.available;
+    return missing > 0 ? Math.ceil((missing * 60_000) / this.capacity) : 0;
+  }
+
+  take(amount: number): void {
+    this.refill();
+    this.available -= Math.min(amount, this.capacity);
+  }
+}
+
+interface ProviderBuckets {
+  requests?: TokenBucket;
+  tokens?: TokenBucket;
+  /** Waiters are served in arrival order */
+  queue: Promise<unknown>;
+}
+
+/**
+ * Token-bucket rate limiter with a request bucket and a token bucket per provider
+ */
+export class ProviderRateLimiter {
+  private buckets = new Map<string, ProviderBuckets>();
+
+  constructor(private limits: Record<string, ProviderRateLimit>, private clock: RateLimitClock = systemClock) {}
+
+  private bucketsFor(provider: string): ProviderBuckets | null {
+    const limit = this.limits[provider];
+    if (!limit?.requestsPerMinute && !limit?.tokensPerMinute) return null;
+
+    let buckets = this.buckets.get(provider);
+    if (!buckets) {
+      buckets = {
+        requests: limit.requestsPerMinute ? new TokenBucket(limit.requestsPerMinute, this.clock) : undefined,
+        tokens: limit.tokensPerMinute ? new TokenBucket(limit.tokensPerMinute, this.clock) : undefined,
+        queue: Promise.resolve(),
+      };
+      this.buckets.set(provider, buckets);
+    }
+    return buckets;
+  }
+
+  /**
+   * Wait until the provider can take one more request of `tokens` tokens, then count it.
+   * @returns How long the call waited, in milliseconds
+   */
+  acquire(provider: string, tokens: number, signal?: AbortSignal): Promise<number> {
+    const buckets = this.bucketsFor(provider);
+    if (!buckets) return Promise.resolve(0);
+
+    const turn = buckets.queue.then(async () => {
+      if (signal?.aborted) throw signal.reason;
+      const start = this.clock.now();
+      for (;;) {
+        const delay = Math.max(buckets.requests?.delayFor(1) ?? 0, buckets.tokens?.delayFor(tokens) ?? 0);
+        if (delay === 0) break;
+        await this.clock.sleep(delay, signal);
+      }
+      buckets.requests?.take(1);
+      buckets.tokens?.take(tokens);
+      return this.clock.now() - start;
+    });
+    // A cancelled waiter must not block the ones behind it
+    buckets.queue = turn.catch(() => undefined);
+    return turn;
+  }
+}
+
+/** Limiters by limits table, shared by every service in the process */
+const sharedLimiters = new Map<string, ProviderRateLimiter>();
+
+/**
+ * The process-wide limiter for these limits, so separate services calling the same provider
+ * draw on one set of buckets rather than each getting the provider's full rate
+ */
+export function sharedRateLimiter(limits: Record<string, ProviderRateLimit>): ProviderRateLimiter {
+  const key = JSON.stringify(Object.entries(limits).sort(([a], [b]) => a.localeCompare(b)));
+  let limiter = sharedLimiters.get(key);
+  if (!limiter) {
+    limiter = new ProviderRateLimiter(limits);
+    sharedLimiters.set(key, limiter);
+  }
+  return limiter;
+}
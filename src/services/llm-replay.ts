@@ -0,0 +1,147 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ChatCompletionRequestMessage, LLMProvider, OpenAIChatOptions } from '../types/llm';
+import { promptFingerprint } from './llm-cache';
+
+/**
+ * `record` saves every provider response as a fixture; `replay` answers only from fixtures
+ */
+export type LLMReplayMode = 'record' | 'replay';
+
+export interface LLMReplayConfig {
+  mode: LLMReplayMode;
+  /** Fixture directory */
+  dir: string;
+}
+
+/** Default fixture directory, relative to the working directory */
+export const LLM_FIXTURES_DIR = path.join('tests', 'fixtures', 'llm');
+
+/**
+ * A recorded request/response pair. The API key is never recorded.
+ */
+export interface LLMFixture {
+  key: string;
+  recordedAt: string;
+  /** Provider that produced the response */
+  provider: string;
+  request: {
+    model: string;
+    temperature?: number;
+    messages: ChatCompletionRequestMessage[];
+  };
+  response: any;
+}
+
+/**
+ * Thrown in replay mode for a request without a fixture. `LLMService` lets it through instead of
+ * falling back, so a test whose prompt changed fails rather than passing on a canned response.
+ */
+export class UnrecordedLLMRequestError extends Error {
+  constructor(message: string, public readonly key: string) {
+    super(message);
+    this.name = 'UnrecordedLLMRequestError';
+  }
+}
+
+/**
+ * Replay settings from `LLM_REPLAY` (`record` or `replay`) and `LLM_FIXTURES_DIR`
+ */
+export function replayConfigFromEnv(env: NodeJS.ProcessEnv = process.env): LLMReplayConfig | undefined {
+  const mode = env.LLM_REPLAY;
+  if (!mode) return undefined;
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error(`Invalid LLM_REPLAY "${mode}" (expected record or replay)`);
+  }
+  return { mode, dir: path.resolve(env.LLM_FIXTURES_DIR ?? LLM_FIXTURES_DIR) };
+}
+
+/**
+ * Fixture files, one per request, named by the request hash (model, messages and temperature)
+ */
+export class LLMFixtureStore {
+  constructor(private dir: string) {}
+
+  key(options: OpenAIChatOptions): string {
+    return promptFingerprint(options.model, options.messages, options.temperature);
+  }
+
+  async read(options: OpenAIChatOptions): Promise<LLMFixture | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.fixturePath(this.key(options)), 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Save a response, replacing any earlier recording of the same request. Returns the file path.
+   */
+  async write(options: OpenAIChatOptions, provider: string, response: any): Promise<string> {
+    const key = this.key(options);
+    const fixture: LLMFixture = {
+      key,
+      recordedAt: new Date().toISOString(),
+      provider,
+      request: {
+        model: options.model,
+        temperature: options.temperature,
+        messages: options.messages.map(({ role, content }) => ({ role, content })),
+      },
+      response,
+    };
+    const filePath = this.fixturePath(key);
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(fixture, null, 2) + '\n');
+    return filePath;
+  }
+
+  fixturePath(key: string): string {
+    return path.join(this.dir, `${key.slice(0, 16)}.json`);
+  }
+}
+
+/**
+ * Provider that answers from fixtures only, with no network access
+ */
+export function createReplayProvider(store: LLMFixtureStore): LLMProvider {
+  return {
+    name: 'replay',
+    isAvailable: async () => true,
+    call: async options => {
+      const fixture = await store.read(options);
+      if (!fixture) {
+        const key = store.key(options);
+        const prompt = options.messages.filter(message => message.role === 'user').at(-1)?.content ?? '';
+        throw new UnrecordedLLMRequestError(
+          `No recorded LLM response for ${options.model} request ${key.slice(0, 16)} ("${prompt.slice(0, 80)}"). ` +
+          `Expected ${store.fixturePath(key)}; record it with LLM_REPLAY=record.`,
+          key
+        );
+      }
+      return fixture.response;
+    },
+    estimateTokens: () => 0,
+    estimateCost: () => 0,
+  };
+}
+
+/**
+ * Wrap a provider so each of its responses is saved as a fixture. Streaming goes through `call`,
+ * so recordings hold whole responses.
+ */
+export function recordingProvider(provider: LLMProvider, store: LLMFixtureStore): LLMProvider {
+  return {
+    name: provider.name,
+    isAvailable: () => provider.isAvailable(),
+    call: async options => {
+      const response = await provider.call(options);
+      const filePath = await store.write(options, provider.name, response);
+      console.log(`📼 Recorded ${provider.name} response to ${filePath}`);
+      return response;
+    },
+    estimateTokens: (...args) => provider.estimateTokens(...args),
+    estimateCost: (...args) => provider.estimateCost(...args),
+  };
+}
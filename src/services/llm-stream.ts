@@ -0,0 +1,162 @@
+import type { OpenAIChatOptions } from '../types/llm';
+
+/**
+ * A piece of streamed completion text
+ */
+export interface LLMStreamChunk {
+  /** Provider that produced the text (`fallback` for the canned fallback response) */
+  provider: string;
+  delta: string;
+}
+
+/**
+ * Abort signal for one provider attempt: aborts when the caller's signal does or when the timeout elapses.
+ * `dispose` clears the timer and aborts anything still using the signal.
+ */
+export function createAttemptSignal(signal?: AbortSignal, timeoutMs?: number): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal!.reason);
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+  const timer = timeoutMs !== undefined && timeoutMs > 0
+    ? setTimeout(() => controller.abort(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs)
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      if (!controller.signal.aborted) controller.abort(new Error('Attempt finished'));
+    },
+  };
+}
+
+/**
+ * Settle with the promise, or reject with the signal's reason as soon as it aborts
+ * (for providers that ignore the signal)
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Lines of a response body as they arrive; the reader is released when iteration stops early
+ */
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        yield buffer.slice(0, newline).replace(/\r$/, '');
+        buffer = buffer.slice(newline + 1);
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer) yield buffer;
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+async function postJson(url: string, body: unknown, options: { apiKey?: string; signal?: AbortSignal }, label: string): Promise<ReadableStream<Uint8Array>> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      ...(options.apiKey && { 'Authorization': `Bearer ${options.apiKey}` }),
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+    signal: options.signal,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`${label} error: ${response.status} ${errorText}`);
+  }
+  if (!response.body) {
+    throw new Error(`${label} error: empty response body`);
+  }
+  return response.body;
+}
+
+/**
+ * Stream a chat completion from an OpenAI-compatible endpoint (server-sent events)
+ * @param baseUrl - API root, e.g. `https://api.openai.com/v1`
+ * @param label - Names the server in errors
+ */
+export async function* streamOpenAICompatible(baseUrl: string, options: OpenAIChatOptions, label: string = 'OpenAI API'): AsyncGenerator<string> {
+  const body = await postJson(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    model: options.model,
+    messages: options.messages,
+    temperature: options.temperature,
+    max_tokens: options.max_tokens,
+    stream: true,
+  }, options, label);
+
+  for await (const line of readLines(body)) {
+    if (!line.startsWith('data:')) continue;
+    const data = line.slice('data:'.length).trim();
+    if (data === '[DONE]') return;
+    const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+    if (delta) yield delta;
+  }
+}
+
+/**
+ * Base URL of the Ollama server (`OLLAMA_HOST`, which may omit the scheme)
+ */
+export function ollamaBaseUrl(host: string | undefined = process.env.OLLAMA_HOST): string {
+  const base = host || 'http://localhost:11434';
+  return /^https?:\/\//.test(base) ? base.replace(/\/+$/, '') : `http://${base.replace(/\/+$/, '')}`;
+}
+
+/**
+ * Stream a chat completion from Ollama's HTTP API (newline-delimited JSON)
+ */
+export async function* streamOllama(baseUrl: string, options: OpenAIChatOptions): AsyncGenerator<string> {
+  const body = await postJson(`${baseUrl}/api/chat`, {
+    model: options.model,
+    messages: options.messages,
+    stream: true,
+    options: {
+      ...(options.temperature !== undefined && { temperature: options.temperature }),
+      ...(options.max_tokens !== undefined && { num_predict: options.max_tokens }),
+    },
+  }, { signal: options.signal }, 'Ollama');
+
+  for await (const line of readLines(body)) {
+    if (!line.trim()) continue;
+    const message = JSON.parse(line);
+    if (message.error) throw new Error(`Ollama error: ${message.error}`);
+    if (message.message?.content) yield message.message.content;
+    if (message.done) return;
+  }
+}
+
+/**
+ * Concatenate a text stream
+ */
+export async function collectStream(stream: AsyncIterable<string>): Promise<string> {
+  let text = '';
+  for await (const delta of stream) {
+    text += delta;
+  }
+  return text;
+}
@@ -0,0 +1,149 @@
+import { z } from 'zod';
+import type { ChatCompletionRequestMessage } from '../types/llm';
+
+/**
+ * Outcome of validating one structured-output attempt, recorded in the usage log
+ */
+export interface StructuredValidation {
+  /** 0 for the first call, then 1, 2, ... for repair prompts */
+  attempt: number;
+  valid: boolean;
+  /** Why the output was rejected */
+  stage?: 'parse' | 'schema';
+  error?: string;
+}
+
+/**
+ * Thrown by `LLMService.callLLM` when structured output is still invalid after every repair attempt
+ * (or when no provider answered and the fallback response does not match the schema)
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public readonly validations: StructuredValidation[],
+    public readonly lastOutput: string
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/**
+ * Parse the JSON value in a completion: the whole text, a fenced code block, or the outermost
+ * object/array embedded in prose
+ */
+export function extractJson(text: string): unknown {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  const candidates = [trimmed, fenced?.[1], embeddedJson(trimmed)].filter((candidate): candidate is string => !!candidate);
+
+  let lastError: unknown;
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw new Error(`Response is not valid JSON: ${(lastError as Error)?.message ?? 'empty response'}`);
+}
+
+function embeddedJson(text: string): string | null {
+  const start = text.search(/[[{]/);
+  if (start === -1) return null;
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  return end > start ? text.slice(start, end + 1) : null;
+}
+
+export type StructuredResult<T> =
+  | { success: true; data: T }
+  | { success: false; stage: 'parse' | 'schema'; error: string };
+
+/**
+ * Validate a completion against a schema
+ */
+export function validateStructuredOutput<T>(schema: z.ZodType<T>, text: string): StructuredResult<T> {
+  let value: unknown;
+  try {
+    value = extractJson(text);
+  } catch (error) {
+    return { success: false, stage: 'parse', error: (error as Error).message };
+  }
+
+  const result = schema.safeParse(value);
+  if (result.success) return { success: true, data: result.data };
+  return {
+    success: false,
+    stage: 'schema',
+    error: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; '),
+  };
+}
+
+/**
+ * Compact TypeScript-like description of a schema's shape, for prompts
+ */
+export function describeSchema(schema: z.ZodTypeAny): string {
+  const def = schema._def;
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.ZodObject<z.ZodRawShape>).shape;
+      const fields = Object.entries(shape).map(([key, value]) => {
+        const optional = value.isOptional();
+        return `"${key}"${optional ? '?' : ''}: ${describeSchema(optional ? unwrapOptional(value) : value)}`;
+      });
+      return `{ ${fields.join(', ')} }`;
+    }
+    case z.ZodFirstPartyTypeKind.ZodArray:
+      return `Array<${describeSchema(def.type)}>`;
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return (def.values as string[]).map(value => JSON.stringify(value)).join(' | ');
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return JSON.stringify(def.value);
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+      return (def.options as z.ZodTypeAny[]).map(describeSchema).join(' | ');
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return `Record<string, ${describeSchema(def.valueType)}>`;
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return `${describeSchema(def.innerType)} | null`;
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return describeSchema(def.innerType);
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return describeSchema(def.schema);
+    case z.ZodFirstPartyTypeKind.ZodString:
+      return 'string';
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return 'number';
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return 'boolean';
+    default:
+      return 'any';
+  }
+}
+
+function unwrapOptional(schema: z.ZodTypeAny): z.ZodTypeAny {
+  return schema instanceof z.ZodOptional ? schema.unwrap() : schema;
+}
+
+/**
+ * System instruction asking for JSON matching the schema
+ */
+export function structuredOutputInstruction(schema: z.ZodTypeAny): ChatCompletionRequestMessage {
+  return {
+    role: 'system',
+    content: `Respond only with JSON (no prose, no code fences) matching this TypeScript type:\n${describeSchema(schema)}`,
+  };
+}
+
+/**
+ * Messages that show the model its rejected output and ask for a corrected one
+ */
+export function repairMessages(output: string, error: string): ChatCompletionRequestMessage[] {
+  return [
+    { role: 'assistant', content: output },
+    {
+      role: 'user',
+      content: `That response was rejected: ${error}\nReply with only the corrected JSON.`,
+    },
+  ];
+}
@@ -0,0 +1,118 @@
+import { Tiktoken, type TiktokenBPE } from 'js-tiktoken/lite';
+import type { ChatCompletionRequestMessage } from '../types/llm';
+
+/**
+ * Counts (and truncates to) tokens for a family of models
+ */
+export interface Tokenizer {
+  name: string;
+  count(text: string): number;
+  /** Longest prefix of the text that fits in `maxTokens` */
+  truncate(text: string, maxTokens: number): string;
+}
+
+/** Tokens added per chat message (role and separators) by OpenAI's chat format */
+const TOKENS_PER_MESSAGE = 3;
+/** Tokens that prime the assistant's reply */
+const TOKENS_PER_REPLY = 3;
+
+/**
+ * Rough tokenizer for models without a known vocabulary: 1 token ≈ 4 characters
+ */
+export const heuristicTokenizer: Tokenizer = {
+  name: 'heuristic',
+  count: text => Math.ceil(text.length / 4),
+  truncate: (text, maxTokens) => text.slice(0, Math.max(0, maxTokens) * 4),
+};
+
+export type BpeEncoding = 'cl100k_base' | 'o200k_base';
+
+/**
+ * Byte-pair-encoding tokenizer with one of OpenAI's vocabularies.
+ * The vocabulary (a few MB) is loaded on first use.
+ */
+export function createBpeTokenizer(encoding: BpeEncoding): Tokenizer {
+  let tiktoken: Tiktoken | null = null;
+  const load = (): Tiktoken => {
+    if (!tiktoken) {
+      // Loaded lazily so commands that never count tokens don't pay for parsing the ranks
+      const ranks = encoding === 'cl100k_base'
+        ? require('js-tiktoken/ranks/cl100k_base')
+        : require('js-tiktoken/ranks/o200k_base');
+      // CommonJS build exports the ranks directly, the ESM build as default
+      tiktoken = new Tiktoken((ranks.default ?? ranks) as TiktokenBPE);
+    }
+    return tiktoken;
+  };
+
+  const encode = (text: string): number[] => splitLongRuns(text).flatMap(segment => load().encode(segment, 'all'));
+
+  return {
+    name: encoding,
+    count: text => encode(text).length,
+    truncate: (text, maxTokens) => {
+      const tokens = encode(text);
+      return tokens.length <= maxTokens ? text : load().decode(tokens.slice(0, Math.max(0, maxTokens)));
+    },
+  };
+}
+
+/** Longest run of non-whitespace encoded in one piece */
+const MAX_RUN = 256;
+
+/**
+ * Split runs of non-whitespace longer than `MAX_RUN` (minified code, base64, ...) into pieces:
+ * byte-pair merging is quadratic in the length of a run. Counts shift by at most a token per cut.
+ */
+function splitLongRuns(text: string): string[] {
+  const segments: string[] = [];
+  let start = 0;
+  for (const match of text.matchAll(new RegExp(`\\S{${MAX_RUN + 1},}`, 'g'))) {
+    if (match.index > start) segments.push(text.slice(start, match.index));
+    for (let offset = 0; offset < match[0].length; offset += MAX_RUN) {
+      segments.push(match[0].slice(offset, offset + MAX_RUN));
+    }
+    start = match.index + match[0].length;
+  }
+  if (start < text.length) segments.push(text.slice(start));
+  return segments;
+}
+
+/**
+ * Picks a tokenizer by model name. Later registrations take precedence;
+ * models that match nothing use the heuristic tokenizer.
+ */
+export class TokenizerRegistry {
+  private entries: Array<{ pattern: RegExp; tokenizer: Tokenizer }> = [];
+
+  register(pattern: RegExp, tokenizer: Tokenizer): void {
+    this.entries.unshift({ pattern, tokenizer });
+  }
+
+  forModel(model: string | undefined): Tokenizer {
+    if (!model) return heuristicTokenizer;
+    return this.entries.find(entry => entry.pattern.test(model))?.tokenizer ?? heuristicTokenizer;
+  }
+}
+
+/**
+ * Registry with BPE tokenizers for OpenAI-family models: `o200k_base` for GPT-4o, GPT-4.1 and the
+ * o-series, `cl100k_base` for GPT-4, GPT-3.5 and the text-embedding-3/ada-002 models
+ */
+export function createDefaultTokenizerRegistry(): TokenizerRegistry {
+  const registry = new TokenizerRegistry();
+  registry.register(/^(gpt-4|gpt-3\.5|text-embedding-(3|ada-002))/, createBpeTokenizer('cl100k_base'));
+  registry.register(/^(gpt-4o|gpt-4\.1|gpt-5|o\d)/, createBpeTokenizer('o200k_base'));
+  return registry;
+}
+
+/**
+ * Prompt tokens of a chat request, including per-message overhead
+ */
+export function countMessageTokens(tokenizer: Tokenizer, messages: ChatCompletionRequestMessage[]): number {
+  if (messages.length === 0) return 0;
+  return messages.reduce(
+    (total, message) => total + TOKENS_PER_MESSAGE + tokenizer.count(message.role) + tokenizer.count(message.content),
+    TOKENS_PER_REPLY
+  );
+}
@@ -0,0 +1,358 @@
+import { existsSync, promises as fs, readFileSync, readdirSync } from 'fs';
+import path from 'path';
+import type { LLMUsageMetrics } from './llm';
+import { withFileLock } from './file-lock';
+
+/** Usage log directory: the active segment, rotated segments and daily rollups */
+export const USAGE_LOG_DIR = '.llm-usage';
+
+/** Single-array log written before the JSONL log; imported (and renamed) on first write */
+export const LEGACY_USAGE_LOG_FILE = '.llm-usage-log.json';
+
+const ACTIVE_SEGMENT = 'usage.jsonl';
+const ROLLUPS_FILE = 'rollups.json';
+const LOCK_FILE = 'usage.lock';
+const ROTATED_SEGMENT = /^usage-(\d{4}-\d{2}-\d{2})\.(\d+)\.jsonl$/;
+
+export interface UsageLogOptions {
+  /** Log directory; entries are kept in memory when omitted */
+  dir?: string;
+  /** Legacy JSON log to import when the directory has no rollups yet */
+  legacyPath?: string;
+  /** The active segment is rotated once it reaches this size */
+  maxSegmentBytes: number;
+  /** How long a writer waits for the lock before giving up */
+  lockTimeoutMs: number;
+  /** A lock older than this is assumed to belong to a crashed process and is broken */
+  staleLockMs: number;
+}
+
+export interface UsageRange {
+  /** Inclusive */
+  since?: Date;
+  /** Inclusive */
+  until?: Date;
+}
+
+export interface UsageBreakdown {
+  calls: number;
+  cost: number;
+}
+
+/**
+ * Totals of one UTC day of usage, kept up to date on every write
+ */
+export interface DailyUsageRollup {
+  date: string;
+  calls: number;
+  successes: number;
+  totalTokens: number;
+  cost: number;
+  valueScoreSum: number;
+  /** Calls that consulted the response cache */
+  cacheable: number;
+  cacheHits: number;
+  savedCost: number;
+  purposes: Record<string, UsageBreakdown>;
+  providers: Record<string, UsageBreakdown>;
+  /** By context, then purpose, for scoped budgets; missing or partial for days logged before it was kept */
+  scopes?: Record<string, Record<string, UsageBreakdown>>;
+}
+
+export interface UsageAnalytics {
+  totalCalls: number;
+  totalTokens: number;
+  totalCost: number;
+  successRate: number;
+  averageValueScore: number;
+  topPurposes: Array<{ purpose: string } & UsageBreakdown>;
+  providerBreakdown: Array<{ provider: string } & UsageBreakdown>;
+  costByDay: Array<{ date: string; cost: number; calls: number }>;
+  cacheHits: number;
+  cacheHitRate: number;
+  cacheSavings: number;
+}
+
+/**
+ * `rollups.json`: per-day totals plus the day the active segment holds
+ */
+interface RollupsFile {
+  activeDate?: string;
+  days: Record<string, DailyUsageRollup>;
+}
+
+const utcDate = (timestamp: string | Date): string =>
+  (typeof timestamp === 'string' ? timestamp : timestamp.toISOString()).slice(0, 10);
+
+function emptyRollup(date: string): DailyUsageRollup {
+  return { date, calls: 0, successes: 0, totalTokens: 0, cost: 0, valueScoreSum: 0, cacheable: 0, cacheHits: 0, savedCost: 0, purposes: {}, providers: {}, scopes: {} };
+}
+
+function addBreakdown(breakdown: Record<string, UsageBreakdown>, key: string, calls: number, cost: number): void {
+  const current = breakdown[key] ?? { calls: 0, cost: 0 };
+  breakdown[key] = { calls: current.calls + calls, cost: current.cost + cost };
+}
+
+/**
+ * Add a call to the rollup of its day
+ */
+export function addToRollups(days: Record<string, DailyUsageRollup>, entry: LLMUsageMetrics): void {
+  const date = utcDate(entry.timestamp);
+  const day = days[date] ??= emptyRollup(date);
+  day.calls++;
+  if (entry.success) day.successes++;
+  day.totalTokens += entry.totalTokens;
+  day.cost += entry.cost;
+  day.valueScoreSum += entry.valueScore;
+  if (entry.cacheHit !== undefined) day.cacheable++;
+  if (entry.cacheHit) day.cacheHits++;
+  day.savedCost += entry.savedCost ?? 0;
+  addBreakdown(day.purposes, entry.purpose, 1, entry.cost);
+  addBreakdown(day.providers, entry.provider, 1, entry.cost);
+  const scopes = day.scopes ??= {};
+  addBreakdown(scopes[entry.context] ??= {}, entry.purpose, 1, entry.cost);
+}
+
+/**
+ * Daily rollups of a list of calls
+ */
+export function rollupUsage(entries: LLMUsageMetrics[]): DailyUsageRollup[] {
+  const days: Record<string, DailyUsageRollup> = {};
+  entries.forEach(entry => addToRollups(days, entry));
+  return Object.values(days).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Analytics over daily rollups, so their cost depends on the number of days rather than calls
+ */
+export function summarizeRollups(rollups: DailyUsageRollup[]): UsageAnalytics {
+  const totals = emptyRollup('');
+  for (const day of rollups) {
+    totals.calls += day.calls;
+    totals.successes += day.successes;
+    totals.totalTokens += day.totalTokens;
+    totals.cost += day.cost;
+    totals.valueScoreSum += day.valueScoreSum;
+    totals.cacheable += day.cacheable;
+    totals.cacheHits += day.cacheHits;
+    totals.savedCost += day.savedCost;
+    Object.entries(day.purposes).forEach(([purpose, stats]) => addBreakdown(totals.purposes, purpose, stats.calls, stats.cost));
+    Object.entries(day.providers).forEach(([provider, stats]) => addBreakdown(totals.providers, provider, stats.calls, stats.cost));
+  }
+
+  return {
+    totalCalls: totals.calls,
+    totalTokens: totals.totalTokens,
+    totalCost: totals.cost,
+    successRate: totals.calls > 0 ? totals.successes / totals.calls : 0,
+    averageValueScore: totals.calls > 0 ? totals.valueScoreSum / totals.calls : 0,
+    topPurposes: Object.entries(totals.purposes)
+      .map(([purpose, stats]) => ({ purpose, ...stats }))
+      .sort((a, b) => b.cost - a.cost)
+      .slice(0, 10),
+    providerBreakdown: Object.entries(totals.providers).map(([provider, stats]) => ({ provider, ...stats })),
+    costByDay: rollups
+      .map(day => ({ date: day.date, cost: day.cost, calls: day.calls }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    cacheHits: totals.cacheHits,
+    // Hit rate is over calls that consulted the cache (cacheHit recorded either way)
+    cacheHitRate: totals.cacheable > 0 ? totals.cacheHits / totals.cacheable : 0,
+    cacheSavings: totals.savedCost,
+  };
+}
+
+function inRange(date: string, range: UsageRange): boolean {
+  return (!range.since || date >= utcDate(range.since)) && (!range.until || date <= utcDate(range.until));
+}
+
+function parseLines(data: string): LLMUsageMetrics[] {
+  const entries: LLMUsageMetrics[] = [];
+  for (const line of data.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // A line cut short by a crash mid-append
+    }
+  }
+  return entries;
+}
+
+/**
+ * Append-only JSONL usage log shared by every `LLMService` process.
+ *
+ * Writers append one line per call to `usage.jsonl` under a lock file, so concurrent CLI processes never
+ * overwrite each other. The active segment is rotated to `usage-<date>.<n>.jsonl` when the UTC day changes
+ * or it reaches `maxSegmentBytes`; a segment only holds calls from its date or earlier. Each write also
+ * updates `rollups.json`, the per-day totals that analytics are computed from without reading any segment.
+ */
+export class UsageLog {
+  private memory: LLMUsageMetrics[] = [];
+
+  constructor(private options: UsageLogOptions) {}
+
+  private file(name: string): string {
+    return path.join(this.options.dir!, name);
+  }
+
+  /**
+   * Record a call
+   * @throws Error when the lock cannot be acquired within `lockTimeoutMs`
+   */
+  async append(entry: LLMUsageMetrics): Promise<void> {
+    if (!this.options.dir) {
+      this.memory.push(entry);
+      return;
+    }
+
+    await fs.mkdir(this.options.dir, { recursive: true });
+    await this.withLock(async () => {
+      const rollups = await this.loadRollupsForWrite();
+      const line = JSON.stringify(entry) + '\n';
+      const date = utcDate(entry.timestamp);
+
+      const size = await fs.stat(this.file(ACTIVE_SEGMENT)).then(stat => stat.size, () => 0);
+      if (size > 0 && rollups.activeDate
+        && (date > rollups.activeDate || size + Buffer.byteLength(line) > this.options.maxSegmentBytes)) {
+        await this.rotate(rollups.activeDate);
+      }
+      if (size === 0 || !rollups.activeDate || date > rollups.activeDate) rollups.activeDate = date;
+
+      await fs.appendFile(this.file(ACTIVE_SEGMENT), line);
+      addToRollups(rollups.days, entry);
+      await this.saveRollups(rollups);
+    });
+  }
+
+  /**
+   * Calls in a date range, oldest segment first. Only segments that can hold calls from the range are read.
+   */
+  async read(range: UsageRange = {}): Promise<LLMUsageMetrics[]> {
+    const matches = (entry: LLMUsageMetrics) =>
+      (!range.since || new Date(entry.timestamp).getTime() >= range.since.getTime())
+      && (!range.until || new Date(entry.timestamp).getTime() <= range.until.getTime());
+    if (!this.options.dir) return this.memory.filter(matches);
+
+    const sinceDate = range.since && utcDate(range.since);
+    const segments = this.rotatedSegments()
+      .filter(segment => !sinceDate || segment.date >= sinceDate)
+      .map(segment => segment.name);
+    const entries: LLMUsageMetrics[] = [];
+    for (const name of [...segments, ACTIVE_SEGMENT]) {
+      try {
+        entries.push(...parseLines(await fs.readFile(this.file(name), 'utf-8')));
+      } catch {
+        // Not written yet
+      }
+    }
+    if (entries.length === 0 && !existsSync(this.file(ROLLUPS_FILE))) {
+      entries.push(...this.readLegacy());
+    }
+    return entries.filter(matches);
+  }
+
+  /**
+   * Daily rollups in a date range (by UTC day). Reads only `rollups.json`, rebuilding the totals from
+   * the segments when it is missing.
+   */
+  rollups(range: UsageRange = {}): DailyUsageRollup[] {
+    const days = this.options.dir ? this.readRollups().days : Object.fromEntries(rollupUsage(this.memory).map(day => [day.date, day]));
+    return Object.values(days)
+      .filter(day => inRange(day.date, range))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  private rotatedSegments(): Array<{ name: string; date: string; index: number }> {
+    let names: string[];
+    try {
+      names = readdirSync(this.options.dir!);
+    } catch {
+      return [];
+    }
+    return names
+      .flatMap(name => {
+        const match = ROTATED_SEGMENT.exec(name);
+        return match ? [{ name, date: match[1]!, index: Number(match[2]) }] : [];
+      })
+      .sort((a, b) => a.date.localeCompare(b.date) || a.index - b.index);
+  }
+
+  private async rotate(date: string): Promise<void> {
+    const index = Math.max(0, ...this.rotatedSegments().filter(segment => segment.date === date).map(segment => segment.index)) + 1;
+    await fs.rename(this.file(ACTIVE_SEGMENT), this.file(`usage-${date}.${index}.jsonl`));
+  }
+
+  private readRollups(): RollupsFile {
+    try {
+      return JSON.parse(readFileSync(this.file(ROLLUPS_FILE), 'utf-8'));
+    } catch {
+      return this.rebuildRollups();
+    }
+  }
+
+  /**
+   * Rollups from every segment (and the legacy log, if not imported yet)
+   */
+  private rebuildRollups(): RollupsFile {
+    const days: Record<string, DailyUsageRollup> = {};
+    const segments = [...this.rotatedSegments().map(segment => segment.name), ACTIVE_SEGMENT];
+    let activeDate: string | undefined;
+    for (const name of segments) {
+      try {
+        const entries = parseLines(readFileSync(this.file(name), 'utf-8'));
+        entries.forEach(entry => addToRollups(days, entry));
+        if (name === ACTIVE_SEGMENT) {
+          activeDate = entries.map(entry => utcDate(entry.timestamp)).sort().at(-1);
+        }
+      } catch {
+        // Not written yet
+      }
+    }
+    this.readLegacy().forEach(entry => addToRollups(days, entry));
+    return { activeDate, days };
+  }
+
+  /**
+   * Rollups for a write: the saved ones, or (first write) ones rebuilt after importing the legacy log
+   */
+  private async loadRollupsForWrite(): Promise<RollupsFile> {
+    try {
+      return JSON.parse(await fs.readFile(this.file(ROLLUPS_FILE), 'utf-8'));
+    } catch {
+      await this.importLegacy();
+      return this.rebuildRollups();
+    }
+  }
+
+  private async saveRollups(rollups: RollupsFile): Promise<void> {
+    // Write then rename, so readers never see a half-written file
+    const temporary = this.file(`${ROLLUPS_FILE}.${process.pid}.tmp`);
+    await fs.writeFile(temporary, JSON.stringify(rollups));
+    await fs.rename(temporary, this.file(ROLLUPS_FILE));
+  }
+
+  private readLegacy(): LLMUsageMetrics[] {
+    if (!this.options.legacyPath) return [];
+    try {
+      const entries = JSON.parse(readFileSync(this.options.legacyPath, 'utf-8'));
+      return Array.isArray(entries) ? entries : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Move the legacy log into a segment named after its newest call, and rename the legacy file
+   */
+  private async importLegacy(): Promise<void> {
+    const entries = this.readLegacy();
+    if (entries.length === 0) return;
+    const date = entries.map(entry => utcDate(entry.timestamp)).sort().at(-1)!;
+    await fs.writeFile(this.file(`usage-${date}.0.jsonl`), entries.map(entry => JSON.stringify(entry) + '\n').join(''));
+    await fs.rename(this.options.legacyPath!, `${this.options.legacyPath}.imported`);
+  }
+
+  private withLock<T>(fn: () => Promise<T>): Promise<T> {
+    return withFileLock(this.file(LOCK_FILE), { name: 'usage log', timeoutMs: this.options.lockTimeoutMs, staleMs: this.options.staleLockMs }, fn);
+  }
+}
@@ -1,8 +1,61 @@
 // Vercel AI SDK integration is not currently supported in this CLI context. For now, only the fetch-based OpenAI integration is provided.
 
-import { promises as fs } from 'fs';
 import path from 'path';
-import type { OpenAIChatOptions, LLMProvider } from '../types/llm';
+import type { z } from 'zod';
+import type { OpenAIChatOptions, LLMProvider, TextEmbedder } from '../types/llm';
+import { createHashingEmbedder } from './embeddings';
+import {
+  BUDGETS_FILE,
+  LLMBudgetExceededError,
+  budgetId,
+  checkBudgets,
+  getBudgetStatus,
+  getBudgetWindow,
+  readBudgets,
+  rollupBudgetSpend,
+  writeBudgets,
+  type BudgetSpend,
+  type BudgetStatus,
+  type LLMBudget,
+} from './llm-budget';
+import { LLM_CACHE_DIR, LLMResponseCache, promptFingerprint } from './llm-cache';
+import { createOpenAICompatibleProvider, localBackendFromEnv, type OpenAICompatibleBackendConfig } from './llm-openai-compatible';
+import {
+  LLMFixtureStore,
+  UnrecordedLLMRequestError,
+  createReplayProvider,
+  recordingProvider,
+  replayConfigFromEnv,
+  type LLMReplayConfig,
+} from './llm-replay';
+import { PROMPTS_DIR, loadPromptRegistry, parsePromptPins, type PromptRef, type PromptRegistry, type RenderedPrompt } from './llm-prompts';
+import { DEFAULT_PRICING, PRICING_FILE, calculateCost, getModelPricing, loadPricingTable, type PricingTable } from './llm-pricing';
+import {
+  StructuredOutputError,
+  repairMessages,
+  structuredOutputInstruction,
+  validateStructuredOutput,
+  type StructuredResult,
+  type StructuredValidation,
+} from './llm-structured';
+import { sharedRateLimiter, type ProviderRateLimiter, type ProviderRateLimit } from './llm-rate-limit';
+import { LEGACY_USAGE_LOG_FILE, USAGE_LOG_DIR, UsageLog, summarizeRollups, type UsageAnalytics, type UsageRange } from './llm-usage-log';
+import { countMessageTokens, createDefaultTokenizerRegistry, type Tokenizer, type TokenizerRegistry } from './llm-tokenizer';
+import {
+  collectStream,
+  createAttemptSignal,
+  ollamaBaseUrl,
+  raceAbort,
+  streamOllama,
+  streamOpenAICompatible,
+  type LLMStreamChunk,
+} from './llm-stream';
+import {
+  PROVIDER_HEALTH_FILE,
+  ProviderCircuitBreakers,
+  type ProviderAttempt,
+  type ProviderHealth,
+} from './llm-circuit-breaker';
 
 // Define a minimal local type for OpenAI chat messages
 export interface ChatCompletionRequestMessage {
@@ -13,7 +66,7 @@ export interface ChatCompletionRequestMessage {
 export interface LLMUsageMetrics {
   timestamp: string;
   model: string;
-  provider: 'openai' | 'local' | 'fallback';
+  provider: string; // Provider name: 'openai', 'local-ollama', a registered local backend, or 'fallback'
   inputTokens: number;
   outputTokens: number;
   totalTokens: number;
@@ -24,8 +77,67 @@ export interface LLMUsageMetrics {
   context: string;
   purpose: string;
   valueScore: number; // 0-1 score of how valuable this call was
+  cacheHit?: boolean; // Served from the response cache (cost 0)
+  savedCost?: number; // Cost of the original call a cache hit replaced
+  attempts?: ProviderAttempt[]; // Providers tried for this call, in order
+  pricingVersion?: string; // Pricing table version the cost was computed with
+  validation?: StructuredValidation; // Structured-output validation of this response
+  prompt?: PromptRef; // Template the messages were rendered from
 }
 
+/**
+ * Options for `callLLM`
+ */
+export type LLMCallOptions = OpenAIChatOptions & {
+  context?: string;
+  purpose?: string;
+  valueScore?: number;
+  routingPreference?: 'auto' | 'local' | 'cloud';
+  /** Force caching on or off for this call (default: on for `cachePurposes`) */
+  cache?: boolean;
+  /** Per-attempt timeout (default: `requestTimeoutMs`) */
+  timeoutMs?: number;
+  /** Template the messages were rendered from (see `renderPrompt`), recorded on the usage record */
+  prompt?: PromptRef;
+};
+
+/**
+ * Options for a structured `callLLM`: the response is parsed as JSON and validated against `schema`
+ */
+export type LLMStructuredCallOptions<T> = LLMCallOptions & {
+  schema: z.ZodType<T>;
+  /** Re-prompts allowed after an invalid response (default: `structuredRepairAttempts`) */
+  maxRepairAttempts?: number;
+};
+
+/**
+ * Options for `callLLMBatch`
+ */
+export interface LLMBatchOptions {
+  /** Calls in flight at once (default: `batchConcurrency`) */
+  concurrency?: number;
+  /** Cancels calls in flight; calls not started yet fail with the abort reason */
+  signal?: AbortSignal;
+  /** Called after each call settles */
+  onProgress?: (progress: LLMBatchProgress) => void;
+}
+
+export interface LLMBatchProgress {
+  /** Calls settled so far, successful or not */
+  completed: number;
+  failed: number;
+  total: number;
+  /** The call that just settled */
+  result: LLMBatchResult;
+}
+
+/**
+ * Outcome of one call in a batch, at the index of its request
+ */
+export type LLMBatchResult<T = any> =
+  | { index: number; success: true; response: T }
+  | { index: number; success: false; error: Error };
+
 export interface LLMOptimizationConfig {
   maxTokensPerCall: number;
   maxCostPerCall: number;
@@ -33,9 +145,18 @@ export interface LLMOptimizationConfig {
   enableLocalLLM: boolean;
   enableCaching: boolean;
   cacheExpiryHours: number;
+  cacheMaxEntries: number;
+  cacheMaxSizeMB: number;
+  cachePurposes: string[]; // Purposes whose responses are cached (per-call `cache` overrides)
   retryAttempts: number;
   retryDelayMs: number;
-  rateLimitDelayMs: number;
+  rateLimitDelayMs: number; // How long a rate-limited provider's circuit stays open
+  /** Providers to try, in order, instead of the intelligent routing order */
+  providerChain?: string[];
+  circuitFailureThreshold: number; // Consecutive failures that open a provider's circuit
+  circuitCooldownMs: number; // How long an open circuit skips its provider
+  requestTimeoutMs: number; // Per-attempt timeout (per-call `timeoutMs` overrides)
+  structuredRepairAttempts: number; // Re-prompts after invalid structured output
   // New intelligent routing options
   preferLocalLLM: boolean;
   testMode: boolean;
@@ -44,8 +165,40 @@ export interface LLMOptimizationConfig {
   costSensitivity: number; // 0-1, higher = more cost sensitive
   // Memory-only mode for tests
   memoryOnly: boolean;
+  /** Budgets to enforce instead of the ones persisted in `.llm-budgets.json` */
+  budgets?: LLMBudget[];
+  /** Pricing table to use instead of `.llm-pricing.json` layered over the built-in prices */
+  pricing?: PricingTable;
+  /** Prompt template directory (default: the repo's `prompts/`) */
+  promptsDir?: string;
+  /** Template versions to render instead of the latest, by template id (default: `LLM_PROMPT_VERSIONS`) */
+  promptVersions?: Record<string, number>;
+  /** Record provider responses as fixtures, or answer only from them (default: `LLM_REPLAY`) */
+  replay?: LLMReplayConfig;
+  /** Providers to route between instead of the built-in OpenAI and local ones */
+  providers?: LLMProvider[];
+  /** OpenAI-compatible local model servers, tried before Ollama (default: `LOCAL_LLM_BASE_URL`) */
+  localBackends?: OpenAICompatibleBackendConfig[];
+  /** Usage log directory (default: `.llm-usage/`) */
+  usageLogDir?: string;
+  usageLogMaxSegmentMB: number; // Size at which the active usage log segment is rotated
+  /** Request and token rates per provider name; calls wait for capacity instead of hitting provider limits */
+  rateLimits: Record<string, ProviderRateLimit>;
+  /** Limiter to wait on (default: the one shared by every service with the same `rateLimits`) */
+  rateLimiter?: ProviderRateLimiter;
+  batchConcurrency: number; // Default calls in flight for `callLLMBatch`
 }
 
+/** Routing settings a call is made with */
+type RoutingSettings = Pick<LLMOptimizationConfig, 'preferLocalLLM' | 'complexityThreshold'>;
+
+/** Routing settings for each `routingPreference` */
+const ROUTING_PREFERENCES: Record<NonNullable<LLMCallOptions['routingPreference']>, RoutingSettings> = {
+  local: { preferLocalLLM: true, complexityThreshold: 1.0 }, // Always use local if available
+  cloud: { preferLocalLLM: false, complexityThreshold: 0.0 }, // Always use cloud
+  auto: { preferLocalLLM: true, complexityThreshold: 0.6 },
+};
+
 export interface LLMCallIntelligence {
   complexity: number; // 0-1, how complex the task is
   requiresContext: boolean; // Does it need external context?
@@ -56,15 +209,39 @@ export interface LLMCallIntelligence {
   costBenefit: number; // 0-1, cost vs benefit ratio
 }
 
+/** Reservations of calls in flight by usage log directory, so every service spending against one ledger sees them */
+const budgetReservationsByLog = new Map<string, Set<BudgetSpend>>();
+
+function budgetReservationsFor(usageLogDir: string): Set<BudgetSpend> {
+  let reservations = budgetReservationsByLog.get(usageLogDir);
+  if (!reservations) {
+    reservations = new Set();
+    budgetReservationsByLog.set(usageLogDir, reservations);
+  }
+  return reservations;
+}
+
 /**
  * Enhanced LLM service with intelligent routing and optimization
  */
 export class LLMService {
-  private usageLog: LLMUsageMetrics[] = [];
-  private usageLogPath: string;
+  /** Calls made by every LLMService caller */
+  private usageStore: UsageLog;
+  /** Estimated cost of paid calls in flight, counted against budgets until their usage is tracked */
+  private budgetReservations: Set<BudgetSpend>;
+  private budgetsPath: string;
   private config: LLMOptimizationConfig;
   private providers: LLMProvider[] = [];
   private localLLMAvailable: boolean = false;
+  private responseCache: LLMResponseCache;
+  private circuitBreakers: ProviderCircuitBreakers;
+  private rateLimiter: ProviderRateLimiter;
+  private tokenizers: TokenizerRegistry = createDefaultTokenizerRegistry();
+  private pricing: PricingTable;
+  private prompts?: PromptRegistry;
+  private fixtures?: LLMFixtureStore;
+  /** Providers that run locally, preferred for simple tasks */
+  private localProviders = new Set<string>(['local-ollama']);
 
   constructor(config: Partial<LLMOptimizationConfig> = {}) {
     this.config = {
@@ -72,11 +249,24 @@ export class LLMService {
       maxCostPerCall: 0.10,
       minValueScore: 0.3,
       enableLocalLLM: true,
-      enableCaching: true,
+      enableCaching: process.env.LLM_NO_CACHE !== '1',
       cacheExpiryHours: 24,
+      cacheMaxEntries: 1000,
+      cacheMaxSizeMB: 50,
+      cachePurposes: ['semantic-tagging', 'excerpt-generation'],
       retryAttempts: 3,
       retryDelayMs: 1000,
       rateLimitDelayMs: 60000,
+      circuitFailureThreshold: 3,
+      circuitCooldownMs: 5 * 60 * 1000,
+      requestTimeoutMs: 2 * 60 * 1000,
+      structuredRepairAttempts: 2,
+      usageLogMaxSegmentMB: 5,
+      rateLimits: { openai: { requestsPerMinute: 500, tokensPerMinute: 200_000 } },
+      batchConcurrency: 4,
+      promptVersions: parsePromptPins(process.env.LLM_PROMPT_VERSIONS),
+      replay: replayConfigFromEnv(),
+      localBackends: [localBackendFromEnv()].filter((backend): backend is OpenAICompatibleBackendConfig => !!backend),
       // New intelligent routing defaults
       preferLocalLLM: true,
       testMode: process.env.NODE_ENV === 'test' || process.env.BUN_ENV === 'test',
@@ -87,12 +277,35 @@ export class LLMService {
       ...config
     };
     
-    this.usageLogPath = path.join(process.cwd(), '.llm-usage-log.json');
+    const usageLogDir = this.config.memoryOnly ? undefined : path.resolve(this.config.usageLogDir ?? USAGE_LOG_DIR);
+    this.usageStore = new UsageLog({
+      dir: usageLogDir,
+      legacyPath: path.join(process.cwd(), LEGACY_USAGE_LOG_FILE),
+      maxSegmentBytes: this.config.usageLogMaxSegmentMB * 1024 * 1024,
+      lockTimeoutMs: 5000,
+      staleLockMs: 30000,
+    });
+    this.budgetReservations = usageLogDir ? budgetReservationsFor(usageLogDir) : new Set();
+    this.budgetsPath = path.join(process.cwd(), BUDGETS_FILE);
+    this.fixtures = this.config.replay && new LLMFixtureStore(this.config.replay.dir);
+    this.pricing = this.config.pricing
+      ?? (this.config.memoryOnly ? DEFAULT_PRICING : loadPricingTable(path.join(process.cwd(), PRICING_FILE)));
+    this.responseCache = new LLMResponseCache({
+      dir: this.config.memoryOnly ? undefined : path.join(process.cwd(), LLM_CACHE_DIR),
+      ttlHours: this.config.cacheExpiryHours,
+      maxEntries: this.config.cacheMaxEntries,
+      maxBytes: this.config.cacheMaxSizeMB * 1024 * 1024,
+    });
+    this.circuitBreakers = new ProviderCircuitBreakers({
+      path: this.config.memoryOnly ? undefined : path.join(process.cwd(), PROVIDER_HEALTH_FILE),
+      failureThreshold: this.config.circuitFailureThreshold,
+      cooldownMs: this.config.circuitCooldownMs,
+    });
+    this.rateLimiter = this.config.rateLimiter ?? sharedRateLimiter(this.config.rateLimits);
     this.initializeProviders();
     
-    // Only load from disk and check local LLM if not in memory-only mode
+    // Only check local LLM if not in memory-only mode
     if (!this.config.memoryOnly) {
-      this.loadUsageLog();
       this.checkLocalLLM();
     }
   }
@@ -109,6 +322,14 @@ export class LLMService {
     }
   }
 
+  /**
+   * Whether calls can go to a local provider: Ollama was detected, or a backend was configured
+   * or registered (each backend's own availability is checked when the chain is built)
+   */
+  private hasLocalProvider(): boolean {
+    return this.localLLMAvailable || [...this.localProviders].some(name => name !== 'local-ollama');
+  }
+
   /**
    * Analyze LLM call intelligence to determine best provider
    */
@@ -116,7 +337,7 @@ export class LLMService {
     context?: string; 
     purpose?: string;
     valueScore?: number;
-  }): LLMCallIntelligence {
+  }, routing: RoutingSettings): LLMCallIntelligence {
     const { context = 'unknown', purpose = 'general', valueScore = 0.5, messages } = options;
     
     // Analyze message complexity
@@ -143,8 +364,8 @@ export class LLMService {
     // Determine if local LLM can handle this
     const canUseLocal = !requiresContext && 
                        !isTimeSensitive && 
-                       complexity < this.config.complexityThreshold &&
-                       this.localLLMAvailable;
+                       complexity < routing.complexityThreshold &&
+                       this.hasLocalProvider();
     
     // Estimate quality difference between local and cloud
     const estimatedQuality = canUseLocal ? 0.8 : 0.95; // Local is 80% as good for suitable tasks
@@ -164,63 +385,82 @@ export class LLMService {
   }
 
   /**
-   * Select best provider based on intelligence analysis
+   * Providers in the order they should be tried: the configured `providerChain`, or the
+   * best fit for the call first (local for simple tasks, cloud for complex ones) followed by the rest
+   */
+  private rankProviders(intelligence: LLMCallIntelligence, routing: RoutingSettings): LLMProvider[] {
+    if (this.config.providerChain) {
+      return this.config.providerChain.flatMap(name => this.providers.filter(p => p.name === name));
+    }
+
+    const preferred: LLMProvider[] = [];
+    if (intelligence.canUseLocal && routing.preferLocalLLM) {
+      preferred.push(...this.providers.filter(p => this.localProviders.has(p.name)));
+    }
+    if (!intelligence.canUseLocal || intelligence.complexity > routing.complexityThreshold) {
+      preferred.push(...this.providers.filter(p => p.name === 'openai'));
+    }
+    return [...new Set([...preferred, ...this.providers])];
+  }
+
+  /**
+   * Available providers to try for a call, skipping (and recording) those whose circuit is open
    */
-  private async selectProvider(intelligence: LLMCallIntelligence): Promise<LLMProvider | null> {
+  private async buildProviderChain(intelligence: LLMCallIntelligence, routing: RoutingSettings, attempts: ProviderAttempt[]): Promise<LLMProvider[]> {
+    // Replay answers from fixtures, even in test mode; recording needs the real providers
+    if (this.config.replay?.mode === 'replay') {
+      return [createReplayProvider(this.fixtures!)];
+    }
+
     // In test mode, prefer local or fallback
-    if (this.config.testMode) {
+    if (this.config.testMode && !this.config.replay) {
       console.log('🧪 Test mode detected - using fallback responses');
-      return null; // Use fallback
+      return []; // Use fallback
     }
-    
-    // If local LLM can handle this and we prefer it
-    if (intelligence.canUseLocal && this.config.preferLocalLLM) {
-      const localProvider = this.providers.find(p => p.name === 'local-ollama');
-      if (localProvider && await localProvider.isAvailable()) {
-        console.log('🏠 Using local LLM for cost optimization');
-        return localProvider;
-      }
-    }
-    
-    // For complex tasks or when local isn't suitable, use cloud
-    if (!intelligence.canUseLocal || intelligence.complexity > this.config.complexityThreshold) {
-      const cloudProvider = this.providers.find(p => p.name === 'openai');
-      if (cloudProvider && await cloudProvider.isAvailable()) {
-        console.log('☁️ Using cloud LLM for complex task');
-        return cloudProvider;
+
+    const chain: LLMProvider[] = [];
+    for (const provider of this.rankProviders(intelligence, routing)) {
+      if (!await this.circuitBreakers.allowCall(provider.name)) {
+        attempts.push({ provider: provider.name, outcome: 'skipped', reason: 'circuit open', duration: 0 });
+        continue;
       }
-    }
-    
-    // Fallback to any available provider
-    for (const provider of this.providers) {
       if (await provider.isAvailable()) {
-        console.log(`🔧 Using ${provider.name} as fallback`);
-        return provider;
+        chain.push(this.config.replay ? recordingProvider(provider, this.fixtures!) : provider);
       }
     }
-    
-    return null; // No providers available
+    return chain;
   }
 
   /**
    * Initialize available LLM providers
    */
   private initializeProviders(): void {
+    if (this.config.providers) {
+      this.providers.push(...this.config.providers);
+      return;
+    }
+
     // OpenAI provider
     this.providers.push({
       name: 'openai',
       isAvailable: async () => !!process.env.OPENAI_API_KEY,
       call: this.callOpenAIChat.bind(this),
+      stream: options => streamOpenAICompatible(this.openAIBaseUrl(), options),
       estimateTokens: this.estimateOpenAITokens.bind(this),
       estimateCost: this.estimateOpenAICost.bind(this)
     });
 
     // Local LLM providers (if available)
     if (this.config.enableLocalLLM) {
+      for (const backend of this.config.localBackends ?? []) {
+        this.providers.push(createOpenAICompatibleProvider(backend, this.estimateLocalTokens.bind(this)));
+        this.localProviders.add(backend.name);
+      }
       this.providers.push({
         name: 'local-ollama',
         isAvailable: async () => this.checkLocalLLMAvailability('ollama'),
         call: this.callLocalOllama.bind(this),
+        stream: options => streamOllama(ollamaBaseUrl(), options),
         estimateTokens: this.estimateLocalTokens.bind(this),
         estimateCost: () => 0 // Local LLMs are free
       });
@@ -241,23 +481,127 @@ export class LLMService {
   }
 
   /**
-   * Main LLM call method with optimization and tracking
+   * Main LLM call method with optimization and tracking.
+   * With a `schema`, returns the validated object instead of the raw response (see `callStructured`).
    */
-  async callLLM(options: OpenAIChatOptions & { 
-    context?: string; 
-    purpose?: string;
-    valueScore?: number;
-    routingPreference?: 'auto' | 'local' | 'cloud';
-  }): Promise<any> {
-    const startTime = Date.now();
-    const { context = 'unknown', purpose = 'general', valueScore = 0.5, routingPreference = 'auto', ...llmOptions } = options;
+  async callLLM<T>(options: LLMStructuredCallOptions<T>): Promise<T>;
+  async callLLM(options: LLMCallOptions): Promise<any>;
+  async callLLM<T>(options: LLMCallOptions | LLMStructuredCallOptions<T>): Promise<any> {
+    if ('schema' in options && options.schema) {
+      return this.callStructured(options as LLMStructuredCallOptions<T>);
+    }
+    return this.executeCall(options);
+  }
 
-    // Apply routing preference if provided
-    this.setRoutingPreference(routingPreference);
+  /**
+   * Run many calls with at most `concurrency` in flight. Each call goes through `callLLM` (provider
+   * rate limits, budgets, cache and fallbacks included); a call that throws is reported as a failed
+   * result instead of failing the batch.
+   *
+   * @returns One result per request, in request order
+   */
+  async callLLMBatch<T>(requests: Array<LLMCallOptions | LLMStructuredCallOptions<T>>, options: LLMBatchOptions = {}): Promise<LLMBatchResult[]> {
+    const { concurrency = this.config.batchConcurrency, signal, onProgress } = options;
+    const results: LLMBatchResult[] = new Array(requests.length);
+    let next = 0;
+    let completed = 0;
+    let failed = 0;
+
+    const settle = (result: LLMBatchResult) => {
+      results[result.index] = result;
+      completed++;
+      if (!result.success) failed++;
+      onProgress?.({ completed, failed, total: requests.length, result });
+    };
+
+    const worker = async () => {
+      while (next < requests.length) {
+        const index = next++;
+        if (signal?.aborted) {
+          settle({ index, success: false, error: signal.reason });
+          continue;
+        }
+        const own = requests[index]!.signal;
+        try {
+          // Aborting the batch cancels every call, including those with a signal of their own
+          const response = await this.callLLM({ ...requests[index]!, signal: own && signal ? AbortSignal.any([own, signal]) : own ?? signal });
+          settle({ index, success: true, response });
+        } catch (error) {
+          settle({ index, success: false, error: error as Error });
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), requests.length) }, worker));
+    return results;
+  }
+
+  /**
+   * Call the LLM for JSON matching a schema. Invalid responses (unparseable JSON or schema violations)
+   * are sent back with the errors for repair, up to `maxRepairAttempts` times; each response's
+   * validation outcome is recorded on its usage record.
+   *
+   * @throws StructuredOutputError when no attempt produced valid output
+   */
+  private async callStructured<T>(options: LLMStructuredCallOptions<T>): Promise<T> {
+    const { schema, maxRepairAttempts = this.config.structuredRepairAttempts, ...callOptions } = options;
+    const validations: StructuredValidation[] = [];
+    let messages = [structuredOutputInstruction(schema), ...callOptions.messages];
+    let output = '';
+
+    for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+      // Set by the annotate callback when a provider (or the cache) answered
+      const outcome: { result?: StructuredResult<T> } = {};
+      const response = await this.executeCall({ ...callOptions, messages }, raw => {
+        output = raw?.choices?.[0]?.message?.content ?? '';
+        const result = validateStructuredOutput(schema, output);
+        outcome.result = result;
+        const validation: StructuredValidation = result.success
+          ? { attempt, valid: true }
+          : { attempt, valid: false, stage: result.stage, error: result.error };
+        validations.push(validation);
+        return { validation };
+      });
+
+      const result = outcome.result;
+      if (!result) {
+        // No provider answered: accept the fallback response only if it happens to match
+        output = response?.choices?.[0]?.message?.content ?? '';
+        const fallback = validateStructuredOutput(schema, output);
+        if (fallback.success) return fallback.data;
+        throw new StructuredOutputError(`No LLM response for ${callOptions.purpose ?? 'general'}, and the fallback does not match the schema`, validations, output);
+      }
+
+      if (result.success) return result.data;
+      console.warn(`⚠️ Invalid structured output (${result.stage}): ${result.error}`);
+      messages = [...messages, ...repairMessages(output, result.error)];
+    }
+
+    throw new StructuredOutputError(
+      `Structured output still invalid after ${maxRepairAttempts} repair attempt(s): ${validations.at(-1)?.error}`,
+      validations,
+      output
+    );
+  }
+
+  /**
+   * A single LLM call: value and cost checks, cache, provider chain, usage tracking.
+   * `annotate` sees each provider (or cached) response before it is tracked and adds fields to its
+   * usage record; a response it marks invalid is not cached.
+   */
+  private async executeCall(
+    options: LLMCallOptions,
+    annotate?: (response: any) => Partial<LLMUsageMetrics>
+  ): Promise<any> {
+    const startTime = Date.now();
+    const { context = 'unknown', purpose = 'general', valueScore = 0.5, routingPreference, cache, signal, timeoutMs, prompt, ...llmOptions } = options;
+    const routing = this.routingFor(routingPreference);
 
     // Pre-flight checks
-    const estimatedTokens = this.estimateTokens(llmOptions.messages);
-    const estimatedCost = this.estimateCost(estimatedTokens, llmOptions.model);
+    const estimatedTokens = this.estimateTokens(llmOptions.messages, llmOptions.model);
+    // Output is priced at its upper bound when max_tokens is set
+    const expectedOutputTokens = llmOptions.max_tokens ?? 0;
+    const estimatedCost = this.estimateCost(estimatedTokens, llmOptions.model, expectedOutputTokens);
 
     // Value assessment
     if (valueScore < this.config.minValueScore) {
@@ -265,10 +609,41 @@ export class LLMService {
       return this.getFallbackResponse(purpose);
     }
 
+    // Response cache, keyed by model, messages and temperature
+    const useCache = this.config.enableCaching && !this.config.testMode && !this.config.replay && (cache ?? this.config.cachePurposes.includes(purpose));
+    const cacheKey = useCache ? promptFingerprint(llmOptions.model, llmOptions.messages, llmOptions.temperature) : null;
+    if (cacheKey) {
+      const cached = await this.responseCache.get(cacheKey);
+      if (cached) {
+        console.log(`🗄️ Cache hit for: ${purpose}`);
+        const annotations = annotate?.(cached.response);
+        await this.trackUsage({
+          timestamp: new Date().toISOString(),
+          model: llmOptions.model,
+          provider: cached.provider,
+          inputTokens: estimatedTokens,
+          outputTokens: this.estimateOutputTokens(cached.response, llmOptions.model),
+          totalTokens: estimatedTokens + this.estimateOutputTokens(cached.response, llmOptions.model),
+          cost: 0,
+          duration: Date.now() - startTime,
+          success: true,
+          context,
+          purpose,
+          valueScore,
+          prompt,
+          cacheHit: true,
+          savedCost: cached.cost,
+          ...annotations,
+        });
+        return cached.response;
+      }
+    }
+
     // Intelligent routing
-    const intelligence = this.analyzeCallIntelligence({ ...options, context, purpose, valueScore });
-    const provider = await this.selectProvider(intelligence);
-    if (!provider) {
+    const intelligence = this.analyzeCallIntelligence({ ...options, context, purpose, valueScore }, routing);
+    const attempts: ProviderAttempt[] = [];
+    const chain = await this.buildProviderChain(intelligence, routing, attempts);
+    if (chain.length === 0) {
       return this.getFallbackResponse(purpose);
     }
 
@@ -281,69 +656,383 @@ export class LLMService {
     // Token limit check
     if (estimatedTokens > this.config.maxTokensPerCall) {
       console.warn(`⚠️ Truncating messages - ${estimatedTokens} tokens exceeds limit ${this.config.maxTokensPerCall}`);
-      llmOptions.messages = this.truncateMessages(llmOptions.messages, this.config.maxTokensPerCall);
+      llmOptions.messages = this.truncateMessages(llmOptions.messages, this.config.maxTokensPerCall, llmOptions.model);
     }
 
-    // Try selected provider
-    let lastError: Error | null = null;
-    
-    try {
-      console.log(`🤖 Using ${provider.name} for: ${purpose}`);
-      
-      const result = await this.callWithRetry(() => provider.call(llmOptions));
-      
-      // Track successful usage
+    // Try each provider in turn; failures fall through to the next one
+    let lastFailed: { provider: LLMProvider; error: Error } | null = null;
+
+    for (const provider of chain) {
+      const providerCost = provider.estimateCost(estimatedTokens, llmOptions.model, expectedOutputTokens);
+      const releaseBudget = await this.reserveBudget(provider, { context, purpose, estimatedCost: providerCost }, attempts);
+      if (!releaseBudget) {
+        continue;
+      }
+
+      try {
+        await this.waitForRateLimit(provider, estimatedTokens + expectedOutputTokens, signal);
+      } catch (error) {
+        releaseBudget();
+        throw error;
+      }
+      const attemptStart = Date.now();
+      const attempt = createAttemptSignal(signal, timeoutMs ?? this.config.requestTimeoutMs);
+      try {
+        console.log(`🤖 Using ${provider.name} for: ${purpose}`);
+
+        const result = await raceAbort(
+          this.callWithRetry(() => provider.call({ ...llmOptions, signal: attempt.signal }), attempt.signal),
+          attempt.signal
+        );
+        attempts.push({ provider: provider.name, outcome: 'success', duration: Date.now() - attemptStart });
+        await this.circuitBreakers.recordSuccess(provider.name);
+
+        // Provider-reported usage when available, else tokenizer counts
+        const inputTokens = result?.usage?.prompt_tokens ?? estimatedTokens;
+        const outputTokens = this.estimateOutputTokens(result, llmOptions.model);
+        const cost = provider.estimateCost(inputTokens, llmOptions.model, outputTokens);
+        const annotations = annotate?.(result);
+
+        // Track successful usage
+        await this.trackUsage({
+          timestamp: new Date().toISOString(),
+          model: llmOptions.model,
+          provider: provider.name,
+          inputTokens,
+          outputTokens,
+          totalTokens: inputTokens + outputTokens,
+          cost,
+          pricingVersion: this.pricing.version,
+          duration: Date.now() - startTime,
+          success: true,
+          context,
+          purpose,
+          valueScore,
+          prompt,
+          cacheHit: cacheKey ? false : undefined,
+          attempts,
+          ...annotations,
+        });
+
+        if (cacheKey && annotations?.validation?.valid !== false) {
+          await this.responseCache.set({
+            key: cacheKey,
+            model: llmOptions.model,
+            purpose,
+            provider: provider.name,
+            cost,
+            createdAt: new Date().toISOString(),
+            response: result,
+          });
+        }
+
+        return result;
+      } catch (error) {
+        // Cancelled by the caller, or missing fixture: no fallback, and not the provider's fault
+        if (signal?.aborted || error instanceof UnrecordedLLMRequestError) throw error;
+        lastFailed = { provider, error: error as Error };
+        await this.recordProviderFailure(provider, error as Error, attempts, attemptStart);
+      } finally {
+        attempt.dispose();
+        releaseBudget();
+      }
+    }
+
+    if (lastFailed) {
+      // Track failed usage
       await this.trackUsage({
         timestamp: new Date().toISOString(),
         model: llmOptions.model,
-        provider: provider.name as any,
+        provider: lastFailed.provider.name,
         inputTokens: estimatedTokens,
-        outputTokens: this.estimateOutputTokens(result),
-        totalTokens: estimatedTokens + this.estimateOutputTokens(result),
-        cost: this.estimateCost(estimatedTokens, llmOptions.model),
+        outputTokens: 0,
+        totalTokens: estimatedTokens,
+        cost: lastFailed.provider.estimateCost(estimatedTokens, llmOptions.model),
+        pricingVersion: this.pricing.version,
         duration: Date.now() - startTime,
-        success: true,
+        success: false,
+        error: lastFailed.error.message,
         context,
         purpose,
-        valueScore
+        valueScore,
+        prompt,
+        attempts,
       });
+    }
 
-      return result;
-    } catch (error) {
-      lastError = error as Error;
-      console.warn(`❌ ${provider.name} failed:`, error);
-      
-      // Track failed usage
+    return this.getFallbackResponse(purpose);
+  }
+
+  /**
+   * Stream a completion as it is generated. Providers without a streaming endpoint yield their whole
+   * response as one chunk. A failing provider falls through to the next one until its first chunk has
+   * been yielded; after that the error is thrown. Streaming calls bypass the response cache.
+   *
+   * @example
+   * for await (const chunk of llmService.streamLLM({ model, apiKey, messages, signal })) {
+   *   process.stdout.write(chunk.delta);
+   * }
+   */
+  async *streamLLM(options: LLMCallOptions): AsyncGenerator<LLMStreamChunk> {
+    const startTime = Date.now();
+    // `cache` is taken out but ignored
+    const { context = 'unknown', purpose = 'general', valueScore = 0.5, routingPreference, cache, signal, timeoutMs, prompt, ...llmOptions } = options;
+    const fallback = (): LLMStreamChunk => ({ provider: 'fallback', delta: this.getFallbackResponse(purpose).choices[0].message.content });
+    const routing = this.routingFor(routingPreference);
+
+    const estimatedTokens = this.estimateTokens(llmOptions.messages, llmOptions.model);
+    // Output is priced at its upper bound when max_tokens is set
+    const expectedOutputTokens = llmOptions.max_tokens ?? 0;
+    const estimatedCost = this.estimateCost(estimatedTokens, llmOptions.model, expectedOutputTokens);
+
+    if (valueScore < this.config.minValueScore) {
+      console.warn(`⚠️ Skipping LLM call - low value score (${valueScore}) for: ${purpose}`);
+      yield fallback();
+      return;
+    }
+
+    const intelligence = this.analyzeCallIntelligence({ ...options, context, purpose, valueScore }, routing);
+    const attempts: ProviderAttempt[] = [];
+    const chain = await this.buildProviderChain(intelligence, routing, attempts);
+    if (chain.length === 0) {
+      yield fallback();
+      return;
+    }
+
+    if (estimatedCost > this.config.maxCostPerCall) {
+      console.warn(`⚠️ Skipping LLM call - estimated cost $${estimatedCost.toFixed(4)} exceeds limit $${this.config.maxCostPerCall}`);
+      yield fallback();
+      return;
+    }
+
+    if (estimatedTokens > this.config.maxTokensPerCall) {
+      console.warn(`⚠️ Truncating messages - ${estimatedTokens} tokens exceeds limit ${this.config.maxTokensPerCall}`);
+      llmOptions.messages = this.truncateMessages(llmOptions.messages, this.config.maxTokensPerCall, llmOptions.model);
+    }
+
+    let lastFailed: { provider: LLMProvider; error: Error } | null = null;
+    let partial = false;
+
+    for (const provider of chain) {
+      const providerCost = provider.estimateCost(estimatedTokens, llmOptions.model, expectedOutputTokens);
+      const releaseBudget = await this.reserveBudget(provider, { context, purpose, estimatedCost: providerCost }, attempts);
+      if (!releaseBudget) {
+        continue;
+      }
+
+      try {
+        await this.waitForRateLimit(provider, estimatedTokens + expectedOutputTokens, signal);
+      } catch (error) {
+        releaseBudget();
+        throw error;
+      }
+      const attemptStart = Date.now();
+      const attempt = createAttemptSignal(signal, timeoutMs ?? this.config.requestTimeoutMs);
+      const attemptOptions = { ...llmOptions, signal: attempt.signal };
+      let output = '';
+      try {
+        console.log(`🤖 Streaming from ${provider.name} for: ${purpose}`);
+
+        const stream = provider.stream
+          ? provider.stream(attemptOptions)
+          : this.streamFromCall(provider, attemptOptions);
+        for await (const delta of stream) {
+          if (attempt.signal.aborted) throw attempt.signal.reason;
+          output += delta;
+          yield { provider: provider.name, delta };
+        }
+        if (attempt.signal.aborted) throw attempt.signal.reason;
+
+        attempts.push({ provider: provider.name, outcome: 'success', duration: Date.now() - attemptStart });
+        await this.circuitBreakers.recordSuccess(provider.name);
+        const outputTokens = this.tokenizerFor(llmOptions.model).count(output);
+        await this.trackUsage({
+          timestamp: new Date().toISOString(),
+          model: llmOptions.model,
+          provider: provider.name,
+          inputTokens: estimatedTokens,
+          outputTokens,
+          totalTokens: estimatedTokens + outputTokens,
+          cost: provider.estimateCost(estimatedTokens, llmOptions.model, outputTokens),
+          pricingVersion: this.pricing.version,
+          duration: Date.now() - startTime,
+          success: true,
+          context,
+          purpose,
+          valueScore,
+          prompt,
+          attempts,
+        });
+        return;
+      } catch (error) {
+        if (signal?.aborted || error instanceof UnrecordedLLMRequestError) throw error;
+        lastFailed = { provider, error: error as Error };
+        await this.recordProviderFailure(provider, error as Error, attempts, attemptStart);
+        // Part of the answer has already been yielded, so another provider cannot take over
+        if (output) {
+          partial = true;
+          break;
+        }
+      } finally {
+        attempt.dispose();
+        releaseBudget();
+      }
+    }
+
+    if (lastFailed) {
       await this.trackUsage({
         timestamp: new Date().toISOString(),
         model: llmOptions.model,
-        provider: provider.name as any,
+        provider: lastFailed.provider.name,
         inputTokens: estimatedTokens,
         outputTokens: 0,
         totalTokens: estimatedTokens,
-        cost: this.estimateCost(estimatedTokens, llmOptions.model),
+        cost: lastFailed.provider.estimateCost(estimatedTokens, llmOptions.model),
+        pricingVersion: this.pricing.version,
         duration: Date.now() - startTime,
         success: false,
-        error: (error as Error).message,
+        error: lastFailed.error.message,
         context,
         purpose,
-        valueScore
+        valueScore,
+        prompt,
+        attempts,
       });
+      if (partial) throw lastFailed.error;
+    }
 
-      // If it's a rate limit, wait before trying next provider
-      if (this.isRateLimitError(error)) {
-        console.log(`⏳ Rate limit hit, waiting ${this.config.rateLimitDelayMs}ms...`);
-        await this.delay(this.config.rateLimitDelayMs);
-      }
+    yield fallback();
+  }
 
-      return this.getFallbackResponse(purpose);
+  /**
+   * Single-chunk stream for providers without a streaming endpoint
+   */
+  private async *streamFromCall(provider: LLMProvider, options: OpenAIChatOptions): AsyncGenerator<string> {
+    const result = await raceAbort(this.callWithRetry(() => provider.call(options), options.signal), options.signal);
+    const content = result?.choices?.[0]?.message?.content;
+    if (content) yield content;
+  }
+
+  /**
+   * Reserve a paid call's estimated cost against budgets. Throws for exhausted `stop` budgets;
+   * for `degrade` budgets the provider is skipped (and the skip recorded). Until released, the
+   * reservation counts as spend, so concurrent calls cannot all pass a nearly exhausted budget.
+   * @returns Releases the reservation once the call's spend is recorded; null when skipped
+   */
+  private async reserveBudget(
+    provider: LLMProvider,
+    call: { context: string; purpose: string; estimatedCost: number },
+    attempts: ProviderAttempt[]
+  ): Promise<(() => void) | null> {
+    // Budget check against the shared usage ledger and the calls still in flight
+    const budgets = await this.getBudgets();
+    const usage = await this.readBudgetUsage(budgets);
+    // No await from here to the reservation, so concurrent checks see each other
+    const exhausted = checkBudgets(budgets, [...usage, ...this.budgetReservations], call);
+    if (exhausted.length === 0) {
+      const reservation: BudgetSpend = { timestamp: new Date().toISOString(), cost: call.estimatedCost, context: call.context, purpose: call.purpose };
+      this.budgetReservations.add(reservation);
+      return () => this.budgetReservations.delete(reservation);
+    }
+
+    if (exhausted.some(status => status.budget.onExhausted === 'stop')) {
+      throw new LLMBudgetExceededError(exhausted);
     }
+    const ids = exhausted.map(status => status.id).join(', ');
+    console.warn(`⚠️ Budget exhausted (${ids}) - skipping ${provider.name}`);
+    attempts.push({ provider: provider.name, outcome: 'skipped', reason: `budget exhausted: ${ids}`, duration: 0 });
+    return null;
+  }
+
+  /**
+   * Record a failed attempt and update the provider's circuit breaker
+   */
+  private async recordProviderFailure(provider: LLMProvider, error: Error, attempts: ProviderAttempt[], attemptStart: number): Promise<void> {
+    console.warn(`❌ ${provider.name} failed:`, error);
+    attempts.push({ provider: provider.name, outcome: 'failure', reason: error.message, duration: Date.now() - attemptStart });
+
+    // A rate-limited provider is skipped for the rate limit delay rather than retried on the next call
+    if (this.isRateLimitError(error)) {
+      console.log(`⏳ Rate limit hit, skipping ${provider.name} for ${this.config.rateLimitDelayMs}ms`);
+      await this.circuitBreakers.recordFailure(provider.name, error.message, new Date(), this.config.rateLimitDelayMs);
+    } else {
+      await this.circuitBreakers.recordFailure(provider.name, error.message);
+    }
+  }
+
+  /**
+   * Wait until the provider's rate limits allow a request of `tokens` tokens
+   */
+  private async waitForRateLimit(provider: LLMProvider, tokens: number, signal?: AbortSignal): Promise<void> {
+    const waited = await this.rateLimiter.acquire(provider.name, tokens, signal);
+    if (waited > 0) {
+      console.log(`⏳ Waited ${waited}ms for ${provider.name} rate limit`);
+    }
+  }
+
+  /**
+   * The response cache (for stats and clearing)
+   */
+  getResponseCache(): LLMResponseCache {
+    return this.responseCache;
+  }
+
+  /**
+   * Circuit breaker state of every provider that has been called
+   */
+  async getProviderHealth(now: Date = new Date()): Promise<ProviderHealth[]> {
+    return this.circuitBreakers.getHealth(now);
+  }
+
+  /**
+   * Close a provider's circuit (or every circuit)
+   * @returns Providers that were reset
+   */
+  async resetProviderHealth(provider?: string): Promise<string[]> {
+    return this.circuitBreakers.reset(provider);
+  }
+
+  /**
+   * Budgets in effect: the configured ones, else those persisted next to the usage log
+   */
+  async getBudgets(): Promise<LLMBudget[]> {
+    if (this.config.budgets) return this.config.budgets;
+    return this.config.memoryOnly ? [] : readBudgets(this.budgetsPath);
+  }
+
+  /**
+   * Add or replace (by period and scope) a persisted budget
+   */
+  async setBudget(budget: LLMBudget): Promise<LLMBudget[]> {
+    const budgets = (await readBudgets(this.budgetsPath)).filter(existing => budgetId(existing) !== budgetId(budget));
+    return writeBudgets(this.budgetsPath, [...budgets, budget]);
+  }
+
+  /**
+   * Remove a persisted budget by id
+   * @returns Whether a budget was removed
+   */
+  async removeBudget(id: string): Promise<boolean> {
+    const budgets = await readBudgets(this.budgetsPath);
+    const remaining = budgets.filter(budget => budgetId(budget) !== id);
+    if (remaining.length === budgets.length) return false;
+    await writeBudgets(this.budgetsPath, remaining);
+    return true;
+  }
+
+  /**
+   * Current-period spend and burn-down for every budget
+   */
+  async getBudgetStatuses(now: Date = new Date()): Promise<BudgetStatus[]> {
+    const budgets = await this.getBudgets();
+    const usage = await this.readBudgetUsage(budgets, now);
+    return budgets.map(budget => getBudgetStatus(budget, usage, now));
   }
 
   /**
    * Call with retry logic
    */
-  private async callWithRetry<T>(fn: () => Promise<T>): Promise<T> {
+  private async callWithRetry<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
     let lastError: Error;
     
     for (let attempt = 1; attempt <= this.config.retryAttempts; attempt++) {
@@ -351,6 +1040,8 @@ export class LLMService {
         return await fn();
       } catch (error) {
         lastError = error as Error;
+        // Cancelled, timed out or not recorded: retrying would fail the same way
+        if (signal?.aborted || error instanceof UnrecordedLLMRequestError) break;
         
         if (attempt < this.config.retryAttempts) {
           const delay = this.config.retryDelayMs * Math.pow(2, attempt - 1); // Exponential backoff
@@ -380,49 +1071,88 @@ export class LLMService {
   }
 
   /**
-   * Estimate tokens for messages
+   * Tokenizer for a model (BPE for OpenAI-family models, heuristic otherwise)
+   */
+  private tokenizerFor(model?: string): Tokenizer {
+    return this.tokenizers.forModel(model);
+  }
+
+  /**
+   * Register a tokenizer for models matching a pattern (takes precedence over the built-in ones)
+   */
+  registerTokenizer(pattern: RegExp, tokenizer: Tokenizer): void {
+    this.tokenizers.register(pattern, tokenizer);
+  }
+
+  /**
+   * Recorded calls from the shared usage log, optionally only those between two dates (inclusive)
+   */
+  async getUsageLog(since?: Date, until?: Date): Promise<LLMUsageMetrics[]> {
+    return this.usageStore.read({ since, until });
+  }
+
+  /**
+   * Pricing table used for cost estimates
    */
-  private estimateTokens(messages: ChatCompletionRequestMessage[]): number {
-    return messages.reduce((total, msg) => {
-      // Rough estimation: 1 token ≈ 4 characters
-      return total + Math.ceil(msg.content.length / 4);
-    }, 0);
+  getPricingTable(): PricingTable {
+    return this.pricing;
   }
 
   /**
-   * Estimate output tokens from response
+   * Prompt templates, loaded from `promptsDir` on first use
    */
-  private estimateOutputTokens(response: any): number {
+  getPromptRegistry(): PromptRegistry {
+    this.prompts ??= loadPromptRegistry(this.config.promptsDir ?? PROMPTS_DIR, this.config.promptVersions);
+    return this.prompts;
+  }
+
+  /**
+   * Render a prompt template (the `promptVersions` pin, else its latest version). Spread the result
+   * into `callLLM` options so the usage record names the template version:
+   *
+   * @example
+   * await llmService.callLLM({ model, apiKey, ...llmService.renderPrompt('content-generation', { contentType, topic }) });
+   */
+  renderPrompt(id: string, variables: Record<string, unknown>, version?: number): RenderedPrompt {
+    return this.getPromptRegistry().render(id, variables, version);
+  }
+
+  /**
+   * Estimate prompt tokens for messages
+   */
+  private estimateTokens(messages: ChatCompletionRequestMessage[], model?: string): number {
+    return countMessageTokens(this.tokenizerFor(model), messages);
+  }
+
+  /**
+   * Output tokens of a response: as reported by the provider, else counted
+   */
+  private estimateOutputTokens(response: any, model?: string): number {
+    if (typeof response?.usage?.completion_tokens === 'number') {
+      return response.usage.completion_tokens;
+    }
     const content = response?.choices?.[0]?.message?.content || '';
-    return Math.ceil(content.length / 4);
+    return this.tokenizerFor(model).count(content);
   }
 
   /**
-   * Estimate cost for tokens
+   * Cost of a call from the pricing table, with input and output tokens priced separately
    */
-  private estimateCost(tokens: number, model: string): number {
-    // OpenAI pricing (approximate)
-    const pricing: Record<string, { input: number; output: number }> = {
-      'gpt-4': { input: 0.03, output: 0.06 }, // per 1K tokens
-      'gpt-4-turbo': { input: 0.01, output: 0.03 },
-      'gpt-3.5-turbo': { input: 0.0015, output: 0.002 }
-    };
-    
-    const modelPricing = pricing[model] || pricing['gpt-3.5-turbo'];
-    if (!modelPricing) return 0;
-    return (tokens * modelPricing.input) / 1000;
+  private estimateCost(inputTokens: number, model: string, outputTokens: number = 0): number {
+    return calculateCost(getModelPricing(this.pricing, model), inputTokens, outputTokens);
   }
 
   /**
    * Truncate messages to fit token limit
    */
-  private truncateMessages(messages: ChatCompletionRequestMessage[], maxTokens: number): ChatCompletionRequestMessage[] {
+  private truncateMessages(messages: ChatCompletionRequestMessage[], maxTokens: number, model?: string): ChatCompletionRequestMessage[] {
+    const tokenizer = this.tokenizerFor(model);
     const truncated: ChatCompletionRequestMessage[] = [];
     let currentTokens = 0;
     
     // Keep system messages and truncate from the end
     for (const message of messages) {
-      const messageTokens = Math.ceil(message.content.length / 4);
+      const messageTokens = tokenizer.count(message.content);
       
       if (message.role === 'system' || currentTokens + messageTokens <= maxTokens) {
         truncated.push(message);
@@ -430,10 +1160,9 @@ export class LLMService {
       } else {
         // Truncate this message
         const remainingTokens = maxTokens - currentTokens;
-        const maxChars = remainingTokens * 4;
         truncated.push({
           ...message,
-          content: message.content.slice(0, maxChars) + '...'
+          content: tokenizer.truncate(message.content, remainingTokens) + '...'
         });
         break;
       }
@@ -470,103 +1199,40 @@ export class LLMService {
    * Track LLM usage for analytics and reporting
    */
   private async trackUsage(metrics: LLMUsageMetrics): Promise<void> {
-    this.usageLog.push(metrics);
-    
-    // Only persist to disk if not in memory-only mode
-    if (!this.config.memoryOnly) {
-      try {
-        await fs.writeFile(this.usageLogPath, JSON.stringify(this.usageLog, null, 2));
-      } catch (error) {
-        console.warn('Failed to save usage log:', error);
-      }
+    try {
+      await this.usageStore.append(metrics);
+    } catch (error) {
+      console.warn('Failed to save usage log:', error);
     }
   }
 
   /**
-   * Load usage log from file
+   * Shared spend since the start of the longest current budget period: earlier days from the
+   * daily rollups and today's calls from today's segments, so a check parses one day of calls.
+   * Falls back to reading every call when an earlier day has no per-scope totals.
    */
-  private async loadUsageLog(): Promise<void> {
-    try {
-      const data = await fs.readFile(this.usageLogPath, 'utf-8');
-      this.usageLog = JSON.parse(data);
-    } catch {
-      this.usageLog = [];
-    }
-  }
-
-  /**
-   * Get usage analytics
-   */
-  getUsageAnalytics(): {
-    totalCalls: number;
-    totalTokens: number;
-    totalCost: number;
-    successRate: number;
-    averageValueScore: number;
-    topPurposes: Array<{ purpose: string; calls: number; cost: number }>;
-    providerBreakdown: Array<{ provider: string; calls: number; cost: number }>;
-    costByDay: Array<{ date: string; cost: number; calls: number }>;
-  } {
-    const totalCalls = this.usageLog.length;
-    const totalTokens = this.usageLog.reduce((sum, log) => sum + log.totalTokens, 0);
-    const totalCost = this.usageLog.reduce((sum, log) => sum + log.cost, 0);
-    const successRate = totalCalls > 0 ? this.usageLog.filter(log => log.success).length / totalCalls : 0;
-    const averageValueScore = totalCalls > 0 ? this.usageLog.reduce((sum, log) => sum + log.valueScore, 0) / totalCalls : 0;
-
-    // Top purposes
-    const purposeStats = new Map<string, { calls: number; cost: number }>();
-    this.usageLog.forEach(log => {
-      const current = purposeStats.get(log.purpose) || { calls: 0, cost: 0 };
-      purposeStats.set(log.purpose, {
-        calls: current.calls + 1,
-        cost: current.cost + log.cost
-      });
-    });
-
-    // Provider breakdown
-    const providerStats = new Map<string, { calls: number; cost: number }>();
-    this.usageLog.forEach(log => {
-      const current = providerStats.get(log.provider) || { calls: 0, cost: 0 };
-      providerStats.set(log.provider, {
-        calls: current.calls + 1,
-        cost: current.cost + log.cost
-      });
-    });
-
-    // Cost by day
-    const dailyStats = new Map<string, { cost: number; calls: number }>();
-    this.usageLog.forEach(log => {
-      const date = log.timestamp?.split('T')[0] ?? '';
-      const current = dailyStats.get(date) || { cost: 0, calls: 0 };
-      dailyStats.set(date, {
-        cost: current.cost + log.cost,
-        calls: current.calls + 1
-      });
-    });
+  private async readBudgetUsage(budgets: LLMBudget[], now: Date = new Date()): Promise<BudgetSpend[]> {
+    if (budgets.length === 0) return [];
+    const since = new Date(Math.min(...budgets.map(budget => getBudgetWindow(budget.period, now).start.getTime())));
+    const today = getBudgetWindow('daily', now).start;
+    const earlier = this.usageStore.rollups({ since, until: new Date(today.getTime() - 1) }).map(rollupBudgetSpend);
+    if (earlier.some(spend => spend === null)) return this.usageStore.read({ since });
+    return [...earlier.flatMap(spend => spend ?? []), ...await this.usageStore.read({ since: today })];
+  }
 
-    return {
-      totalCalls,
-      totalTokens,
-      totalCost,
-      successRate,
-      averageValueScore,
-      topPurposes: Array.from(purposeStats.entries())
-        .map(([purpose, stats]) => ({ purpose, ...stats }))
-        .sort((a, b) => b.cost - a.cost)
-        .slice(0, 10),
-      providerBreakdown: Array.from(providerStats.entries())
-        .map(([provider, stats]) => ({ provider, ...stats })),
-      costByDay: Array.from(dailyStats.entries())
-        .map(([date, stats]) => ({ date, ...stats }))
-        .sort((a, b) => a.date.localeCompare(b.date))
-    };
+  /**
+   * Usage analytics across every LLMService caller, optionally for a date range (UTC days).
+   * Computed from the daily rollups, so the cost does not grow with the number of calls.
+   */
+  getUsageAnalytics(range: UsageRange = {}): UsageAnalytics {
+    return summarizeRollups(this.usageStore.rollups(range));
   }
 
   /**
    * Generate usage report
    */
-  generateUsageReport(): string {
-    const analytics = this.getUsageAnalytics();
+  generateUsageReport(range: UsageRange = {}): string {
+    const analytics = this.getUsageAnalytics(range);
     
     return `
 📊 LLM Usage Report
@@ -579,6 +1245,10 @@ export class LLMService {
 - Success Rate: ${(analytics.successRate * 100).toFixed(1)}%
 - Average Value Score: ${(analytics.averageValueScore * 100).toFixed(1)}%
 
+🗄️ Response Cache:
+- Hits: ${analytics.cacheHits} (${(analytics.cacheHitRate * 100).toFixed(1)}% of cacheable calls)
+- Saved: $${analytics.cacheSavings.toFixed(4)}
+
 🏆 Top Purposes (by cost):
 ${analytics.topPurposes.map(p => `- ${p.purpose}: $${p.cost.toFixed(4)} (${p.calls} calls)`).join('\n')}
 
@@ -621,7 +1291,7 @@ ${this.generateRecommendations(analytics)}
 
   // Provider-specific implementations
   private async callOpenAIChat(options: OpenAIChatOptions): Promise<any> {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    const response = await fetch(`${this.openAIBaseUrl()}/chat/completions`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${options.apiKey}`,
@@ -633,6 +1303,7 @@ ${this.generateRecommendations(analytics)}
         temperature: options.temperature,
         max_tokens: options.max_tokens,
       }),
+      signal: options.signal,
     });
     
     if (!response.ok) {
@@ -643,17 +1314,20 @@ ${this.generateRecommendations(analytics)}
     return response.json();
   }
 
+  /**
+   * OpenAI API root (`OPENAI_BASE_URL` for compatible servers)
+   */
+  private openAIBaseUrl(): string {
+    return (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+  }
+
+  /**
+   * Ollama over its HTTP API, so long prompts and outputs neither block the event loop nor need shell quoting
+   */
   private async callLocalOllama(options: OpenAIChatOptions): Promise<any> {
-    const { execSync } = await import('child_process');
-    
-    const prompt = options.messages.map(m => `${m.role}: ${m.content}`).join('\n');
-    const result = execSync(`ollama run ${options.model} "${prompt}"`, { 
-      encoding: 'utf-8',
-      maxBuffer: 1024 * 1024 // 1MB buffer
-    });
-    
+    const content = await collectStream(streamOllama(ollamaBaseUrl(), options));
     return {
-      choices: [{ message: { content: result.trim() } }]
+      choices: [{ message: { content: content.trim() } }]
     };
   }
 
@@ -665,39 +1339,60 @@ ${this.generateRecommendations(analytics)}
     return this.estimateTokens(messages);
   }
 
-  private estimateOpenAICost(tokens: number, model: string): number {
-    return this.estimateCost(tokens, model);
+  private estimateOpenAICost(tokens: number, model: string, outputTokens?: number): number {
+    return this.estimateCost(tokens, model, outputTokens);
   }
 
   /**
    * Register a new local LLM backend (e.g., vLLM, llama.cpp)
    * Roadmap reference: Scaffold LocalLLMService abstraction (Ollama-first, extensible)
+   * @param embedFn - Optional embedding endpoint, used by `getEmbedder()`
    */
-  public registerLocalBackend(name: string, callFn: (options: OpenAIChatOptions) => Promise<any>, isAvailableFn?: () => Promise<boolean>) {
+  public registerLocalBackend(
+    name: string,
+    callFn: (options: OpenAIChatOptions) => Promise<any>,
+    isAvailableFn?: () => Promise<boolean>,
+    embedFn?: (texts: string[]) => Promise<number[][]>
+  ) {
     this.providers.push({
       name,
       isAvailable: isAvailableFn || (async () => true),
       call: callFn,
       estimateTokens: this.estimateLocalTokens.bind(this),
-      estimateCost: () => 0
+      estimateCost: () => 0,
+      embed: embedFn,
     });
+    this.localProviders.add(name);
   }
 
   /**
-   * Set routing preference: 'auto' (default), 'local', or 'cloud'.
+   * Embedder from the first available backend that supports embeddings,
+   * falling back to the offline hashing-trick embedder
    */
-  public setRoutingPreference(pref: 'auto' | 'local' | 'cloud') {
-    if (pref === 'local') {
-      this.config.preferLocalLLM = true;
-      this.config.complexityThreshold = 1.0; // Always use local if available
-    } else if (pref === 'cloud') {
-      this.config.preferLocalLLM = false;
-      this.config.complexityThreshold = 0.0; // Always use cloud
-    } else {
-      // auto
-      this.config.preferLocalLLM = true;
-      this.config.complexityThreshold = 0.6;
+  public async getEmbedder(): Promise<TextEmbedder> {
+    for (const provider of this.providers) {
+      if (provider.embed && await provider.isAvailable()) {
+        return { name: provider.name, embed: provider.embed };
+      }
     }
+    return createHashingEmbedder();
+  }
+
+  /**
+   * Set the routing preference for calls that don't pass their own: 'auto' (default), 'local', or 'cloud'.
+   */
+  public setRoutingPreference(pref: 'auto' | 'local' | 'cloud') {
+    Object.assign(this.config, ROUTING_PREFERENCES[pref]);
+  }
+
+  /**
+   * Routing settings for one call: its own `routingPreference`, or the service's. Calls in flight
+   * together (see `callLLMBatch`) each keep theirs, so the shared config is never changed per call.
+   */
+  private routingFor(pref: LLMCallOptions['routingPreference']): RoutingSettings {
+    if (pref) return ROUTING_PREFERENCES[pref];
+    const { preferLocalLLM, complexityThreshold } = this.config;
+    return { preferLocalLLM, complexityThreshold };
   }
 }
 
@@ -1,6 +1,12 @@
 import { LLMService } from './llm';
+import { SemanticTagsSchema } from '../types/schemas';
 import type { ContextEntry } from '../types';
-import type { LLMOptimizationConfig } from './llm';
+import type { TextEmbedder } from '../types/llm';
+import type { LLMBatchOptions, LLMOptimizationConfig } from './llm';
+import type { PromptRef, RenderedPrompt } from './llm-prompts';
+import { UnrecordedLLMRequestError } from './llm-replay';
+
+type SemanticTags = typeof SemanticTagsSchema._type;
 
 /**
  * Semantic tagging service for intelligent fossil tagging
@@ -15,12 +21,18 @@ export class SemanticTaggerService {
    * @param model LLM model name (default: 'gpt-4')
    * @param apiKey API key (default: process.env.OPENAI_API_KEY)
    * @param llmOptions LLM options: enableLocalLLM, localBackend, routingPreference, etc.
+   * @param llmService Service to make the calls through (default: one built from llmOptions)
    */
-  constructor(model: string = 'gpt-4', apiKey?: string, llmOptions: Partial<LLMOptimizationConfig> & { localBackend?: string; routingPreference?: 'auto' | 'local' | 'cloud' } = {}) {
+  constructor(
+    model: string = 'gpt-4',
+    apiKey?: string,
+    llmOptions: Partial<LLMOptimizationConfig> & { localBackend?: string; routingPreference?: 'auto' | 'local' | 'cloud' } = {},
+    llmService?: LLMService
+  ) {
     this.model = model;
     this.apiKey = apiKey || process.env.OPENAI_API_KEY || '';
     this.llmOptions = llmOptions;
-    this.llmService = new LLMService({
+    this.llmService = llmService ?? new LLMService({
       maxCostPerCall: 0.05, // Lower cost for semantic tagging
       minValueScore: 0.4, // Moderate value for semantic analysis
       enableLocalLLM: llmOptions.enableLocalLLM ?? true,
@@ -36,46 +48,65 @@ export class SemanticTaggerService {
     }
   }
 
+  /**
+   * Embedder used for semantic search (registered local backend or offline hashing embedder)
+   */
+  async getEmbedder(): Promise<TextEmbedder> {
+    return this.llmService.getEmbedder();
+  }
+
   /**
    * Generate semantic tags for a fossil entry
    */
   async generateSemanticTags(entry: ContextEntry): Promise<ContextEntry['semanticTags']> {
+    const [tags] = await this.generateSemanticTagsBatch([entry]);
+    return tags;
+  }
+
+  /**
+   * Generate semantic tags for many entries, tagging them concurrently through `callLLMBatch`.
+   * Responses are validated against `SemanticTagsSchema`; entries whose call fails or never
+   * yields valid tags get the basic (non-LLM) tags.
+   */
+  async generateSemanticTagsBatch(entries: ContextEntry[], options: LLMBatchOptions = {}): Promise<Array<ContextEntry['semanticTags']>> {
     if (!this.apiKey) {
       // Fallback to basic semantic analysis without LLM
-      return this.generateBasicSemanticTags(entry);
+      return entries.map(entry => this.generateBasicSemanticTags(entry));
     }
 
+    let rendered: RenderedPrompt[];
     try {
-      const prompt = this.buildSemanticAnalysisPrompt(entry);
-      const response = await this.llmService.callLLM({
-        model: this.model,
-        apiKey: this.apiKey,
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert at analyzing content and generating semantic tags. Provide structured, accurate analysis.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        context: 'semantic-analysis',
-        purpose: 'semantic-tagging',
-        valueScore: this.calculateValueScore(entry),
-        routingPreference: this.llmOptions.routingPreference
-      });
-
-      const content = response.choices?.[0]?.message?.content;
-      if (!content) {
-        return this.generateBasicSemanticTags(entry);
-      }
-
-      return this.parseSemanticResponse(content, entry);
+      rendered = entries.map(entry => this.llmService.renderPrompt('semantic-tagging', {
+        type: entry.type,
+        title: entry.title,
+        content: entry.content,
+        tags: entry.tags.join(', '),
+      }));
     } catch (error) {
       console.warn('LLM semantic tagging failed, using fallback:', error);
-      return this.generateBasicSemanticTags(entry);
+      return entries.map(entry => this.generateBasicSemanticTags(entry));
     }
+
+    const results = await this.llmService.callLLMBatch(entries.map((entry, index) => ({
+      model: this.model,
+      apiKey: this.apiKey,
+      ...rendered[index]!,
+      context: 'semantic-analysis',
+      purpose: 'semantic-tagging',
+      valueScore: this.calculateValueScore(entry),
+      routingPreference: this.llmOptions.routingPreference,
+      schema: SemanticTagsSchema,
+    })), options);
+
+    return results.map((result, index) => {
+      const entry = entries[index]!;
+      if (!result.success) {
+        if (result.error instanceof UnrecordedLLMRequestError) throw result.error;
+        console.warn('LLM semantic tagging failed, using fallback:', result.error);
+        return this.generateBasicSemanticTags(entry);
+      }
+      return this.toSemanticTags(result.response, entry, rendered[index]!.prompt);
+    });
   }
 
   /**
@@ -108,65 +139,16 @@ export class SemanticTaggerService {
   }
 
   /**
-   * Build prompt for semantic analysis
+   * Semantic tags for an entry from validated LLM output
    */
-  private buildSemanticAnalysisPrompt(entry: ContextEntry): string {
-    return `Analyze this fossil entry and provide semantic tags in JSON format:
-
-Entry Type: ${entry.type}
-Title: ${entry.title}
-Content: ${entry.content}
-Tags: ${entry.tags.join(', ')}
-
-Please provide a JSON response with the following structure:
-{
-  "semanticCategory": "category-name",
-  "confidence": 0.95,
-  "concepts": ["concept1", "concept2"],
-  "sentiment": "positive|negative|neutral",
-  "priority": "low|medium|high|critical",
-  "impact": "low|medium|high|critical",
-  "stakeholders": ["stakeholder1", "stakeholder2"]
-}
-
-Guidelines:
-- semanticCategory: Broad category (e.g., "repository-health", "automation", "documentation")
-- confidence: 0.0 to 1.0 based on how certain you are
-- concepts: Key concepts extracted from content (max 5)
-- sentiment: Overall sentiment of the content
-- priority: How urgent/important this is
-- impact: How much this affects the system/project
-- stakeholders: Who this affects (e.g., "developers", "users", "admins")
-
-Respond only with valid JSON.`;
-  }
-
-  /**
-   * Parse LLM response into semantic tags
-   */
-  private parseSemanticResponse(content: string, entry: ContextEntry): ContextEntry['semanticTags'] {
-    try {
-      // Extract JSON from response (handle markdown code blocks)
-      const jsonMatch = content.match(/```json\s*([\s\S]*?)\s*```/) || content.match(/\{[\s\S]*\}/);
-      const jsonStr = jsonMatch ? jsonMatch[1] || jsonMatch[0] : content;
-      const parsed = JSON.parse(jsonStr);
-
-      return {
-        contentHash: entry.metadata?.contentHash as string || '',
-        semanticCategory: parsed.semanticCategory,
-        confidence: parsed.confidence,
-        autoGenerated: true,
-        concepts: parsed.concepts || [],
-        sentiment: parsed.sentiment,
-        priority: parsed.priority,
-        impact: parsed.impact,
-        stakeholders: parsed.stakeholders || [],
-        similarityScore: entry.metadata?.similarityScore as number,
-      };
-    } catch (error) {
-      console.warn('Failed to parse semantic response:', error);
-      return this.generateBasicSemanticTags(entry);
-    }
+  private toSemanticTags(tags: SemanticTags, entry: ContextEntry, prompt: PromptRef): ContextEntry['semanticTags'] {
+    return {
+      contentHash: entry.metadata?.contentHash as string || '',
+      ...tags,
+      autoGenerated: true,
+      similarityScore: entry.metadata?.similarityScore as number,
+      promptTemplates: [prompt],
+    };
   }
 
   /**
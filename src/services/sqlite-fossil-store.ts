@@ -0,0 +1,312 @@
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'fs';
+import path from 'path';
+import type { ContextEntry } from '../types';
+import type {
+  FossilEdge,
+  FossilEdgeFilter,
+  FossilIndexRecord,
+  FossilStore,
+  FossilStoreBatch,
+  FossilStoreFilter,
+} from './fossil-store';
+
+interface EntryRow {
+  id: string;
+  type: ContextEntry['type'];
+  title: string;
+  source: ContextEntry['source'];
+  tags: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface EdgeRow {
+  from_id: string;
+  to_id: string;
+  type: FossilEdge['type'];
+  created_at: string;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS entries (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL,
+    title TEXT NOT NULL,
+    source TEXT NOT NULL,
+    tags TEXT NOT NULL,
+    content_hash TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS entry_tags (
+    entry_id TEXT NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
+    tag TEXT NOT NULL,
+    PRIMARY KEY (entry_id, tag)
+  );
+  CREATE TABLE IF NOT EXISTS edges (
+    from_id TEXT NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
+    to_id TEXT NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
+    type TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (from_id, to_id, type)
+  );
+  CREATE TABLE IF NOT EXISTS store_data (
+    name TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS store_data_log (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS store_meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_entries_type ON entries(type);
+  CREATE INDEX IF NOT EXISTS idx_entries_source ON entries(source);
+  CREATE INDEX IF NOT EXISTS idx_entries_created_at ON entries(created_at);
+  CREATE INDEX IF NOT EXISTS idx_entries_content_hash ON entries(content_hash);
+  CREATE INDEX IF NOT EXISTS idx_entry_tags_tag ON entry_tags(tag);
+  CREATE INDEX IF NOT EXISTS idx_edges_to ON edges(to_id);
+  CREATE INDEX IF NOT EXISTS idx_store_data_log_name ON store_data_log(name);
+`;
+
+/**
+ * Embedded SQLite fossil store (bun:sqlite).
+ *
+ * Entries are stored as JSON alongside indexed type/tag/source/date columns;
+ * every write runs inside a transaction.
+ */
+export class SqliteFossilStore implements FossilStore {
+  readonly kind = 'sqlite' as const;
+  private db: Database | null = null;
+
+  constructor(private dbFile: string) {}
+
+  async initialize(): Promise<void> {
+    this.open();
+  }
+
+  async getEntry(id: string): Promise<ContextEntry | null> {
+    const row = this.open().query('SELECT data FROM entries WHERE id = ?').get(id) as { data: string } | null;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async putEntry(entry: ContextEntry): Promise<void> {
+    await this.writeBatch({ put: [entry] });
+  }
+
+  async deleteEntry(id: string): Promise<void> {
+    await this.writeBatch({ remove: [id] });
+  }
+
+  async writeBatch(batch: FossilStoreBatch): Promise<void> {
+    const db = this.open();
+    db.transaction(() => this.applyBatch(db, batch))();
+  }
+
+  async replaceAll(entries: ContextEntry[], edges?: FossilEdge[]): Promise<void> {
+    const db = this.open();
+    const existing = (db.query('SELECT id FROM entries').all() as Array<{ id: string }>).map(row => row.id);
+    const keep = new Set(entries.map(entry => entry.id));
+    // One transaction, so a failure rolls back to the previous contents; removed entries cascade to their edges
+    db.transaction(() => {
+      this.applyBatch(db, { put: entries, remove: existing.filter(id => !keep.has(id)) });
+      if (edges) {
+        db.query('DELETE FROM edges').run();
+        this.applyBatch(db, { putEdges: edges });
+      }
+    })();
+  }
+
+  private applyBatch(db: Database, batch: FossilStoreBatch): void {
+    const upsert = db.prepare(`
+      INSERT INTO entries (id, type, title, source, tags, content_hash, created_at, updated_at, data)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        type = excluded.type, title = excluded.title, source = excluded.source, tags = excluded.tags,
+        content_hash = excluded.content_hash, created_at = excluded.created_at,
+        updated_at = excluded.updated_at, data = excluded.data
+    `);
+    const clearTags = db.prepare('DELETE FROM entry_tags WHERE entry_id = ?');
+    const insertTag = db.prepare('INSERT OR IGNORE INTO entry_tags (entry_id, tag) VALUES (?, ?)');
+    const remove = db.prepare('DELETE FROM entries WHERE id = ?');
+    const touch = db.prepare("INSERT OR REPLACE INTO store_meta (key, value) VALUES ('lastUpdated', ?)");
+    const exists = db.prepare('SELECT 1 FROM entries WHERE id = ?');
+    const insertEdge = db.prepare('INSERT OR IGNORE INTO edges (from_id, to_id, type, created_at) VALUES (?, ?, ?, ?)');
+    const removeEdge = db.prepare('DELETE FROM edges WHERE from_id = ? AND to_id = ? AND type = ?');
+
+    for (const entry of batch.put ?? []) {
+      upsert.run(
+        entry.id,
+        entry.type,
+        entry.title,
+        entry.source,
+        JSON.stringify(entry.tags),
+        (entry.metadata?.contentHash as string | undefined) ?? null,
+        entry.createdAt,
+        entry.updatedAt,
+        JSON.stringify(entry),
+      );
+      clearTags.run(entry.id);
+      entry.tags.forEach(tag => insertTag.run(entry.id, tag));
+      touch.run(entry.updatedAt);
+    }
+    for (const id of batch.remove ?? []) {
+      clearTags.run(id);
+      remove.run(id);
+      touch.run(new Date().toISOString());
+    }
+    for (const edge of batch.removeEdges ?? []) {
+      removeEdge.run(edge.from, edge.to, edge.type);
+    }
+    for (const edge of batch.putEdges ?? []) {
+      const missing = [edge.from, edge.to].find(id => !exists.get(id));
+      if (missing !== undefined) throw new Error(`Unknown entry in ${edge.type} edge: ${missing}`);
+      insertEdge.run(edge.from, edge.to, edge.type, edge.createdAt);
+    }
+  }
+
+  async queryIds(filter: FossilStoreFilter = {}): Promise<string[]> {
+    const clauses: string[] = [];
+    const params: string[] = [];
+
+    if (filter.type) {
+      clauses.push('type = ?');
+      params.push(filter.type);
+    }
+    if (filter.source) {
+      clauses.push('source = ?');
+      params.push(filter.source);
+    }
+    if (filter.tags && filter.tags.length > 0) {
+      clauses.push(`id IN (SELECT entry_id FROM entry_tags WHERE tag IN (${filter.tags.map(() => '?').join(', ')}))`);
+      params.push(...filter.tags);
+    }
+    if (filter.dateRange?.start) {
+      clauses.push('created_at >= ?');
+      params.push(filter.dateRange.start);
+    }
+    if (filter.dateRange?.end) {
+      clauses.push('created_at <= ?');
+      params.push(filter.dateRange.end);
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const rows = this.open().query(`SELECT id FROM entries ${where} ORDER BY rowid`).all(...params) as Array<{ id: string }>;
+    return rows.map(row => row.id);
+  }
+
+  async listRecords(): Promise<FossilIndexRecord[]> {
+    const rows = this.open()
+      .query('SELECT id, type, title, source, tags, created_at, updated_at FROM entries ORDER BY rowid')
+      .all() as EntryRow[];
+    return rows.map(row => ({
+      id: row.id,
+      type: row.type,
+      title: row.title,
+      tags: JSON.parse(row.tags),
+      source: row.source,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }));
+  }
+
+  async getAllEntries(): Promise<ContextEntry[]> {
+    const rows = this.open().query('SELECT data FROM entries ORDER BY rowid').all() as Array<{ data: string }>;
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  async findByContentHash(contentHash: string): Promise<ContextEntry | null> {
+    const row = this.open()
+      .query('SELECT data FROM entries WHERE content_hash = ? ORDER BY rowid LIMIT 1')
+      .get(contentHash) as { data: string } | null;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async listEdges(filter: FossilEdgeFilter = {}): Promise<FossilEdge[]> {
+    const clauses: string[] = [];
+    const params: string[] = [];
+
+    if (filter.from !== undefined) {
+      clauses.push('from_id = ?');
+      params.push(filter.from);
+    }
+    if (filter.to !== undefined) {
+      clauses.push('to_id = ?');
+      params.push(filter.to);
+    }
+    if (filter.types && filter.types.length > 0) {
+      clauses.push(`type IN (${filter.types.map(() => '?').join(', ')})`);
+      params.push(...filter.types);
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const rows = this.open().query(`SELECT from_id, to_id, type, created_at FROM edges ${where} ORDER BY rowid`).all(...params) as EdgeRow[];
+    return rows.map(row => ({ from: row.from_id, to: row.to_id, type: row.type, createdAt: row.created_at }));
+  }
+
+  async getLastUpdated(): Promise<string> {
+    const row = this.open().query("SELECT value FROM store_meta WHERE key = 'lastUpdated'").get() as { value: string } | null;
+    return row?.value ?? '';
+  }
+
+  async getStorageSize(): Promise<number> {
+    const row = this.open().query('SELECT COALESCE(SUM(LENGTH(data)), 0) AS size FROM entries').get() as { size: number };
+    return row.size;
+  }
+
+  async loadData<T = unknown>(name: string): Promise<T | null> {
+    const row = this.open().query('SELECT data FROM store_data WHERE name = ?').get(name) as { data: string } | null;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async saveData(name: string, data: unknown): Promise<void> {
+    const db = this.open();
+    db.transaction(() => {
+      db.query('INSERT OR REPLACE INTO store_data (name, data) VALUES (?, ?)').run(name, JSON.stringify(data));
+      db.query('DELETE FROM store_data_log WHERE name = ?').run(name);
+    })();
+  }
+
+  async appendDataLog(name: string, change: unknown): Promise<void> {
+    this.open().query('INSERT INTO store_data_log (name, data) VALUES (?, ?)').run(name, JSON.stringify(change));
+  }
+
+  async loadDataLog<T = unknown>(name: string): Promise<T[]> {
+    const rows = this.open().query('SELECT data FROM store_data_log WHERE name = ? ORDER BY seq').all(name) as Array<{ data: string }>;
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  async deleteData(name: string): Promise<void> {
+    const db = this.open();
+    db.transaction(() => {
+      db.query('DELETE FROM store_data WHERE name = ?').run(name);
+      db.query('DELETE FROM store_data_log WHERE name = ?').run(name);
+    })();
+  }
+
+  async listDataNames(): Promise<string[]> {
+    const rows = this.open().query('SELECT name FROM store_data ORDER BY name').all() as Array<{ name: string }>;
+    return rows.map(row => row.name);
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+  }
+
+  private open(): Database {
+    if (!this.db) {
+      mkdirSync(path.dirname(this.dbFile), { recursive: true });
+      this.db = new Database(this.dbFile, { create: true });
+      this.db.exec('PRAGMA journal_mode = WAL;');
+      this.db.exec('PRAGMA foreign_keys = ON;');
+      this.db.exec(SCHEMA);
+    }
+    return this.db;
+  }
+}
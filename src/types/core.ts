@@ -87,6 +87,8 @@ export interface ContextEntry {
     stakeholders?: string[];
     /** Similarity score for related content */
     similarityScore?: number;
+    /** Prompt templates (id and version) the tags were generated with */
+    promptTemplates?: Array<{ id: string; version: number }>;
   };
   /** Relationship tags */
   relationships?: {
@@ -139,6 +141,16 @@ export interface ContextQuery {
   search?: string;
 }
 
+/**
+ * Ranked full-text search result
+ */
+export interface ContextSearchResult {
+  /** Matching entry */
+  entry: ContextEntry;
+  /** BM25 relevance score (higher is more relevant) */
+  score: number;
+}
+
 /**
  * Generic service response wrapper
  */
@@ -12,6 +12,7 @@ export type {
   BaseFossil,
   ContextEntry,
   ContextQuery,
+  ContextSearchResult,
   ServiceResponse,
   CLIOptions,
   Status,
@@ -202,7 +203,8 @@ export {
 export type {
   ChatCompletionRequestMessage,
   OpenAIChatOptions,
-  LLMProvider
+  LLMProvider,
+  TextEmbedder
 } from './llm';
 
 // Example/demo types
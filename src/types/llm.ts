@@ -12,6 +12,8 @@ export interface OpenAIChatOptions {
   messages: ChatCompletionRequestMessage[];
   temperature?: number;
   max_tokens?: number;
+  /** Cancels the request */
+  signal?: AbortSignal;
   [key: string]: any;
 }
 
@@ -19,6 +21,17 @@ export interface LLMProvider {
   name: string;
   isAvailable: () => Promise<boolean>;
   call: (options: OpenAIChatOptions) => Promise<any>;
+  /** Optional streaming endpoint yielding completion text as it arrives */
+  stream?: (options: OpenAIChatOptions) => AsyncIterable<string>;
   estimateTokens: (messages: ChatCompletionRequestMessage[]) => number;
-  estimateCost: (tokens: number, model: string) => number;
-} 
\ No newline at end of file
+  /** Cost in USD of `tokens` input tokens (and optionally `outputTokens` output tokens) */
+  estimateCost: (tokens: number, model: string, outputTokens?: number) => number;
+  /** Optional text embedding endpoint (one vector per input) */
+  embed?: (texts: string[]) => Promise<number[][]>;
+}
+
+export interface TextEmbedder {
+  /** Identifies the embedding model; vectors from different embedders are not comparable */
+  name: string;
+  embed: (texts: string[]) => Promise<number[][]>;
+}
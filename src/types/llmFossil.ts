@@ -16,6 +16,8 @@ export interface BaseLLMFossil {
   provider: string;
   tags?: string[];
   excerpt: string;
+  /** Prompt templates (id and version) the LLM call was rendered from */
+  promptTemplates?: Array<{ id: string; version: number }>;
 }
 
 /**
@@ -167,6 +167,7 @@ export const CreateFossilIssueParamsSchema = z.object({
   checklist: z.string().optional(),
   automationMetadata: z.string().optional(),
   extraBody: z.string().optional(),
+  taskId: z.string().optional(),
 });
 // Used in: src/utils/fossilLabel.ts
 export const CreateFossilLabelParamsSchema = z.object({
@@ -310,6 +311,17 @@ export const TaskBreakdownSchema = z.object({
   })),
 });
 
+// Semantic Tagging Schemas
+export const SemanticTagsSchema = z.object({
+  semanticCategory: z.string(),
+  confidence: z.number().min(0).max(1),
+  concepts: z.array(z.string()),
+  sentiment: z.enum(['positive', 'negative', 'neutral']),
+  priority: z.enum(['low', 'medium', 'high', 'critical']),
+  impact: z.enum(['low', 'medium', 'high', 'critical']),
+  stakeholders: z.array(z.string()),
+});
+
 // Track Progress CLI Schemas
 export const TrackProgressCLIArgsSchema = z.object({
   owner: z.string().min(1, 'Repository owner is required'),
@@ -320,6 +332,7 @@ export const TrackProgressCLIArgsSchema = z.object({
   trends: z.boolean().default(true),
   trigger: z.boolean().default(true),
   output: z.string().optional(),
+  project: z.coerce.number().int().positive().optional(),
 });
 
 export const TrackProgressStatusCLIArgsSchema = z.object({
@@ -334,6 +347,8 @@ export const TrackingConfigSchema = z.object({
   outputDir: z.string().default('.orchestration-reports'),
   includeTrends: z.boolean().default(true),
   triggerNextSteps: z.boolean().default(true),
+  /** Projects v2 board to read back into the report */
+  projectNumber: z.number().int().positive().optional(),
 });
 
 export const ProgressMetricsSchema = z.object({
@@ -388,6 +403,35 @@ export const CreateCommandSchema = z.object({
   test: z.boolean().default(false)
 });
 
+// Used in: src/cli/automate-github-fossils.ts (sync)
+export const SyncCommandSchema = z.object({
+  owner: z.string(),
+  repo: z.string(),
+  roadmap: z.string(),
+  state: z.string().optional(),
+  prefer: z.enum(['local', 'remote']).optional(),
+  importLabel: z.string().optional(),
+  dryRun: z.boolean().default(false)
+});
+
+// Used in: src/cli/automate-github-fossils.ts (project-sync)
+export const ProjectSyncCommandSchema = z.object({
+  owner: z.string(),
+  repo: z.string(),
+  roadmap: z.string(),
+  project: z.coerce.number().int().positive(),
+  projectOwner: z.string().optional(),
+  dryRun: z.boolean().default(false)
+});
+
+// Used in: src/cli/automate-github-fossils.ts (migrate-ids)
+export const MigrateIdsCommandSchema = z.object({
+  owner: z.string(),
+  repo: z.string(),
+  roadmap: z.string(),
+  dryRun: z.boolean().default(false)
+});
+
 // Project Status Update Schemas
 // Used in: scripts/update-project-status.ts
 export const UpdateProjectStatusParamsSchema = z.object({
@@ -541,10 +585,25 @@ export const ProjectStatusSchema = z.object({
 export const UsageReportSchema = z.object({
   format: z.enum(['text', 'json', 'csv']).optional(),
   days: z.number().min(1).max(365).optional(),
+  since: z.string().optional(), // YYYY-MM-DD (UTC)
+  until: z.string().optional(), // YYYY-MM-DD (UTC)
   purpose: z.string().optional(),
   provider: z.string().optional(),
 });
 
+// OpenAI-compatible model servers (llama.cpp server, vLLM, LM Studio, ...)
+// Used in: src/services/llm-openai-compatible.ts
+export const OpenAICompatibleBackendSchema = z.object({
+  name: z.string().min(1), // Provider name in routing, usage records and `providerChain`
+  baseUrl: z.string().url(), // API root, e.g. http://localhost:8080/v1
+  apiKey: z.string().optional(), // Sent as a bearer token when the server requires one
+  // Requested model -> model the server serves; `*` matches any other model
+  modelAliases: z.record(z.string()).default({}),
+  maxConcurrency: z.number().int().min(1).default(1), // Requests in flight at once
+  healthCheckIntervalMs: z.number().min(0).default(30000), // How long a probe result is reused
+  healthCheckTimeoutMs: z.number().min(1).default(2000),
+});
+
 export const OptimizationConfigSchema = z.object({
   maxTokensPerCall: z.number().min(100).max(32000).optional(),
   maxCostPerCall: z.number().min(0.01).max(10).optional(),
@@ -552,11 +611,57 @@ export const OptimizationConfigSchema = z.object({
   enableLocalLLM: z.boolean().optional(),
   enableCaching: z.boolean().optional(),
   cacheExpiryHours: z.number().min(1).max(168).optional(),
+  cacheMaxEntries: z.number().min(1).optional(),
+  cacheMaxSizeMB: z.number().min(1).optional(),
+  cachePurposes: z.array(z.string()).optional(),
+  providerChain: z.array(z.string()).optional(),
+  circuitFailureThreshold: z.number().min(1).optional(),
+  circuitCooldownMs: z.number().min(0).optional(),
+  structuredRepairAttempts: z.number().min(0).max(5).optional(),
+  usageLogMaxSegmentMB: z.number().min(0.1).optional(),
+  rateLimits: z.record(z.object({
+    requestsPerMinute: z.number().positive().optional(),
+    tokensPerMinute: z.number().positive().optional(),
+  })).optional(),
+  batchConcurrency: z.number().int().min(1).optional(),
+  promptVersions: z.record(z.number().int().min(1)).optional(),
+  localBackends: z.array(OpenAICompatibleBackendSchema).optional(),
   retryAttempts: z.number().min(1).max(10).optional(),
   retryDelayMs: z.number().min(100).max(10000).optional(),
   rateLimitDelayMs: z.number().min(1000).max(300000).optional(),
 });
 
+// LLM pricing table (`.llm-pricing.json`)
+// Used in: src/services/llm-pricing.ts
+export const ModelPricingSchema = z.object({
+  input: z.number().min(0), // USD per 1M input tokens
+  output: z.number().min(0), // USD per 1M output tokens
+});
+
+export const PricingTableSchema = z.object({
+  version: z.string().min(1),
+  currency: z.literal('USD').default('USD'),
+  // Model name or prefix (e.g. `gpt-4o` also prices `gpt-4o-2024-08-06`)
+  models: z.record(ModelPricingSchema),
+  // Model whose pricing applies to unknown models; unknown models are free when omitted
+  fallback: z.string().optional(),
+});
+
+// LLM prompt templates (`prompts/*.yaml`)
+// Used in: src/services/llm-prompts.ts
+export const PromptTemplateSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'Use lowercase letters, digits and dashes'),
+  version: z.number().int().min(1),
+  description: z.string().optional(),
+  // Variable name -> type; a trailing `?` marks it optional (e.g. `context: json?`)
+  variables: z.record(z.string().regex(/^(string|number|boolean|json)\??$/, 'Expected string, number, boolean or json')).default({}),
+  // `{{name}}` placeholders are replaced with the variables
+  messages: z.array(z.object({
+    role: z.enum(['system', 'user', 'assistant']),
+    content: z.string(),
+  })).min(1),
+});
+
 // Issue Fossil Manager Params Schemas
 // Used in: src/utils/fossilIssue.ts
 export const CheckExistingFossilParamsSchema = z.object({
@@ -9,6 +9,8 @@ import { Status, Priority, Impact } from './core';
  * E2E roadmap task
  */
 export interface E2ERoadmapTask {
+  /** Stable id written into the linked issue's fossil footer; survives renames of `task` */
+  id?: string;
   task: string;
   status: Status;
   recommendation?: string;
@@ -19,6 +21,7 @@ export interface E2ERoadmapTask {
   subtasks?: E2ERoadmapTask[];
   deadline?: string;
   milestone?: string;
+  priority?: Priority;
 }
 
 /**
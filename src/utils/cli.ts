@@ -273,6 +273,7 @@ export function createServiceResponse<T>(
  * @param {string} title - Issue title to search for
  * @param {'open' | 'all'} state - Issue state to search (default: 'open')
  * @returns {boolean} True if an issue with the title exists
+ * @deprecated Titles change; tracker and roadmap tasks are matched by task id (see utils/taskAnchor)
  */
 export function issueExists(owner: string, repo: string, title: string, state: 'open' | 'all' = 'open'): boolean {
   try {
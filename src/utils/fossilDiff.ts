@@ -0,0 +1,216 @@
+import type { ContextEntry } from '../types';
+
+/**
+ * Field-level changes for an entry present on both sides of a diff
+ */
+export interface EntryFieldDiff {
+  id: string;
+  title: string;
+  addedFields: string[];
+  removedFields: string[];
+  changedFields: string[];
+}
+
+/**
+ * Per-entry differences between two sets of fossils
+ */
+export interface FossilSetDiff {
+  added: Array<Pick<ContextEntry, 'id' | 'title'>>;
+  removed: Array<Pick<ContextEntry, 'id' | 'title'>>;
+  changed: EntryFieldDiff[];
+  unchanged: number;
+}
+
+/**
+ * Compare two versions of an entry field by field
+ */
+export function diffEntryFields(before: Record<string, unknown>, after: Record<string, unknown>): Omit<EntryFieldDiff, 'id' | 'title'> {
+  const addedFields: string[] = [];
+  const removedFields: string[] = [];
+  const changedFields: string[] = [];
+
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const field of [...fields].sort()) {
+    const hasBefore = before[field] !== undefined;
+    const hasAfter = after[field] !== undefined;
+    if (hasBefore && !hasAfter) removedFields.push(field);
+    else if (!hasBefore && hasAfter) addedFields.push(field);
+    else if (hasBefore && JSON.stringify(before[field]) !== JSON.stringify(after[field])) changedFields.push(field);
+  }
+
+  return { addedFields, removedFields, changedFields };
+}
+
+/**
+ * Diff two sets of entries (e.g. a snapshot against the live store)
+ * @param from - Baseline entries
+ * @param to - Entries to compare against the baseline
+ */
+export function diffFossilSets(from: ContextEntry[], to: ContextEntry[]): FossilSetDiff {
+  const fromById = new Map(from.map(entry => [entry.id, entry]));
+  const toById = new Map(to.map(entry => [entry.id, entry]));
+  const diff: FossilSetDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+
+  for (const entry of to) {
+    const previous = fromById.get(entry.id);
+    if (!previous) {
+      diff.added.push({ id: entry.id, title: entry.title });
+      continue;
+    }
+    const fields = diffEntryFields(previous as unknown as Record<string, unknown>, entry as unknown as Record<string, unknown>);
+    if (fields.addedFields.length + fields.removedFields.length + fields.changedFields.length === 0) {
+      diff.unchanged++;
+    } else {
+      diff.changed.push({ id: entry.id, title: entry.title, ...fields });
+    }
+  }
+
+  for (const entry of from) {
+    if (!toById.has(entry.id)) {
+      diff.removed.push({ id: entry.id, title: entry.title });
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * One line of a line-level diff
+ */
+export interface LineDiffOp {
+  op: ' ' | '+' | '-';
+  line: string;
+}
+
+/**
+ * Line-level diff (longest common subsequence) between two texts. Uses Hirschberg's
+ * algorithm, so memory stays linear in the number of lines.
+ */
+export function diffLines(before: string, after: string): LineDiffOp[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const ops: LineDiffOp[] = [];
+
+  // The common prefix and suffix need no LCS work
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  for (let i = 0; i < start; i++) ops.push({ op: ' ', line: a[i]! });
+  const ids = new Map<string, number>();
+  const intern = (lines: string[]) => Int32Array.from(lines, line => {
+    let id = ids.get(line);
+    if (id === undefined) ids.set(line, id = ids.size);
+    return id;
+  });
+  diffRange({ a, b, aIds: intern(a), bIds: intern(b), ops }, start, endA, start, endB);
+  for (let i = endA; i < a.length; i++) ops.push({ op: ' ', line: a[i]! });
+
+  return ops;
+}
+
+interface LineDiffState {
+  a: string[];
+  b: string[];
+  aIds: Int32Array;
+  bIds: Int32Array;
+  ops: LineDiffOp[];
+}
+
+/**
+ * Diff `a[a0..a1)` against `b[b0..b1)`, splitting `a` in half at the point where the
+ * forward and backward LCS lengths meet
+ */
+function diffRange(state: LineDiffState, a0: number, a1: number, b0: number, b1: number): void {
+  const { a, b, aIds, bIds, ops } = state;
+  if (a0 === a1) {
+    for (let j = b0; j < b1; j++) ops.push({ op: '+', line: b[j]! });
+    return;
+  }
+  if (b0 === b1) {
+    for (let i = a0; i < a1; i++) ops.push({ op: '-', line: a[i]! });
+    return;
+  }
+  if (a1 - a0 === 1) {
+    let match = b0;
+    while (match < b1 && bIds[match] !== aIds[a0]) match++;
+    if (match === b1) {
+      ops.push({ op: '-', line: a[a0]! });
+      for (let j = b0; j < b1; j++) ops.push({ op: '+', line: b[j]! });
+      return;
+    }
+    for (let j = b0; j < match; j++) ops.push({ op: '+', line: b[j]! });
+    ops.push({ op: ' ', line: a[a0]! });
+    for (let j = match + 1; j < b1; j++) ops.push({ op: '+', line: b[j]! });
+    return;
+  }
+
+  const mid = (a0 + a1) >> 1;
+  const forward = lcsLengths(aIds, bIds, a0, mid, b0, b1, false);
+  const backward = lcsLengths(aIds, bIds, mid, a1, b0, b1, true);
+  let split = 0;
+  for (let k = 1; k <= b1 - b0; k++) {
+    if (forward[k]! + backward[k]! > forward[split]! + backward[split]!) split = k;
+  }
+  diffRange(state, a0, mid, b0, b0 + split);
+  diffRange(state, mid, a1, b0 + split, b1);
+}
+
+/**
+ * LCS lengths of `a[a0..a1)` against every prefix of `b[b0..b1)` (index k = first k lines),
+ * or with `reverse` against every suffix (index k = lines from `b0 + k` on), in O(|b|) memory
+ */
+function lcsLengths(aIds: Int32Array, bIds: Int32Array, a0: number, a1: number, b0: number, b1: number, reverse: boolean): Int32Array {
+  const m = b1 - b0;
+  let previous = new Int32Array(m + 1);
+  let current = new Int32Array(m + 1);
+  for (let step = 0; step < a1 - a0; step++) {
+    const line = aIds[reverse ? a1 - 1 - step : a0 + step];
+    if (reverse) {
+      current[m] = 0;
+      for (let k = m - 1; k >= 0; k--) {
+        current[k] = bIds[b0 + k] === line ? previous[k + 1]! + 1 : Math.max(previous[k]!, current[k + 1]!);
+      }
+    } else {
+      current[0] = 0;
+      for (let k = 1; k <= m; k++) {
+        current[k] = bIds[b0 + k - 1] === line ? previous[k - 1]! + 1 : Math.max(previous[k]!, current[k - 1]!);
+      }
+    }
+    [previous, current] = [current, previous];
+  }
+  return previous;
+}
+
+/**
+ * Render a line diff, collapsing unchanged runs to `context` lines around each change
+ */
+export function formatLineDiff(ops: LineDiffOp[], context: number = 3): string {
+  const keep = ops.map(() => false);
+  ops.forEach((op, index) => {
+    if (op.op === ' ') return;
+    for (let k = Math.max(0, index - context); k <= Math.min(ops.length - 1, index + context); k++) keep[k] = true;
+  });
+
+  const lines: string[] = [];
+  let skipped = 0;
+  ops.forEach((op, index) => {
+    if (!keep[index]) {
+      skipped++;
+      return;
+    }
+    if (skipped > 0) {
+      lines.push(`  … ${skipped} unchanged line${skipped === 1 ? '' : 's'}`);
+      skipped = 0;
+    }
+    lines.push(`${op.op} ${op.line}`);
+  });
+  if (skipped > 0 && lines.length > 0) lines.push(`  … ${skipped} unchanged line${skipped === 1 ? '' : 's'}`);
+
+  return lines.join('\n');
+}
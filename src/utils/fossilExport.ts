@@ -0,0 +1,148 @@
+import yaml from 'js-yaml';
+import type { ContextEntry } from '../types';
+
+export type FossilExportFormat = 'json' | 'markdown' | 'csv' | 'yaml';
+
+/**
+ * CSV columns, in order. The first nine match the original export layout.
+ */
+export const CSV_COLUMNS = [
+  'id',
+  'type',
+  'title',
+  'content',
+  'tags',
+  'source',
+  'createdAt',
+  'updatedAt',
+  'version',
+  'parentId',
+  'children',
+  'excerpt',
+  'metadata',
+  'semanticTags',
+  'relationships',
+  'temporal',
+  'previousVersions',
+] as const;
+
+/** CSV columns holding JSON-encoded values */
+export const CSV_JSON_COLUMNS: ReadonlySet<string> = new Set(['children', 'metadata', 'semanticTags', 'relationships', 'temporal', 'previousVersions']);
+
+/** Prefix of the optional flattened metadata columns (`metadata.<key>`) */
+export const CSV_METADATA_PREFIX = 'metadata.';
+
+export interface CsvExportOptions {
+  /** Add one `metadata.<key>` column per metadata key, alongside the JSON `metadata` column */
+  flattenMetadata?: boolean;
+}
+
+/**
+ * Quote a CSV field (RFC 4180): every field is quoted and embedded quotes are doubled
+ */
+export function csvField(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Tags are `;`-separated for readability, falling back to a JSON array when a tag contains `;`
+ */
+function encodeTags(tags: string[]): string {
+  return tags.some(tag => tag.includes(';') || tag.startsWith('[')) ? JSON.stringify(tags) : tags.join(';');
+}
+
+function encodeFlatValue(value: unknown): string {
+  if (value === undefined) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Serialize entries as RFC 4180 CSV (CRLF line endings, every field quoted)
+ */
+export function toCsvExport(entries: ContextEntry[], options: CsvExportOptions = {}): string {
+  const metadataKeys = options.flattenMetadata
+    ? [...new Set(entries.flatMap(entry => Object.keys(entry.metadata ?? {})))].sort()
+    : [];
+  const header = [...CSV_COLUMNS, ...metadataKeys.map(key => `${CSV_METADATA_PREFIX}${key}`)];
+
+  const rows = entries.map(entry => {
+    const cells = CSV_COLUMNS.map(column => {
+      const value = entry[column];
+      if (value === undefined) return '';
+      if (column === 'tags') return encodeTags(entry.tags);
+      if (CSV_JSON_COLUMNS.has(column)) return JSON.stringify(value);
+      return String(value);
+    });
+    for (const key of metadataKeys) {
+      cells.push(encodeFlatValue(entry.metadata?.[key]));
+    }
+    return cells.map(csvField).join(',');
+  });
+
+  return [header.map(csvField).join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * Serialize entries as YAML (every entry field, under an `entries` list)
+ */
+export function toYamlExport(entries: ContextEntry[], generated: string = new Date().toISOString()): string {
+  const document = { generated, total_entries: entries.length, entries };
+  return `# Context Fossil Storage Export\n${yaml.dump(document, { lineWidth: -1, noRefs: true, skipInvalid: true })}`;
+}
+
+/**
+ * Backtick fence around an entry body, longer than any backtick run in it so the body cannot close it
+ */
+function contentFence(content: string): string {
+  const longest = Math.max(0, ...(content.match(/`+/g) ?? []).map(run => run.length));
+  return '`'.repeat(Math.max(3, longest + 1));
+}
+
+/**
+ * Render entries as Markdown documentation, grouped by type.
+ * Entry bodies are fenced, so headings or separators inside content are not read back as structure.
+ */
+export function toMarkdownExport(entries: ContextEntry[], generated: string = new Date().toISOString()): string {
+  let markdown = '# Context Fossil Storage Export\n\n';
+  markdown += `Generated: ${generated}\n`;
+  markdown += `Total Entries: ${entries.length}\n\n`;
+
+  // Group by type
+  const byType = entries.reduce((acc, entry) => {
+    (acc[entry.type] ??= []).push(entry);
+    return acc;
+  }, {} as Record<string, ContextEntry[]>);
+
+  for (const [type, typeEntries] of Object.entries(byType)) {
+    markdown += `## ${type.charAt(0).toUpperCase() + type.slice(1)} (${typeEntries.length})\n\n`;
+
+    typeEntries.forEach(entry => {
+      markdown += `### ${entry.title}\n\n`;
+      markdown += `**ID:** ${entry.id}\n`;
+      markdown += `**Created:** ${entry.createdAt}\n`;
+      markdown += `**Source:** ${entry.source}\n`;
+      markdown += `**Tags:** ${entry.tags.join(', ')}\n\n`;
+      const fence = contentFence(entry.content);
+      markdown += `${fence}\n${entry.content}\n${fence}\n\n`;
+      markdown += `---\n\n`;
+    });
+  }
+
+  return markdown;
+}
+
+/**
+ * Serialize entries in the given export format
+ */
+export function serializeFossilExport(entries: ContextEntry[], format: FossilExportFormat, options: CsvExportOptions = {}): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(entries, null, 2);
+    case 'markdown':
+      return toMarkdownExport(entries);
+    case 'csv':
+      return toCsvExport(entries, options);
+    case 'yaml':
+      return toYamlExport(entries);
+  }
+}
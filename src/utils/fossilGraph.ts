@@ -0,0 +1,226 @@
+import type { ContextEntry } from '../types';
+import type { FossilEdge, FossilEdgeType } from '../services/fossil-store';
+
+/**
+ * Direction to follow edges in: `out` = from → to, `in` = to → from, `both` = either
+ */
+export type GraphDirection = 'out' | 'in' | 'both';
+
+/**
+ * Node reached by a traversal, with its distance from the start
+ */
+export interface GraphReach {
+  id: string;
+  depth: number;
+}
+
+/**
+ * Edges implied by the relationship tags the semantic tagger computes
+ */
+export function relationshipEdges(entry: ContextEntry, now: string = new Date().toISOString()): FossilEdge[] {
+  const mapping: Array<[keyof NonNullable<ContextEntry['relationships']>, FossilEdgeType]> = [
+    ['dependsOn', 'depends-on'],
+    ['supersedes', 'supersedes'],
+    ['relatedTo', 'references'],
+  ];
+
+  const edges: FossilEdge[] = [];
+  for (const [field, type] of mapping) {
+    for (const to of entry.relationships?.[field] ?? []) {
+      if (to !== entry.id) edges.push({ from: entry.id, to, type, createdAt: now });
+    }
+  }
+  return edges;
+}
+
+function buildAdjacency(edges: FossilEdge[], direction: GraphDirection): Map<string, string[]> {
+  const adjacency = new Map<string, string[]>();
+  const link = (from: string, to: string) => {
+    const next = adjacency.get(from) ?? [];
+    if (!next.includes(to)) next.push(to);
+    adjacency.set(from, next);
+  };
+  for (const edge of edges) {
+    if (direction !== 'in') link(edge.from, edge.to);
+    if (direction !== 'out') link(edge.to, edge.from);
+  }
+  return adjacency;
+}
+
+/**
+ * Shortest path between two entries (breadth-first)
+ * @returns Entry ids from `from` to `to` inclusive, or null when unreachable
+ */
+export function findPath(edges: FossilEdge[], from: string, to: string, direction: GraphDirection = 'out'): string[] | null {
+  if (from === to) return [from];
+
+  const adjacency = buildAdjacency(edges, direction);
+  const previous = new Map<string, string>([[from, from]]);
+  const queue = [from];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const next of adjacency.get(current) ?? []) {
+      if (previous.has(next)) continue;
+      previous.set(next, current);
+      if (next === to) {
+        const path = [to];
+        while (path[0] !== from) path.unshift(previous.get(path[0]!)!);
+        return path;
+      }
+      queue.push(next);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Every entry reachable from `start` (the transitive closure), nearest first
+ * @param maxDepth - Stop after this many hops (unbounded by default)
+ */
+export function transitiveClosure(
+  edges: FossilEdge[],
+  start: string,
+  direction: GraphDirection = 'out',
+  maxDepth: number = Infinity
+): GraphReach[] {
+  const adjacency = buildAdjacency(edges, direction);
+  const depths = new Map<string, number>([[start, 0]]);
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const depth = depths.get(current)!;
+    if (depth >= maxDepth) continue;
+    for (const next of adjacency.get(current) ?? []) {
+      if (depths.has(next)) continue;
+      depths.set(next, depth + 1);
+      queue.push(next);
+    }
+  }
+
+  depths.delete(start);
+  return [...depths].map(([id, depth]) => ({ id, depth }));
+}
+
+/**
+ * Directed cycles in the graph: one representative cycle per strongly connected
+ * component (Tarjan), each listed as a closed walk `[a, b, ..., a]`
+ */
+export function findCycles(edges: FossilEdge[]): string[][] {
+  const adjacency = buildAdjacency(edges, 'out');
+  const nodes = [...new Set(edges.flatMap(edge => [edge.from, edge.to]))];
+
+  let counter = 0;
+  const indexOf = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  // Iterative Tarjan so long dependency chains cannot overflow the call stack
+  for (const root of nodes) {
+    if (indexOf.has(root)) continue;
+    const work: Array<{ node: string; next: number }> = [{ node: root, next: 0 }];
+    indexOf.set(root, counter);
+    lowLink.set(root, counter++);
+    stack.push(root);
+    onStack.add(root);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1]!;
+      const neighbours = adjacency.get(frame.node) ?? [];
+      if (frame.next < neighbours.length) {
+        const next = neighbours[frame.next++]!;
+        if (!indexOf.has(next)) {
+          indexOf.set(next, counter);
+          lowLink.set(next, counter++);
+          stack.push(next);
+          onStack.add(next);
+          work.push({ node: next, next: 0 });
+        } else if (onStack.has(next)) {
+          lowLink.set(frame.node, Math.min(lowLink.get(frame.node)!, indexOf.get(next)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      const parent = work[work.length - 1];
+      if (parent) lowLink.set(parent.node, Math.min(lowLink.get(parent.node)!, lowLink.get(frame.node)!));
+      if (lowLink.get(frame.node) === indexOf.get(frame.node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.node);
+        components.push(component);
+      }
+    }
+  }
+
+  const cycles: string[][] = [];
+  for (const component of components) {
+    const start = component[component.length - 1]!;
+    if (component.length === 1 && !(adjacency.get(start) ?? []).includes(start)) continue;
+
+    // Walk back to the start within the component
+    const inComponent = new Set(component);
+    const componentEdges = edges.filter(edge => inComponent.has(edge.from) && inComponent.has(edge.to));
+    const path = (adjacency.get(start) ?? []).includes(start)
+      ? [start]
+      : componentEdges
+          .filter(edge => edge.from === start)
+          .map(edge => findPath(componentEdges, edge.to, start))
+          .find(found => found !== null)!;
+    cycles.push(path.length === 1 ? [start, start] : [start, ...path]);
+  }
+
+  return cycles;
+}
+
+function escapeDot(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, ' ');
+}
+
+/**
+ * Render edges as a Graphviz DOT digraph
+ * @param labels - Optional node labels (e.g. entry titles) keyed by id
+ */
+export function toDot(edges: FossilEdge[], labels: Record<string, string> = {}): string {
+  const nodes = [...new Set(edges.flatMap(edge => [edge.from, edge.to]))];
+  const lines = ['digraph fossils {', '  rankdir=LR;', '  node [shape=box];'];
+  for (const id of nodes) {
+    lines.push(`  "${escapeDot(id)}" [label="${escapeDot(labels[id] ?? id)}"];`);
+  }
+  for (const edge of edges) {
+    lines.push(`  "${escapeDot(edge.from)}" -> "${escapeDot(edge.to)}" [label="${edge.type}"];`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Render edges as a Mermaid flowchart
+ * @param labels - Optional node labels (e.g. entry titles) keyed by id
+ */
+export function toMermaid(edges: FossilEdge[], labels: Record<string, string> = {}): string {
+  // Mermaid node ids must be simple identifiers, so ids are mapped to n0, n1, ...
+  const nodeIds = new Map<string, string>();
+  const nodeId = (id: string) => {
+    if (!nodeIds.has(id)) nodeIds.set(id, `n${nodeIds.size}`);
+    return nodeIds.get(id)!;
+  };
+  const label = (id: string) => (labels[id] ?? id).replace(/"/g, '#quot;').replace(/\n/g, ' ');
+
+  const lines = ['flowchart LR'];
+  for (const id of new Set(edges.flatMap(edge => [edge.from, edge.to]))) {
+    lines.push(`  ${nodeId(id)}["${label(id)}"]`);
+  }
+  for (const edge of edges) {
+    lines.push(`  ${nodeId(edge.from)} -->|${edge.type}| ${nodeId(edge.to)}`);
+  }
+  return lines.join('\n');
+}
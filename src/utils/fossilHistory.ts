@@ -0,0 +1,45 @@
+import type { ContextEntry } from '../types';
+import type { FossilStoreConfig } from '../services/fossil-store';
+
+/**
+ * A single stored version of an entry (history entries never nest)
+ */
+export type EntryVersion = Omit<ContextEntry, 'previousVersions'>;
+
+export type VersionRetentionPolicy = NonNullable<FossilStoreConfig['versionRetention']>;
+
+/** Applied when `store.json` has no `versionRetention` */
+export const DEFAULT_VERSION_RETENTION: Required<Pick<VersionRetentionPolicy, 'maxVersions'>> = { maxVersions: 20 };
+
+/**
+ * All versions of an entry, oldest first, ending with the current one
+ */
+export function getVersionHistory(entry: ContextEntry): EntryVersion[] {
+  const { previousVersions, ...current } = entry;
+  return [...(previousVersions ?? []), current];
+}
+
+/**
+ * Trim previous versions according to a retention policy.
+ * Versions are kept in order; the newest ones survive the count limit.
+ * @param versions - Previous versions, oldest first
+ * @param policy - Retention policy
+ * @param now - Reference time for age-based pruning
+ */
+export function pruneVersionHistory(
+  versions: EntryVersion[],
+  policy: VersionRetentionPolicy = DEFAULT_VERSION_RETENTION,
+  now: Date = new Date()
+): EntryVersion[] {
+  let kept = versions;
+
+  if (policy.maxAgeDays !== undefined) {
+    const cutoff = now.getTime() - policy.maxAgeDays * 24 * 60 * 60 * 1000;
+    kept = kept.filter(version => new Date(version.updatedAt).getTime() >= cutoff);
+  }
+  if (policy.maxVersions !== undefined) {
+    kept = policy.maxVersions > 0 ? kept.slice(-policy.maxVersions) : [];
+  }
+
+  return kept;
+}
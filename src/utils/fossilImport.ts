@@ -0,0 +1,343 @@
+import yaml from 'js-yaml';
+import path from 'path';
+import { ContextEntrySchema } from '../types/schemas';
+import type { ContextEntry } from '../types';
+import { CSV_JSON_COLUMNS, CSV_METADATA_PREFIX, type FossilExportFormat } from './fossilExport';
+
+/**
+ * How an imported entry is reconciled with an existing entry of the same id
+ * - `skip`: keep the existing entry
+ * - `overwrite`: replace it with the imported entry
+ * - `newest-wins`: keep whichever has the later `updatedAt`
+ * - `version-bump`: apply the import as a new version (content-hash dedupe also matches entries with other ids)
+ */
+export type ImportMergeStrategy = 'skip' | 'overwrite' | 'newest-wins' | 'version-bump';
+
+export const IMPORT_MERGE_STRATEGIES: ImportMergeStrategy[] = ['skip', 'overwrite', 'newest-wins', 'version-bump'];
+
+/**
+ * A record that could not be parsed or failed schema validation
+ */
+export interface ImportValidationError {
+  /** Position of the record in the import file (0-based) */
+  index: number;
+  id?: string;
+  message: string;
+}
+
+/**
+ * Infer the export format from a file extension
+ */
+export function detectExportFormat(filePath: string): FossilExportFormat {
+  const extension = path.extname(filePath).toLowerCase();
+  switch (extension) {
+    case '.json':
+      return 'json';
+    case '.md':
+    case '.markdown':
+      return 'markdown';
+    case '.csv':
+      return 'csv';
+    case '.yml':
+    case '.yaml':
+      return 'yaml';
+    default:
+      throw new Error(`Cannot infer import format from "${extension || filePath}"; pass --format`);
+  }
+}
+
+/**
+ * Parse RFC 4180 CSV (quoted fields, doubled quotes, embedded newlines) into rows
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) throw new Error('Unterminated quoted field in CSV');
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.length > 1 || cells[0] !== '');
+}
+
+/**
+ * Records that could not be parsed, with the reason; `validateImportRecords` reports them
+ * in place, so one bad row does not abort the import or shift the positions of the others
+ */
+const unparseableRecords = new WeakMap<Record<string, unknown>, string>();
+
+function parseCsvExport(text: string): Record<string, unknown>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const hasMetadataColumn = header.includes('metadata');
+
+  return rows.map(cells => {
+    const record: Record<string, unknown> = {};
+    const flatMetadata: Record<string, unknown> = {};
+    let failure: string | undefined;
+
+    header.forEach((column, i) => {
+      const value = cells[i] ?? '';
+      if (failure) return;
+      try {
+        if (column.startsWith(CSV_METADATA_PREFIX)) {
+          // Flattened columns only rebuild metadata when the JSON column is absent
+          if (value !== '') flatMetadata[column.slice(CSV_METADATA_PREFIX.length)] = parseFlatValue(value);
+        } else if (column === 'tags') {
+          record.tags = value === '' ? [] : value.startsWith('[') ? JSON.parse(value) : value.split(';');
+        } else if (value === '') {
+          // Empty cells are absent optional fields
+        } else if (column === 'version') {
+          record.version = Number(value);
+        } else if (CSV_JSON_COLUMNS.has(column)) {
+          record[column] = JSON.parse(value);
+        } else {
+          record[column] = value;
+        }
+      } catch (error) {
+        failure = `${column}: invalid JSON (${error instanceof Error ? error.message : String(error)})`;
+      }
+    });
+
+    if (failure) {
+      // Keep only the id, for the report
+      const id = cells[header.indexOf('id')];
+      const failed: Record<string, unknown> = id ? { id } : {};
+      unparseableRecords.set(failed, failure);
+      return failed;
+    }
+    if (!hasMetadataColumn && Object.keys(flatMetadata).length > 0) record.metadata = flatMetadata;
+    return record;
+  });
+}
+
+/**
+ * Flattened metadata values are raw strings, or JSON for anything else
+ */
+function parseFlatValue(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function parseYamlExport(text: string): Record<string, unknown>[] {
+  const document = yaml.load(text) as { entries?: unknown } | unknown[] | null;
+  const entries = Array.isArray(document) ? document : document?.entries;
+  if (!Array.isArray(entries)) {
+    throw new Error('YAML import must contain an `entries` list');
+  }
+
+  return entries.map(entry => {
+    const record: Record<string, unknown> = { ...(entry as Record<string, unknown>) };
+    // Hand-built exports from before the js-yaml serializer used snake_case timestamps,
+    // left ISO timestamps unquoted (js-yaml reads them as Dates) and a `|` content block
+    // that adds a trailing newline
+    if ('created_at' in record) {
+      for (const [snake, camel] of [['created_at', 'createdAt'], ['updated_at', 'updatedAt']] as const) {
+        const value = record[snake];
+        record[camel] ??= value instanceof Date ? value.toISOString() : value;
+        delete record[snake];
+      }
+      if (typeof record.content === 'string') record.content = record.content.replace(/\n$/, '');
+    }
+    return record;
+  });
+}
+
+function parseMarkdownExport(text: string): Record<string, unknown>[] {
+  const records: Record<string, unknown>[] = [];
+  let type: string | undefined;
+  let current: { record: Record<string, unknown>; lines: string[]; fence?: string; fenced?: boolean } | null = null;
+
+  const finish = () => {
+    if (!current) return;
+    const lines = current.lines;
+    if (!current.fenced) {
+      // Exports from before bodies were fenced: content is everything after the field lines,
+      // up to the `---` separator
+      while (lines.length > 0 && lines[lines.length - 1]!.trim() === '') lines.pop();
+      if (lines[lines.length - 1] === '---') lines.pop();
+      while (lines.length > 0 && lines[lines.length - 1]!.trim() === '') lines.pop();
+      while (lines.length > 0 && lines[0]!.trim() === '') lines.shift();
+    }
+    current.record.content = lines.join('\n');
+    records.push(current.record);
+    current = null;
+  };
+
+  for (const line of text.split('\n')) {
+    // Inside a fenced body nothing is structure
+    if (current?.fence) {
+      if (line === current.fence) current.fence = undefined;
+      else current.lines.push(line);
+      continue;
+    }
+
+    const section = line.match(/^## (\w+) \(\d+\)$/);
+    if (section) {
+      finish();
+      type = section[1]!.toLowerCase();
+      continue;
+    }
+    const heading = line.match(/^### (.*)$/);
+    if (heading && type) {
+      finish();
+      current = { record: { type, title: heading[1]!, tags: [] }, lines: [] };
+      continue;
+    }
+    // After a fenced body only the `---` separator follows
+    if (!current || current.fenced) continue;
+
+    // Field lines come before any content
+    const inHeader = current.lines.every(previous => previous.trim() === '');
+    const field = inHeader ? line.match(/^\*\*(ID|Created|Source|Tags):\*\* ?(.*)$/) : null;
+    if (field) {
+      current.lines = [];
+      const value = field[2]!.trim();
+      if (field[1] === 'ID') current.record.id = value;
+      if (field[1] === 'Created') current.record.createdAt = value;
+      if (field[1] === 'Source') current.record.source = value;
+      if (field[1] === 'Tags') current.record.tags = value ? value.split(',').map(tag => tag.trim()) : [];
+      continue;
+    }
+    const fence = inHeader ? line.match(/^`{3,}$/) : null;
+    if (fence) {
+      current.lines = [];
+      current.fence = fence[0];
+      current.fenced = true;
+      continue;
+    }
+    current.lines.push(line);
+  }
+  finish();
+
+  return records.map(record => ({ updatedAt: record.createdAt, version: 1, ...record }));
+}
+
+/**
+ * Parse an export file into raw (unvalidated) entry records
+ */
+export function parseFossilExport(text: string, format: FossilExportFormat): Record<string, unknown>[] {
+  switch (format) {
+    case 'json': {
+      const data = JSON.parse(text);
+      const entries = Array.isArray(data) ? data : data?.entries;
+      if (!Array.isArray(entries)) throw new Error('JSON import must be an array of entries');
+      return entries;
+    }
+    case 'csv':
+      return parseCsvExport(text);
+    case 'yaml':
+      return parseYamlExport(text);
+    case 'markdown':
+      return parseMarkdownExport(text);
+  }
+}
+
+/**
+ * Validate records against `ContextEntrySchema`.
+ * Fields outside the schema (semantic tags, relationships, history...) are kept as-is.
+ */
+export function validateImportRecords(records: Record<string, unknown>[]): { entries: ContextEntry[]; errors: ImportValidationError[] } {
+  const entries: ContextEntry[] = [];
+  const errors: ImportValidationError[] = [];
+
+  records.forEach((record, index) => {
+    const unparseable = unparseableRecords.get(record);
+    if (unparseable !== undefined) {
+      errors.push({ index, id: typeof record.id === 'string' ? record.id : undefined, message: unparseable });
+      return;
+    }
+    const withDefaults = { metadata: {}, children: [], ...record };
+    const result = ContextEntrySchema.safeParse(withDefaults);
+    if (result.success) {
+      entries.push({ ...withDefaults, ...result.data } as ContextEntry);
+    } else {
+      errors.push({
+        index,
+        id: typeof record.id === 'string' ? record.id : undefined,
+        message: result.error.issues.map(issue => `${issue.path.join('.') || 'entry'}: ${issue.message}`).join('; '),
+      });
+    }
+  });
+
+  return { entries, errors };
+}
+
+/**
+ * What an import does (or would do, in a dry run) with one record
+ */
+export type ImportAction = 'add' | 'overwrite' | 'version-bump' | 'skip' | 'unchanged';
+
+/** Fields compared to decide whether an imported record changes an existing entry */
+export const IMPORT_COMPARED_FIELDS = ['type', 'title', 'content', 'tags', 'source', 'metadata'] as const;
+
+/** Metadata derived from the entry itself, recomputed on import rather than compared */
+const DERIVED_METADATA_KEYS = new Set(['contentHash', 'minhash']);
+
+/**
+ * The parts of an entry an import compares, with derived metadata dropped and metadata keys sorted
+ */
+export function importComparable(entry: ContextEntry): Record<string, unknown> {
+  const metadata = Object.fromEntries(
+    Object.entries(entry.metadata ?? {})
+      .filter(([key]) => !DERIVED_METADATA_KEYS.has(key))
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+  return Object.fromEntries(IMPORT_COMPARED_FIELDS.map(field => [field, field === 'metadata' ? metadata : entry[field]]));
+}
+
+export interface ImportEntryResult {
+  /** Id of the imported record */
+  id: string;
+  title: string;
+  action: ImportAction;
+  /** Existing entry the record was matched against (by id, or by content hash for version-bump) */
+  targetId?: string;
+  changedFields: string[];
+  reason?: string;
+}
+
+/**
+ * Outcome of an import, per record
+ */
+export interface FossilImportReport {
+  format?: FossilExportFormat;
+  strategy: ImportMergeStrategy;
+  dryRun: boolean;
+  results: ImportEntryResult[];
+  errors: ImportValidationError[];
+  counts: Record<ImportAction, number>;
+}
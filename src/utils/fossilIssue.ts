@@ -7,6 +7,8 @@ import type { CreateFossilIssueParams, CheckExistingFossilParams, CreateFossilEn
 import { CreateFossilIssueParamsSchema, CheckExistingFossilParamsSchema, CreateFossilEntryParamsSchema } from '../types';
 import { isTestMode } from '../cli/repo-orchestrator';
 import { GitHubCLICommands } from './githubCliCommands';
+import { createGitHubClient } from '../services/github-client';
+import { withTaskIdFooter } from './taskAnchor';
 
 /**
  * Preferred utility for fossil-backed, deduplicated GitHub issue creation.
@@ -93,26 +95,6 @@ function generateAutomationIssueBody({
  * File operations for issue body management
  */
 class IssueBodyFileManager {
-  public static readonly TEMP_FILE = 'issue_body.md';
-  
-  /**
-   * Write issue body to temporary file for GitHub CLI
-   */
-  static writeTempFile(body: string): void {
-    fs.writeFileSync(this.TEMP_FILE, body);
-  }
-  
-  /**
-   * Clean up temporary file
-   */
-  static cleanupTempFile(): void {
-    try {
-      fs.unlinkSync(this.TEMP_FILE);
-    } catch (cleanupError) {
-      console.warn(`⚠️ Could not clean up temporary file ${this.TEMP_FILE}:`, cleanupError);
-    }
-  }
-  
   /**
    * Save issue fossil to fossils/issues/<number>.md
    */
@@ -132,40 +114,28 @@ class IssueBodyFileManager {
 }
 
 /**
- * GitHub CLI operations for issue creation
+ * GitHub API operations for issue creation
  */
 class GitHubIssueManager {
   /**
-   * Create GitHub issue using CLI
+   * Create GitHub issue through the API client
    */
   static async createIssue(params: {
     owner: string;
     repo: string;
     title: string;
-    tempFile: string;
+    body: string;
     labels: string[];
     milestone?: string;
-  }): Promise<{ issueNumber?: string; output: string }> {
-    const { owner, repo, title, tempFile, labels, milestone } = params;
-    
-    // Read the body from the temp file
-    const body = fs.readFileSync(tempFile, 'utf8');
-    
-    const commands = new GitHubCLICommands(owner, repo);
-    const result = await commands.createIssue({
-      title,
-      body,
-      labels,
-      milestone
-    });
-    
-    let issueNumber = undefined;
-    if (result.success && result.stdout) {
-      const match = result.stdout.match(/#(\d+)/);
-      if (match) issueNumber = match[1];
+  }): Promise<{ issueNumber?: string }> {
+    const { owner, repo, title, body, labels, milestone } = params;
+    try {
+      const issue = await createGitHubClient(owner, repo).createIssue({ title, body, labels, milestone });
+      return { issueNumber: String(issue.number) };
+    } catch (error) {
+      console.warn(`⚠️ Could not create issue '${title}':`, error instanceof Error ? error.message : error);
+      return {};
     }
-    
-    return { issueNumber, output: result.stdout || '' };
   }
   
   /**
@@ -173,9 +143,8 @@ class GitHubIssueManager {
    */
   static async fetchIssueBody(owner: string, repo: string, issueNumber: string): Promise<string> {
     try {
-      const commands = new GitHubCLICommands(owner, repo);
-      const result = await commands.executeCommand(`gh issue view ${issueNumber} --repo ${owner}/${repo} --json body -q ".body"`);
-      return result.success ? result.stdout : '';
+      const issue = await createGitHubClient(owner, repo).getIssue(Number(issueNumber));
+      return issue.body ?? '';
     } catch {
       return '';
     }
@@ -202,9 +171,9 @@ class IssueFossilManager {
       }
     }
     
-    // Then check for similar fossils using the more sophisticated similarity algorithm
+    // Then check for near-duplicate fossils (MinHash LSH)
     // Note: We need to access the private method through a workaround since it's not public
-    const similarFossils = await fossilService['findSimilarFossils'](title, content, 60);
+    const similarFossils = await fossilService['findSimilarFossils'](content, 60, { type });
     if (similarFossils.length > 0) {
       const mostSimilar = similarFossils[0]!;
       console.log(`🔍 Found similar fossil (${mostSimilar.similarity}% similarity): ${mostSimilar.fossil.id}`);
@@ -260,6 +229,7 @@ export async function createFossilIssue(params: CreateFossilIssueParams): Promis
     checklist,
     automationMetadata,
     extraBody,
+    taskId,
   } = params;
   
   // Initialize fossil service
@@ -287,7 +257,8 @@ export async function createFossilIssue(params: CreateFossilIssueParams): Promis
     metadata: automationMetadata || (metadata ? JSON.stringify(metadata, null, 2) : undefined),
     extra: extraBody,
   });
-  const bodyWithFossil = `${detailedBody}\n\n---\nFossil Content Hash: ${contentHash || ''}`;
+  const footer = `---\nFossil Content Hash: ${contentHash || ''}`;
+  const bodyWithFossil = `${detailedBody}\n\n${taskId ? withTaskIdFooter(footer, taskId) : footer}`;
   
   // Prepare labels
   let sectionLabel = '';
@@ -300,21 +271,16 @@ export async function createFossilIssue(params: CreateFossilIssueParams): Promis
   const filteredLabels = labels.filter(l => l && l !== section);
   const validLabels = [...filteredLabels, sectionLabel, traceLabel].filter(Boolean);
   
-  // Create issue using GitHub CLI
-  IssueBodyFileManager.writeTempFile(bodyWithFossil);
-  
-  const { issueNumber, output } = await GitHubIssueManager.createIssue({
+  // Create issue through the GitHub API
+  const { issueNumber } = await GitHubIssueManager.createIssue({
     owner,
     repo,
     title,
-    tempFile: IssueBodyFileManager.TEMP_FILE,
+    body: bodyWithFossil,
     labels: validLabels,
     milestone,
   });
   
-  // Clean up temp file
-  IssueBodyFileManager.cleanupTempFile();
-  
   // Save fossil copy if issue was created
   if (issueNumber) {
     IssueBodyFileManager.saveIssueFossil(issueNumber, bodyWithFossil);
@@ -1,5 +1,6 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import type { ContextEntry } from '../types';
 
 const FOSSIL_DIR = path.resolve('.context-fossil/entries');
 
@@ -11,13 +12,19 @@ export interface FossilSummary {
   excerpt: string;
 }
 
-export async function getFossilSummary(): Promise<FossilSummary[]> {
-  const files = await fs.readdir(FOSSIL_DIR);
-  const fossils: any[] = [];
-  for (const file of files) {
-    if (!file.endsWith('.json')) continue;
-    const fossil = JSON.parse(await fs.readFile(path.join(FOSSIL_DIR, file), 'utf8'));
-    fossils.push(fossil);
+/**
+ * Summarize fossils, most recent first
+ * @param entries - Entries to summarize; read from `.context-fossil/entries` when omitted
+ */
+export async function getFossilSummary(entries?: ContextEntry[]): Promise<FossilSummary[]> {
+  const fossils: any[] = entries ? [...entries] : [];
+  if (!entries) {
+    const files = await fs.readdir(FOSSIL_DIR);
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue;
+      const fossil = JSON.parse(await fs.readFile(path.join(FOSSIL_DIR, file), 'utf8'));
+      fossils.push(fossil);
+    }
   }
   // Filter out test/irrelevant repos
   const filtered = fossils.filter(f => !/test-owner\/test-repo|owner\/repo|emmanuelbarrera\/automate_workloads/i.test(f.title));
@@ -1,8 +1,9 @@
-import { execSync } from 'child_process';
+import { createGitHubClient, GitHubApiError, type GitHubClient } from '../services/github-client';
 
 /**
- * Centralized GitHub CLI command utility for type-safe command construction
- * and consistent error handling across the codebase.
+ * Centralized GitHub command utility with consistent error handling across the codebase.
+ * Commands go through `GitHubClient`, so values are never interpolated into shell strings;
+ * `stdout` carries the JSON response.
  */
 
 export interface CommandResult {
@@ -34,30 +35,31 @@ export interface MilestoneParams {
 }
 
 export class GitHubCLICommands {
-  constructor(private owner: string, private repo: string) {}
+  constructor(
+    private owner: string,
+    private repo: string,
+    private client: GitHubClient = createGitHubClient(owner, repo)
+  ) {}
   
   /**
    * Create a GitHub issue with proper validation and error handling
    */
   async createIssue(params: IssueParams): Promise<CommandResult> {
-    const cmd = this.buildIssueCreateCommand(params);
-    return this.executeCommand(cmd);
+    return this.run(() => this.client.createIssue(params));
   }
   
   /**
    * Create a GitHub label with proper validation and error handling
    */
   async createLabel(params: LabelParams): Promise<CommandResult> {
-    const cmd = this.buildLabelCreateCommand(params);
-    return this.executeCommand(cmd);
+    return this.run(() => this.client.createLabel(params));
   }
   
   /**
    * Create a GitHub milestone with proper validation and error handling
    */
   async createMilestone(params: MilestoneParams): Promise<CommandResult> {
-    const cmd = this.buildMilestoneCreateCommand(params);
-    return this.executeCommand(cmd);
+    return this.run(() => this.client.createMilestone(params));
   }
   
   /**
@@ -68,142 +70,51 @@ export class GitHubCLICommands {
     labels?: string[];
     assignee?: string;
   } = {}): Promise<CommandResult> {
-    const cmd = this.buildIssueListCommand(options);
-    return this.executeCommand(cmd);
+    return this.run(() => this.client.listIssues(options));
   }
   
   /**
    * List GitHub labels
    */
   async listLabels(): Promise<CommandResult> {
-    const cmd = `gh label list --repo ${this.owner}/${this.repo} --json name,description,color`;
-    return this.executeCommand(cmd);
+    return this.run(() => this.client.listLabels());
   }
   
   /**
    * List GitHub milestones
    */
   async listMilestones(): Promise<CommandResult> {
-    const cmd = `gh api repos/${this.owner}/${this.repo}/milestones --field state=open`;
-    return this.executeCommand(cmd);
+    return this.run(() => this.client.listMilestones('open'));
   }
   
   /**
-   * Execute GitHub API call
+   * Execute GitHub API call. GET fields become query parameters, other methods send
+   * them as the JSON body.
    */
   async apiCall(endpoint: string, options: { method?: string; fields?: Record<string, string> } = {}): Promise<CommandResult> {
     const { method = 'GET', fields = {} } = options;
-    let cmd = `gh api repos/${this.owner}/${this.repo}/${endpoint}`;
-    
-    if (method !== 'GET') {
-      cmd += ` --method ${method}`;
-    }
-    
-    for (const [key, value] of Object.entries(fields)) {
-      cmd += ` --field ${key}="${this.escapeString(value)}"`;
-    }
-    
-    return this.executeCommand(cmd);
+    const path = `/repos/${this.owner}/${this.repo}${endpoint ? `/${endpoint}` : ''}`;
+    return this.run(() => this.client.request(method, path, method === 'GET' ? { query: fields } : { body: fields }));
   }
   
   /**
-   * Build issue creation command with proper escaping
+   * Run a client call and report it as a command result
    */
-  private buildIssueCreateCommand(params: IssueParams): string {
-    const { title, body, labels, milestone, assignees } = params;
-    let cmd = `gh issue create --repo ${this.owner}/${this.repo} --title "${this.escapeString(title)}"`;
-    
-    if (body) {
-      cmd += ` --body "${this.escapeString(body)}"`;
-    }
-    
-    if (labels && labels.length > 0) {
-      cmd += ` --label "${labels.map(l => this.escapeString(l)).join(',')}"`;
-    }
-    
-    if (milestone) {
-      cmd += ` --milestone "${this.escapeString(milestone)}"`;
-    }
-    
-    if (assignees && assignees.length > 0) {
-      cmd += ` --assignee "${assignees.map(a => this.escapeString(a)).join(',')}"`;
-    }
-    
-    return cmd;
-  }
-  
-  /**
-   * Build label creation command with proper escaping
-   */
-  private buildLabelCreateCommand(params: LabelParams): string {
-    const { name, description, color } = params;
-    return `gh label create "${this.escapeString(name)}" --repo ${this.owner}/${this.repo} --color "${this.escapeString(color)}" --description "${this.escapeString(description)}"`;
-  }
-  
-  /**
-   * Build milestone creation command with proper escaping
-   */
-  private buildMilestoneCreateCommand(params: MilestoneParams): string {
-    const { title, description, dueOn } = params;
-    let cmd = `gh api repos/${this.owner}/${this.repo}/milestones --method POST --field title="${this.escapeString(title)}" --field description="${this.escapeString(description)}"`;
-    
-    if (dueOn) {
-      cmd += ` --field due_on="${new Date(dueOn).toISOString()}"`;
-    }
-    
-    return cmd;
-  }
-  
-  /**
-   * Build issue list command with filtering
-   */
-  private buildIssueListCommand(options: {
-    state?: 'open' | 'closed' | 'all';
-    labels?: string[];
-    assignee?: string;
-  }): string {
-    const { state = 'open', labels, assignee } = options;
-    let cmd = `gh issue list --repo ${this.owner}/${this.repo} --state ${state} --json number,title,state,body,labels,assignees,createdAt,updatedAt`;
-    
-    if (labels && labels.length > 0) {
-      cmd += ` --label "${labels.map(l => this.escapeString(l)).join(',')}"`;
-    }
-    
-    if (assignee) {
-      cmd += ` --assignee "${this.escapeString(assignee)}"`;
-    }
-    
-    return cmd;
-  }
-  
-  /**
-   * Escape special characters in strings for CLI commands
-   */
-  private escapeString(str: string): string {
-    return str
-      .replace(/"/g, '\\"')
-      .replace(/\n/g, '\\n')
-      .replace(/\r/g, '\\r')
-      .replace(/\t/g, '\\t');
-  }
-  
-  /**
-   * Execute a command with comprehensive error handling
-   */
-  async executeCommand(cmd: string): Promise<CommandResult> {
+  private async run(action: () => Promise<unknown>): Promise<CommandResult> {
     try {
-      const result = execSync(cmd, { encoding: 'utf8' });
+      const data = await action();
       return { 
         success: true, 
-        stdout: result, 
+        stdout: JSON.stringify(data ?? null), 
         stderr: '',
         message: 'Command executed successfully'
       };
     } catch (error: any) {
       const errorMessage = error instanceof Error ? error.message : String(error);
+      const status = error instanceof GitHubApiError ? error.status : undefined;
       
-      // Handle common GitHub CLI errors
-      if (errorMessage.includes('already exists')) {
+      // Handle common GitHub API errors
+      if (status === 422 && JSON.stringify(error.response ?? '').includes('already_exists')) {
         return { 
           success: true, 
           stdout: '', 
@@ -213,7 +124,7 @@ export class GitHubCLICommands {
         };
       }
       
-      if (errorMessage.includes('not found')) {
+      if (status === 404) {
         return { 
           success: false, 
           stdout: '', 
@@ -223,7 +134,7 @@ export class GitHubCLICommands {
         };
       }
       
-      if (errorMessage.includes('authentication')) {
+      if (status === 401) {
         return { 
           success: false, 
           stdout: '', 
@@ -237,9 +148,9 @@ export class GitHubCLICommands {
         success: false, 
         stdout: '', 
         stderr: errorMessage,
-        exitCode: error.status || 1,
-        message: `CLI Error: ${errorMessage}`
+        exitCode: status || 1,
+        message: `API Error: ${errorMessage}`
       };
     }
   }
-} 
\ No newline at end of file
+}
@@ -30,50 +30,9 @@ export class GitHubFossilManager {
         continue;
       }
 
-      const issueBody = this.generateIssueBody(task, roadmap);
-      const labels = this.generateLabels(task);
-      const assignees = task.owner ? [task.owner] : [];
-
       try {
-        // Use the existing fossil-backed issue creation utility
-        const { createFossilIssue } = await import('./fossilIssue');
-        const result = await createFossilIssue({
-          owner: this.owner,
-          repo: this.repo,
-          title: task.task,
-          body: issueBody,
-          labels,
-          milestone: task.milestone,
-          section: 'roadmap',
-          type: 'action',
-          tags: ['roadmap', 'automation'],
-          metadata: {
-            roadmapTask: task,
-            roadmapSource: roadmap.source
-          }
-        });
-
-        if (!result.deduplicated && result.issueNumber) {
-          fossils.push({
-            type: 'github_issue_fossil',
-            source: 'roadmap-automation',
-            createdBy: roadmap.createdBy,
-            createdAt: new Date().toISOString(),
-            issueNumber: parseInt(result.issueNumber),
-            title: task.task,
-            body: issueBody,
-            labels,
-            assignees,
-            milestone: task.milestone,
-            state: 'open',
-            metadata: {
-              roadmapTask: task,
-              roadmapSource: roadmap.source,
-              fossilId: result.fossilId,
-              fossilHash: result.fossilHash
-            }
-          });
-        }
+        const created = await this.createIssueForTask(task, roadmap);
+        if (created) fossils.push(created);
       } catch (error) {
         console.error(`Failed to create issue for task: ${task.task}`, error);
       }
@@ -82,6 +41,58 @@ export class GitHubFossilManager {
     return fossils;
   }
 
+  /**
+   * Create the fossil-backed issue for one roadmap task
+   * @returns The issue fossil, or null when an existing issue was reused
+   */
+  async createIssueForTask(task: E2ERoadmapTask, roadmap: E2ERoadmap): Promise<GitHubIssueFossil | null> {
+    const issueBody = this.generateIssueBody(task, roadmap);
+    const labels = this.generateLabels(task);
+    const assignees = task.owner ? [task.owner] : [];
+
+    // Use the existing fossil-backed issue creation utility
+    const { createFossilIssue } = await import('./fossilIssue');
+    const result = await createFossilIssue({
+      owner: this.owner,
+      repo: this.repo,
+      title: task.task,
+      body: issueBody,
+      labels,
+      milestone: task.milestone,
+      section: 'roadmap',
+      type: 'action',
+      tags: ['roadmap', 'automation'],
+      metadata: {
+        roadmapTask: task,
+        roadmapSource: roadmap.source
+      },
+      taskId: task.id
+    });
+
+    if (result.deduplicated || !result.issueNumber) {
+      return null;
+    }
+    return {
+      type: 'github_issue_fossil',
+      source: 'roadmap-automation',
+      createdBy: roadmap.createdBy,
+      createdAt: new Date().toISOString(),
+      issueNumber: parseInt(result.issueNumber),
+      title: task.task,
+      body: issueBody,
+      labels,
+      assignees,
+      milestone: task.milestone,
+      state: 'open',
+      metadata: {
+        roadmapTask: task,
+        roadmapSource: roadmap.source,
+        fossilId: result.fossilId,
+        fossilHash: result.fossilHash
+      }
+    };
+  }
+
   /**
    * Create GitHub milestones from roadmap tasks
    */
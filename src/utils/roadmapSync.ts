@@ -0,0 +1,329 @@
+/**
+ * Two-way reconciliation between roadmap tasks and GitHub issues
+ * @module utils/roadmapSync
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import type { E2ERoadmap, E2ERoadmapTask, GitHubIssue, Status } from '../types';
+import type { GitHubClient } from '../services/github-client';
+import { anchorRoadmapTasks, createTaskId, extractTaskId, indexIssuesByTaskId, linkExistingIssues, withTaskIdFooter, type TaskLinkMigration } from './taskAnchor';
+
+export const DEFAULT_ROADMAP_SYNC_STATE = 'fossils/roadmap_sync_state.json';
+
+/**
+ * What both sides agreed on at the last sync, per linked issue. Each run compares the
+ * roadmap and GitHub against this snapshot to tell which side changed.
+ */
+export interface RoadmapSyncState {
+  syncedAt: string;
+  issues: Record<string, { title: string; closed: boolean }>;
+}
+
+export type RoadmapSyncSide = 'local' | 'remote';
+
+export interface RoadmapSyncConflict {
+  taskIndex: number;
+  issue: number;
+  field: 'title' | 'closed';
+  /** Value at the last sync, absent when the pair was never synced */
+  base?: string | boolean;
+  local: string | boolean;
+  remote: string | boolean;
+  /** Side that wins when a preference was given; unresolved conflicts are left alone */
+  resolution?: RoadmapSyncSide;
+}
+
+export type RoadmapSyncAction =
+  | { type: 'create-issue'; taskIndex: number; title: string }
+  | { type: 'link-issue'; taskIndex: number; issue: number }
+  | { type: 'update-issue'; taskIndex: number; issue: number; changes: { title?: string; state?: 'open' | 'closed' } }
+  | { type: 'update-task'; taskIndex: number; issue: number; changes: { task?: string; status?: Status } }
+  | { type: 'import-issue'; issue: number; title: string; status: Status };
+
+export interface RoadmapSyncPlan {
+  actions: RoadmapSyncAction[];
+  conflicts: RoadmapSyncConflict[];
+  /** Tasks linked to an issue that GitHub no longer returns */
+  missing: Array<{ taskIndex: number; issue: number }>;
+}
+
+export interface RoadmapSyncOptions {
+  /** Side that wins conflicting edits (default: report and skip) */
+  prefer?: RoadmapSyncSide;
+  /** Only issues with this label become new tasks (default `roadmap`) */
+  importLabel?: string;
+}
+
+export interface ApplyRoadmapSyncOptions {
+  /** Creates the issue for an unlinked task and returns its number */
+  createIssue?: (task: E2ERoadmapTask) => Promise<number | undefined>;
+  importLabel?: string;
+}
+
+export interface RoadmapSyncResult {
+  applied: RoadmapSyncAction[];
+  failed: Array<{ action: RoadmapSyncAction; error: string }>;
+  state: RoadmapSyncState;
+}
+
+const CLOSED_STATUSES = ['done', 'closed', 'completed'];
+
+export function isClosedStatus(status: unknown): boolean {
+  return CLOSED_STATUSES.includes(String(status ?? '').toLowerCase());
+}
+
+/**
+ * Work out what each side needs so both match, three-way against the last synced state.
+ * Only the first linked issue of a task is synced; its title follows `task.task` and its
+ * open/closed state follows the task status. A task without issues is linked to the issue
+ * carrying its task id in the fossil footer, if there is one.
+ */
+export function planRoadmapSync(
+  roadmap: E2ERoadmap,
+  issues: GitHubIssue[],
+  state: RoadmapSyncState,
+  options: RoadmapSyncOptions = {}
+): RoadmapSyncPlan {
+  const { prefer, importLabel = 'roadmap' } = options;
+  const plan: RoadmapSyncPlan = { actions: [], conflicts: [], missing: [] };
+  const byNumber = new Map(issues.map(issue => [issue.number, issue]));
+  const byTaskId = indexIssuesByTaskId(issues);
+  const linked = new Set<number>();
+
+  roadmap.tasks.forEach((task, taskIndex) => {
+    let number = task.issues?.[0];
+    if (number === undefined) {
+      number = task.id ? byTaskId.get(task.id)?.number : undefined;
+      if (number === undefined) {
+        if (!isClosedStatus(task.status)) plan.actions.push({ type: 'create-issue', taskIndex, title: task.task });
+        return;
+      }
+      plan.actions.push({ type: 'link-issue', taskIndex, issue: number });
+    }
+    linked.add(number);
+    const issue = byNumber.get(number);
+    if (!issue) {
+      plan.missing.push({ taskIndex, issue: number });
+      return;
+    }
+
+    const base = state.issues[number];
+    const issueChanges: { title?: string; state?: 'open' | 'closed' } = {};
+    const taskChanges: { task?: string; status?: Status } = {};
+
+    const title = reconcile(base?.title, task.task, issue.title);
+    const closed = reconcile(base?.closed, isClosedStatus(task.status), issue.state === 'closed');
+    for (const [field, outcome] of [['title', title], ['closed', closed]] as const) {
+      if (outcome.conflict) {
+        plan.conflicts.push({
+          taskIndex,
+          issue: number,
+          field,
+          base: field === 'title' ? base?.title : base?.closed,
+          local: field === 'title' ? task.task : isClosedStatus(task.status),
+          remote: field === 'title' ? issue.title : issue.state === 'closed',
+          resolution: prefer,
+        });
+      }
+      const winner = outcome.conflict ? prefer : outcome.winner;
+      if (winner === 'local' && field === 'title') issueChanges.title = task.task;
+      if (winner === 'local' && field === 'closed') issueChanges.state = isClosedStatus(task.status) ? 'closed' : 'open';
+      if (winner === 'remote' && field === 'title') taskChanges.task = issue.title;
+      if (winner === 'remote' && field === 'closed') taskChanges.status = issue.state === 'closed' ? 'done' : 'pending';
+    }
+
+    if (Object.keys(issueChanges).length > 0) plan.actions.push({ type: 'update-issue', taskIndex, issue: number, changes: issueChanges });
+    if (Object.keys(taskChanges).length > 0) plan.actions.push({ type: 'update-task', taskIndex, issue: number, changes: taskChanges });
+  });
+
+  for (const issue of issues) {
+    // An issue synced before but no longer linked was unlinked on purpose
+    if (linked.has(issue.number) || state.issues[issue.number] || !issue.labels.includes(importLabel)) continue;
+    plan.actions.push({
+      type: 'import-issue',
+      issue: issue.number,
+      title: issue.title,
+      status: issue.state === 'closed' ? 'done' : 'pending',
+    });
+  }
+
+  return plan;
+}
+
+/**
+ * Which side changed a field since the last sync: both changing it to different values is a conflict
+ */
+function reconcile<T>(base: T | undefined, local: T, remote: T): { winner?: RoadmapSyncSide; conflict?: boolean } {
+  if (local === remote) return {};
+  if (base === undefined) return { conflict: true };
+  if (local === base) return { winner: 'remote' };
+  if (remote === base) return { winner: 'local' };
+  return { conflict: true };
+}
+
+/**
+ * Execute a plan: issue changes go to GitHub, task changes and new tasks are written into
+ * `roadmap` in place. Failed actions are reported and leave their pair out of the new state,
+ * so the next run sees the same difference again.
+ */
+export async function applyRoadmapSyncPlan(
+  plan: RoadmapSyncPlan,
+  roadmap: E2ERoadmap,
+  issues: GitHubIssue[],
+  state: RoadmapSyncState,
+  client: GitHubClient,
+  options: ApplyRoadmapSyncOptions = {}
+): Promise<RoadmapSyncResult> {
+  const importLabel = options.importLabel ?? 'roadmap';
+  const createIssue = options.createIssue ?? (async (task: E2ERoadmapTask) => (await client.createIssue({
+    title: task.task,
+    body: task.id ? withTaskIdFooter('', task.id) : undefined,
+    labels: [importLabel],
+    milestone: task.milestone,
+  })).number);
+  const byNumber = new Map(issues.map(issue => [issue.number, issue]));
+  const remote = new Map(issues.map(issue => [issue.number, { title: issue.title, closed: issue.state === 'closed' }]));
+  const taskIds = new Set(roadmap.tasks.map(task => task.id).filter((id): id is string => Boolean(id)));
+  const result: RoadmapSyncResult = { applied: [], failed: [], state: { syncedAt: new Date().toISOString(), issues: { ...state.issues } } };
+
+  for (const action of plan.actions) {
+    try {
+      switch (action.type) {
+        case 'create-issue': {
+          const task = roadmap.tasks[action.taskIndex]!;
+          const number = await createIssue(task);
+          if (number === undefined) throw new Error('No issue number returned');
+          task.issues = [number, ...(task.issues ?? [])];
+          remote.set(number, { title: task.task, closed: false });
+          break;
+        }
+        case 'link-issue': {
+          const task = roadmap.tasks[action.taskIndex]!;
+          task.issues = [action.issue, ...(task.issues ?? [])];
+          break;
+        }
+        case 'update-issue': {
+          const updated = await client.updateIssue(action.issue, {
+            title: action.changes.title,
+            state: action.changes.state,
+            state_reason: action.changes.state === 'closed' ? 'completed' : undefined,
+          });
+          remote.set(action.issue, { title: updated.title, closed: updated.state === 'closed' });
+          break;
+        }
+        case 'update-task': {
+          const task = roadmap.tasks[action.taskIndex]!;
+          if (action.changes.task !== undefined) task.task = action.changes.task;
+          if (action.changes.status !== undefined) task.status = action.changes.status;
+          break;
+        }
+        case 'import-issue': {
+          const body = byNumber.get(action.issue)?.body ?? '';
+          let id = extractTaskId(body);
+          if (!id) {
+            id = createTaskId(action.title, taskIds);
+            await client.updateIssue(action.issue, { body: withTaskIdFooter(body, id) });
+          }
+          taskIds.add(id);
+          roadmap.tasks.push({ id, task: action.title, status: action.status, issues: [action.issue] });
+          break;
+        }
+      }
+      result.applied.push(action);
+    } catch (error) {
+      result.failed.push({ action, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  for (const task of roadmap.tasks) {
+    const number = task.issues?.[0];
+    const after = number === undefined ? undefined : remote.get(number);
+    if (number !== undefined && after && after.title === task.task && after.closed === isClosedStatus(task.status)) {
+      result.state.issues[number] = after;
+    }
+  }
+  return result;
+}
+
+export function loadRoadmapSyncState(statePath: string = DEFAULT_ROADMAP_SYNC_STATE): RoadmapSyncState {
+  if (!fs.existsSync(statePath)) return { syncedAt: '', issues: {} };
+  return JSON.parse(fs.readFileSync(statePath, 'utf8')) as RoadmapSyncState;
+}
+
+export function saveRoadmapSyncState(state: RoadmapSyncState, statePath: string = DEFAULT_ROADMAP_SYNC_STATE): void {
+  fs.mkdirSync(path.dirname(statePath), { recursive: true });
+  fs.writeFileSync(statePath, `${JSON.stringify(state, null, 2)}\n`);
+}
+
+/**
+ * Write the roadmap back as YAML, keeping the comment header at the top of the file
+ */
+export function writeRoadmap(roadmapPath: string, roadmap: E2ERoadmap): void {
+  const existing = fs.existsSync(roadmapPath) ? fs.readFileSync(roadmapPath, 'utf8').split('\n') : [];
+  const header: string[] = [];
+  for (const line of existing) {
+    if (!line.startsWith('#') && line.trim() !== '') break;
+    header.push(line);
+  }
+  const body = yaml.dump(roadmap, { indent: 2, lineWidth: 120, noRefs: true });
+  fs.writeFileSync(roadmapPath, header.length > 0 ? `${header.join('\n')}\n${body}` : body);
+}
+
+/**
+ * Give roadmap tasks ids and write them into the footer of each task's first linked issue,
+ * or of the single issue with the task's exact title (which then becomes linked)
+ */
+export async function migrateRoadmapTaskIds(
+  roadmap: E2ERoadmap,
+  issues: GitHubIssue[],
+  client: GitHubClient,
+  options: { dryRun?: boolean } = {}
+): Promise<TaskLinkMigration> {
+  anchorRoadmapTasks(roadmap);
+  const migration = await linkExistingIssues(
+    roadmap.tasks.map(task => ({ id: task.id!, title: task.task, issue: task.issues?.[0] })),
+    issues,
+    client,
+    options
+  );
+  for (const link of migration.linked) {
+    const task = roadmap.tasks.find(candidate => candidate.id === link.id)!;
+    if (!task.issues?.length) task.issues = [link.issue];
+  }
+  return migration;
+}
+
+/**
+ * Human-readable lines describing a plan
+ */
+export function formatRoadmapSyncPlan(plan: RoadmapSyncPlan, roadmap: E2ERoadmap): string[] {
+  const taskTitle = (taskIndex: number) => roadmap.tasks[taskIndex]?.task ?? `task ${taskIndex}`;
+  const lines = plan.actions.map(action => {
+    switch (action.type) {
+      case 'create-issue':
+        return `🆕 Create issue for task: ${action.title}`;
+      case 'link-issue':
+        return `🔗 Link task "${taskTitle(action.taskIndex)}" to #${action.issue} by task id`;
+      case 'update-issue':
+        return `⬆️ Update issue #${action.issue}: ${describeChanges(action.changes)}`;
+      case 'update-task':
+        return `⬇️ Update task "${taskTitle(action.taskIndex)}" from #${action.issue}: ${describeChanges(action.changes)}`;
+      case 'import-issue':
+        return `📥 Import issue #${action.issue} as task: ${action.title}`;
+    }
+  });
+  for (const conflict of plan.conflicts) {
+    const outcome = conflict.resolution ? `keeping ${conflict.resolution}` : 'skipped';
+    lines.push(`⚠️ Conflict on #${conflict.issue} ${conflict.field}: local ${JSON.stringify(conflict.local)} vs remote ${JSON.stringify(conflict.remote)} (${outcome})`);
+  }
+  for (const missing of plan.missing) {
+    lines.push(`❓ Task "${taskTitle(missing.taskIndex)}" links missing issue #${missing.issue}`);
+  }
+  return lines;
+}
+
+function describeChanges(changes: Record<string, unknown>): string {
+  return Object.entries(changes).map(([key, value]) => `${key} → ${JSON.stringify(value)}`).join(', ');
+}
@@ -0,0 +1,86 @@
+/**
+ * Append-only journal of executed sync steps
+ * @module utils/syncJournal
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type SyncJournalEvent = 'start' | 'done' | 'failed' | 'reverted';
+
+export interface SyncJournalEntry<Step = unknown> {
+  planId: string;
+  stepId: string;
+  event: SyncJournalEvent;
+  at: string;
+  /** The step being executed, so a run can be reverted from the journal alone */
+  step?: Step;
+  /** What the step produced (e.g. the number of a created issue) */
+  result?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface SyncStepStatus<Step = unknown> {
+  event: SyncJournalEvent;
+  step?: Step;
+  result?: Record<string, unknown>;
+}
+
+/**
+ * One JSON line per event, written before and after each step. A `start` without a matching
+ * `done` marks a step that was in flight when the run died. Kept in memory when no path is given.
+ */
+export class SyncJournal<Step = unknown> {
+  private memory: SyncJournalEntry<Step>[] = [];
+
+  constructor(private filePath?: string) {}
+
+  append(entry: Omit<SyncJournalEntry<Step>, 'at'>): void {
+    const full: SyncJournalEntry<Step> = { ...entry, at: new Date().toISOString() };
+    if (!this.filePath) {
+      this.memory.push(full);
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, `${JSON.stringify(full)}\n`);
+  }
+
+  entries(planId?: string): SyncJournalEntry<Step>[] {
+    const all = this.filePath ? this.readFile() : this.memory;
+    return planId ? all.filter(entry => entry.planId === planId) : [...all];
+  }
+
+  /**
+   * Latest event per step of a plan, in the order the steps first started
+   */
+  status(planId: string): Map<string, SyncStepStatus<Step>> {
+    const steps = new Map<string, SyncStepStatus<Step>>();
+    for (const entry of this.entries(planId)) {
+      const previous = steps.get(entry.stepId);
+      steps.set(entry.stepId, {
+        event: entry.event,
+        step: entry.step ?? previous?.step,
+        result: entry.result ?? previous?.result,
+      });
+    }
+    return steps;
+  }
+
+  lastPlanId(): string | undefined {
+    return this.entries().at(-1)?.planId;
+  }
+
+  private readFile(): SyncJournalEntry<Step>[] {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return [];
+    const entries: SyncJournalEntry<Step>[] = [];
+    for (const line of fs.readFileSync(this.filePath, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // A line cut short by a crash mid-write
+      }
+    }
+    return entries;
+  }
+}
@@ -1,169 +1,132 @@
 import * as fs from "fs";
+import * as path from "path";
 import * as yaml from "js-yaml";
-import { execSync } from "child_process";
-import { issueExists } from './cli';
+import { createHash } from "crypto";
 import { createFossilIssue } from './fossilIssue';
+import { ContextFossilService } from '../cli/context-fossil';
 import { isTestMode } from '../cli/repo-orchestrator';
-import { GitHubCLICommands } from './githubCliCommands';
+import { createGitHubClient, type GitHubClient, type GitHubMilestone } from '../services/github-client';
+import { GitHubProjects, type ProjectV2Item } from '../services/github-projects';
+import type { GitHubIssue } from '../types';
+import { SyncJournal } from './syncJournal';
+import {
+  anchorTrackerTasks,
+  createTaskId,
+  extractTaskId,
+  indexIssuesByTaskId,
+  linkExistingIssues,
+  splitTaskAnchor,
+  withTaskIdFooter,
+  type TaskLinkMigration,
+} from './taskAnchor';
 
-async function runGh(cmd: string) {
-  try {
-    const commands = new GitHubCLICommands('barreraslzr', 'automate_workloads');
-    const result = await commands.executeCommand(cmd);
-    return result.success ? result.stdout.trim() : null;
-  } catch (e) {
-    return null;
-  }
+export const SYNC_TRACKER_DIR = ".sync-tracker";
+export const DEFAULT_SYNC_PLAN_PATH = path.join(SYNC_TRACKER_DIR, "plan.json");
+export const DEFAULT_SYNC_JOURNAL_PATH = path.join(SYNC_TRACKER_DIR, "journal.jsonl");
+
+const TEST_MILESTONE = "Testing & Automation";
+
+export interface SyncTrackerOptions {
+  trackerMdPath: string;
+  projectStatusYmlPath: string;
+  owner: string;
+  repo: string;
+  projectNumber: number;
+  autoClose?: boolean;
+  syncTests?: boolean;
+  test?: boolean;
+  mock?: boolean;
+  /** Journal of executed steps (default `.sync-tracker/journal.jsonl`) */
+  journalPath?: string;
 }
 
-async function getMilestoneIdByTitle(owner: string, repo: string, title: string): Promise<string | null> {
-  if (isTestMode({ owner, repo, title })) return null;
-  const out = await runGh(`gh api repos/${owner}/${repo}/milestones --jq '.[] | select(.title=="${title}") | .number'`);
-  if (typeof out === "undefined" || out === null) return null;
-  const first = out.split("\n")[0];
-  return typeof first === "string" && first.length > 0 ? first : null;
+export interface TrackerTask {
+  section: string;
+  checked: boolean;
+  text: string;
+  /** From the item's `<!-- task-id: ... -->` anchor; matches the issue's fossil footer */
+  id?: string;
 }
 
-async function ensureMilestone(owner: string, repo: string, name: string): Promise<string | null> {
-  if (isTestMode({ owner, repo, name })) return null;
-  let milestoneId: string | null = await getMilestoneIdByTitle(owner, repo, name);
-  if (milestoneId) {
-    console.log(`✅ Milestone exists: ${name}`);
-    return milestoneId;
-  }
-  await runGh(`gh api repos/${owner}/${repo}/milestones -f title='${name}' -f description='Auto-created from tracker'`);
-  milestoneId = await getMilestoneIdByTitle(owner, repo, name);
-  if (milestoneId) {
-    console.log(`🆕 Created milestone: ${name}`);
-    return milestoneId;
-  } else {
-    console.error(`❌ Failed to create milestone: ${name}`);
-    return null;
-  }
+/** A function or file from fossils/project_status.yml that is missing a test or fossilization */
+export interface ProjectStatusGap {
+  type: "test" | "fossilization";
+  name: string;
+  file: string;
 }
 
-async function getIssueByTitle(owner: string, repo: string, title: string): Promise<{number: string, state: string} | null> {
-  if (isTestMode({ owner, repo, title })) return null;
-  if (!issueExists(owner, repo, title, 'all')) return null;
-  const out = await runGh(`gh issue list --repo ${owner}/${repo} --state all --search "${title}" --json number,title,state`);
-  if (!out) return null;
-  try {
-    const arr = JSON.parse(out);
-    for (const issue of arr) {
-      if (issue.title.trim() === title.trim()) {
-        return { number: String(issue.number), state: issue.state };
-      }
-    }
-  } catch {}
-  return null;
-}
-
-async function ensureIssue(task: { section: string; text: string }, milestoneId: string | undefined, owner: string, repo: string, projectNumber: number) {
-  if (isTestMode({ owner, repo, milestoneId, projectNumber })) return;
-  if (!milestoneId || milestoneId === "") return;
-  let issue = await getIssueByTitle(owner, repo, task.text);
-  if (issue) {
-    console.log(`✅ Issue exists: #${String(issue.number ?? "")} - ${task.text}`);
-    if (issue.state === "closed") {
-      await runGh(`gh issue reopen ${String(issue.number ?? "")} --repo ${owner}/${repo}`);
-      console.log(`🔄 Reopened issue #${String(issue.number ?? "")}`);
-    }
-    await addIssueToProject(String(issue.number ?? ""), owner, repo, projectNumber);
-    return;
-  }
-  // Use fossil-backed issue creation
-  const result = await createFossilIssue({
-    owner,
-    repo,
-    title: task.text,
-    body: `(Auto-created from tracker section: ${task.section})`,
-    labels: [task.section],
-    milestone: task.section,
-    section: task.section,
-    tags: ['github', 'issue', task.section],
-    metadata: { trackerSection: task.section },
-  });
-  if (result.deduplicated) {
-    console.log(`⚠️ Issue already exists for fossil hash: ${result.fossilHash}`);
-    return;
-  } else {
-    console.log(`🆕 Created issue: ${task.text} (Fossil ID: ${result.fossilId}, Issue #: ${result.issueNumber})`);
-  }
+export type TrackerSyncStep =
+  | { id: string; type: "create-milestone"; title: string }
+  /** `body` is the issue body the plan was built against, restored on revert */
+  | { id: string; type: "link-issue"; taskId: string; issue: number; title: string; body: string }
+  | { id: string; type: "create-issue"; taskId: string; title: string; body: string; labels: string[]; milestone: string; section: string; metadata: Record<string, unknown> }
+  | { id: string; type: "reopen-issue"; taskId: string; issue: number; title: string }
+  | { id: string; type: "close-issue"; taskId: string; issue: number; title: string }
+  | { id: string; type: "project-add"; taskId: string; title: string; projectNumber: number; issue?: number };
+
+export interface TrackerSyncPlan {
+  /** Hash of the plan; journal entries are grouped by it */
+  id: string;
+  createdAt: string;
+  owner: string;
+  repo: string;
+  projectNumber: number;
+  steps: TrackerSyncStep[];
+  /** Task ids the plan gave new tracker items; apply writes them into the tracker file */
+  anchors?: { trackerMdPath: string; taskIds: string[] };
 }
 
-async function addIssueToProject(issueNumber: string | undefined, owner: string, repo: string, projectNumber: number) {
-  if (isTestMode({ owner, repo, issueNumber, projectNumber })) return;
-  if (!issueNumber || issueNumber === "") return;
-  const addResult = await runGh(`gh project item-add ${projectNumber} --owner ${owner} --issue ${String(issueNumber ?? "")}`);
-  if (addResult && !addResult.includes("already exists")) {
-    console.log(`📋 Added issue #${String(issueNumber ?? "") } to project board`);
-  } else {
-    console.log(`ℹ️ Issue #${String(issueNumber ?? "") } already in project board or could not add`);
-  }
+export interface TrackerSyncRunResult {
+  planId: string;
+  done: string[];
+  skipped: string[];
+  failed: Array<{ stepId: string; error: string }>;
 }
 
-async function closeIssueByTitle(title: string, owner: string, repo: string) {
-  if (isTestMode({ owner, repo, title })) return;
-  const issue = await getIssueByTitle(owner, repo, title);
-  if (issue && issue.state === "open") {
-    await runGh(`gh issue close ${String(issue.number ?? "")} --repo ${owner}/${repo}`);
-    console.log(`✅ Closed issue #${String(issue.number ?? "")} for checked-off item: ${title}`);
-  }
+/**
+ * Project board operations (Projects v2 through `GitHubProjects` by default)
+ */
+export interface ProjectItemOperations {
+  /**
+   * @returns The project item id, used to undo the add, and whether the issue was on the
+   * board already; revert leaves such items alone
+   */
+  add(projectNumber: number, owner: string, issueUrl: string): Promise<{ itemId?: string; alreadyPresent?: boolean }>;
+  remove(projectNumber: number, owner: string, itemId: string): Promise<void>;
 }
 
-async function ensureTestOrFossilIssue(item: { type: string; name: string; file: string }, milestoneId: string | undefined, owner: string, repo: string, projectNumber: number) {
-  if (isTestMode({ owner, repo, milestoneId, projectNumber })) return;
-  if (!milestoneId || milestoneId === "") return;
-  const title = `Add ${item.type} for ${item.name} in ${item.file}`;
-  let issue = await getIssueByTitle(owner, repo, title);
-  if (issue) {
-    if (issue.state === "closed") {
-      await runGh(`gh issue reopen ${String(issue.number ?? "")} --repo ${owner}/${repo}`);
-    }
-    await addIssueToProject(String(issue.number ?? ""), owner, repo, projectNumber);
-    return;
-  }
-  // Use fossil-backed issue creation
-  const result = await createFossilIssue({
-    owner,
-    repo,
-    title,
-    body: `(Auto-created for missing ${item.type} in ${item.file})`,
-    labels: [item.type],
-    milestone: milestoneId,
-    section: item.type,
-    tags: ['github', 'issue', item.type],
-    metadata: { file: item.file, name: item.name, type: item.type },
-  });
-  if (result.deduplicated) {
-    console.log(`⚠️ Issue already exists for fossil hash: ${result.fossilHash}`);
-    return;
-  } else {
-    console.log(`🆕 Created ${item.type} issue: ${title} (Fossil ID: ${result.fossilId}, Issue #: ${result.issueNumber})`);
-  }
+/**
+ * Issue created for a `create-issue` step, with the fossil written for it (if any); revert
+ * closes the issue and removes the fossil
+ */
+export interface CreatedTrackerIssue {
+  issue: number;
+  fossilId?: string;
 }
 
-export async function syncTrackerWithGitHub(options: {
-  trackerMdPath: string;
-  projectStatusYmlPath: string;
+export interface TrackerSyncApplyOptions {
+  journal?: SyncJournal<TrackerSyncStep>;
+  /** Creates the issue for a step (default: fossil-backed creation) */
+  createIssue?: (step: Extract<TrackerSyncStep, { type: "create-issue" }>, plan: TrackerSyncPlan) => Promise<CreatedTrackerIssue | undefined>;
+  projectItems?: ProjectItemOperations;
+}
+
+export interface TrackerSyncRevertOptions extends Pick<TrackerSyncApplyOptions, "journal" | "projectItems"> {
   owner: string;
-  repo: string;
-  projectNumber: number;
-  autoClose?: boolean;
-  syncTests?: boolean;
-  test?: boolean;
-  mock?: boolean;
-}) {
-  if (isTestMode(options)) {
-    console.log('[MOCK] syncTrackerWithGitHub called');
-    return;
-  }
-  // --- 1. Parse master tracker markdown ---
-  const trackerMd = fs.readFileSync(options.trackerMdPath, "utf8");
-  let currentSection = "";
-  const tasks: { section: string; checked: boolean; text: string }[] = [];
+  /** Removes the fossil a created issue was recorded in (default: the context fossil and `fossils/issues/<number>.md`) */
+  removeFossil?: (fossilId: string, issue: number) => Promise<void>;
+}
+
+type StepType = TrackerSyncStep["type"];
+type StepInput<T extends StepType> = Omit<Extract<TrackerSyncStep, { type: T }>, "id" | "type">;
+
+/**
+ * Parse `### Section` headings and `- [ ]` / `- [x]` items from the master tracker markdown
+ */
+export function parseTrackerTasks(markdown: string): TrackerTask[] {
+  const tasks: TrackerTask[] = [];
   let lastSection = "";
-  for (const line of trackerMd.split("\n")) {
+  for (const line of markdown.split("\n")) {
     const sectionMatch = line.match(/^### (.+)$/);
     if (sectionMatch) {
       lastSection = sectionMatch[1] || "";
@@ -171,57 +134,486 @@ export async function syncTrackerWithGitHub(options: {
     }
     const taskMatch = line.match(/^- \[([ xX])\] (.+)$/);
     if (taskMatch) {
+      const { text, id } = splitTaskAnchor(taskMatch[2] || "");
       tasks.push({
         section: lastSection,
         checked: taskMatch[1] !== " ",
-        text: taskMatch[2] || "",
+        text,
+        ...(id ? { id } : {}),
+      });
+    }
+  }
+  return tasks;
+}
+
+/**
+ * Missing tests and fossilizations listed in fossils/project_status.yml
+ */
+export function findProjectStatusGaps(projectStatus: any): ProjectStatusGap[] {
+  const gaps: ProjectStatusGap[] = [];
+  if (!projectStatus || !projectStatus.modules) return gaps;
+  for (const moduleKey of Object.keys(projectStatus.modules)) {
+    const module = projectStatus.modules[moduleKey];
+    if (!module || !Array.isArray(module.files)) continue;
+    for (const fileObj of module.files) {
+      const fileName = Object.keys(fileObj)[0] || "";
+      const fileData = fileObj[fileName];
+      if (!fileData) continue;
+      if (Array.isArray(fileData.functions) && typeof fileData.tests === "undefined") {
+        for (const func of fileData.functions) {
+          gaps.push({ type: "test", name: func, file: fileName });
+        }
+      }
+      if (fileData.fossilized_output === false) {
+        gaps.push({ type: "fossilization", name: fileName, file: fileName });
+      }
+    }
+  }
+  return gaps;
+}
+
+/** Gaps are keyed by file and name, so their ids are derived instead of written back */
+function gapTaskId(gap: ProjectStatusGap): string {
+  return createTaskId(`${gap.type}:${gap.file}:${gap.name}`);
+}
+
+function gapIssueTitle(gap: ProjectStatusGap): string {
+  return `Add ${gap.type} for ${gap.name} in ${gap.file}`;
+}
+
+/**
+ * Work out every change needed to bring GitHub in line with the tracker, given the
+ * repository's current milestones and issues. Nothing is executed. Tasks are matched to
+ * issues by task id, so every tracker task must be anchored (see `anchorTrackerTasks`).
+ * Issues created before task ids existed carry no id; a task falls back to the single such
+ * issue with its exact title and a `link-issue` step writes the id into that issue.
+ */
+export function buildTrackerSyncPlan(input: {
+  tasks: TrackerTask[];
+  gaps: ProjectStatusGap[];
+  milestones: GitHubMilestone[];
+  issues: GitHubIssue[];
+  owner: string;
+  repo: string;
+  projectNumber: number;
+  autoClose?: boolean;
+  syncTests?: boolean;
+}): TrackerSyncPlan {
+  const steps: TrackerSyncStep[] = [];
+  const seen = new Set<string>();
+  const add = <T extends StepType>(type: T, step: StepInput<T>) => {
+    const id = `${type}:${"taskId" in step ? step.taskId : step.title}`;
+    if (seen.has(id)) return;
+    seen.add(id);
+    steps.push({ id, type, ...step } as TrackerSyncStep);
+  };
+  const issuesByTaskId = indexIssuesByTaskId(input.issues);
+  const unanchored = input.issues.filter(issue => !extractTaskId(issue.body));
+  const findIssue = (taskId: string, title: string): GitHubIssue | undefined => {
+    const anchored = issuesByTaskId.get(taskId);
+    if (anchored) return anchored;
+    const candidates = unanchored.filter(issue => issue.title.trim() === title.trim());
+    if (candidates.length > 1) {
+      throw new Error(`"${title}" matches issues ${candidates.map(issue => `#${issue.number}`).join(", ")}; run the migrate-ids command and link it by hand`);
+    }
+    const issue = candidates[0];
+    if (!issue) return undefined;
+    add("link-issue", { taskId, issue: issue.number, title, body: issue.body ?? "" });
+    issuesByTaskId.set(taskId, issue);
+    unanchored.splice(unanchored.indexOf(issue), 1);
+    return issue;
+  };
+  const taskId = (task: TrackerTask) => {
+    if (!task.id) throw new Error(`Tracker task "${task.text}" has no task id; run the migrate-ids command first`);
+    return task.id;
+  };
+
+  const milestones = new Set(input.milestones.map(milestone => milestone.title));
+  for (const section of new Set(input.tasks.map(task => task.section))) {
+    if (section && !milestones.has(section)) {
+      add("create-milestone", { title: section });
+      milestones.add(section);
+    }
+  }
+
+  // Existing issues are reopened if needed and (re-)added to the board; new ones are created and added
+  const ensureIssue = (taskId: string, title: string, create: Omit<StepInput<"create-issue">, "taskId" | "title">) => {
+    const issue = findIssue(taskId, title);
+    if (issue) {
+      if (issue.state === "closed") add("reopen-issue", { taskId, issue: issue.number, title });
+      add("project-add", { taskId, title, projectNumber: input.projectNumber, issue: issue.number });
+      return;
+    }
+    add("create-issue", { taskId, title, ...create });
+    add("project-add", { taskId, title, projectNumber: input.projectNumber });
+  };
+
+  for (const task of input.tasks) {
+    if (!task.checked && task.section) {
+      ensureIssue(taskId(task), task.text, {
+        body: `(Auto-created from tracker section: ${task.section})`,
+        labels: [task.section],
+        milestone: task.section,
+        section: task.section,
+        metadata: { trackerSection: task.section },
       });
     }
+    if (input.autoClose && task.checked) {
+      const issue = findIssue(taskId(task), task.text);
+      if (issue && issue.state === "open") add("close-issue", { taskId: taskId(task), issue: issue.number, title: task.text });
+    }
   }
-  // --- 2. Parse fossils/project_status.yml ---
-  const projectStatus = yaml.load(fs.readFileSync(options.projectStatusYmlPath, "utf8")) as any;
-  // --- 3. Ensure milestones exist ---
-  const uniqueSections = Array.from(new Set(tasks.map(t => t.section)));
-  const milestoneIds: Record<string, string> = {};
-  for (const section of uniqueSections) {
-    if (section) {
-      const msId = await ensureMilestone(options.owner, options.repo, section);
-      if (typeof msId === "string" && msId.length > 0) milestoneIds[section] = msId;
+
+  if (input.syncTests && milestones.has(TEST_MILESTONE)) {
+    for (const gap of input.gaps) {
+      ensureIssue(gapTaskId(gap), gapIssueTitle(gap), {
+        body: `(Auto-created for missing ${gap.type} in ${gap.file})`,
+        labels: [gap.type],
+        milestone: TEST_MILESTONE,
+        section: gap.type,
+        metadata: { file: gap.file, name: gap.name, type: gap.type },
+      });
     }
   }
-  // --- 4. Ensure issues exist, assign milestone/labels, add to project board ---
-  for (const task of tasks) {
-    const msId = String(milestoneIds[task.section] || "");
-    if (!task.checked && task.section && msId.length > 0) {
-      await ensureIssue(task, msId, options.owner, options.repo, options.projectNumber);
+
+  // Each plan gets its own id, so a later plan with the same steps is applied afresh
+  const createdAt = new Date().toISOString();
+  const id = createHash("sha256")
+    .update(JSON.stringify({ createdAt, owner: input.owner, repo: input.repo, steps }))
+    .digest("hex")
+    .slice(0, 12);
+  return { id, createdAt, owner: input.owner, repo: input.repo, projectNumber: input.projectNumber, steps };
+}
+
+/**
+ * Give new tracker items an anchor id, writing it back into the tracker file
+ */
+export function anchorTrackerFile(trackerMdPath: string): TrackerTask[] {
+  const { markdown, assigned } = anchorTrackerTasks(fs.readFileSync(trackerMdPath, "utf8"));
+  if (assigned > 0) {
+    fs.writeFileSync(trackerMdPath, markdown);
+    console.log(`🔖 Assigned ${assigned} task id(s) in ${trackerMdPath}`);
+  }
+  return parseTrackerTasks(markdown);
+}
+
+/**
+ * Write the task ids a plan assigned into the tracker file. Ids derive from each item's
+ * section and text, so re-anchoring gives the same ones unless the tracker changed since.
+ */
+export function writeTrackerAnchors(anchors: NonNullable<TrackerSyncPlan["anchors"]>): void {
+  const ids = new Set(anchorTrackerFile(anchors.trackerMdPath).map(task => task.id));
+  const missing = anchors.taskIds.filter(id => !ids.has(id));
+  if (missing.length > 0) {
+    throw new Error(`${anchors.trackerMdPath} changed since the plan was made (task ids ${missing.join(", ")} not found); run the plan command again`);
+  }
+}
+
+/**
+ * Read the tracker and project status files and plan against the live repository. New tracker
+ * items are anchored in memory only; the plan records their ids for apply to write.
+ */
+export async function planTrackerSync(options: SyncTrackerOptions, client: GitHubClient = createGitHubClient(options.owner, options.repo)): Promise<TrackerSyncPlan> {
+  const markdown = fs.readFileSync(options.trackerMdPath, "utf8");
+  const anchored = new Set(parseTrackerTasks(markdown).map(task => task.id));
+  const tasks = parseTrackerTasks(anchorTrackerTasks(markdown).markdown);
+  const taskIds = tasks.map(task => task.id!).filter(id => !anchored.has(id));
+  const projectStatus = yaml.load(fs.readFileSync(options.projectStatusYmlPath, "utf8"));
+  const [milestones, issues] = await Promise.all([client.listMilestones("all"), client.listIssues({ state: "all" })]);
+  const plan = buildTrackerSyncPlan({
+    tasks,
+    gaps: findProjectStatusGaps(projectStatus),
+    milestones,
+    issues,
+    owner: options.owner,
+    repo: options.repo,
+    projectNumber: options.projectNumber,
+    autoClose: options.autoClose,
+    syncTests: options.syncTests,
+  });
+  return taskIds.length > 0 ? { ...plan, anchors: { trackerMdPath: options.trackerMdPath, taskIds } } : plan;
+}
+
+export function formatTrackerSyncPlan(plan: TrackerSyncPlan): string[] {
+  const anchors = plan.anchors ? [`~ write ${plan.anchors.taskIds.length} task id(s) into ${plan.anchors.trackerMdPath}`] : [];
+  return [...anchors, ...plan.steps.map(step => {
+    switch (step.type) {
+      case "create-milestone":
+        return `+ create milestone "${step.title}"`;
+      case "link-issue":
+        return `~ link issue #${step.issue} "${step.title}" to task ${step.taskId}`;
+      case "create-issue":
+        return `+ create issue "${step.title}" (milestone: ${step.milestone}, labels: ${step.labels.join(", ")})`;
+      case "reopen-issue":
+        return `~ reopen issue #${step.issue} "${step.title}"`;
+      case "close-issue":
+        return `- close issue #${step.issue} "${step.title}"`;
+      case "project-add":
+        return `+ add ${step.issue ? `issue #${step.issue}` : `new issue "${step.title}"`} to project ${step.projectNumber}`;
     }
-    if (options.autoClose && task.checked) {
-      await closeIssueByTitle(task.text, options.owner, options.repo);
+  })];
+}
+
+export function saveTrackerSyncPlan(plan: TrackerSyncPlan, planPath: string = DEFAULT_SYNC_PLAN_PATH): void {
+  fs.mkdirSync(path.dirname(planPath), { recursive: true });
+  fs.writeFileSync(planPath, `${JSON.stringify(plan, null, 2)}\n`);
+}
+
+export function loadTrackerSyncPlan(planPath: string = DEFAULT_SYNC_PLAN_PATH): TrackerSyncPlan {
+  if (!fs.existsSync(planPath)) {
+    throw new Error(`No sync plan at ${planPath}; run the plan command first`);
+  }
+  return JSON.parse(fs.readFileSync(planPath, "utf8")) as TrackerSyncPlan;
+}
+
+/**
+ * Board operations through the Projects v2 GraphQL API, for issues of the client's repository
+ */
+export function projectItemsFor(client: GitHubClient): ProjectItemOperations {
+  const boards = new Map<string, { projects: GitHubProjects; items?: Promise<Map<number, ProjectV2Item>> }>();
+  const board = (projectNumber: number, owner: string) => {
+    const key = `${owner}#${projectNumber}`;
+    if (!boards.has(key)) boards.set(key, { projects: new GitHubProjects(client, projectNumber, { projectOwner: owner }) });
+    return boards.get(key)!;
+  };
+  return {
+    add: async (projectNumber, owner, issueUrl) => {
+      const target = board(projectNumber, owner);
+      // addProjectV2ItemById returns the existing item for an issue already on the board
+      target.items ??= target.projects.itemsByIssue();
+      const issue = Number(issueUrl.split("/").pop());
+      const existing = (await target.items).get(issue);
+      if (existing) return { itemId: existing.id, alreadyPresent: true };
+      return { itemId: await target.projects.addIssue(issue) };
+    },
+    remove: (projectNumber, owner, itemId) => board(projectNumber, owner).projects.removeItem(itemId),
+  };
+}
+
+async function createTrackerIssue(step: Extract<TrackerSyncStep, { type: "create-issue" }>, plan: TrackerSyncPlan): Promise<CreatedTrackerIssue | undefined> {
+  const result = await createFossilIssue({
+    owner: plan.owner,
+    repo: plan.repo,
+    title: step.title,
+    body: step.body,
+    labels: step.labels,
+    milestone: step.milestone,
+    section: step.section,
+    tags: ['github', 'issue', step.section],
+    metadata: step.metadata,
+    taskId: step.taskId,
+  });
+  if (!result.issueNumber) return undefined;
+  // A deduplicated fossil was there before the plan, so revert must leave it
+  return { issue: Number(result.issueNumber), ...(result.deduplicated ? {} : { fossilId: result.fossilId }) };
+}
+
+async function removeIssueFossil(fossilId: string, issue: number): Promise<void> {
+  const fossilService = new ContextFossilService();
+  try {
+    await fossilService.deleteEntry(fossilId);
+  } finally {
+    await fossilService.close();
+  }
+  fs.rmSync(path.join("fossils", "issues", `${issue}.md`), { force: true });
+}
+
+/**
+ * Execute a plan step by step, journalling each one, and stop at the first failure since
+ * later steps may depend on it. Steps already done under this plan are skipped, so rerunning
+ * an interrupted or failed apply resumes it. A create that was started before, whether it
+ * died or failed, is looked up by task id before being retried. Task ids the plan assigned
+ * are written into the tracker first.
+ */
+export async function applyTrackerSyncPlan(
+  plan: TrackerSyncPlan,
+  client: GitHubClient,
+  options: TrackerSyncApplyOptions = {}
+): Promise<TrackerSyncRunResult> {
+  if (plan.anchors) writeTrackerAnchors(plan.anchors);
+  const journal = options.journal ?? new SyncJournal<TrackerSyncStep>(DEFAULT_SYNC_JOURNAL_PATH);
+  const createIssue = options.createIssue ?? createTrackerIssue;
+  const projectItems = options.projectItems ?? projectItemsFor(client);
+  const status = journal.status(plan.id);
+  const run: TrackerSyncRunResult = { planId: plan.id, done: [], skipped: [], failed: [] };
+  const createdIssues = new Map<string, number>();
+  // Issues by task id, listed once per run and only if a create is retried
+  let issuesByTaskId: Map<string, GitHubIssue> | undefined;
+  const findIssueByTaskId = async (taskId: string) =>
+    (issuesByTaskId ??= indexIssuesByTaskId(await client.listIssues({ state: "all" }))).get(taskId);
+  for (const [, entry] of status) {
+    if (entry.step?.type === "create-issue" && typeof entry.result?.issue === "number") {
+      createdIssues.set(entry.step.taskId, entry.result.issue);
     }
   }
-  // --- 5. Sync missing tests/fossils from fossils/project_status.yml ---
-  if (options.syncTests && projectStatus && projectStatus.modules) {
-    const testMilestone = String(milestoneIds["Testing & Automation"] || "");
-    for (const moduleKey of Object.keys(projectStatus.modules)) {
-      const module = projectStatus.modules[moduleKey];
-      if (module && Array.isArray(module.files)) {
-        for (const fileObj of module.files) {
-          const fileName = Object.keys(fileObj)[0] || "";
-          const fileData = fileObj[fileName];
-          if (!fileData) continue;
-          // Missing tests
-          if (Array.isArray(fileData.functions) && typeof fileData.tests === "undefined" && testMilestone.length > 0) {
-            for (const func of fileData.functions) {
-              await ensureTestOrFossilIssue({ type: "test", name: func, file: fileName }, testMilestone, options.owner, options.repo, options.projectNumber);
-            }
-          }
-          // Missing fossilization
-          if (typeof fileData.fossilized_output === "boolean" && fileData.fossilized_output === false && testMilestone.length > 0) {
-            await ensureTestOrFossilIssue({ type: "fossilization", name: fileName, file: fileName }, testMilestone, options.owner, options.repo, options.projectNumber);
-          }
+
+  for (const step of plan.steps) {
+    const previous = status.get(step.id);
+    if (previous?.event === "done" || previous?.event === "reverted") {
+      run.skipped.push(step.id);
+      continue;
+    }
+    const attempted = previous !== undefined;
+    journal.append({ planId: plan.id, stepId: step.id, event: "start", step });
+    try {
+      let result: Record<string, unknown> = {};
+      switch (step.type) {
+        case "create-milestone": {
+          const existing = attempted ? await client.findMilestone(step.title) : null;
+          const milestone = existing ?? await client.createMilestone({ title: step.title, description: "Auto-created from tracker" });
+          result = { milestone: milestone.number };
+          console.log(existing ? `🔎 Found milestone from an earlier attempt: ${step.title}` : `🆕 Created milestone: ${step.title}`);
+          break;
+        }
+        case "link-issue": {
+          const { body } = await client.getIssue(step.issue);
+          await client.updateIssue(step.issue, { body: withTaskIdFooter(body ?? "", step.taskId) });
+          result = { issue: step.issue };
+          console.log(`🔗 Linked issue #${step.issue} to task ${step.taskId}`);
+          break;
+        }
+        case "create-issue": {
+          const existing = attempted ? await findIssueByTaskId(step.taskId) : undefined;
+          const created = existing ? { issue: existing.number } : await createIssue(step, plan);
+          if (created === undefined) throw new Error("No issue number returned");
+          const { issue, fossilId } = created;
+          createdIssues.set(step.taskId, issue);
+          result = { issue, ...(fossilId ? { fossilId } : {}) };
+          console.log(existing ? `🔎 Found issue #${issue} from an earlier attempt: ${step.title}` : `🆕 Created issue #${issue}: ${step.title}`);
+          break;
+        }
+        case "reopen-issue":
+          await client.reopenIssue(step.issue);
+          console.log(`🔄 Reopened issue #${step.issue}`);
+          break;
+        case "close-issue":
+          await client.closeIssue(step.issue);
+          console.log(`✅ Closed issue #${step.issue} for checked-off item: ${step.title}`);
+          break;
+        case "project-add": {
+          const issue = step.issue ?? createdIssues.get(step.taskId);
+          if (issue === undefined) throw new Error(`No issue number for "${step.title}"`);
+          const { itemId, alreadyPresent } = await projectItems.add(step.projectNumber, plan.owner, `https://github.com/${plan.owner}/${plan.repo}/issues/${issue}`);
+          result = { issue, itemId, ...(alreadyPresent ? { alreadyPresent } : {}) };
+          console.log(alreadyPresent ? `📋 Issue #${issue} already on project board` : `📋 Added issue #${issue} to project board`);
+          break;
         }
       }
+      journal.append({ planId: plan.id, stepId: step.id, event: "done", result });
+      run.done.push(step.id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      journal.append({ planId: plan.id, stepId: step.id, event: "failed", error: message });
+      run.failed.push({ stepId: step.id, error: message });
+      console.error(`❌ ${step.id} failed: ${message}`);
+      break;
     }
   }
+  return run;
+}
+
+/**
+ * Undo the completed steps of a plan, newest first: created issues are closed as not
+ * planned and their fossils removed, created milestones deleted, linked issues get their old body back, reopened issues closed again, closed issues
+ * reopened and project items removed, unless the issue was on the board before the plan.
+ * Task ids written into the tracker stay, since later plans match issues by them.
+ */
+export async function revertTrackerSync(
+  planId: string,
+  client: GitHubClient,
+  options: TrackerSyncRevertOptions
+): Promise<TrackerSyncRunResult> {
+  const journal = options.journal ?? new SyncJournal<TrackerSyncStep>(DEFAULT_SYNC_JOURNAL_PATH);
+  const projectItems = options.projectItems ?? projectItemsFor(client);
+  const removeFossil = options.removeFossil ?? removeIssueFossil;
+  const run: TrackerSyncRunResult = { planId, done: [], skipped: [], failed: [] };
+  const completed = [...journal.status(planId)].filter(([, entry]) => entry.event === "done").reverse();
+
+  for (const [stepId, { step, result = {} }] of completed) {
+    if (!step) {
+      run.skipped.push(stepId);
+      continue;
+    }
+    try {
+      switch (step.type) {
+        case "create-milestone":
+          await client.deleteMilestone(result.milestone as number);
+          break;
+        case "link-issue":
+          // From the plan, not the journal: a retried step reads a body that already has the footer
+          await client.updateIssue(step.issue, { body: step.body });
+          break;
+        case "create-issue":
+          await client.updateIssue(result.issue as number, { state: "closed", state_reason: "not_planned" });
+          if (typeof result.fossilId === "string") await removeFossil(result.fossilId, result.issue as number);
+          break;
+        case "reopen-issue":
+          await client.updateIssue(step.issue, { state: "closed", state_reason: "completed" });
+          break;
+        case "close-issue":
+          await client.reopenIssue(step.issue);
+          break;
+        case "project-add":
+          if (result.alreadyPresent || typeof result.itemId !== "string") {
+            run.skipped.push(stepId);
+            continue;
+          }
+          await projectItems.remove(step.projectNumber, options.owner, result.itemId);
+          break;
+      }
+      journal.append({ planId, stepId, event: "reverted" });
+      run.done.push(stepId);
+      console.log(`↩️ Reverted ${stepId}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      run.failed.push({ stepId, error: message });
+      console.error(`❌ Could not revert ${stepId}: ${message}`);
+    }
+  }
+  return run;
+}
+
+/**
+ * Anchor every tracker item and write its id into the footer of the existing issue with the
+ * same title, for issues created before task ids existed. With `projectStatusYmlPath`, the
+ * issues filed for missing tests and fossilizations are linked too.
+ */
+export async function migrateTrackerTaskIds(
+  options: Pick<SyncTrackerOptions, "trackerMdPath" | "owner" | "repo"> & Partial<Pick<SyncTrackerOptions, "projectStatusYmlPath">>,
+  client: GitHubClient = createGitHubClient(options.owner, options.repo),
+  migrateOptions: { dryRun?: boolean } = {}
+): Promise<TaskLinkMigration> {
+  const tasks = migrateOptions.dryRun
+    ? parseTrackerTasks(anchorTrackerTasks(fs.readFileSync(options.trackerMdPath, "utf8")).markdown)
+    : anchorTrackerFile(options.trackerMdPath);
+  const gaps = options.projectStatusYmlPath
+    ? findProjectStatusGaps(yaml.load(fs.readFileSync(options.projectStatusYmlPath, "utf8")))
+    : [];
+  const issues = await client.listIssues({ state: "all" });
+  return linkExistingIssues(
+    [
+      ...tasks.map(task => ({ id: task.id!, title: task.text })),
+      ...gaps.map(gap => ({ id: gapTaskId(gap), title: gapIssueTitle(gap) })),
+    ],
+    issues,
+    client,
+    migrateOptions
+  );
+}
+
+/**
+ * Plan and immediately apply a tracker sync
+ */
+export async function syncTrackerWithGitHub(options: SyncTrackerOptions): Promise<TrackerSyncRunResult | undefined> {
+  if (isTestMode(options)) {
+    console.log('[MOCK] syncTrackerWithGitHub called');
+    return;
+  }
+  const client = createGitHubClient(options.owner, options.repo);
+  const plan = await planTrackerSync(options, client);
+  const result = await applyTrackerSyncPlan(plan, client, {
+    journal: new SyncJournal<TrackerSyncStep>(options.journalPath ?? DEFAULT_SYNC_JOURNAL_PATH),
+  });
   console.log("Sync complete!");
-} 
\ No newline at end of file
+  return result;
+}
@@ -0,0 +1,198 @@
+/**
+ * Stable task ids linking tracker/roadmap tasks to GitHub issues
+ * @module utils/taskAnchor
+ */
+
+import { createHash } from 'crypto';
+import type { E2ERoadmap, GitHubIssue } from '../types';
+import type { GitHubClient } from '../services/github-client';
+
+const MARKDOWN_ANCHOR = /\s*<!--\s*task-id:\s*([\w-]+)\s*-->\s*$/;
+/** Separator before the `Key: value` footer that ends fossil-backed issue bodies */
+const FOOTER_SEPARATOR = '---\n';
+const FOOTER_KEY = /^[^:\n]+:/;
+const FOOTER_LINE = /^Task ID:\s*([\w-]+)\s*$/m;
+const CHECKLIST_ITEM = /^- \[[ xX]\] (.+)$/;
+
+/**
+ * Derive a new task id from the text the task was first seen with. The id is written back
+ * next to the task, so later renames keep it; `taken` guards against duplicate task text.
+ */
+export function createTaskId(seed: string, taken: Set<string> = new Set()): string {
+  for (let attempt = 0; ; attempt++) {
+    const id = `t-${createHash('sha256').update(attempt === 0 ? seed : `${seed}#${attempt}`).digest('hex').slice(0, 8)}`;
+    if (!taken.has(id)) {
+      taken.add(id);
+      return id;
+    }
+  }
+}
+
+/**
+ * HTML comment appended to a checklist line; GitHub does not render it
+ */
+export function formatTaskAnchor(id: string): string {
+  return `<!-- task-id: ${id} -->`;
+}
+
+/**
+ * Separate a checklist item's text from its trailing anchor comment
+ */
+export function splitTaskAnchor(text: string): { text: string; id?: string } {
+  const match = text.match(MARKDOWN_ANCHOR);
+  if (!match) return { text };
+  return { text: text.slice(0, match.index).trimEnd(), id: match[1] };
+}
+
+/**
+ * Lines of the trailing `---` footer of a (trimmed) body and where they start, or null
+ * when the body does not end in one
+ */
+function findFooter(trimmed: string): { start: number; lines: string } | null {
+  // Issue bodies are user-controlled: scan line by line rather than with a backtracking regex
+  const separator = trimmed.lastIndexOf(`\n${FOOTER_SEPARATOR}`);
+  let start: number;
+  if (separator !== -1) {
+    start = separator + 1 + FOOTER_SEPARATOR.length;
+  } else if (trimmed.startsWith(FOOTER_SEPARATOR)) {
+    start = FOOTER_SEPARATOR.length;
+  } else {
+    return null;
+  }
+  const lines = trimmed.slice(start);
+  if (!lines || !lines.split('\n').every(line => FOOTER_KEY.test(line))) return null;
+  return { start, lines };
+}
+
+/**
+ * Task id recorded in an issue body's fossil footer. A `Task ID:` line anywhere else in
+ * the body is content, not a link.
+ */
+export function extractTaskId(body?: string | null): string | undefined {
+  if (!body) return undefined;
+  return findFooter(body.trimEnd())?.lines.match(FOOTER_LINE)?.[1];
+}
+
+/**
+ * Record a task id in the issue body's fossil footer, replacing any id already there
+ */
+export function withTaskIdFooter(body: string, id: string): string {
+  const line = `Task ID: ${id}`;
+  const trimmed = body.trimEnd();
+  // Fossil-backed issues already end in a `---` footer (see createFossilIssue)
+  const footer = findFooter(trimmed);
+  if (!footer) return trimmed ? `${trimmed}\n\n---\n${line}` : `---\n${line}`;
+  const lines = FOOTER_LINE.test(footer.lines) ? footer.lines.replace(FOOTER_LINE, line) : `${footer.lines}\n${line}`;
+  return `${trimmed.slice(0, footer.start)}${lines}`;
+}
+
+export function indexIssuesByTaskId(issues: GitHubIssue[]): Map<string, GitHubIssue> {
+  const byId = new Map<string, GitHubIssue>();
+  for (const issue of issues) {
+    const id = extractTaskId(issue.body);
+    if (id && !byId.has(id)) byId.set(id, issue);
+  }
+  return byId;
+}
+
+/**
+ * Give every checklist item in the tracker markdown an anchor comment
+ * @returns The rewritten markdown and how many ids were assigned
+ */
+export function anchorTrackerTasks(markdown: string): { markdown: string; assigned: number } {
+  const lines = markdown.split('\n');
+  const taken = new Set<string>();
+  for (const line of lines) {
+    const id = splitTaskAnchor(line).id;
+    if (id && CHECKLIST_ITEM.test(line)) taken.add(id);
+  }
+
+  let section = '';
+  let assigned = 0;
+  const anchored = lines.map(line => {
+    const heading = line.match(/^### (.+)$/);
+    if (heading) {
+      section = heading[1] || '';
+      return line;
+    }
+    const item = line.match(CHECKLIST_ITEM);
+    if (!item || splitTaskAnchor(line).id) return line;
+    assigned++;
+    return `${line.trimEnd()} ${formatTaskAnchor(createTaskId(`${section}\n${item[1]}`, taken))}`;
+  });
+  return { markdown: anchored.join('\n'), assigned };
+}
+
+/**
+ * Give every top-level roadmap task an `id`
+ * @returns How many ids were assigned
+ */
+export function anchorRoadmapTasks(roadmap: E2ERoadmap): number {
+  const taken = new Set(roadmap.tasks.map(task => task.id).filter((id): id is string => Boolean(id)));
+  let assigned = 0;
+  for (const task of roadmap.tasks) {
+    if (task.id) continue;
+    task.id = createTaskId(task.task, taken);
+    assigned++;
+  }
+  return assigned;
+}
+
+export interface AnchorCandidate {
+  id: string;
+  title: string;
+  /** Issue the task already links to; otherwise the issue is found by exact title */
+  issue?: number;
+}
+
+export interface TaskLinkMigration {
+  linked: Array<{ id: string; title: string; issue: number }>;
+  /** Tasks whose title matches more than one unanchored issue; left for a human to link */
+  ambiguous: Array<{ id: string; title: string; issues: number[] }>;
+}
+
+/**
+ * One-off migration for issues created before task ids existed: write each task's id into
+ * the footer of the issue it links to, or of the single issue with its exact title.
+ * Issues that already carry an id are left alone.
+ */
+export async function linkExistingIssues(
+  tasks: AnchorCandidate[],
+  issues: GitHubIssue[],
+  client: GitHubClient,
+  options: { dryRun?: boolean } = {}
+): Promise<TaskLinkMigration> {
+  const migration: TaskLinkMigration = { linked: [], ambiguous: [] };
+  const anchored = indexIssuesByTaskId(issues);
+  const unanchored = issues.filter(issue => !extractTaskId(issue.body));
+
+  for (const task of tasks) {
+    if (anchored.has(task.id)) continue;
+    const candidates = task.issue !== undefined
+      ? unanchored.filter(issue => issue.number === task.issue)
+      : unanchored.filter(issue => issue.title.trim() === task.title.trim());
+    if (candidates.length > 1) {
+      migration.ambiguous.push({ id: task.id, title: task.title, issues: candidates.map(issue => issue.number) });
+      continue;
+    }
+    const issue = candidates[0];
+    if (!issue) continue;
+
+    if (!options.dryRun) {
+      const body = withTaskIdFooter(issue.body ?? '', task.id);
+      await client.updateIssue(issue.number, { body });
+      issue.body = body;
+    }
+    anchored.set(task.id, issue);
+    unanchored.splice(unanchored.indexOf(issue), 1);
+    migration.linked.push({ id: task.id, title: task.title, issue: issue.number });
+  }
+  return migration;
+}
+
+export function formatTaskLinkMigration(migration: TaskLinkMigration): string[] {
+  return [
+    ...migration.linked.map(link => `🔗 #${link.issue} ← ${link.id} "${link.title}"`),
+    ...migration.ambiguous.map(task => `⚠️ "${task.title}" (${task.id}) matches issues ${task.issues.map(n => `#${n}`).join(', ')}; add the footer line "Task ID: ${task.id}" to the right one`),
+  ];
+}
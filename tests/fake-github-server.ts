@@ -0,0 +1,265 @@
+/**
+ * In-process fake of the GitHub REST and GraphQL APIs for a single repository.
+ * Supports `Link` pagination, ETags with `If-None-Match`, rate-limit headers and a
+ * `/search/issues` that understands `is:`, `in:title` and quoted title phrases.
+ */
+
+export interface FakeIssue {
+  number: number;
+  title: string;
+  body: string | null;
+  state: 'open' | 'closed';
+  state_reason?: string | null;
+  labels: string[];
+  assignees: string[];
+  milestone: number | null;
+  created_at: string;
+  updated_at: string;
+  pull_request?: { url: string };
+}
+
+export interface FakeMilestone {
+  number: number;
+  title: string;
+  description: string | null;
+  state: 'open' | 'closed';
+  due_on: string | null;
+}
+
+export interface FakeGitHubRequest {
+  method: string;
+  path: string;
+  search: string;
+  ifNoneMatch: string | null;
+  authorization: string | null;
+  body?: any;
+}
+
+export function startFakeGitHub(owner = 'octo', repo = 'widgets') {
+  const state = {
+    issues: [] as FakeIssue[],
+    labels: [] as Array<{ name: string; color: string; description: string | null }>,
+    milestones: [] as FakeMilestone[],
+    comments: [] as Array<{ id: number; issue: number; body: string }>,
+    requests: [] as FakeGitHubRequest[],
+    rateLimit: { limit: 5000, remaining: 5000, reset: Math.floor(Date.now() / 1000) + 3600 },
+    /** Responses served before any routing, e.g. a secondary rate limit */
+    queued: [] as Array<{ status: number; headers?: Record<string, string>; body?: unknown }>,
+    graphql: (query: string, variables: Record<string, unknown>): { data?: unknown; errors?: Array<{ message: string }> } =>
+      ({ errors: [{ message: `No GraphQL handler for ${query}` }] }),
+    /** Page size cap, so tests can paginate small lists */
+    maxPerPage: 100,
+    clock: Date.parse('2025-07-14T10:00:00.000Z'),
+  };
+
+  const repoPath = `/repos/${owner}/${repo}`;
+  const now = () => new Date(state.clock++).toISOString();
+  const issueJson = (issue: FakeIssue) => ({
+    ...issue,
+    labels: issue.labels.map(name => ({ name })),
+    assignees: issue.assignees.map(login => ({ login })),
+    milestone: state.milestones.find(milestone => milestone.number === issue.milestone) ?? null,
+  });
+
+  const rateHeaders = () => ({
+    'x-ratelimit-limit': String(state.rateLimit.limit),
+    'x-ratelimit-remaining': String(state.rateLimit.remaining),
+    'x-ratelimit-reset': String(state.rateLimit.reset),
+  });
+
+  const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json', ...headers } });
+
+  function list(request: Request, url: URL, items: unknown[], wrap: (page: unknown[]) => unknown = page => page): Response {
+    const perPage = Math.min(Number(url.searchParams.get('per_page') ?? 30), state.maxPerPage);
+    const page = Number(url.searchParams.get('page') ?? 1);
+    const body = items.slice((page - 1) * perPage, page * perPage);
+    const headers: Record<string, string> = {};
+    if (page * perPage < items.length) {
+      const next = new URL(url);
+      next.searchParams.set('page', String(page + 1));
+      headers.link = `<${next}>; rel="next"`;
+    }
+    return conditional(request, wrap(body), headers);
+  }
+
+  function searchIssues(request: Request, url: URL): Response {
+    const q = url.searchParams.get('q') ?? '';
+    const words = (text: string) => text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+    const phrase = words(q.match(/"([^"]*)"/)?.[1] ?? '');
+    const qualifiers = q.replace(/"[^"]*"/g, ' ').split(/\s+/);
+    const issues = state.issues.filter(issue =>
+      qualifiers.every(qualifier => qualifier !== 'is:open' && qualifier !== 'is:closed' || qualifier === `is:${issue.state}`)
+      && (!qualifiers.includes('is:issue') || !issue.pull_request)
+      && phrase.every(word => words(issue.title).includes(word)));
+    return list(request, url, issues.map(issueJson), items => ({ total_count: issues.length, incomplete_results: false, items }));
+  }
+
+  function conditional(request: Request, body: unknown, headers: Record<string, string> = {}): Response {
+    const etag = `"${Bun.hash(JSON.stringify(body)).toString(16)}"`;
+    if (request.headers.get('if-none-match') === etag) {
+      return new Response(null, { status: 304, headers: { etag, ...rateHeaders() } });
+    }
+    state.rateLimit.remaining--;
+    return json(200, body, { etag, ...headers, ...rateHeaders() });
+  }
+
+  function route(request: Request, url: URL, body: any): Response {
+    const { pathname } = url;
+    const method = request.method;
+
+    if (pathname === '/graphql' && method === 'POST') {
+      state.rateLimit.remaining--;
+      return json(200, state.graphql(body.query, body.variables ?? {}), rateHeaders());
+    }
+    if (pathname === '/search/issues' && method === 'GET') return searchIssues(request, url);
+    if (!pathname.startsWith(repoPath)) return json(404, { message: 'Not Found' });
+    const rest = pathname.slice(repoPath.length);
+
+    if (rest === '' && method === 'GET') {
+      return conditional(request, {
+        name: repo,
+        full_name: `${owner}/${repo}`,
+        description: 'Fake repository',
+        html_url: `https://github.com/${owner}/${repo}`,
+        default_branch: 'main',
+        open_issues_count: state.issues.filter(issue => issue.state === 'open').length,
+        created_at: '2025-01-01T00:00:00Z',
+        updated_at: '2025-07-01T00:00:00Z',
+      });
+    }
+
+    if (rest === '/issues' && method === 'GET') {
+      const wantedState = url.searchParams.get('state') ?? 'open';
+      const labels = url.searchParams.get('labels')?.split(',') ?? [];
+      const milestone = url.searchParams.get('milestone');
+      const issues = state.issues.filter(issue =>
+        (wantedState === 'all' || issue.state === wantedState)
+        && labels.every(label => issue.labels.includes(label))
+        && (!milestone || String(issue.milestone) === milestone));
+      return list(request, url, issues.map(issueJson));
+    }
+
+    if (rest === '/issues' && method === 'POST') {
+      if (body.milestone !== undefined && !state.milestones.some(milestone => milestone.number === body.milestone)) {
+        return json(422, { message: 'Validation Failed', errors: [{ field: 'milestone', code: 'invalid' }] });
+      }
+      const timestamp = now();
+      const issue: FakeIssue = {
+        number: state.issues.length + 1,
+        title: body.title,
+        body: body.body ?? null,
+        state: 'open',
+        labels: body.labels ?? [],
+        assignees: body.assignees ?? [],
+        milestone: body.milestone ?? null,
+        created_at: timestamp,
+        updated_at: timestamp,
+      };
+      state.issues.push(issue);
+      return json(201, issueJson(issue), rateHeaders());
+    }
+
+    const issueMatch = rest.match(/^\/issues\/(\d+)(\/comments)?$/);
+    if (issueMatch) {
+      const issue = state.issues.find(candidate => candidate.number === Number(issueMatch[1]));
+      if (!issue) return json(404, { message: 'Not Found' });
+      if (issueMatch[2] && method === 'POST') {
+        const comment = { id: state.comments.length + 1, issue: issue.number, body: body.body };
+        state.comments.push(comment);
+        return json(201, { id: comment.id, body: comment.body, html_url: `https://github.com/${owner}/${repo}/issues/${issue.number}#issuecomment-${comment.id}` });
+      }
+      if (method === 'PATCH') {
+        Object.assign(issue, body, { updated_at: now() });
+        return json(200, issueJson(issue), rateHeaders());
+      }
+      return conditional(request, issueJson(issue));
+    }
+
+    if (rest === '/labels') {
+      if (method === 'GET') return list(request, url, state.labels);
+      if (state.labels.some(label => label.name === body.name)) {
+        return json(422, { message: 'Validation Failed', errors: [{ resource: 'Label', code: 'already_exists', field: 'name' }] });
+      }
+      const label = { name: body.name, color: body.color, description: body.description ?? null };
+      state.labels.push(label);
+      return json(201, label);
+    }
+
+    if (rest === '/milestones') {
+      if (method === 'GET') {
+        const wantedState = url.searchParams.get('state') ?? 'open';
+        return list(request, url, state.milestones.filter(milestone => wantedState === 'all' || milestone.state === wantedState));
+      }
+      const milestone: FakeMilestone = {
+        number: state.milestones.length + 1,
+        title: body.title,
+        description: body.description ?? null,
+        state: 'open',
+        due_on: body.due_on ?? null,
+      };
+      state.milestones.push(milestone);
+      return json(201, milestone);
+    }
+
+    const milestoneMatch = rest.match(/^\/milestones\/(\d+)$/);
+    if (milestoneMatch && method === 'DELETE') {
+      const index = state.milestones.findIndex(milestone => milestone.number === Number(milestoneMatch[1]));
+      if (index === -1) return json(404, { message: 'Not Found' });
+      state.milestones.splice(index, 1);
+      return new Response(null, { status: 204, headers: rateHeaders() });
+    }
+
+    return json(404, { message: 'Not Found' });
+  }
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const url = new URL(request.url);
+      const text = await request.text();
+      const body = text ? JSON.parse(text) : undefined;
+      state.requests.push({
+        method: request.method,
+        path: url.pathname,
+        search: url.search,
+        ifNoneMatch: request.headers.get('if-none-match'),
+        authorization: request.headers.get('authorization'),
+        body,
+      });
+
+      const queued = state.queued.shift();
+      if (queued) return json(queued.status, queued.body ?? { message: 'queued' }, queued.headers);
+      if (state.rateLimit.remaining <= 0) {
+        return json(403, { message: 'API rate limit exceeded' }, rateHeaders());
+      }
+      return route(request, url, body);
+    },
+  });
+
+  return { server, state, baseUrl: `http://localhost:${server.port}` };
+}
+
+/** One GraphQL exchange captured from the real API */
+export interface RecordedGraphQLExchange {
+  operation: string;
+  /** Variables the request must carry for this response; omitted ones match anything */
+  variables?: Record<string, unknown>;
+  response: { data?: unknown; errors?: Array<{ message: string }> };
+}
+
+/**
+ * GraphQL handler replaying recorded exchanges by operation name and variables. Every
+ * call is kept in `calls`, so tests can assert on the mutations that were sent.
+ */
+export function replayGraphQL(recording: RecordedGraphQLExchange[]) {
+  const calls: Array<{ operation: string; variables: Record<string, unknown> }> = [];
+  const handler = (query: string, variables: Record<string, unknown>) => {
+    const operation = query.match(/^\s*(?:query|mutation)\s+(\w+)/)?.[1] ?? '';
+    calls.push({ operation, variables });
+    const exchange = recording.find(candidate => candidate.operation === operation
+      && Object.entries(candidate.variables ?? {}).every(([key, value]) => JSON.stringify(variables[key]) === JSON.stringify(value)));
+    return exchange?.response ?? { errors: [{ message: `No recorded ${operation} for ${JSON.stringify(variables)}` }] };
+  };
+  return { handler, calls };
+}
@@ -1,5 +1,8 @@
 import { test, expect } from "bun:test";
+import path from "path";
 import { LLMPlanningService } from "../../../src/cli/llm-plan";
+import { LLMService } from "../../../src/services/llm";
+import type { ContextEntry } from "../../../src/types";
 import { mockCallOpenAIChat } from "../../test-mocks";
 
 test("decomposeGoal returns structured breakdown", async () => {
@@ -7,4 +10,47 @@ test("decomposeGoal returns structured breakdown", async () => {
   const result = await service.decomposeGoal("Test goal");
   expect(result).toHaveProperty("tasks");
   expect(Array.isArray(result.tasks)).toBe(true);
-}); 
\ No newline at end of file
+});
+
+test("decomposeGoal validates a recorded LLM breakdown", async () => {
+  const service = new LLMPlanningService("gpt-4o-mini", "test-key", undefined, new LLMService({
+    maxCostPerCall: 0.15,
+    minValueScore: 0.6,
+    memoryOnly: true,
+    replay: { mode: "replay", dir: path.join(process.cwd(), "tests/fixtures/llm") },
+  }));
+
+  const result = await service.decomposeGoal("Add a dark mode toggle to the settings page");
+  expect(result.tasks.map(task => task.id)).toEqual(["task-1", "task-2", "task-3"]);
+  expect(result.tasks[1]!.dependencies).toEqual(["task-1"]);
+  expect(result.timeline.milestones).toHaveLength(1);
+  expect(service.promptsUsed).toEqual([{ id: "goal-decomposition", version: 1 }]);
+});
+
+test("fossilizeResult records the prompt templates behind a plan", async () => {
+  const service = new LLMPlanningService("gpt-4o-mini", "test-key", undefined, new LLMService({
+    maxCostPerCall: 0.15,
+    minValueScore: 0.6,
+    memoryOnly: true,
+    replay: { mode: "replay", dir: path.join(process.cwd(), "tests/fixtures/llm") },
+  }));
+  const breakdown = await service.decomposeGoal("Add a dark mode toggle to the settings page");
+  const added: Array<Omit<ContextEntry, "id" | "createdAt" | "updatedAt">> = [];
+  const fossilService = {
+    initialize: async () => {},
+    addEntry: async (entry: Omit<ContextEntry, "id" | "createdAt" | "updatedAt">) => {
+      added.push(entry);
+      return { ...entry, id: "fossil-1", createdAt: "", updatedAt: "" };
+    },
+  };
+
+  await service.fossilizeResult(fossilService, {
+    type: "plan",
+    title: "LLM Plan - dark mode",
+    content: JSON.stringify(breakdown),
+    tags: ["plan"],
+  });
+  expect(added).toHaveLength(1);
+  expect(added[0]).toMatchObject({ type: "plan", source: "llm", tags: ["llm-plan", "plan"] });
+  expect(added[0]!.metadata.promptTemplates).toEqual([{ id: "goal-decomposition", version: 1 }]);
+});
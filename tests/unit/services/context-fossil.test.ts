@@ -0,0 +1,389 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ContextFossilService } from '../../../src/cli/context-fossil';
+import { createHashingEmbedder } from '../../../src/services/embeddings';
+import type { ContextEntry } from '../../../src/types';
+
+const record = (overrides: Partial<ContextEntry> = {}): Record<string, unknown> => ({
+  id: 'fossil_bun',
+  type: 'decision',
+  title: 'Use Bun',
+  content: 'Bun is the runtime for every script.',
+  tags: ['runtime'],
+  metadata: { owner: 'infra' },
+  source: 'manual',
+  version: 1,
+  children: [],
+  createdAt: '2025-07-01T00:00:00.000Z',
+  updatedAt: '2025-07-02T00:00:00.000Z',
+  ...overrides,
+});
+
+let fossilDir: string;
+let service: ContextFossilService;
+
+beforeEach(async () => {
+  fossilDir = await fs.mkdtemp(path.join(os.tmpdir(), 'context-fossil-'));
+  service = new ContextFossilService({ fossilDir, test: true });
+  await service.initialize();
+});
+
+afterEach(async () => {
+  await service.close();
+  await fs.rm(fossilDir, { recursive: true, force: true });
+});
+
+describe('ContextFossilService.importEntries', () => {
+  beforeEach(async () => {
+    await service.importEntries([record()]);
+  });
+
+  it('reports a record identical to the stored entry as unchanged, ignoring derived metadata', async () => {
+    const stored = await service.getEntry('fossil_bun');
+    expect(stored!.metadata.contentHash).toBeDefined();
+    expect(stored!.metadata.minhash).toBeDefined();
+
+    const report = await service.importEntries([record()], { strategy: 'overwrite' });
+    expect(report.results[0]).toMatchObject({ action: 'unchanged', changedFields: [] });
+  });
+
+  it('treats a metadata-only change as a change', async () => {
+    const report = await service.importEntries([record({ metadata: { owner: 'platform' } })], { strategy: 'overwrite' });
+    expect(report.results[0]).toMatchObject({ action: 'overwrite', changedFields: ['metadata'] });
+    expect((await service.getEntry('fossil_bun'))!.metadata.owner).toBe('platform');
+  });
+
+  it('skip keeps the existing entry', async () => {
+    const report = await service.importEntries([record({ content: 'Node is the runtime.' })]);
+    expect(report.strategy).toBe('skip');
+    expect(report.results[0]).toMatchObject({ action: 'skip', changedFields: ['content'], reason: 'entry already exists' });
+    expect((await service.getEntry('fossil_bun'))!.content).toBe('Bun is the runtime for every script.');
+  });
+
+  it('overwrite replaces the entry and re-signs its content hash', async () => {
+    const before = await service.getEntry('fossil_bun');
+    const report = await service.importEntries([record({ content: 'Node is the runtime.', tags: ['node'] })], { strategy: 'overwrite' });
+    expect(report.counts.overwrite).toBe(1);
+    expect(report.results[0]!.changedFields).toEqual(['content', 'tags']);
+
+    const after = await service.getEntry('fossil_bun');
+    expect(after).toMatchObject({ content: 'Node is the runtime.', tags: ['node'], version: 1 });
+    expect(after!.metadata.contentHash).not.toBe(before!.metadata.contentHash);
+    expect((await service.searchEntries({ search: 'node', limit: 10, offset: 0 })).map(result => result.entry.id)).toEqual(['fossil_bun']);
+  });
+
+  it('newest-wins only replaces the entry with a later record', async () => {
+    const older = await service.importEntries(
+      [record({ content: 'Stale content.', updatedAt: '2025-07-01T12:00:00.000Z' })],
+      { strategy: 'newest-wins' }
+    );
+    expect(older.results[0]).toMatchObject({ action: 'skip', reason: 'existing entry is newer (2025-07-02T00:00:00.000Z)' });
+    expect((await service.getEntry('fossil_bun'))!.content).toBe('Bun is the runtime for every script.');
+
+    const newer = await service.importEntries(
+      [record({ content: 'Fresh content.', updatedAt: '2025-07-03T00:00:00.000Z' })],
+      { strategy: 'newest-wins' }
+    );
+    expect(newer.results[0]!.action).toBe('overwrite');
+    expect((await service.getEntry('fossil_bun'))!.content).toBe('Fresh content.');
+  });
+
+  it('version-bump applies the record as a new version and keeps the old one in history', async () => {
+    const report = await service.importEntries([record({ content: 'Node is the runtime.', metadata: { reviewer: 'ops' } })], { strategy: 'version-bump' });
+    expect(report.results[0]).toMatchObject({ action: 'version-bump', targetId: 'fossil_bun' });
+
+    const bumped = await service.getEntry('fossil_bun');
+    expect(bumped).toMatchObject({ content: 'Node is the runtime.', version: 2 });
+    expect(bumped!.metadata).toMatchObject({ owner: 'infra', reviewer: 'ops' });
+    expect(bumped!.previousVersions!.map(version => version.content)).toEqual(['Bun is the runtime for every script.']);
+  });
+
+  it('version-bump matches a record with a new id by content hash', async () => {
+    const report = await service.importEntries([record({ id: 'fossil_copy', tags: ['runtime', 'bun'] })], { strategy: 'version-bump' });
+    expect(report.results[0]).toMatchObject({ id: 'fossil_copy', action: 'version-bump', targetId: 'fossil_bun', changedFields: ['tags'] });
+
+    expect(await service.getEntry('fossil_copy')).toBeNull();
+    expect(await service.getEntry('fossil_bun')).toMatchObject({ tags: ['runtime', 'bun'], version: 2 });
+  });
+
+  it('dry-run reports every action without writing', async () => {
+    const report = await service.importEntries(
+      [record({ content: 'Node is the runtime.' }), record({ id: 'fossil_new', title: 'Use Zod', content: 'Zod validates input.' })],
+      { strategy: 'overwrite', dryRun: true }
+    );
+    expect(report.dryRun).toBe(true);
+    expect(report.results.map(result => result.action)).toEqual(['overwrite', 'add']);
+    expect((await service.getEntry('fossil_bun'))!.content).toBe('Bun is the runtime for every script.');
+    expect(await service.getEntry('fossil_new')).toBeNull();
+  });
+});
+
+describe('ContextFossilService snapshots', () => {
+  const pipeline = 'The deployment pipeline runs integration tests against staging before promoting builds to production.';
+  const budget = 'Quarterly marketing calendar and budget review with the finance team.';
+  const add = (title: string, content: string) =>
+    service.addEntry({ type: 'knowledge', title, content, tags: [], metadata: {}, source: 'manual', version: 1, children: [] });
+  const setSnapshotTimestamp = async (id: string, timestamp: string) => {
+    const file = path.join(fossilDir, 'snapshots', id, 'metadata.json');
+    await fs.writeFile(file, JSON.stringify({ ...JSON.parse(await fs.readFile(file, 'utf8')), timestamp }));
+  };
+
+  it('restores entries, edges and every index after the store was changed, backing up the current state first', async () => {
+    const deploy = await add('Deploy pipeline', pipeline);
+    const runbook = await add('Runbook', 'Rollback steps for the payments service.');
+    await service.addRelationship(runbook.id, deploy.id, 'depends-on');
+    const snapshot = await service.createSnapshot('baseline');
+    expect(snapshot.entryCount).toBe(2);
+
+    await add('Budget', budget);
+    await service.updateEntry(deploy.id, { content: 'Release trains ship every second Tuesday.' });
+    await service.removeRelationship(runbook.id, deploy.id, 'depends-on');
+
+    const { restored, backupId } = await service.restoreSnapshot(snapshot.id);
+    expect(restored).toBe(2);
+    expect((await service.listSnapshots()).find(listed => listed.id === backupId)).toMatchObject({
+      name: `pre-restore-${snapshot.id}`,
+      entryCount: 3,
+    });
+
+    const entries = await service.queryEntries({ limit: 10, offset: 0 });
+    expect(entries.map(entry => entry.id).sort()).toEqual([deploy.id, runbook.id].sort());
+    expect((await service.getEntry(deploy.id))!.content).toBe(pipeline);
+    expect(await service.getRelationships()).toMatchObject([{ from: runbook.id, to: deploy.id, type: 'depends-on' }]);
+
+    const search = (text: string) => service.searchEntries({ search: text, limit: 10, offset: 0 });
+    expect((await search('staging')).map(result => result.entry.id)).toEqual([deploy.id]);
+    expect(await search('tuesday')).toEqual([]);
+    expect(await search('budget')).toEqual([]);
+    const semantic = await service.semanticSearch(budget, { limit: 10, offset: 0 });
+    expect(semantic.map(result => result.entry.id).sort()).toEqual([deploy.id, runbook.id].sort());
+
+    // The similarity index holds the restored signature, so a near-duplicate of it merges in
+    const merged = await add('Deploy pipeline v2', `${pipeline} Rollbacks are automatic.`);
+    expect(merged.id).toBe(deploy.id);
+
+    // The backup captured the state just before the restore
+    const diff = await service.diffSnapshots(backupId!);
+    expect(diff.removed.map(entry => entry.title)).toEqual(['Budget']);
+    expect(diff.changed.map(change => change.id)).toEqual([deploy.id]);
+  });
+
+  it('persists the rebuilt search index for later sessions', async () => {
+    const deploy = await add('Deploy pipeline', pipeline);
+    const snapshot = await service.createSnapshot('baseline');
+    await add('Budget', budget);
+    await service.restoreSnapshot(snapshot.id, false);
+    expect(await service.listSnapshots()).toHaveLength(1);
+    await service.close();
+
+    service = new ContextFossilService({ fossilDir, test: true });
+    expect((await service.searchEntries({ search: 'staging', limit: 10, offset: 0 })).map(result => result.entry.id)).toEqual([deploy.id]);
+    expect(await service.searchEntries({ search: 'budget', limit: 10, offset: 0 })).toEqual([]);
+  });
+
+  it('rejects an unknown snapshot without touching the store', async () => {
+    await add('Deploy pipeline', pipeline);
+    await expect(service.restoreSnapshot('missing')).rejects.toThrow('Snapshot not found: missing');
+    expect(await service.queryEntries({ limit: 10, offset: 0 })).toHaveLength(1);
+    expect(await service.listSnapshots()).toEqual([]);
+  });
+
+  it('diffs two snapshots', async () => {
+    const deploy = await add('Deploy pipeline', pipeline);
+    const first = await service.createSnapshot('first');
+    await add('Budget', budget);
+    await service.updateEntry(deploy.id, { tags: ['ci'] });
+    const second = await service.createSnapshot('second');
+
+    const diff = await service.diffSnapshots(first.id, second.id);
+    expect(diff.added.map(entry => entry.title)).toEqual(['Budget']);
+    expect(diff.changed).toMatchObject([{ id: deploy.id, changedFields: expect.arrayContaining(['tags', 'version']) }]);
+    expect(diff.unchanged).toBe(0);
+  });
+
+  it('prunes snapshots beyond the count and age limits, newest kept', async () => {
+    await add('Deploy pipeline', pipeline);
+    const day = 24 * 60 * 60 * 1000;
+    const ids: string[] = [];
+    for (const [name, age] of [['old', 30], ['recent', 2], ['latest', 1]] as const) {
+      const snapshot = await service.createSnapshot(name);
+      await setSnapshotTimestamp(snapshot.id, new Date(Date.now() - age * day).toISOString());
+      ids.push(snapshot.id);
+    }
+
+    const preview = await service.pruneSnapshots({ maxCount: 1, dryRun: true });
+    expect(preview.map(snapshot => snapshot.name)).toEqual(['recent', 'old']);
+    expect(await service.listSnapshots()).toHaveLength(3);
+
+    expect((await service.pruneSnapshots({ maxAgeDays: 7 })).map(snapshot => snapshot.name)).toEqual(['old']);
+    expect((await service.listSnapshots()).map(snapshot => snapshot.name)).toEqual(['latest', 'recent']);
+
+    await expect(service.pruneSnapshots()).rejects.toThrow('No snapshot retention configured');
+    await service.setSnapshotRetention({ maxCount: 1 });
+    expect((await service.pruneSnapshots()).map(snapshot => snapshot.id)).toEqual([ids[1]!]);
+  });
+});
+
+describe('ContextFossilService.revertEntry', () => {
+  let id: string;
+
+  beforeEach(async () => {
+    await service.importEntries([record()]);
+    id = 'fossil_bun';
+    await service.updateEntry(id, { content: 'Bun and Node are both supported.', parentId: 'fossil_runtime' });
+    await service.updateEntry(id, { content: 'Node is the runtime.' });
+  });
+
+  it('restores an older version as a new version, keeping the history', async () => {
+    const reverted = await service.revertEntry(id, 1);
+    expect(reverted).toMatchObject({ content: 'Bun is the runtime for every script.', version: 4 });
+    expect(reverted!.previousVersions!.map(previous => [previous.version, previous.content])).toEqual([
+      [1, 'Bun is the runtime for every script.'],
+      [2, 'Bun and Node are both supported.'],
+      [3, 'Node is the runtime.'],
+    ]);
+    expect(await service.getEntry(id)).toMatchObject({ content: 'Bun is the runtime for every script.', version: 4 });
+    expect(await service.searchEntries({ search: 'node', limit: 10, offset: 0 })).toEqual([]);
+  });
+
+  it('clears fields the target version did not have', async () => {
+    expect((await service.getEntry(id))!.parentId).toBe('fossil_runtime');
+    const reverted = await service.revertEntry(id, 1);
+    expect(reverted!.parentId).toBeUndefined();
+    expect((await service.getEntry(id))!.parentId).toBeUndefined();
+
+    // Reverting the revert brings the field back
+    expect((await service.revertEntry(id, 3))!.parentId).toBe('fossil_runtime');
+  });
+
+  it('rejects reverting to the current version', async () => {
+    await expect(service.revertEntry(id, 3)).rejects.toThrow('Entry fossil_bun is already at version 3');
+  });
+
+  it('rejects a version that is not in the history', async () => {
+    await expect(service.revertEntry(id, 7)).rejects.toThrow('Version 7 of entry fossil_bun is not in its history');
+    expect((await service.getEntry(id))!.version).toBe(3);
+  });
+
+  it('returns null for an unknown entry', async () => {
+    expect(await service.revertEntry('fossil_missing', 1)).toBeNull();
+  });
+});
+
+describe('ContextFossilService.deleteEntry', () => {
+  it('removes the entry from the store and the search index', async () => {
+    await service.importEntries([record()]);
+
+    expect(await service.deleteEntry('fossil_bun')).toBe(true);
+    expect(await service.getEntry('fossil_bun')).toBeNull();
+    expect(await service.searchEntries({ search: 'bun', limit: 10, offset: 0 })).toEqual([]);
+  });
+
+  it('returns false for an unknown entry', async () => {
+    expect(await service.deleteEntry('fossil_missing')).toBe(false);
+  });
+});
+
+describe('ContextFossilService relationship graph', () => {
+  beforeEach(async () => {
+    await service.importEntries([
+      record({ id: 'api', title: 'API service', content: 'Serves requests.' }),
+      record({ id: 'db', title: 'Database', content: 'Stores rows.' }),
+      record({ id: 'disk', title: 'Disk "ssd"', content: 'Holds blocks.' }),
+      record({ id: 'docs', title: 'Docs', content: 'Explains the API.' }),
+    ]);
+    await service.addRelationship('api', 'db', 'depends-on');
+    await service.addRelationship('db', 'disk', 'depends-on');
+    await service.addRelationship('docs', 'api', 'references');
+  });
+
+  it('follows typed edges outwards by default', async () => {
+    expect(await service.findRelationshipPath('api', 'disk')).toEqual(['api', 'db', 'disk']);
+    expect(await service.findRelationshipPath('docs', 'disk')).toEqual(['docs', 'api', 'db', 'disk']);
+    expect(await service.findRelationshipPath('api', 'api')).toEqual(['api']);
+  });
+
+  it('applies the direction filter', async () => {
+    expect(await service.findRelationshipPath('disk', 'api')).toBeNull();
+    expect(await service.findRelationshipPath('disk', 'api', { direction: 'in' })).toEqual(['disk', 'db', 'api']);
+    expect(await service.findRelationshipPath('api', 'docs', { direction: 'both' })).toEqual(['api', 'docs']);
+  });
+
+  it('applies the type filter', async () => {
+    expect(await service.findRelationshipPath('docs', 'disk', { types: ['depends-on'] })).toBeNull();
+    expect(await service.findRelationshipPath('docs', 'disk', { types: ['depends-on', 'references'] })).toEqual(['docs', 'api', 'db', 'disk']);
+  });
+
+  it('returns null when no path exists', async () => {
+    expect(await service.findRelationshipPath('api', 'docs')).toBeNull();
+    expect(await service.findRelationshipPath('api', 'fossil_missing', { direction: 'both' })).toBeNull();
+  });
+
+  it('exports DOT with entry titles as labels', async () => {
+    const dot = (await service.exportGraph('dot')).split('\n');
+    expect(dot[0]).toBe('digraph fossils {');
+    expect(dot.at(-1)).toBe('}');
+    expect(dot).toContain('  "api" [label="API service"];');
+    expect(dot).toContain('  "disk" [label="Disk \\"ssd\\""];');
+    expect(dot).toContain('  "api" -> "db" [label="depends-on"];');
+    expect(dot).toContain('  "db" -> "disk" [label="depends-on"];');
+    expect(dot).toContain('  "docs" -> "api" [label="references"];');
+
+    const dependencies = await service.exportGraph('dot', { types: ['depends-on'] });
+    expect(dependencies).not.toContain('references');
+    expect(dependencies).not.toContain('"docs"');
+  });
+
+  it('exports Mermaid restricted to the neighbourhood of a root entry', async () => {
+    const mermaid = await service.exportGraph('mermaid', { root: 'disk', depth: 1 });
+    const lines = mermaid.split('\n');
+    expect(lines[0]).toBe('flowchart LR');
+    expect(lines).toHaveLength(4);
+    expect(lines.slice(1, 3).sort()).toEqual(['  n0["Database"]', '  n1["Disk #quot;ssd#quot;"]']);
+    expect(lines[3]).toBe('  n0 -->|depends-on| n1');
+
+    const full = await service.exportGraph('mermaid');
+    expect(full.match(/-->\|depends-on\|/g)).toHaveLength(2);
+    expect(full.match(/-->\|references\|/g)).toHaveLength(1);
+    expect(full).toContain('["Docs"]');
+  });
+});
+
+describe('ContextFossilService.semanticSearch', () => {
+  const query = 'deploy pipeline to staging and production';
+  const ids = (results: Array<{ entry: ContextEntry }>) => results.map(result => result.entry.id);
+
+  beforeEach(async () => {
+    await service.close();
+    service = new ContextFossilService({ fossilDir, test: true, embedder: createHashingEmbedder() });
+    await service.importEntries([
+      record({ id: 'deploy', type: 'knowledge', title: 'Deploy pipeline', content: 'The deploy pipeline promotes builds from staging to production.', tags: ['ci'] }),
+      record({ id: 'release', type: 'decision', title: 'Release checklist', content: 'Every release goes through the staging pipeline before production.', tags: ['ci'] }),
+      record({ id: 'budget', type: 'knowledge', title: 'Budget review', content: 'Quarterly finance review of the marketing budget.', tags: ['finance'] }),
+      record({ id: 'hiring', type: 'plan', title: 'Hiring plan', content: 'Interview loops for two engineers.', tags: ['people'] }),
+    ]);
+  });
+
+  it('ranks entries by cosine similarity of their hashed embeddings', async () => {
+    const results = await service.semanticSearch(query, { limit: 10, offset: 0 });
+    expect(ids(results).slice(0, 2)).toEqual(['deploy', 'release']);
+    expect(results).toHaveLength(4);
+    const scores = results.map(result => result.score);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    expect(scores[0]).toBeGreaterThan(scores[2]!);
+  });
+
+  it('paginates the ranking', async () => {
+    expect(ids(await service.semanticSearch(query, { limit: 1, offset: 0 }))).toEqual(['deploy']);
+    expect(ids(await service.semanticSearch(query, { limit: 1, offset: 1 }))).toEqual(['release']);
+  });
+
+  it('applies the type and tag filters before ranking', async () => {
+    expect(ids(await service.semanticSearch(query, { type: 'decision', limit: 10, offset: 0 }))).toEqual(['release']);
+    expect(ids(await service.semanticSearch(query, { tags: ['finance'], limit: 10, offset: 0 }))).toEqual(['budget']);
+    expect(ids(await service.semanticSearch(query, { type: 'knowledge', tags: ['ci'], limit: 10, offset: 0 }))).toEqual(['deploy']);
+    expect(await service.semanticSearch(query, { type: 'plan', tags: ['ci'], limit: 10, offset: 0 })).toEqual([]);
+  });
+});
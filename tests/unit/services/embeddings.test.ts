@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'bun:test';
+import { cosineSimilarity, createHashingEmbedder, hashingEmbedding, normalizeVector } from '../../../src/services/embeddings';
+
+describe('hashingEmbedding', () => {
+  it('is deterministic and unit length', () => {
+    const vector = hashingEmbedding('Use PostgreSQL for transactional data');
+    expect(hashingEmbedding('Use PostgreSQL for transactional data')).toEqual(vector);
+    expect(vector).toHaveLength(256);
+    expect(Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))).toBeCloseTo(1, 6);
+  });
+
+  it('places texts with shared vocabulary closer than unrelated texts', () => {
+    const query = hashingEmbedding('which database stores transactional data');
+    const related = hashingEmbedding('PostgreSQL is the primary database for transactional data');
+    const unrelated = hashingEmbedding('Quarterly marketing calendar and event budget');
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  it('returns a zero vector for empty text', () => {
+    expect(hashingEmbedding('', 8)).toEqual(new Array(8).fill(0));
+  });
+});
+
+describe('createHashingEmbedder', () => {
+  it('names itself after its dimensions and embeds in batches', async () => {
+    const embedder = createHashingEmbedder(64);
+    expect(embedder.name).toBe('hashing-64');
+    const vectors = await embedder.embed(['a b', 'c d']);
+    expect(vectors.map(vector => vector.length)).toEqual([64, 64]);
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('handles parallel, orthogonal and zero vectors', () => {
+    expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1, 10);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+    expect(normalizeVector([3, 4])).toEqual([0.6, 0.8]);
+  });
+});
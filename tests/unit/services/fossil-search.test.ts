@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { FossilSearchIndex, tokenize } from '../../../src/services/fossil-search';
+
+const doc = (id: string, title: string, content: string, tags: string[] = []) => ({ id, title, content, tags });
+
+describe('FossilSearchIndex', () => {
+  let index: FossilSearchIndex;
+
+  beforeEach(() => {
+    index = new FossilSearchIndex();
+    index.addEntry(doc('a', 'Release plan', 'Plan the v2 release and automate changelog generation', ['release']));
+    index.addEntry(doc('b', 'Repository health', 'Health score 85. The release was delayed by flaky tests.'));
+    index.addEntry(doc('c', 'Automation workflow', 'Automated workflow for deployment', ['automation']));
+  });
+
+  it('tokenizes text into lowercase alphanumeric terms', () => {
+    expect(tokenize('Context-Fossil: v2 "Release"!')).toEqual(['context', 'fossil', 'v2', 'release']);
+  });
+
+  it('ranks title matches above content matches', () => {
+    const hits = index.search('release');
+    expect(hits.map(h => h.id)).toEqual(['a', 'b']);
+    expect(hits[0]!.score).toBeGreaterThan(hits[1]!.score);
+  });
+
+  it('requires every clause to match', () => {
+    expect(index.search('release flaky').map(h => h.id)).toEqual(['b']);
+    expect(index.search('release missing')).toEqual([]);
+  });
+
+  it('supports phrase queries', () => {
+    expect(index.search('"flaky tests"').map(h => h.id)).toEqual(['b']);
+    expect(index.search('"tests flaky"')).toEqual([]);
+  });
+
+  it('does not match phrases across fields', () => {
+    // "plan" ends the title and "release" starts the tags of entry a
+    expect(index.search('"plan release"')).toEqual([]);
+  });
+
+  it('supports prefix queries', () => {
+    expect(index.search('autom*').map(h => h.id).sort()).toEqual(['a', 'c']);
+  });
+
+  it('restricts results to candidate ids', () => {
+    expect(index.search('release', ['b']).map(h => h.id)).toEqual(['b']);
+  });
+
+  it('updates and removes entries incrementally', () => {
+    index.addEntry(doc('b', 'Repository health', 'All green'));
+    expect(index.search('flaky')).toEqual([]);
+
+    index.removeEntry('c');
+    expect(index.size).toBe(2);
+    expect(index.search('deployment')).toEqual([]);
+  });
+
+  it('round-trips through JSON', () => {
+    const restored = FossilSearchIndex.fromJSON(JSON.parse(JSON.stringify(index)));
+    expect(restored.search('"flaky tests"')).toEqual(index.search('"flaky tests"'));
+  });
+
+  it('counts documents in indexes persisted without a count', () => {
+    const { docCount: _omit, ...legacy } = JSON.parse(JSON.stringify(index));
+    const restored = FossilSearchIndex.fromJSON(legacy);
+    expect(restored.size).toBe(3);
+    expect(restored.search('release')).toEqual(index.search('release'));
+  });
+
+  it('handles terms that collide with object prototype keys', () => {
+    index.addEntry(doc('d', 'Constructor notes', 'The constructor builds the service'));
+    expect(index.search('constructor').map(h => h.id)).toEqual(['d']);
+    expect(index.search('tostring')).toEqual([]);
+  });
+});
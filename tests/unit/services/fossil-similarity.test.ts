@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ContextFossilService } from '../../../src/cli/context-fossil';
+import {
+  FossilSimilarityIndex,
+  decodeSignature,
+  encodeSignature,
+  minhashSignature,
+  shingle,
+  signatureSimilarity,
+} from '../../../src/services/fossil-similarity';
+
+const base = 'The deployment pipeline runs integration tests against staging before promoting builds to production.';
+
+describe('shingle', () => {
+  it('normalizes case and whitespace into overlapping character shingles', () => {
+    expect([...shingle('AB  cd', 3)]).toEqual(['ab ', 'b c', ' cd']);
+    expect([...shingle('ab', 5)]).toEqual(['ab']);
+  });
+});
+
+describe('minhashSignature', () => {
+  it('estimates high similarity for near-duplicates and low for unrelated text', () => {
+    const original = minhashSignature(base);
+    expect(signatureSimilarity(original, minhashSignature(base))).toBe(100);
+    expect(signatureSimilarity(original, minhashSignature(`${base} Rollbacks are automatic.`))).toBeGreaterThan(60);
+    expect(signatureSimilarity(original, minhashSignature('Quarterly marketing calendar and budget review.'))).toBeLessThan(20);
+  });
+
+  it('round-trips through its base64 encoding', () => {
+    const signature = minhashSignature(base);
+    expect(decodeSignature(encodeSignature(signature))).toEqual(signature);
+    expect(decodeSignature('not-a-signature')).toBeNull();
+  });
+});
+
+describe('FossilSimilarityIndex', () => {
+  it('returns near-duplicates as candidates and skips unrelated documents', () => {
+    const index = new FossilSimilarityIndex();
+    index.addEntry('a', minhashSignature(base));
+    index.addEntry('b', minhashSignature('Quarterly marketing calendar and budget review.'));
+
+    const candidates = index.candidates(minhashSignature(base.replace('staging', 'the staging cluster')));
+    expect(candidates).toContain('a');
+    expect(candidates).not.toContain('b');
+  });
+
+  it('removes documents from every bucket and survives serialization', () => {
+    const index = new FossilSimilarityIndex();
+    index.addEntry('a', minhashSignature(base));
+    index.addEntry('constructor', minhashSignature(base));
+
+    const restored = FossilSimilarityIndex.fromJSON(JSON.parse(JSON.stringify(index)));
+    expect(restored.size).toBe(2);
+    restored.removeEntry('a');
+    expect(restored.has('a')).toBe(false);
+    expect(restored.candidates(minhashSignature(base))).toEqual(['constructor']);
+    expect(Object.keys(restored.toJSON().buckets)).toHaveLength(32);
+  });
+});
+
+describe('ContextFossilService near-duplicate merge', () => {
+  let fossilDir: string;
+  let service: ContextFossilService;
+
+  const add = (overrides: { type?: 'knowledge' | 'decision'; title: string; content: string; metadata?: Record<string, unknown> }) =>
+    service.addEntry({ type: 'knowledge', tags: [], source: 'manual', version: 1, children: [], metadata: {}, ...overrides });
+
+  beforeEach(async () => {
+    fossilDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fossil-similarity-'));
+    service = new ContextFossilService({ fossilDir, test: true });
+    await service.initialize();
+  });
+
+  afterEach(async () => {
+    await service.close();
+    await fs.rm(fossilDir, { recursive: true, force: true });
+  });
+
+  it('merges a near-duplicate of the same type into it, keeping its metadata', async () => {
+    const original = await add({ title: 'Pipeline', content: base, metadata: { owner: 'ops' } });
+    const merged = await add({ title: 'Deploy flow', content: `${base} Rollbacks are automatic.`, metadata: { reviewed: true } });
+
+    expect(merged.id).toBe(original.id);
+    expect(merged.title).toBe('Pipeline');
+    expect(merged.metadata).toMatchObject({ owner: 'ops', reviewed: true });
+    expect(merged.metadata.minhash).not.toBe(original.metadata.minhash);
+
+    // The stored hash covers the fossil's own title, so an exact re-add finds it
+    const again = await add({ title: 'Pipeline', content: `${base} Rollbacks are automatic.` });
+    expect(again.id).toBe(original.id);
+  });
+
+  it('keeps an exact re-add as a no-op and versions tag updates', async () => {
+    const original = await add({ title: 'Pipeline', content: base });
+    const again = await add({ title: 'Pipeline', content: base });
+    expect(again).toEqual(original);
+
+    const [tagged] = await service.enhanceEntriesWithTags([original], false);
+    expect(tagged!.version).toBe(original.version + 1);
+    expect((await service.getEntry(original.id))?.previousVersions?.map(version => version.version)).toEqual([original.version]);
+  });
+
+  it('re-hashes updated content, so re-adding the old text creates a new fossil', async () => {
+    const original = await add({ title: 'Pipeline', content: base });
+    const updated = await service.updateEntry(original.id, { content: 'Quarterly marketing calendar and budget review.' });
+    expect(updated!.metadata.contentHash).not.toBe(original.metadata.contentHash);
+
+    const readded = await add({ title: 'Pipeline', content: base });
+    expect(readded.id).not.toBe(original.id);
+    expect(readded.content).toBe(base);
+    expect((await add({ title: 'Pipeline', content: updated!.content })).id).toBe(original.id);
+  });
+
+  it('logs index changes, re-embedding only entries whose text changed', async () => {
+    const embedded: string[] = [];
+    await service.close();
+    service = new ContextFossilService({
+      fossilDir,
+      test: true,
+      embedder: { name: 'counting', embed: async (texts: string[]) => (embedded.push(...texts), texts.map(() => [1, 0])) },
+    });
+    const entry = await add({ title: 'Pipeline', content: base });
+    const store = await service.getStore();
+    const logged = (await store.loadDataLog('search-index')).length;
+    expect(logged).toBeGreaterThan(0);
+
+    const embeddedBefore = embedded.length;
+    await service.updateEntry(entry.id, { metadata: { ...entry.metadata, reviewed: true } });
+    expect(embedded.length).toBe(embeddedBefore);
+    await service.updateEntry(entry.id, { title: 'Release pipeline' });
+    expect(embedded.length).toBe(embeddedBefore + 1);
+    expect((await store.loadDataLog('search-index')).length).toBe(logged + 2);
+
+    // Another service replays the logs instead of rebuilding
+    const reader = new ContextFossilService({ fossilDir, test: true, embedder: { name: 'counting', embed: async (texts: string[]) => texts.map(() => [1, 0]) } });
+    expect((await reader.searchEntries({ search: 'release', limit: 10, offset: 0 })).map(result => result.entry.id)).toEqual([entry.id]);
+    await reader.close();
+  });
+
+  it('does not merge a near-duplicate of another type', async () => {
+    const knowledge = await add({ title: 'Pipeline', content: base });
+    const decision = await add({ type: 'decision', title: 'Pipeline', content: `${base} Rollbacks are automatic.` });
+
+    expect(decision.id).not.toBe(knowledge.id);
+    expect((await service.getEntry(knowledge.id))?.content).toBe(base);
+    expect((await service.cleanupDuplicates({ dryRun: false, similarityThreshold: 60 })).duplicatesFound).toBe(0);
+    expect(await service.getEntry(decision.id)).not.toBeNull();
+  });
+
+  it('consolidates JSON-block duplicates within a type, skipping fossils merged by content hash', async () => {
+    const block = '```json\n{"milestone":"v1","tasks":3}\n```';
+    const record = (id: string, type: string, content: string) => ({
+      id, type, title: 'Milestone', content, tags: [], metadata: {}, source: 'manual', version: 1, children: [],
+      createdAt: '2025-07-01T00:00:00.000Z', updatedAt: '2025-07-01T00:00:00.000Z',
+    });
+    // Imported rather than added, so exact duplicates reach the store
+    await service.importEntries([
+      record('first', 'plan', `Tracking the first milestone.\n${block}`),
+      record('copy', 'plan', `Tracking the first milestone.\n${block}`),
+      record('reworded', 'plan', `Milestone status, rewritten by hand.\n${block}`),
+      record('decision', 'decision', `We agreed on the milestone.\n${block}`),
+    ]);
+
+    const result = await service.cleanupDuplicates({ dryRun: false, similarityThreshold: 60 });
+
+    expect(result.duplicatesFound).toBe(2);
+    expect(result.duplicateGroups.map(group => group.map(entry => entry.id))).toEqual([['copy'], ['reworded']]);
+    expect((await service.getAllEntries()).map(entry => entry.id).sort()).toEqual(['decision', 'first']);
+    expect((await service.getEntry('first'))!.previousVersions!.map(version => version.id)).toEqual(['copy', 'reworded']);
+  });
+
+  it('consolidates near-duplicates of one type in cleanup, keeping both metadata', async () => {
+    const first = await add({ title: 'Pipeline', content: base, metadata: { owner: 'ops' } });
+    // Added past the merge threshold, so both entries exist until cleanup
+    const second = await service.addEntry(
+      { type: 'knowledge', title: 'Deploy flow', content: `${base} Rollbacks are automatic.`, tags: [], source: 'manual', version: 1, children: [], metadata: { reviewed: true } },
+      { similarityThreshold: 101 }
+    );
+
+    const result = await service.cleanupDuplicates({ dryRun: false, similarityThreshold: 60 });
+
+    expect(result.duplicatesFound).toBe(1);
+    const [survivor] = await service.getAllEntries();
+    expect([first.id, second.id]).toContain(survivor!.id);
+    expect(survivor!.metadata).toMatchObject({ owner: 'ops', reviewed: true });
+  });
+});
@@ -0,0 +1,327 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  FileSystemFossilStore,
+  createFossilStore,
+  migrateFossilStore,
+  readStoreKind,
+  writeStoreKind,
+  type FossilEdge,
+  type FossilStore,
+  type FossilStoreKind,
+} from '../../../src/services/fossil-store';
+import type { ContextEntry } from '../../../src/types';
+
+const makeEntry = (id: string, overrides: Partial<ContextEntry> = {}): ContextEntry => ({
+  id,
+  type: 'knowledge',
+  title: `Entry ${id}`,
+  content: `Content for ${id}`,
+  tags: ['general'],
+  metadata: { contentHash: `hash-${id}` },
+  source: 'manual',
+  version: 1,
+  children: [],
+  createdAt: '2025-07-01T00:00:00.000Z',
+  updatedAt: '2025-07-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const makeEdge = (from: string, to: string, type: FossilEdge['type'] = 'depends-on'): FossilEdge => ({
+  from,
+  to,
+  type,
+  createdAt: '2025-07-01T00:00:00.000Z',
+});
+
+for (const kind of ['fs', 'sqlite'] as FossilStoreKind[]) {
+  describe(`FossilStore (${kind})`, () => {
+    let fossilDir: string;
+    let store: FossilStore;
+
+    beforeEach(async () => {
+      fossilDir = await fs.mkdtemp(path.join(os.tmpdir(), `fossil-store-${kind}-`));
+      store = await createFossilStore(kind, fossilDir);
+      await store.initialize();
+    });
+
+    afterEach(async () => {
+      await store.close();
+      await fs.rm(fossilDir, { recursive: true, force: true });
+    });
+
+    it('stores and retrieves entries', async () => {
+      const entry = makeEntry('a');
+      await store.putEntry(entry);
+      expect(await store.getEntry('a')).toEqual(entry);
+      expect(await store.getEntry('missing')).toBeNull();
+    });
+
+    it('filters by type, tags, source and date range', async () => {
+      await store.writeBatch({
+        put: [
+          makeEntry('a', { type: 'decision', tags: ['release'] }),
+          makeEntry('b', { source: 'llm', createdAt: '2025-08-01T00:00:00.000Z' }),
+          makeEntry('c', { tags: ['release', 'constructor'] }),
+        ],
+      });
+
+      expect(await store.queryIds()).toEqual(['a', 'b', 'c']);
+      expect(await store.queryIds({ type: 'decision' })).toEqual(['a']);
+      expect(await store.queryIds({ tags: ['release'] })).toEqual(['a', 'c']);
+      expect(await store.queryIds({ tags: ['constructor'] })).toEqual(['c']);
+      expect(await store.queryIds({ source: 'llm' })).toEqual(['b']);
+      expect(await store.queryIds({ dateRange: { start: '2025-07-15T00:00:00.000Z', end: '2025-12-31T00:00:00.000Z' } })).toEqual(['b']);
+    });
+
+    it('keeps the tag index in sync when entries change', async () => {
+      await store.putEntry(makeEntry('a', { tags: ['old'] }));
+      await store.putEntry(makeEntry('a', { tags: ['new'] }));
+      expect(await store.queryIds({ tags: ['old'] })).toEqual([]);
+      expect(await store.queryIds({ tags: ['new'] })).toEqual(['a']);
+    });
+
+    it('applies batches of puts and removals', async () => {
+      await store.writeBatch({ put: [makeEntry('a'), makeEntry('b')] });
+      await store.writeBatch({ put: [makeEntry('a', { version: 2 })], remove: ['b'] });
+
+      expect(await store.queryIds()).toEqual(['a']);
+      expect((await store.getEntry('a'))?.version).toBe(2);
+      expect((await store.listRecords()).map(r => r.id)).toEqual(['a']);
+    });
+
+    it('replaces all entries atomically', async () => {
+      await store.writeBatch({ put: [makeEntry('a'), makeEntry('b', { tags: ['x'] })] });
+      await store.replaceAll([makeEntry('b'), makeEntry('c')]);
+
+      expect(await store.queryIds()).toEqual(['b', 'c']);
+      expect(await store.queryIds({ tags: ['x'] })).toEqual([]);
+      expect(await store.getEntry('a')).toBeNull();
+    });
+
+    it('keeps previous contents when a replacement fails', async () => {
+      await store.writeBatch({ put: [makeEntry('a'), makeEntry('b')] });
+      const broken = { ...makeEntry('bad\0id'), tags: null } as unknown as ContextEntry;
+
+      await expect(store.replaceAll([makeEntry('c'), broken])).rejects.toThrow();
+      expect(await store.queryIds()).toEqual(['a', 'b']);
+      expect((await store.getEntry('a'))?.id).toBe('a');
+      expect((await fs.readdir(fossilDir)).filter(name => name.startsWith('.'))).toEqual([]);
+    });
+
+    it('finds entries by content hash', async () => {
+      await store.putEntry(makeEntry('a'));
+      expect((await store.findByContentHash('hash-a'))?.id).toBe('a');
+      expect(await store.findByContentHash('hash-x')).toBeNull();
+    });
+
+    it('stores typed edges and filters them', async () => {
+      await store.writeBatch({
+        put: [makeEntry('a'), makeEntry('b'), makeEntry('c')],
+        putEdges: [makeEdge('a', 'b'), makeEdge('a', 'c', 'supersedes'), makeEdge('a', 'b')],
+      });
+
+      expect(await store.listEdges()).toEqual([makeEdge('a', 'b'), makeEdge('a', 'c', 'supersedes')]);
+      expect(await store.listEdges({ to: 'c' })).toEqual([makeEdge('a', 'c', 'supersedes')]);
+      expect(await store.listEdges({ types: ['depends-on'] })).toEqual([makeEdge('a', 'b')]);
+
+      await store.writeBatch({ removeEdges: [makeEdge('a', 'b')] });
+      expect(await store.listEdges({ from: 'a' })).toEqual([makeEdge('a', 'c', 'supersedes')]);
+    });
+
+    it('rejects edges to unknown entries and drops edges of removed entries', async () => {
+      await store.writeBatch({ put: [makeEntry('a'), makeEntry('b')], putEdges: [makeEdge('a', 'b'), makeEdge('b', 'a')] });
+
+      await expect(store.writeBatch({ putEdges: [makeEdge('a', 'missing')] })).rejects.toThrow('Unknown entry');
+      await store.deleteEntry('b');
+      expect(await store.listEdges()).toEqual([]);
+    });
+
+    it('keeps edges between surviving entries on replaceAll unless edges are given', async () => {
+      await store.writeBatch({ put: [makeEntry('a'), makeEntry('b'), makeEntry('c')], putEdges: [makeEdge('a', 'b'), makeEdge('b', 'c')] });
+
+      await store.replaceAll([makeEntry('a'), makeEntry('b')]);
+      expect(await store.listEdges()).toEqual([makeEdge('a', 'b')]);
+
+      await store.replaceAll([makeEntry('a'), makeEntry('b')], [makeEdge('b', 'a', 'references')]);
+      expect(await store.listEdges()).toEqual([makeEdge('b', 'a', 'references')]);
+    });
+
+    it('logs changes to a data document until it is saved again', async () => {
+      await store.saveData('search-index', { version: 1 });
+      await store.appendDataLog('search-index', { put: ['a'] });
+      await store.appendDataLog('search-index', { put: ['b'] });
+      expect(await store.loadDataLog('search-index')).toEqual([{ put: ['a'] }, { put: ['b'] }]);
+      expect(await store.loadDataLog('missing')).toEqual([]);
+
+      await store.saveData('search-index', { version: 2 });
+      expect(await store.loadDataLog('search-index')).toEqual([]);
+      expect(await store.listDataNames()).toEqual(['search-index']);
+    });
+
+    it('persists auxiliary data documents', async () => {
+      await store.saveData('search-index', { version: 1 });
+      expect(await store.loadData('search-index')).toEqual({ version: 1 });
+      expect(await store.listDataNames()).toContain('search-index');
+      expect(await store.loadData('missing')).toBeNull();
+    });
+
+    it('deletes a data document with its change log', async () => {
+      await store.saveData('search-index', { version: 1 });
+      await store.appendDataLog('search-index', { put: ['a'] });
+      await store.deleteData('search-index');
+      expect(await store.loadData('search-index')).toBeNull();
+      expect(await store.loadDataLog('search-index')).toEqual([]);
+      expect(await store.listDataNames()).not.toContain('search-index');
+    });
+  });
+}
+
+describe('FileSystemFossilStore index log', () => {
+  let fossilDir: string;
+  const readIndex = async () => JSON.parse(await fs.readFile(path.join(fossilDir, 'index.json'), 'utf8'));
+
+  beforeEach(async () => {
+    fossilDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fossil-index-log-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(fossilDir, { recursive: true, force: true });
+  });
+
+  it('appends index changes that other instances read, and compacts them on close', async () => {
+    const store = new FileSystemFossilStore(fossilDir);
+    await store.initialize();
+    const empty = await readIndex();
+
+    await store.writeBatch({ put: [makeEntry('a'), makeEntry('b')], putEdges: [makeEdge('a', 'b')] });
+    await store.deleteEntry('a');
+    expect(await readIndex()).toEqual(empty);
+
+    const other = new FileSystemFossilStore(fossilDir);
+    expect(await other.queryIds()).toEqual(['b']);
+    expect((await other.findByContentHash('hash-b'))?.id).toBe('b');
+    expect(await other.findByContentHash('hash-a')).toBeNull();
+    expect(await other.listEdges()).toEqual([]);
+
+    await store.close();
+    expect(Object.keys((await readIndex()).entries)).toEqual(['b']);
+    expect(await fs.readdir(fossilDir)).not.toContain('index.log');
+    expect(await other.queryIds()).toEqual(['b']);
+  });
+
+  /**
+   * Leave the layout as a `replaceAll` that crashed after `steps` of its three renames would
+   */
+  const crashReplaceAll = async (steps: number) => {
+    const store = new FileSystemFossilStore(fossilDir);
+    await store.initialize();
+    await store.writeBatch({ put: [makeEntry('a'), makeEntry('b')] });
+    await store.close();
+
+    const staging = new FileSystemFossilStore(path.join(fossilDir, '.staging-crash'));
+    await staging.initialize();
+    await staging.writeBatch({ put: [makeEntry('c')] });
+    await staging.close();
+    await fs.writeFile(path.join(fossilDir, 'replace.json'), JSON.stringify({ staging: '.staging-crash', backupEntries: '.replaced-entries-crash' }));
+    const renames: Array<[string, string]> = [
+      ['entries', '.replaced-entries-crash'],
+      ['.staging-crash/entries', 'entries'],
+      ['.staging-crash/index.json', 'index.json'],
+    ];
+    for (const [from, to] of renames.slice(0, steps)) {
+      await fs.rename(path.join(fossilDir, from), path.join(fossilDir, to));
+    }
+  };
+
+  for (const steps of [0, 1, 2]) {
+    it(`restores the replaced entries after a replaceAll that crashed after ${steps} of its renames`, async () => {
+      await crashReplaceAll(steps);
+      const store = new FileSystemFossilStore(fossilDir);
+      await store.initialize();
+
+      expect(await store.queryIds()).toEqual(['a', 'b']);
+      expect((await store.getEntry('a'))?.id).toBe('a');
+      expect(await store.getEntry('c')).toBeNull();
+      expect((await fs.readdir(fossilDir)).filter(name => name.startsWith('.') || name === 'replace.json')).toEqual([]);
+    });
+  }
+
+  it('cleans up after a replaceAll that crashed once the new index was in place', async () => {
+    await crashReplaceAll(3);
+    const store = new FileSystemFossilStore(fossilDir);
+    await store.initialize();
+
+    expect(await store.queryIds()).toEqual(['c']);
+    expect((await fs.readdir(fossilDir)).filter(name => name.startsWith('.') || name === 'replace.json')).toEqual([]);
+  });
+
+  it('indexes content hashes of an index written before they were kept', async () => {
+    await fs.mkdir(path.join(fossilDir, 'entries'), { recursive: true });
+    await fs.writeFile(path.join(fossilDir, 'entries', 'a.json'), JSON.stringify(makeEntry('a')));
+    await fs.writeFile(path.join(fossilDir, 'index.json'), JSON.stringify({
+      entries: { a: { id: 'a', type: 'knowledge', title: 'Entry a', tags: ['general'], source: 'manual', createdAt: '', updatedAt: '' } },
+      tags: { general: ['a'] },
+      types: { knowledge: ['a'] },
+      sources: { manual: ['a'] },
+      lastUpdated: '',
+      version: '1.0.0',
+    }));
+
+    expect((await new FileSystemFossilStore(fossilDir).findByContentHash('hash-a'))?.id).toBe('a');
+    expect(await readIndex()).toMatchObject({ version: '1.1.0', contentHashes: { a: 'hash-a' } });
+  });
+});
+
+describe('migrateFossilStore', () => {
+  let fossilDir: string;
+
+  beforeEach(async () => {
+    fossilDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fossil-migrate-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(fossilDir, { recursive: true, force: true });
+  });
+
+  it('copies entries, edges and data between backends', async () => {
+    const source = await createFossilStore('fs', fossilDir);
+    await source.initialize();
+    await source.writeBatch({ put: [makeEntry('a'), makeEntry('b', { tags: ['x'] })], putEdges: [makeEdge('b', 'a')] });
+    await source.saveData('search-index', { docs: 2 });
+
+    const target = await createFossilStore('sqlite', fossilDir);
+    expect(await migrateFossilStore(source, target)).toBe(2);
+    expect(await target.queryIds({ tags: ['x'] })).toEqual(['b']);
+    expect(await target.loadData('search-index')).toEqual({ docs: 2 });
+    expect(await target.listEdges()).toEqual([makeEdge('b', 'a')]);
+    await target.close();
+  });
+
+  it('drops entries and data deleted from the source since an earlier migration', async () => {
+    const source = await createFossilStore('fs', fossilDir);
+    await source.initialize();
+    await source.writeBatch({ put: [makeEntry('a'), makeEntry('b')], putEdges: [makeEdge('b', 'a')] });
+    await source.saveData('search-index', { docs: 2 });
+    await source.saveData('embeddings', { docs: 2 });
+
+    const target = await createFossilStore('sqlite', fossilDir);
+    await migrateFossilStore(source, target);
+    await source.deleteEntry('b');
+    await source.deleteData('embeddings');
+
+    expect(await migrateFossilStore(source, target)).toBe(1);
+    expect(await target.queryIds()).toEqual(['a']);
+    expect(await target.listEdges()).toEqual([]);
+    expect(await target.listDataNames()).toEqual(['search-index']);
+    await target.close();
+  });
+
+  it('records the active backend in store.json', async () => {
+    expect(await readStoreKind(fossilDir)).toBe('fs');
+    await writeStoreKind(fossilDir, 'sqlite');
+    expect(await readStoreKind(fossilDir)).toBe('sqlite');
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'bun:test';
+import { FossilVectorIndex } from '../../../src/services/fossil-vectors';
+
+describe('FossilVectorIndex', () => {
+  const build = () => {
+    const index = new FossilVectorIndex();
+    index.rebuild('test-model', [
+      { id: 'x', vector: [1, 0, 0] },
+      { id: 'xy', vector: [1, 1, 0] },
+      { id: 'z', vector: [0, 0, 2] },
+    ]);
+    return index;
+  };
+
+  it('returns the top-k nearest documents with cosine scores', () => {
+    expect(build().search([1, 0, 0], 2)).toEqual([
+      { id: 'x', score: 1 },
+      { id: 'xy', score: 0.7071 },
+    ]);
+  });
+
+  it('restricts the search to candidate ids', () => {
+    expect(build().search([1, 0, 0], 5, ['z', 'missing']).map(hit => hit.id)).toEqual(['z']);
+  });
+
+  it('survives serialization and records the embedder', () => {
+    const restored = FossilVectorIndex.fromJSON(JSON.parse(JSON.stringify(build())));
+    expect(restored.model).toBe('test-model');
+    expect(restored.size).toBe(3);
+    restored.removeEntry('x');
+    expect(restored.has('x')).toBe(false);
+    expect(restored.search([0, 0, 1], 1)).toEqual([{ id: 'z', score: 1 }]);
+  });
+});
@@ -0,0 +1,248 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  FetchTransport,
+  GitHubApiError,
+  GitHubClient,
+  GitHubRateLimitError,
+  createGitHubClient,
+  parseHttpResponse,
+} from '../../../src/services/github-client';
+import { GitHubService } from '../../../src/services/github';
+import { GitHubCLICommands } from '../../../src/utils/githubCliCommands';
+import type { RateLimitClock } from '../../../src/services/llm-rate-limit';
+import { startFakeGitHub, type FakeIssue } from '../../fake-github-server';
+
+function fakeClock(start = Date.now()) {
+  const clock = {
+    time: start,
+    sleeps: [] as number[],
+    now: () => clock.time,
+    sleep: async (ms: number) => {
+      clock.sleeps.push(ms);
+      clock.time += ms;
+    },
+  };
+  return clock satisfies RateLimitClock;
+}
+
+describe('GitHubClient', () => {
+  let fake: ReturnType<typeof startFakeGitHub>;
+  let clock: ReturnType<typeof fakeClock>;
+  let client: GitHubClient;
+
+  const issue = (number: number, overrides: Partial<FakeIssue> = {}): FakeIssue => ({
+    number,
+    title: `Issue ${number}`,
+    body: null,
+    state: 'open',
+    labels: [],
+    assignees: [],
+    milestone: null,
+    created_at: '2025-07-01T00:00:00Z',
+    updated_at: '2025-07-01T00:00:00Z',
+    ...overrides,
+  });
+
+  beforeAll(() => {
+    fake = startFakeGitHub('octo', 'widgets');
+  });
+
+  afterAll(() => {
+    fake.server.stop(true);
+  });
+
+  beforeEach(() => {
+    Object.assign(fake.state, {
+      issues: [],
+      labels: [],
+      milestones: [],
+      comments: [],
+      requests: [],
+      queued: [],
+      maxPerPage: 100,
+      rateLimit: { limit: 5000, remaining: 5000, reset: Math.floor(Date.now() / 1000) + 3600 },
+    });
+    clock = fakeClock();
+    client = new GitHubClient('octo', 'widgets', {
+      transport: new FetchTransport({ token: 'test-token', baseUrl: fake.baseUrl }),
+      clock,
+    });
+  });
+
+  it('follows Link pagination and leaves out pull requests', async () => {
+    fake.state.maxPerPage = 2;
+    fake.state.issues = [1, 2, 3, 4, 5].map(n => issue(n, n === 3 ? { pull_request: { url: 'pr' } } : {}));
+
+    const issues = await client.listIssues({ state: 'all' });
+
+    expect(issues.map(found => found.number)).toEqual([1, 2, 4, 5]);
+    expect(fake.state.requests.map(request => request.search)).toEqual([
+      '?per_page=100&state=all',
+      '?per_page=100&state=all&page=2',
+      '?per_page=100&state=all&page=3',
+    ]);
+    expect(fake.state.requests[0]!.authorization).toBe('Bearer test-token');
+  });
+
+  it('revalidates cached GETs with If-None-Match', async () => {
+    fake.state.issues = [issue(1)];
+
+    await client.listIssues();
+    const remaining = fake.state.rateLimit.remaining;
+    const again = await client.listIssues();
+
+    expect(again.map(found => found.title)).toEqual(['Issue 1']);
+    expect(fake.state.requests[1]!.ifNoneMatch).toMatch(/^".+"$/);
+    expect(fake.state.rateLimit.remaining).toBe(remaining);
+
+    fake.state.issues.push(issue(2));
+    expect(await client.listIssues()).toHaveLength(2);
+  });
+
+  it('keeps ETag-cached responses in cacheDir for later clients', async () => {
+    const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'github-cache-'));
+    try {
+      fake.state.issues = [issue(1)];
+      const cachedClient = () => new GitHubClient('octo', 'widgets', {
+        transport: new FetchTransport({ token: 'test-token', baseUrl: fake.baseUrl }),
+        clock,
+        cacheDir,
+      });
+      await cachedClient().listIssues();
+      const remaining = fake.state.rateLimit.remaining;
+
+      expect((await cachedClient().listIssues()).map(found => found.title)).toEqual(['Issue 1']);
+      expect(fake.state.requests[1]!.ifNoneMatch).toMatch(/^".+"$/);
+      expect(fake.state.rateLimit.remaining).toBe(remaining);
+    } finally {
+      await fs.rm(cacheDir, { recursive: true, force: true });
+    }
+  });
+
+  it('finds issues by exact title with one search', async () => {
+    fake.state.issues = [
+      issue(1, { title: 'Flaky test' }),
+      issue(2, { title: 'Flaky test in CI' }),
+      issue(3, { title: 'Flaky test', state: 'closed' }),
+      issue(4, { title: 'Unrelated' }),
+    ];
+
+    expect((await client.findIssuesByTitle('Flaky test')).map(found => found.number)).toEqual([1]);
+    expect((await client.findIssuesByTitle('Flaky test', 'all')).map(found => found.number)).toEqual([1, 3]);
+    expect(fake.state.requests.map(request => request.path)).toEqual(['/search/issues', '/search/issues']);
+    expect(new URLSearchParams(fake.state.requests[0]!.search).get('q')).toBe('repo:octo/widgets is:issue in:title "Flaky test" is:open');
+  });
+
+  it('sends titles with quotes and $ verbatim', async () => {
+    const title = 'Fix "quoted" $HOME `ticks` title';
+    const created = await client.createIssue({ title, body: "it's $(not) a shell", labels: ['bug'] });
+
+    expect(created).toMatchObject({ number: 1, title, state: 'open', labels: ['bug'] });
+    expect(fake.state.issues[0]!.body).toBe("it's $(not) a shell");
+    expect((await client.findIssuesByTitle(` ${title} `, 'all')).map(found => found.number)).toEqual([1]);
+  });
+
+  it('resolves milestone titles and manages issue state', async () => {
+    const milestone = await client.createMilestone({ title: 'Phase 1', description: 'First' });
+    const created = await client.createIssue({ title: 'Task', milestone: 'Phase 1' });
+    expect(fake.state.issues[0]!.milestone).toBe(milestone.number);
+    await expect(client.createIssue({ title: 'Task', milestone: 'Missing' })).rejects.toThrow('Milestone not found: Missing');
+
+    expect((await client.closeIssue(created.number, 'Done')).state).toBe('closed');
+    expect(fake.state.comments.map(comment => comment.body)).toEqual(['Done']);
+    expect(fake.state.issues[0]!.state_reason).toBe('completed');
+    expect((await client.reopenIssue(created.number)).state).toBe('open');
+  });
+
+  it('waits for the rate-limit reset and fails when it is too far away', async () => {
+    fake.state.rateLimit = { limit: 60, remaining: 1, reset: Math.floor(clock.time / 1000) + 30 };
+    await client.getRepo();
+    expect(client.getRateLimit()).toMatchObject({ limit: 60, remaining: 0 });
+
+    fake.state.rateLimit.remaining = 60;
+    await client.getRepo();
+    expect(clock.sleeps).toHaveLength(1);
+    expect(clock.sleeps[0]).toBeGreaterThan(25_000);
+
+    fake.state.rateLimit = { limit: 60, remaining: 0, reset: Math.floor(clock.time / 1000) + 3600 };
+    await expect(client.getIssue(1)).rejects.toBeInstanceOf(GitHubRateLimitError);
+    await expect(client.getIssue(1)).rejects.toThrow(/rate limit exceeded until/);
+  });
+
+  it('backs off once on a secondary rate limit', async () => {
+    fake.state.queued.push({ status: 403, headers: { 'retry-after': '5' }, body: { message: 'secondary rate limit' } });
+    expect((await client.getRepo()).full_name).toBe('octo/widgets');
+    expect(clock.sleeps).toEqual([5000]);
+
+    fake.state.queued.push(
+      { status: 429, headers: { 'retry-after': '1' } },
+      { status: 429, headers: { 'retry-after': '1' } },
+    );
+    await expect(client.getRepo()).rejects.toBeInstanceOf(GitHubRateLimitError);
+  });
+
+  it('raises GitHubApiError with the status and message', async () => {
+    const error = await client.getIssue(42).catch(caught => caught);
+    expect(error).toBeInstanceOf(GitHubApiError);
+    expect(error.status).toBe(404);
+    expect(error.message).toContain('Not Found');
+  });
+
+  it('runs GraphQL queries and surfaces their errors', async () => {
+    fake.state.graphql = (query, variables) => query.includes('viewer')
+      ? { data: { viewer: { login: variables.login } } }
+      : { errors: [{ message: 'Field not found' }] };
+
+    expect(await client.graphql<{ viewer: { login: string } }>('query { viewer { login } }', { login: 'octocat' }))
+      .toEqual({ viewer: { login: 'octocat' } });
+    await expect(client.graphql('query { nope }')).rejects.toThrow('GitHub GraphQL error: Field not found');
+  });
+
+  it('backs GitHubService and GitHubCLICommands', async () => {
+    fake.state.issues = [issue(1, { labels: ['automation'] }), issue(2, { state: 'closed' })];
+    const service = new GitHubService('octo', 'widgets', client);
+
+    expect(await service.isReady()).toBe(true);
+    const open = await service.getIssues({ labels: ['automation'] });
+    expect(open.data!.map(found => found.labels)).toEqual([['automation']]);
+    expect(await service.closeIssue(1, 'Closing')).toMatchObject({ success: true, data: true });
+    expect(await service.closeIssue(9)).toMatchObject({ success: false, statusCode: 404 });
+
+    const commands = new GitHubCLICommands('octo', 'widgets', client);
+    const listed = await commands.listIssues({ state: 'all' });
+    expect(JSON.parse(listed.stdout).map((found: { state: string }) => found.state)).toEqual(['closed', 'closed']);
+    expect(await commands.createLabel({ name: 'bug', description: 'Bug', color: 'd73a4a' })).toMatchObject({ success: true });
+    expect(await commands.createLabel({ name: 'bug', description: 'Bug', color: 'd73a4a' })).toMatchObject({ success: true, message: 'Resource already exists' });
+    expect(JSON.parse((await commands.apiCall('')).stdout).open_issues_count).toBe(0);
+    expect(await commands.apiCall('issues/99')).toMatchObject({ success: false, exitCode: 404 });
+  });
+});
+
+describe('createGitHubClient', () => {
+  it('uses the REST transport when a token is set and the gh CLI otherwise', () => {
+    const saved = { GITHUB_TOKEN: process.env.GITHUB_TOKEN, GH_TOKEN: process.env.GH_TOKEN };
+    try {
+      process.env.GITHUB_TOKEN = 'token';
+      expect(createGitHubClient('octo', 'widgets').transport.name).toBe('rest');
+      delete process.env.GITHUB_TOKEN;
+      delete process.env.GH_TOKEN;
+      expect(createGitHubClient('octo', 'widgets').transport.name).toBe('gh');
+    } finally {
+      for (const [key, value] of Object.entries(saved)) {
+        if (value === undefined) delete process.env[key];
+        else process.env[key] = value;
+      }
+    }
+  });
+});
+
+describe('parseHttpResponse', () => {
+  it('splits gh api --include output into status, headers and body', () => {
+    const raw = 'HTTP/2.0 304 Not Modified\r\nEtag: "abc"\r\nX-Ratelimit-Remaining: 10\r\n\r\n';
+    expect(parseHttpResponse(raw)).toEqual({ status: 304, headers: { etag: '"abc"', 'x-ratelimit-remaining': '10' }, body: '' });
+    expect(parseHttpResponse('HTTP/2.0 200 OK\nContent-Type: application/json\n\n{"a":1}\n').body).toBe('{"a":1}\n');
+  });
+});
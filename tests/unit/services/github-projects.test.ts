@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import { FetchTransport, GitHubClient } from '../../../src/services/github-client';
+import { GitHubProjects } from '../../../src/services/github-projects';
+import { projectItemsFor } from '../../../src/utils/syncTracker';
+import type { E2ERoadmap } from '../../../src/types';
+import { replayGraphQL, startFakeGitHub, type RecordedGraphQLExchange } from '../../fake-github-server';
+import recording from '../../fixtures/github-projects/board.json';
+
+const ITEM_1 = 'PVTI_lAHOAAlx3s4A9c2KzgZ7dGc';
+const NEW_ITEM = 'PVTI_lAHOAAlx3s4A9c2KzgZ7dGo';
+
+describe('GitHubProjects', () => {
+  let fake: ReturnType<typeof startFakeGitHub>;
+  let client: GitHubClient;
+  let replay: ReturnType<typeof replayGraphQL>;
+
+  const mutations = () => replay.calls.filter(call => !['ProjectFields', 'ProjectItems', 'IssueNodeId'].includes(call.operation));
+
+  beforeAll(() => {
+    fake = startFakeGitHub('octo', 'widgets');
+  });
+
+  afterAll(() => {
+    fake.server.stop(true);
+  });
+
+  beforeEach(() => {
+    replay = replayGraphQL(recording.exchanges as RecordedGraphQLExchange[]);
+    Object.assign(fake.state, {
+      issues: [],
+      milestones: [{ number: 1, title: 'Phase 1', description: null, state: 'open', due_on: null }],
+      requests: [],
+      graphql: replay.handler,
+    });
+    fake.state.issues = [1, 2, 3].map(number => ({
+      number,
+      title: `Issue ${number}`,
+      body: null,
+      state: 'open' as const,
+      labels: [],
+      assignees: [],
+      milestone: null,
+      created_at: '2025-07-01T00:00:00Z',
+      updated_at: '2025-07-01T00:00:00Z',
+    }));
+    client = new GitHubClient('octo', 'widgets', { transport: new FetchTransport({ token: 'test', baseUrl: fake.baseUrl }) });
+  });
+
+  it('reads the board back across pages', async () => {
+    const board = await new GitHubProjects(client, 4).getBoardState(new Date('2025-07-14T10:00:00Z'));
+
+    expect(board).toMatchObject({
+      project: 'Automation Roadmap',
+      total: 3,
+      byStatus: { Todo: 1, Done: 1, 'No status': 1 },
+      overdue: [{ issue: 1, title: 'Ship docs', deadline: '2025-07-01' }],
+    });
+    expect(board.items).toEqual([
+      { issue: 1, title: 'Ship docs', status: 'pending', owner: 'alice', deadline: '2025-07-01', priority: 'medium' },
+      { issue: 2, title: 'Write tests', status: 'done', deadline: '2025-06-01', milestone: 'Phase 1' },
+      { issue: undefined, title: undefined },
+    ]);
+    expect(replay.calls.map(call => call.operation)).toEqual(['ProjectFields', 'ProjectItems', 'ProjectItems']);
+  });
+
+  it('maps task fields onto the board and sets the milestone on the issue', async () => {
+    const result = await new GitHubProjects(client, 4).syncTask({
+      task: 'Ship docs',
+      status: 'partial',
+      owner: 'alice',
+      // js-yaml loads unquoted dates as Date objects
+      deadline: new Date('2025-08-01T00:00:00Z') as unknown as string,
+      milestone: 'Phase 1',
+      priority: 'high',
+      issues: [1],
+    });
+
+    expect(result).toEqual({
+      issue: 1,
+      itemId: ITEM_1,
+      changes: [
+        { field: 'status', from: 'Todo', to: 'In Progress' },
+        { field: 'deadline', from: '2025-07-01', to: '2025-08-01' },
+        { field: 'milestone', to: 'Phase 1' },
+        { field: 'priority', from: 'Medium', to: 'high' },
+      ],
+      skipped: [],
+    });
+    expect(mutations().map(call => call.variables.value)).toEqual([
+      { singleSelectOptionId: '47fc9ee4' },
+      { date: '2025-08-01' },
+      { singleSelectOptionId: 'da944a9c' },
+    ]);
+    expect(mutations().every(call => call.variables.itemId === ITEM_1)).toBe(true);
+    expect(fake.state.issues[0]?.milestone).toBe(1);
+  });
+
+  it('adds missing issues, reports unusable values and keeps going past failures', async () => {
+    const roadmap: E2ERoadmap = {
+      type: 'e2e_automation_roadmap',
+      source: 'test',
+      createdBy: 'test',
+      createdAt: '2025-07-01T00:00:00.000Z',
+      tasks: [
+        { task: 'New on the board', status: 'pending', priority: 'critical', milestone: 'Phase 9', issues: [3] },
+        { task: 'Deleted issue', status: 'pending', issues: [404] },
+        { task: 'Not filed yet', status: 'pending' },
+        { task: 'Ship docs', status: 'pending', issues: [1] },
+      ],
+    };
+
+    const result = await new GitHubProjects(client, 4).syncRoadmap(roadmap);
+
+    expect(result.failed).toEqual([{ task: 'Deleted issue', error: 'GitHub GraphQL error: Could not resolve to an Issue with the number of 404.' }]);
+    expect(result.synced).toEqual([
+      {
+        issue: 3,
+        itemId: NEW_ITEM,
+        changes: [{ field: 'status', to: 'Todo' }],
+        skipped: [
+          { field: 'milestone', reason: 'Milestone not found: Phase 9' },
+          { field: 'priority', reason: 'No "critical" option in "Priority"' },
+        ],
+      },
+      { issue: 1, itemId: ITEM_1, changes: [], skipped: [] },
+    ]);
+    expect(mutations().map(call => call.operation)).toEqual(['AddProjectItem', 'UpdateItemField']);
+    // The board is listed once for the whole roadmap
+    expect(replay.calls.filter(call => call.operation === 'ProjectItems')).toHaveLength(2);
+  });
+
+  it('writes nothing on a dry run', async () => {
+    const result = await new GitHubProjects(client, 4).syncTask({ task: 'Ship docs', status: 'done', owner: 'bob', issues: [3] }, { dryRun: true });
+
+    expect(result.itemId).toBe('(new item)');
+    expect(result.changes.map(change => change.field)).toEqual(['status', 'owner']);
+    expect(mutations()).toEqual([]);
+  });
+
+  it('rejects an unknown project', async () => {
+    await expect(new GitHubProjects(client, 99).getBoard()).rejects.toThrow('Project octo#99 not found');
+  });
+
+  it('backs the tracker sync project operations', async () => {
+    const items = projectItemsFor(client);
+    expect(await items.add(4, 'octo', 'https://github.com/octo/widgets/issues/3')).toEqual({ itemId: NEW_ITEM });
+    expect(await items.add(4, 'octo', 'https://github.com/octo/widgets/issues/1')).toEqual({ itemId: ITEM_1, alreadyPresent: true });
+    await items.remove(4, 'octo', NEW_ITEM);
+    expect(mutations()).toEqual([
+      { operation: 'AddProjectItem', variables: { projectId: 'PVT_kwHOAAlx3s4A9c2K', contentId: 'I_kwDOJx8XZc6Q4bWe' } },
+      { operation: 'DeleteProjectItem', variables: { projectId: 'PVT_kwHOAAlx3s4A9c2K', itemId: NEW_ITEM } },
+    ]);
+  });
+});
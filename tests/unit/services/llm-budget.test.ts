@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  budgetId,
+  checkBudgets,
+  getBudgetStatus,
+  getBudgetWindow,
+  readBudgets,
+  rollupBudgetSpend,
+  type LLMBudget,
+} from '../../../src/services/llm-budget';
+import type { LLMUsageMetrics } from '../../../src/services/llm';
+import { rollupUsage } from '../../../src/services/llm-usage-log';
+
+const usage = (timestamp: string, cost: number, context = 'llm-plan', purpose = 'goal-decomposition'): LLMUsageMetrics => ({
+  timestamp,
+  model: 'gpt-4',
+  provider: 'openai',
+  inputTokens: 100,
+  outputTokens: 50,
+  totalTokens: 150,
+  cost,
+  duration: 10,
+  success: true,
+  context,
+  purpose,
+  valueScore: 0.8,
+});
+
+// Wednesday
+const now = new Date('2025-07-16T12:00:00.000Z');
+
+describe('getBudgetWindow', () => {
+  it('uses UTC calendar days, Monday-based weeks and calendar months', () => {
+    expect(getBudgetWindow('daily', now)).toEqual({ start: new Date('2025-07-16T00:00:00.000Z'), end: new Date('2025-07-17T00:00:00.000Z') });
+    expect(getBudgetWindow('weekly', now)).toEqual({ start: new Date('2025-07-14T00:00:00.000Z'), end: new Date('2025-07-21T00:00:00.000Z') });
+    expect(getBudgetWindow('monthly', now)).toEqual({ start: new Date('2025-07-01T00:00:00.000Z'), end: new Date('2025-08-01T00:00:00.000Z') });
+  });
+
+  it('treats Sunday as the last day of the week', () => {
+    expect(getBudgetWindow('weekly', new Date('2025-07-20T23:00:00.000Z')).start).toEqual(new Date('2025-07-14T00:00:00.000Z'));
+  });
+});
+
+describe('budgetId', () => {
+  it('identifies budgets by period and scope', () => {
+    expect(budgetId({ period: 'daily' })).toBe('daily:all');
+    expect(budgetId({ period: 'weekly', context: 'llm-plan', purpose: 'goal-decomposition' })).toBe('weekly:context=llm-plan,purpose=goal-decomposition');
+  });
+});
+
+describe('getBudgetStatus', () => {
+  const log = [
+    usage('2025-07-13T10:00:00.000Z', 5), // previous week
+    usage('2025-07-14T10:00:00.000Z', 1),
+    usage('2025-07-15T10:00:00.000Z', 0.5),
+    usage('2025-07-16T09:00:00.000Z', 0.25, 'semantic-tagging', 'semantic-tagging'),
+  ];
+
+  it('sums spend in the current period and builds a daily burn-down', () => {
+    const status = getBudgetStatus({ period: 'weekly', limit: 2, onExhausted: 'degrade' }, log, now);
+    expect(status.spent).toBe(1.75);
+    expect(status.remaining).toBe(0.25);
+    expect(status.calls).toBe(3);
+    expect(status.exhausted).toBe(false);
+    expect(status.burnDown).toEqual([
+      { date: '2025-07-14', spent: 1, remaining: 1 },
+      { date: '2025-07-15', spent: 1.5, remaining: 0.5 },
+      { date: '2025-07-16', spent: 1.75, remaining: 0.25 },
+    ]);
+    // 2.5 of 7 days elapsed
+    expect(status.projected).toBeCloseTo(1.75 / (2.5 / 7));
+  });
+
+  it('only counts calls matching the budget scope', () => {
+    const status = getBudgetStatus({ period: 'weekly', limit: 1, context: 'llm-plan', onExhausted: 'stop' }, log, now);
+    expect(status.spent).toBe(1.5);
+    expect(status.exhausted).toBe(true);
+  });
+});
+
+describe('rollupBudgetSpend', () => {
+  it('turns a day of calls into one record per context and purpose', () => {
+    const [day] = rollupUsage([
+      usage('2025-07-14T10:00:00.000Z', 1),
+      usage('2025-07-14T11:00:00.000Z', 0.5),
+      usage('2025-07-14T12:00:00.000Z', 0.25, 'semantic-tagging', 'semantic-tagging'),
+    ]);
+    const spend = rollupBudgetSpend(day!)!;
+
+    expect(spend).toEqual([
+      { timestamp: '2025-07-14T00:00:00.000Z', cost: 1.5, context: 'llm-plan', purpose: 'goal-decomposition', calls: 2 },
+      { timestamp: '2025-07-14T00:00:00.000Z', cost: 0.25, context: 'semantic-tagging', purpose: 'semantic-tagging', calls: 1 },
+    ]);
+    const status = getBudgetStatus({ period: 'weekly', limit: 2, context: 'llm-plan', onExhausted: 'stop' }, spend, now);
+    expect([status.spent, status.calls]).toEqual([1.5, 2]);
+  });
+
+  it('gives up on a day logged before per-scope totals were kept', () => {
+    const [day] = rollupUsage([usage('2025-07-14T10:00:00.000Z', 1), usage('2025-07-14T11:00:00.000Z', 1)]);
+    delete day!.scopes!['llm-plan'];
+    expect(rollupBudgetSpend(day!)).toBeNull();
+  });
+});
+
+describe('checkBudgets', () => {
+  const budgets: LLMBudget[] = [
+    { period: 'daily', limit: 1, onExhausted: 'degrade' },
+    { period: 'daily', limit: 0.1, purpose: 'semantic-tagging', onExhausted: 'stop' },
+  ];
+  const log = [usage('2025-07-16T09:00:00.000Z', 0.9)];
+
+  it('returns the budgets a paid call would exceed', () => {
+    const call = { context: 'llm-plan', purpose: 'goal-decomposition' };
+    expect(checkBudgets(budgets, log, { ...call, estimatedCost: 0.05 }, now)).toEqual([]);
+    expect(checkBudgets(budgets, log, { ...call, estimatedCost: 0.2 }, now).map(status => status.id)).toEqual(['daily:all']);
+    expect(checkBudgets(budgets, log, { context: 'x', purpose: 'semantic-tagging', estimatedCost: 0.2 }, now).map(status => status.id))
+      .toEqual(['daily:all', 'daily:purpose=semantic-tagging']);
+  });
+
+  it('never blocks free calls', () => {
+    expect(checkBudgets(budgets, [usage('2025-07-16T09:00:00.000Z', 5)], { context: 'x', purpose: 'y', estimatedCost: 0 }, now)).toEqual([]);
+  });
+});
+
+describe('readBudgets', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'llm-budgets-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('has no budgets before the file exists', async () => {
+    expect(await readBudgets(path.join(dir, 'budgets.json'))).toEqual([]);
+  });
+
+  it('throws on a corrupt budgets file instead of dropping every limit', async () => {
+    const filePath = path.join(dir, 'budgets.json');
+    await fs.writeFile(filePath, '{"budgets": [');
+    await expect(readBudgets(filePath)).rejects.toThrow();
+
+    await fs.writeFile(filePath, '{"budgets": {}}');
+    await expect(readBudgets(filePath)).rejects.toThrow('expected a "budgets" array');
+  });
+});
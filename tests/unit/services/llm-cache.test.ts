@@ -0,0 +1,115 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { LLMResponseCache, promptFingerprint, type LLMCacheEntry } from '../../../src/services/llm-cache';
+
+const messages = [
+  { role: 'system' as const, content: 'You are terse.' },
+  { role: 'user' as const, content: 'Tag this fossil' },
+];
+
+const entry = (key: string, createdAt = '2025-07-16T12:00:00.000Z'): LLMCacheEntry => ({
+  key,
+  model: 'gpt-4',
+  purpose: 'semantic-tagging',
+  provider: 'openai',
+  cost: 0.01,
+  createdAt,
+  response: { choices: [{ message: { content: `response ${key}` } }] },
+});
+
+const now = new Date('2025-07-16T12:00:00.000Z');
+const later = (minutes: number) => new Date(now.getTime() + minutes * 60_000);
+
+describe('promptFingerprint', () => {
+  it('is stable for the same model, messages and temperature', () => {
+    expect(promptFingerprint('gpt-4', messages, 0.2)).toBe(promptFingerprint('gpt-4', messages.map(m => ({ ...m })), 0.2));
+    expect(promptFingerprint('gpt-4', messages)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('changes with any part of the prompt', () => {
+    const base = promptFingerprint('gpt-4', messages, 0.2);
+    expect(promptFingerprint('gpt-3.5-turbo', messages, 0.2)).not.toBe(base);
+    expect(promptFingerprint('gpt-4', messages, 0.7)).not.toBe(base);
+    expect(promptFingerprint('gpt-4', [...messages].reverse(), 0.2)).not.toBe(base);
+    expect(promptFingerprint('gpt-4', [{ ...messages[0]!, role: 'user' }, messages[1]!], 0.2)).not.toBe(base);
+  });
+});
+
+describe('LLMResponseCache (in memory)', () => {
+  const createCache = (overrides: Partial<ConstructorParameters<typeof LLMResponseCache>[0]> = {}) =>
+    new LLMResponseCache({ ttlHours: 1, maxEntries: 10, maxBytes: 1024 * 1024, ...overrides });
+
+  it('returns stored entries until they expire', async () => {
+    const cache = createCache();
+    await cache.set(entry('a'), now);
+    expect((await cache.get('a', later(30)))?.response.choices[0].message.content).toBe('response a');
+    expect(await cache.get('a', later(61))).toBeNull();
+    expect((await cache.stats()).entries).toBe(0);
+  });
+
+  it('evicts the least recently used entry over maxEntries', async () => {
+    const cache = createCache({ maxEntries: 2 });
+    await cache.set(entry('a'), later(1));
+    await cache.set(entry('b'), later(2));
+    await cache.get('a', later(3));
+    await cache.set(entry('c'), later(4));
+
+    expect(await cache.get('a', later(5))).not.toBeNull();
+    expect(await cache.get('b', later(5))).toBeNull();
+    expect(await cache.get('c', later(5))).not.toBeNull();
+  });
+
+  it('evicts entries over maxBytes', async () => {
+    const size = Buffer.byteLength(JSON.stringify(entry('a')));
+    const cache = createCache({ maxBytes: size * 2 });
+    await cache.set(entry('a'), later(1));
+    await cache.set(entry('b'), later(2));
+    await cache.set(entry('c'), later(3));
+    expect((await cache.stats()).entries).toBe(2);
+    expect(await cache.get('a', later(4))).toBeNull();
+  });
+
+  it('clears every entry', async () => {
+    const cache = createCache();
+    await cache.set(entry('a'), now);
+    await cache.set(entry('b'), now);
+    expect(await cache.clear()).toBe(2);
+    expect(await cache.stats()).toEqual({ entries: 0, bytes: 0 });
+  });
+});
+
+describe('LLMResponseCache (on disk)', () => {
+  let dir: string;
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('persists one file per fingerprint across instances', async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'llm-cache-'));
+    const options = { dir, ttlHours: 1, maxEntries: 10, maxBytes: 1024 * 1024 };
+    const key = promptFingerprint('gpt-4', messages);
+    await new LLMResponseCache(options).set(entry(key), now);
+
+    expect(await fs.readdir(dir)).toEqual([`${key}.json`]);
+    expect((await new LLMResponseCache(options).get(key, later(1)))?.key).toBe(key);
+    const stats = await new LLMResponseCache(options).stats();
+    expect(stats.entries).toBe(1);
+    expect(stats.bytes).toBeGreaterThan(0);
+  });
+
+  it('evicts by last use, tracked through file modification times', async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'llm-cache-'));
+    const cache = new LLMResponseCache({ dir, ttlHours: 1, maxEntries: 2, maxBytes: 1024 * 1024 });
+    await cache.set(entry('a'), later(1));
+    await fs.utimes(path.join(dir, 'a.json'), later(1), later(1));
+    await cache.set(entry('b'), later(2));
+    await fs.utimes(path.join(dir, 'b.json'), later(2), later(2));
+    await cache.get('a', later(3));
+    await cache.set(entry('c'), later(4));
+
+    expect((await fs.readdir(dir)).sort()).toEqual(['a.json', 'c.json']);
+  });
+});
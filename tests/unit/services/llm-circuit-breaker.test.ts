@@ -0,0 +1,127 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ProviderCircuitBreakers } from '../../../src/services/llm-circuit-breaker';
+
+const now = new Date('2025-07-16T12:00:00.000Z');
+const later = (ms: number) => new Date(now.getTime() + ms);
+
+const createBreakers = (filePath?: string) => new ProviderCircuitBreakers({ path: filePath, failureThreshold: 2, cooldownMs: 1000 });
+
+describe('ProviderCircuitBreakers', () => {
+  it('starts closed and opens after consecutive failures reach the threshold', async () => {
+    const breakers = createBreakers();
+    expect(await breakers.getState('openai', now)).toBe('closed');
+
+    await breakers.recordFailure('openai', 'boom', now);
+    expect(await breakers.getState('openai', now)).toBe('closed');
+    await breakers.recordFailure('openai', 'boom', now);
+    expect(await breakers.getState('openai', now)).toBe('open');
+  });
+
+  it('resets the failure count on success', async () => {
+    const breakers = createBreakers();
+    await breakers.recordFailure('openai', 'boom', now);
+    await breakers.recordSuccess('openai', now);
+    await breakers.recordFailure('openai', 'boom', now);
+    expect(await breakers.getState('openai', now)).toBe('closed');
+  });
+
+  it('goes half-open after the cooldown; a failed trial reopens and a successful one closes', async () => {
+    const breakers = createBreakers();
+    await breakers.recordFailure('openai', 'boom', now);
+    await breakers.recordFailure('openai', 'boom', now);
+    expect(await breakers.getState('openai', later(999))).toBe('open');
+    expect(await breakers.getState('openai', later(1000))).toBe('half-open');
+
+    await breakers.recordFailure('openai', 'still down', later(1000));
+    expect(await breakers.getState('openai', later(1500))).toBe('open');
+    expect(await breakers.getState('openai', later(2000))).toBe('half-open');
+
+    await breakers.recordSuccess('openai', later(2000));
+    const [health] = await breakers.getHealth(later(2000));
+    expect(health).toMatchObject({ provider: 'openai', state: 'closed', consecutiveFailures: 0, totalFailures: 3, totalSuccesses: 1 });
+    expect(health!.retryAt).toBeUndefined();
+  });
+
+  it('hands the trial call of a half-open circuit to one caller at a time', async () => {
+    const breakers = createBreakers();
+    expect(await breakers.allowCall('openai', now)).toBe(true);
+    await breakers.recordFailure('openai', 'boom', now);
+    await breakers.recordFailure('openai', 'boom', now);
+    expect(await breakers.allowCall('openai', later(999))).toBe(false);
+
+    expect(await breakers.allowCall('openai', later(1000))).toBe(true);
+    expect(await breakers.allowCall('openai', later(1001))).toBe(false);
+    // A trial never recorded is handed out again after another cooldown
+    expect(await breakers.allowCall('openai', later(2000))).toBe(true);
+
+    await breakers.recordSuccess('openai', later(2100));
+    expect(await breakers.allowCall('openai', later(2100))).toBe(true);
+    expect(await breakers.allowCall('openai', later(2100))).toBe(true);
+  });
+
+  it('opens immediately for an explicit duration', async () => {
+    const breakers = createBreakers();
+    await breakers.recordFailure('openai', '429 rate limit', now, 5000);
+    expect(await breakers.getState('openai', later(4999))).toBe('open');
+    expect(await breakers.getState('openai', later(5000))).toBe('half-open');
+  });
+
+  it('resets one provider or all', async () => {
+    const breakers = createBreakers();
+    await breakers.recordFailure('openai', 'boom', now);
+    await breakers.recordFailure('local-ollama', 'boom', now);
+    expect(await breakers.reset('openai')).toEqual(['openai']);
+    expect((await breakers.getHealth(now)).map(health => health.provider)).toEqual(['local-ollama']);
+    expect(await breakers.reset()).toEqual(['local-ollama']);
+    expect(await breakers.getHealth(now)).toEqual([]);
+  });
+
+  describe('persistence', () => {
+    let dir: string;
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('keeps health across instances', async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'llm-health-'));
+      const filePath = path.join(dir, 'health.json');
+      await createBreakers(filePath).recordFailure('openai', 'boom', now);
+      await createBreakers(filePath).recordFailure('openai', 'boom', now);
+
+      expect(await createBreakers(filePath).getState('openai', now)).toBe('open');
+      const [health] = await createBreakers(filePath).getHealth(now);
+      expect(health).toMatchObject({ consecutiveFailures: 2, lastError: 'boom' });
+    });
+
+    it('keeps every provider when processes record concurrently', async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'llm-health-'));
+      const filePath = path.join(dir, 'health.json');
+      const first = createBreakers(filePath);
+      const second = createBreakers(filePath);
+      await Promise.all([first.getState('openai', now), second.getState('openai', now)]);
+
+      await Promise.all([
+        first.recordFailure('openai', 'boom', now),
+        second.recordFailure('anthropic', 'boom', now),
+        first.recordFailure('openai', 'boom', now),
+        second.recordSuccess('local-ollama', now),
+      ]);
+
+      const health = await createBreakers(filePath).getHealth(now);
+      expect(health.map(entry => [entry.provider, entry.state]).sort()).toEqual([['anthropic', 'closed'], ['local-ollama', 'closed'], ['openai', 'open']]);
+    });
+
+    it('gives the trial call to one process', async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'llm-health-'));
+      const filePath = path.join(dir, 'health.json');
+      await createBreakers(filePath).recordFailure('openai', '429', now, 1000);
+
+      const allowed = await Promise.all([1, 2, 3].map(() => createBreakers(filePath).allowCall('openai', later(1000))));
+      expect(allowed.filter(Boolean)).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import { LLMService } from '../../../src/services/llm';
+import {
+  ConcurrencyLimiter,
+  HealthProbe,
+  createOpenAICompatibleProvider,
+  localBackendFromEnv,
+  resolveModelAlias,
+} from '../../../src/services/llm-openai-compatible';
+
+/**
+ * Minimal llama.cpp-style server: `/v1/models` and `/v1/chat/completions` (plain and streamed)
+ */
+function startMockServer() {
+  const state = { inFlight: 0, maxInFlight: 0, models: [] as string[], authorization: [] as (string | null)[], probes: 0, delayMs: 0 };
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const url = new URL(request.url);
+      if (url.pathname === '/v1/models') {
+        state.probes++;
+        return Response.json({ object: 'list', data: [{ id: 'qwen2.5-7b-instruct', object: 'model' }] });
+      }
+      if (url.pathname !== '/v1/chat/completions') return new Response('not found', { status: 404 });
+
+      const body = await request.json() as { model: string; stream?: boolean; messages: Array<{ content: string }> };
+      state.models.push(body.model);
+      state.authorization.push(request.headers.get('authorization'));
+      state.inFlight++;
+      state.maxInFlight = Math.max(state.maxInFlight, state.inFlight);
+      await Bun.sleep(state.delayMs);
+      state.inFlight--;
+
+      const content = `echo: ${body.messages.at(-1)!.content}`;
+      if (body.stream) {
+        const events = [content.slice(0, 5), content.slice(5)]
+          .map(delta => `data: ${JSON.stringify({ choices: [{ delta: { content: delta } }] })}\n\n`)
+          .join('') + 'data: [DONE]\n\n';
+        return new Response(events, { headers: { 'Content-Type': 'text/event-stream' } });
+      }
+      return Response.json({
+        model: body.model,
+        choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 12, completion_tokens: 4, total_tokens: 16 },
+      });
+    },
+  });
+  return { server, state };
+}
+
+describe('OpenAI-compatible backend', () => {
+  let server: ReturnType<typeof startMockServer>['server'];
+  let state: ReturnType<typeof startMockServer>['state'];
+  let baseUrl: string;
+
+  beforeAll(() => {
+    ({ server, state } = startMockServer());
+    baseUrl = `http://localhost:${server.port}/v1`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  beforeEach(() => {
+    Object.assign(state, { inFlight: 0, maxInFlight: 0, models: [], authorization: [], probes: 0, delayMs: 0 });
+  });
+
+  const request = (content: string, model = 'gpt-4o-mini') => ({
+    model,
+    apiKey: 'openai-key',
+    messages: [{ role: 'user' as const, content }],
+  });
+
+  it('calls the server with the aliased model and its own key', async () => {
+    const provider = createOpenAICompatibleProvider({
+      name: 'llama-cpp',
+      baseUrl: `${baseUrl}/`,
+      apiKey: 'local-key',
+      modelAliases: { 'gpt-4o-mini': 'qwen2.5-7b-instruct' },
+    }, () => 0);
+
+    const response = await provider.call(request('hi'));
+    expect(response.choices[0].message.content).toBe('echo: hi');
+    expect(state.models).toEqual(['qwen2.5-7b-instruct']);
+    expect(state.authorization).toEqual(['Bearer local-key']);
+    expect(provider.estimateCost(1000, 'gpt-4o-mini', 1000)).toBe(0);
+  });
+
+  it('streams server-sent events', async () => {
+    const provider = createOpenAICompatibleProvider({ name: 'llama-cpp', baseUrl }, () => 0);
+    const deltas: string[] = [];
+    for await (const delta of provider.stream!(request('stream me'))) deltas.push(delta);
+    expect(deltas).toEqual(['echo:', ' stream me']);
+    expect(state.authorization).toEqual([null]);
+  });
+
+  it('keeps at most maxConcurrency requests in flight', async () => {
+    state.delayMs = 30;
+    const provider = createOpenAICompatibleProvider({ name: 'vllm', baseUrl, maxConcurrency: 2 }, () => 0);
+    await Promise.all([1, 2, 3, 4, 5].map(n => provider.call(request(`call ${n}`))));
+    expect(state.models).toHaveLength(5);
+    expect(state.maxInFlight).toBe(2);
+  });
+
+  it('probes health and caches the result', async () => {
+    const provider = createOpenAICompatibleProvider({ name: 'lm-studio', baseUrl, healthCheckIntervalMs: 60_000 }, () => 0);
+    expect(await provider.isAvailable()).toBe(true);
+    expect(await provider.isAvailable()).toBe(true);
+    expect(state.probes).toBe(1);
+
+    const down = createOpenAICompatibleProvider({ name: 'down', baseUrl: 'http://127.0.0.1:9/v1', healthCheckTimeoutMs: 500 }, () => 0);
+    expect(await down.isAvailable()).toBe(false);
+  });
+
+  it('rejects invalid settings', () => {
+    expect(() => createOpenAICompatibleProvider({ name: 'bad', baseUrl: 'not a url', maxConcurrency: 0 }, () => 0))
+      .toThrow(/Invalid local backend bad: baseUrl: Invalid url; maxConcurrency: /);
+  });
+
+  it('is preferred by LLMService for simple tasks and recorded in usage', async () => {
+    const service = new LLMService({
+      memoryOnly: true,
+      testMode: false,
+      minValueScore: 0.1,
+      retryAttempts: 1,
+      localBackends: [{ name: 'llama-cpp', baseUrl, modelAliases: { '*': 'qwen2.5-7b-instruct' } }],
+    });
+
+    const response = await service.callLLM({ ...request('tag this'), purpose: 'semantic-tagging', valueScore: 0.8 });
+    expect(response.choices[0].message.content).toBe('echo: tag this');
+    const log = (await service.getUsageLog()).at(-1)!;
+    expect(log.provider as string).toBe('llama-cpp');
+    expect(log.inputTokens).toBe(12);
+    expect(log.cost).toBe(0);
+
+    let streamed = '';
+    for await (const chunk of service.streamLLM({ ...request('and stream'), purpose: 'semantic-tagging' })) {
+      expect(chunk.provider).toBe('llama-cpp');
+      streamed += chunk.delta;
+    }
+    expect(streamed).toBe('echo: and stream');
+  });
+});
+
+describe('resolveModelAlias', () => {
+  it('uses the exact alias, then the wildcard, then the requested model', () => {
+    expect(resolveModelAlias('gpt-4', { 'gpt-4': 'llama3:70b', '*': 'llama3:8b' })).toBe('llama3:70b');
+    expect(resolveModelAlias('gpt-4o', { 'gpt-4': 'llama3:70b', '*': 'llama3:8b' })).toBe('llama3:8b');
+    expect(resolveModelAlias('gpt-4o', {})).toBe('gpt-4o');
+  });
+});
+
+describe('localBackendFromEnv', () => {
+  it('builds a backend from LOCAL_LLM_* variables', () => {
+    expect(localBackendFromEnv({})).toBeUndefined();
+    expect(localBackendFromEnv({ LOCAL_LLM_BASE_URL: 'http://localhost:8080/v1', LOCAL_LLM_MODEL: 'qwen' })).toEqual({
+      name: 'local-openai',
+      baseUrl: 'http://localhost:8080/v1',
+      apiKey: undefined,
+      modelAliases: { '*': 'qwen' },
+    });
+  });
+});
+
+describe('ConcurrencyLimiter', () => {
+  it('runs queued tasks in order as slots free up', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const order: number[] = [];
+    await Promise.all([1, 2, 3].map(n => limiter.run(async () => {
+      order.push(n);
+      await Bun.sleep(5);
+    })));
+    expect(order).toEqual([1, 2, 3]);
+    expect(limiter.inFlight).toBe(0);
+  });
+
+  it('stops waiting when the signal aborts', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    await limiter.acquire();
+    const controller = new AbortController();
+    const waiting = limiter.acquire(controller.signal);
+    controller.abort(new Error('cancelled'));
+    await expect(waiting).rejects.toThrow('cancelled');
+    limiter.release();
+    expect(limiter.inFlight).toBe(0);
+  });
+});
+
+describe('HealthProbe', () => {
+  it('probes again once the interval has passed', async () => {
+    let now = 0;
+    const probe = new HealthProbe('http://127.0.0.1:9/v1', { intervalMs: 1000, timeoutMs: 200 }, () => now);
+    expect(await probe.isHealthy()).toBe(false);
+
+    // The server comes up
+    probe['probe'] = async () => true;
+    now = 500;
+    expect(await probe.isHealthy()).toBe(false);
+    now = 1500;
+    expect(await probe.isHealthy()).toBe(true);
+  });
+});
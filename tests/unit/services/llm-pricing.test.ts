@@ -0,0 +1,58 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { DEFAULT_PRICING, calculateCost, getModelPricing, loadPricingTable } from '../../../src/services/llm-pricing';
+
+describe('getModelPricing', () => {
+  it('matches exact names, then the longest prefix, then the fallback model', () => {
+    expect(getModelPricing(DEFAULT_PRICING, 'gpt-4o-mini')).toEqual({ input: 0.15, output: 0.6 });
+    expect(getModelPricing(DEFAULT_PRICING, 'gpt-4o-2024-08-06')).toEqual({ input: 2.5, output: 10 });
+    expect(getModelPricing(DEFAULT_PRICING, 'gpt-4-turbo-preview')).toEqual({ input: 10, output: 30 });
+    expect(getModelPricing(DEFAULT_PRICING, 'llama2')).toEqual(DEFAULT_PRICING.models['gpt-3.5-turbo']!);
+    expect(getModelPricing({ ...DEFAULT_PRICING, fallback: undefined }, 'llama2')).toBeNull();
+  });
+});
+
+describe('calculateCost', () => {
+  it('prices input and output tokens separately', () => {
+    expect(calculateCost({ input: 30, output: 60 }, 1000, 500)).toBeCloseTo(0.06);
+    expect(calculateCost({ input: 30, output: 60 }, 1000)).toBeCloseTo(0.03);
+    expect(calculateCost(null, 1000, 500)).toBe(0);
+  });
+});
+
+describe('loadPricingTable', () => {
+  let dir: string;
+
+  afterEach(async () => {
+    if (dir) await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('returns the built-in prices when there is no file', () => {
+    expect(loadPricingTable('/nonexistent/.llm-pricing.json')).toBe(DEFAULT_PRICING);
+  });
+
+  it('layers the file over the built-in prices', async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'llm-pricing-'));
+    const filePath = path.join(dir, '.llm-pricing.json');
+    await fs.writeFile(filePath, JSON.stringify({
+      version: '2025-08-01-negotiated',
+      models: { 'gpt-4o': { input: 2, output: 8 }, 'my-finetune': { input: 3, output: 12 } },
+    }));
+
+    const table = loadPricingTable(filePath);
+    expect(table.version).toBe('2025-08-01-negotiated');
+    expect(table.models['gpt-4o']).toEqual({ input: 2, output: 8 });
+    expect(table.models['my-finetune']).toEqual({ input: 3, output: 12 });
+    expect(table.models['gpt-4']).toEqual(DEFAULT_PRICING.models['gpt-4']!);
+    expect(table.fallback).toBe(DEFAULT_PRICING.fallback);
+  });
+
+  it('rejects invalid tables', async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'llm-pricing-'));
+    const filePath = path.join(dir, '.llm-pricing.json');
+    await fs.writeFile(filePath, JSON.stringify({ models: { 'gpt-4o': { input: -1, output: 8 } } }));
+    expect(() => loadPricingTable(filePath)).toThrow(/Invalid pricing table .*version.*models\.gpt-4o\.input/);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { LLMService } from '../../../src/services/llm';
+import {
+  PROMPTS_DIR,
+  PromptRegistry,
+  PromptTemplateError,
+  comparePromptVersions,
+  loadPromptRegistry,
+  parsePromptPins,
+  type PromptTemplate,
+} from '../../../src/services/llm-prompts';
+
+const template = (version: number, content = 'Summarize {{topic}} in {{words}} words. Context: {{context}}'): PromptTemplate => ({
+  id: 'summary',
+  version,
+  variables: { topic: 'string', words: 'number', context: 'json?' },
+  messages: [{ role: 'user', content }],
+});
+
+describe('PromptRegistry', () => {
+  it('renders typed variables into the latest version', () => {
+    const registry = new PromptRegistry([template(1, 'old {{topic}}'), template(2)]);
+    const rendered = registry.render('summary', { topic: 'caching', words: 50, context: { repo: 'x' } });
+
+    expect(rendered.prompt).toEqual({ id: 'summary', version: 2 });
+    expect(rendered.messages).toEqual([{ role: 'user', content: 'Summarize caching in 50 words. Context: {"repo":"x"}' }]);
+    expect(registry.render('summary', { topic: 'caching', words: 50 }).messages[0]!.content).toBe('Summarize caching in 50 words. Context: ');
+  });
+
+  it('renders the pinned version unless one is asked for', () => {
+    const registry = new PromptRegistry([template(1, 'old {{topic}}'), template(2)], { summary: 1 });
+    expect(registry.render('summary', { topic: 'caching', words: 50 }).messages[0]!.content).toBe('old caching');
+    expect(registry.render('summary', { topic: 'caching', words: 50 }, 2).prompt.version).toBe(2);
+  });
+
+  it('rejects missing, mistyped and unknown variables', () => {
+    const registry = new PromptRegistry([template(1)]);
+    expect(() => registry.render('summary', { words: '50', extra: true })).toThrow(
+      'Invalid variables for prompt summary@v1: topic is required; words must be a number, got string; extra is not a variable of this template'
+    );
+  });
+
+  it('rejects unknown templates, duplicate versions and undeclared placeholders', () => {
+    const registry = new PromptRegistry([template(1)]);
+    expect(() => registry.get('missing')).toThrow(PromptTemplateError);
+    expect(() => registry.get('summary', 3)).toThrow('Unknown prompt template version: summary@v3');
+    expect(() => registry.register(template(1))).toThrow('Prompt summary@v1 is already registered');
+    expect(() => registry.register(template(2, 'Hello {{name}}'))).toThrow('Prompt summary@v2 uses undeclared variables: name');
+  });
+});
+
+describe('loadPromptRegistry', () => {
+  let dir: string;
+
+  afterEach(async () => {
+    if (dir) await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('loads every template in prompts/', () => {
+    const registry = loadPromptRegistry(path.join(process.cwd(), 'prompts'));
+    expect(registry.list().map(template => template.id)).toContain('goal-decomposition');
+    expect(registry.render('goal-decomposition', { goal: 'Ship it', context: {} }).messages[1]!.content).toBe(
+      'Break down the following goal into actionable tasks.\nGoal: Ship it\nContext: {}'
+    );
+  });
+
+  it('finds prompts/ from any working directory', async () => {
+    const cwd = process.cwd();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'llm-prompts-'));
+    process.chdir(dir);
+    try {
+      expect(PROMPTS_DIR).toBe(path.join(cwd, 'prompts'));
+      expect(new LLMService({ memoryOnly: true }).renderPrompt('goal-decomposition', { goal: 'Ship it', context: {} }).prompt).toEqual({
+        id: 'goal-decomposition',
+        version: 1,
+      });
+    } finally {
+      process.chdir(cwd);
+    }
+  });
+
+  it('returns an empty registry when the directory does not exist', () => {
+    expect(loadPromptRegistry('/nonexistent/prompts').list()).toEqual([]);
+  });
+
+  it('rejects invalid template files', async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'llm-prompts-'));
+    await fs.writeFile(path.join(dir, 'bad.v1.yaml'), 'id: Bad Id\nversion: 0\nmessages: []\n');
+    expect(() => loadPromptRegistry(dir)).toThrow(/Invalid prompt template .*bad\.v1\.yaml: id: .*; version: .*; messages: /);
+  });
+});
+
+describe('parsePromptPins', () => {
+  it('parses id=version lists', () => {
+    expect(parsePromptPins('goal-decomposition=2, semantic-tagging=1')).toEqual({ 'goal-decomposition': 2, 'semantic-tagging': 1 });
+    expect(parsePromptPins(undefined)).toEqual({});
+    expect(() => parsePromptPins('goal-decomposition')).toThrow(PromptTemplateError);
+  });
+});
+
+describe('comparePromptVersions', () => {
+  it('aggregates usage records per template version', () => {
+    const record = (version: number, success: boolean, cost: number, valid?: boolean) => ({
+      prompt: { id: 'summary', version },
+      success,
+      cost,
+      validation: valid === undefined ? undefined : { attempt: 0, valid },
+    });
+    const stats = comparePromptVersions([
+      record(2, true, 0.02, true),
+      record(1, true, 0.01),
+      record(1, false, 0.03),
+      record(2, true, 0.04, false),
+      { prompt: { id: 'other', version: 1 }, success: true, cost: 1 },
+      { success: true, cost: 1 },
+    ], 'summary');
+
+    expect(stats).toEqual([
+      { id: 'summary', version: 1, calls: 2, successRate: 0.5, totalCost: 0.04, averageCost: 0.02, validatedCalls: 0, validationPassRate: null },
+      { id: 'summary', version: 2, calls: 2, successRate: 1, totalCost: 0.06, averageCost: 0.03, validatedCalls: 2, validationPassRate: 0.5 },
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'bun:test';
+import { ProviderRateLimiter, TokenBucket, sharedRateLimiter, type RateLimitClock } from '../../../src/services/llm-rate-limit';
+
+/**
+ * Clock whose sleeps advance time instantly
+ */
+function fakeClock() {
+  const clock = {
+    time: 0,
+    sleeps: [] as number[],
+    now: () => clock.time,
+    sleep: async (ms: number, signal?: AbortSignal) => {
+      if (signal?.aborted) throw signal.reason;
+      clock.sleeps.push(ms);
+      clock.time += ms;
+    },
+  };
+  return clock satisfies RateLimitClock;
+}
+
+describe('TokenBucket', () => {
+  it('starts full and refills continuously at its capacity per minute', () => {
+    const clock = fakeClock();
+    const bucket = new TokenBucket(60, clock);
+
+    expect(bucket.delayFor(60)).toBe(0);
+    bucket.take(60);
+    expect(bucket.delayFor(1)).toBe(1000);
+    clock.time = 30_000;
+    expect(bucket.delayFor(30)).toBe(0);
+    expect(bucket.delayFor(31)).toBe(1000);
+  });
+
+  it('waits for a full bucket when asked for more than its capacity', () => {
+    const clock = fakeClock();
+    const bucket = new TokenBucket(100, clock);
+    bucket.take(50);
+    expect(bucket.delayFor(500)).toBe(30_000);
+  });
+});
+
+describe('ProviderRateLimiter', () => {
+  it('throttles requests and tokens per provider', async () => {
+    const clock = fakeClock();
+    const limiter = new ProviderRateLimiter({
+      openai: { requestsPerMinute: 2, tokensPerMinute: 1000 },
+    }, clock);
+
+    expect(await limiter.acquire('openai', 100)).toBe(0);
+    expect(await limiter.acquire('openai', 100)).toBe(0);
+    // Request bucket is empty: one request refills in 30s
+    expect(await limiter.acquire('openai', 100)).toBe(30_000);
+    expect(await limiter.acquire('openai', 900)).toBe(30_000);
+    // 100 tokens left: 900 more take 54s to refill
+    expect(await limiter.acquire('openai', 1000)).toBe(54_000);
+    expect(await limiter.acquire('local-ollama', 1_000_000)).toBe(0);
+  });
+
+  it('serves waiters in order and skips cancelled ones', async () => {
+    const clock = fakeClock();
+    const limiter = new ProviderRateLimiter({ openai: { requestsPerMinute: 1 } }, clock);
+    const cancelled = new AbortController();
+    cancelled.abort(new Error('cancelled'));
+    const order: string[] = [];
+
+    await Promise.all([
+      limiter.acquire('openai', 1).then(() => order.push('first')),
+      limiter.acquire('openai', 1, cancelled.signal).catch(error => order.push(error.message)),
+      limiter.acquire('openai', 1).then(() => order.push('second')),
+    ]);
+
+    expect(order).toEqual(['first', 'cancelled', 'second']);
+    expect(clock.sleeps).toEqual([60_000]);
+  });
+});
+
+describe('sharedRateLimiter', () => {
+  it('hands every caller with the same limits one limiter', () => {
+    const limiter = sharedRateLimiter({ openai: { requestsPerMinute: 500 }, anthropic: { requestsPerMinute: 50 } });
+
+    expect(sharedRateLimiter({ anthropic: { requestsPerMinute: 50 }, openai: { requestsPerMinute: 500 } })).toBe(limiter);
+    expect(sharedRateLimiter({ openai: { requestsPerMinute: 400 } })).not.toBe(limiter);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, afterEach, mock } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { LLMService } from '../../../src/services/llm';
+import { UnrecordedLLMRequestError, replayConfigFromEnv } from '../../../src/services/llm-replay';
+
+describe('replayConfigFromEnv', () => {
+  it('reads the mode and fixture directory', () => {
+    expect(replayConfigFromEnv({})).toBeUndefined();
+    expect(replayConfigFromEnv({ LLM_REPLAY: 'replay', LLM_FIXTURES_DIR: '/tmp/fixtures' })).toEqual({ mode: 'replay', dir: '/tmp/fixtures' });
+    expect(replayConfigFromEnv({ LLM_REPLAY: 'record' })!.dir).toBe(path.resolve('tests/fixtures/llm'));
+    expect(() => replayConfigFromEnv({ LLM_REPLAY: 'yes' })).toThrow('Invalid LLM_REPLAY "yes"');
+  });
+});
+
+describe('LLMService record/replay', () => {
+  let dir: string;
+
+  afterEach(async () => {
+    if (dir) await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const request = (content: string) => ({
+    model: 'gpt-4o-mini',
+    apiKey: 'secret-key',
+    messages: [{ role: 'user' as const, content }],
+    purpose: 'test-purpose',
+    valueScore: 0.8,
+  });
+
+  it('records responses and replays them without calling a provider', async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'llm-replay-'));
+    const call = mock(async () => ({ choices: [{ message: { content: 'Recorded answer' } }] }));
+    const recorder = new LLMService({
+      memoryOnly: true,
+      retryAttempts: 1,
+      replay: { mode: 'record', dir },
+      providers: [{ name: 'openai', isAvailable: async () => true, call, estimateTokens: () => 1, estimateCost: () => 0 }],
+    });
+
+    await recorder.callLLM(request('What is a fossil?'));
+    const [file] = await fs.readdir(dir);
+    const fixture = JSON.parse(await fs.readFile(path.join(dir, file!), 'utf-8'));
+    expect(fixture.provider).toBe('openai');
+    expect(fixture.request).toEqual({ model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'What is a fossil?' }] });
+    expect(JSON.stringify(fixture)).not.toContain('secret-key');
+
+    // Replay works in test mode, where calls would otherwise get the fallback response
+    const player = new LLMService({ memoryOnly: true, testMode: true, replay: { mode: 'replay', dir } });
+    const response = await player.callLLM(request('What is a fossil?'));
+    expect(response.choices[0].message.content).toBe('Recorded answer');
+    expect(call).toHaveBeenCalledTimes(1);
+    expect((await player.getUsageLog()).at(-1)!.provider as string).toBe('replay');
+  });
+
+  it('fails loudly on an unrecorded request instead of falling back', async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'llm-replay-'));
+    const player = new LLMService({ memoryOnly: true, testMode: true, replay: { mode: 'replay', dir } });
+
+    const error = await player.callLLM(request('Never recorded')).catch(error => error);
+    expect(error).toBeInstanceOf(UnrecordedLLMRequestError);
+    expect(error.message).toContain('"Never recorded"');
+    expect(error.message).toContain('LLM_REPLAY=record');
+
+    const chunks = player.streamLLM(request('Never recorded'));
+    await expect(chunks.next()).rejects.toBeInstanceOf(UnrecordedLLMRequestError);
+  });
+});
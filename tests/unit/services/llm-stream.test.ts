@@ -0,0 +1,133 @@
+import { describe, it, expect, afterEach, mock } from 'bun:test';
+import {
+  collectStream,
+  createAttemptSignal,
+  ollamaBaseUrl,
+  raceAbort,
+  readLines,
+  streamOllama,
+  streamOpenAICompatible,
+} from '../../../src/services/llm-stream';
+
+/** Response body that delivers the given pieces one read at a time */
+const chunkedBody = (pieces: string[]) => {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      pieces.forEach(piece => controller.enqueue(encoder.encode(piece)));
+      controller.close();
+    },
+  });
+};
+
+const options = {
+  model: 'test-model',
+  apiKey: 'test-key',
+  messages: [{ role: 'user' as const, content: 'Say "hi" and \'bye\'' }],
+};
+
+const originalFetch = global.fetch;
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+describe('readLines', () => {
+  it('splits lines across chunk boundaries and keeps the last unterminated line', async () => {
+    const lines: string[] = [];
+    for await (const line of readLines(chunkedBody(['one\r\ntw', 'o\n', '\nthr', 'ee']))) {
+      lines.push(line);
+    }
+    expect(lines).toEqual(['one', 'two', '', 'three']);
+  });
+});
+
+describe('streamOpenAICompatible', () => {
+  it('yields content deltas from server-sent events until [DONE]', async () => {
+    const fetchMock = mock(async (_url: string, _init: RequestInit) => new Response(chunkedBody([
+      'data: {"choices":[{"delta":{"role":"assistant"}}]}\n\n',
+      'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\ndata: {"choi',
+      'ces":[{"delta":{"content":"lo"}}]}\n\n',
+      'data: [DONE]\n\n',
+      'data: {"choices":[{"delta":{"content":"ignored"}}]}\n\n',
+    ])));
+    global.fetch = fetchMock as any;
+
+    expect(await collectStream(streamOpenAICompatible('http://localhost:1234/v1/', options))).toBe('Hello');
+    const [url, init] = fetchMock.mock.calls[0]!;
+    expect(url).toBe('http://localhost:1234/v1/chat/completions');
+    expect(JSON.parse(init.body as string)).toMatchObject({ model: 'test-model', messages: options.messages, stream: true });
+    expect((init.headers as Record<string, string>)['Authorization']).toBe('Bearer test-key');
+  });
+
+  it('throws on error responses', async () => {
+    global.fetch = mock(async () => new Response('quota exceeded', { status: 429 })) as any;
+    await expect(collectStream(streamOpenAICompatible('http://localhost:1234/v1', options))).rejects.toThrow('OpenAI API error: 429 quota exceeded');
+  });
+});
+
+describe('streamOllama', () => {
+  it('yields message content from newline-delimited JSON and sends the prompt unescaped', async () => {
+    const fetchMock = mock(async (_url: string, _init: RequestInit) => new Response(chunkedBody([
+      '{"message":{"role":"assistant","content":"Hi"},"done":false}\n{"message":{"content":" there"},',
+      '"done":false}\n{"message":{"content":""},"done":true}\n',
+    ])));
+    global.fetch = fetchMock as any;
+
+    expect(await collectStream(streamOllama('http://localhost:11434', { ...options, max_tokens: 50 }))).toBe('Hi there');
+    const [url, init] = fetchMock.mock.calls[0]!;
+    expect(url).toBe('http://localhost:11434/api/chat');
+    expect(JSON.parse(init.body as string)).toEqual({
+      model: 'test-model',
+      messages: options.messages,
+      stream: true,
+      options: { num_predict: 50 },
+    });
+  });
+
+  it('surfaces errors reported in the stream', async () => {
+    global.fetch = mock(async () => new Response(chunkedBody(['{"error":"model not found"}\n']))) as any;
+    await expect(collectStream(streamOllama('http://localhost:11434', options))).rejects.toThrow('Ollama error: model not found');
+  });
+});
+
+describe('ollamaBaseUrl', () => {
+  it('defaults to localhost and adds a missing scheme', () => {
+    expect(ollamaBaseUrl('')).toBe('http://localhost:11434');
+    expect(ollamaBaseUrl('0.0.0.0:11434')).toBe('http://0.0.0.0:11434');
+    expect(ollamaBaseUrl('https://ollama.example.com/')).toBe('https://ollama.example.com');
+  });
+});
+
+describe('createAttemptSignal', () => {
+  it('aborts with a timeout error', async () => {
+    const attempt = createAttemptSignal(undefined, 5);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(attempt.signal.aborted).toBe(true);
+    expect((attempt.signal.reason as Error).message).toBe('Timed out after 5ms');
+    attempt.dispose();
+  });
+
+  it('follows the caller signal and aborts on dispose', () => {
+    const controller = new AbortController();
+    const first = createAttemptSignal(controller.signal, 1000);
+    controller.abort(new Error('cancelled'));
+    expect((first.signal.reason as Error).message).toBe('cancelled');
+    first.dispose();
+
+    const second = createAttemptSignal(undefined, 1000);
+    expect(second.signal.aborted).toBe(false);
+    second.dispose();
+    expect(second.signal.aborted).toBe(true);
+  });
+});
+
+describe('raceAbort', () => {
+  it('rejects when the signal aborts before the promise settles', async () => {
+    const controller = new AbortController();
+    const pending = raceAbort(new Promise(() => {}), controller.signal);
+    controller.abort(new Error('stop'));
+    await expect(pending).rejects.toThrow('stop');
+    expect(await raceAbort(Promise.resolve(1), new AbortController().signal)).toBe(1);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'bun:test';
+import { z } from 'zod';
+import { describeSchema, extractJson, validateStructuredOutput } from '../../../src/services/llm-structured';
+import { TaskBreakdownSchema } from '../../../src/types/schemas';
+
+describe('extractJson', () => {
+  it('parses bare JSON, fenced blocks and JSON embedded in prose', () => {
+    expect(extractJson('{"a": 1}')).toEqual({ a: 1 });
+    expect(extractJson('Here you go:\n```json\n[1, 2]\n```')).toEqual([1, 2]);
+    expect(extractJson('The answer is {"a": {"b": true}} as requested.')).toEqual({ a: { b: true } });
+  });
+
+  it('throws when there is no JSON', () => {
+    expect(() => extractJson('no json here')).toThrow(/Response is not valid JSON/);
+    expect(() => extractJson('')).toThrow(/Response is not valid JSON/);
+  });
+});
+
+describe('validateStructuredOutput', () => {
+  const schema = z.object({ name: z.string(), tags: z.array(z.string()) });
+
+  it('returns the parsed data', () => {
+    expect(validateStructuredOutput(schema, '{"name": "x", "tags": []}')).toEqual({ success: true, data: { name: 'x', tags: [] } });
+  });
+
+  it('reports parse and schema failures separately', () => {
+    expect(validateStructuredOutput(schema, 'nope')).toMatchObject({ success: false, stage: 'parse' });
+    expect(validateStructuredOutput(schema, '{"tags": [1]}')).toEqual({
+      success: false,
+      stage: 'schema',
+      error: 'name: Required; tags.0: Expected string, received number',
+    });
+  });
+});
+
+describe('describeSchema', () => {
+  it('renders a TypeScript-like shape', () => {
+    const schema = z.object({
+      id: z.string(),
+      count: z.number().optional(),
+      level: z.enum(['low', 'high']),
+      items: z.array(z.object({ done: z.boolean() })),
+    });
+    expect(describeSchema(schema)).toBe('{ "id": string, "count"?: number, "level": "low" | "high", "items": Array<{ "done": boolean }> }');
+  });
+
+  it('describes the task breakdown schema', () => {
+    const description = describeSchema(TaskBreakdownSchema);
+    expect(description).toContain('"priority": "low" | "medium" | "high" | "critical"');
+    expect(description).toContain('"assignee"?: string');
+    expect(description).not.toContain('any');
+  });
+});
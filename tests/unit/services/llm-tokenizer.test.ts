@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  countMessageTokens,
+  createBpeTokenizer,
+  createDefaultTokenizerRegistry,
+  heuristicTokenizer,
+  TokenizerRegistry,
+} from '../../../src/services/llm-tokenizer';
+
+describe('createBpeTokenizer', () => {
+  const cl100k = createBpeTokenizer('cl100k_base');
+
+  it('counts tokens with the cl100k_base vocabulary', () => {
+    expect(cl100k.count('hello world')).toBe(2);
+    expect(cl100k.count('tiktoken is great!')).toBe(6);
+    expect(cl100k.count('')).toBe(0);
+  });
+
+  it('differs from the 4-characters-per-token heuristic', () => {
+    const text = 'The quick brown fox jumps over the lazy dog.';
+    expect(cl100k.count(text)).toBe(10);
+    expect(heuristicTokenizer.count(text)).toBe(11);
+  });
+
+  it('truncates to a token budget', () => {
+    expect(cl100k.truncate('hello world again', 2)).toBe('hello world');
+    expect(cl100k.truncate('short', 10)).toBe('short');
+  });
+
+  it('handles long runs without whitespace quickly', () => {
+    const started = Date.now();
+    const tokens = cl100k.count('x'.repeat(20000));
+    expect(tokens).toBeGreaterThan(0);
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+});
+
+describe('TokenizerRegistry', () => {
+  it('uses BPE for OpenAI-family models and the heuristic otherwise', () => {
+    const registry = createDefaultTokenizerRegistry();
+    expect(registry.forModel('gpt-4').name).toBe('cl100k_base');
+    expect(registry.forModel('gpt-3.5-turbo').name).toBe('cl100k_base');
+    expect(registry.forModel('gpt-4o-mini').name).toBe('o200k_base');
+    expect(registry.forModel('gpt-4.1').name).toBe('o200k_base');
+    expect(registry.forModel('o3-mini').name).toBe('o200k_base');
+    expect(registry.forModel('llama2').name).toBe('heuristic');
+    expect(registry.forModel(undefined).name).toBe('heuristic');
+  });
+
+  it('prefers later registrations', () => {
+    const registry = createDefaultTokenizerRegistry();
+    const custom = { name: 'custom', count: () => 1, truncate: (text: string) => text };
+    registry.register(/^gpt-4$/, custom);
+    expect(registry.forModel('gpt-4').name).toBe('custom');
+    expect(registry.forModel('gpt-4-turbo').name).toBe('cl100k_base');
+    expect(new TokenizerRegistry().forModel('gpt-4').name).toBe('heuristic');
+  });
+});
+
+describe('countMessageTokens', () => {
+  it('adds per-message and reply overhead', () => {
+    const tokenizer = createBpeTokenizer('cl100k_base');
+    // 3 reply + (3 + 1 "user" + 2 "hello world")
+    expect(countMessageTokens(tokenizer, [{ role: 'user', content: 'hello world' }])).toBe(9);
+    expect(countMessageTokens(tokenizer, [])).toBe(0);
+  });
+});
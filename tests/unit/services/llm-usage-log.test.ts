@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { LLMUsageMetrics } from '../../../src/services/llm';
+import { UsageLog, rollupUsage, summarizeRollups, type UsageLogOptions } from '../../../src/services/llm-usage-log';
+
+const call = (timestamp: string, overrides: Partial<LLMUsageMetrics> = {}): LLMUsageMetrics => ({
+  timestamp,
+  model: 'gpt-4o-mini',
+  provider: 'openai',
+  inputTokens: 100,
+  outputTokens: 50,
+  totalTokens: 150,
+  cost: 0.01,
+  duration: 200,
+  success: true,
+  context: 'test',
+  purpose: 'semantic-tagging',
+  valueScore: 0.5,
+  ...overrides,
+});
+
+describe('UsageLog', () => {
+  let root: string;
+  let dir: string;
+  const open = (options: Partial<UsageLogOptions> = {}) =>
+    new UsageLog({ dir, maxSegmentBytes: 1024 * 1024, lockTimeoutMs: 2000, staleLockMs: 30000, ...options });
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'llm-usage-log-'));
+    dir = path.join(root, '.llm-usage');
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('appends one JSON line per call and reads them back by date range', async () => {
+    const log = open();
+    await log.append(call('2025-07-14T10:00:00.000Z'));
+    await log.append(call('2025-07-15T10:00:00.000Z', { purpose: 'goal-decomposition' }));
+
+    expect((await fs.readFile(path.join(dir, 'usage-2025-07-14.1.jsonl'), 'utf-8')).trim().split('\n')).toHaveLength(1);
+    expect((await fs.readFile(path.join(dir, 'usage.jsonl'), 'utf-8')).trim().split('\n')).toHaveLength(1);
+    expect(await log.read()).toHaveLength(2);
+    expect((await log.read({ since: new Date('2025-07-15T00:00:00.000Z') })).map(entry => entry.purpose)).toEqual(['goal-decomposition']);
+    expect(await log.read({ until: new Date('2025-07-14T23:59:59.999Z') })).toHaveLength(1);
+  });
+
+  it('rotates the active segment when it reaches the size limit', async () => {
+    const log = open({ maxSegmentBytes: 600 });
+    for (let i = 0; i < 5; i++) await log.append(call(`2025-07-14T10:00:0${i}.000Z`));
+
+    const files = (await fs.readdir(dir)).filter(name => name.endsWith('.jsonl')).sort();
+    expect(files).toEqual(['usage-2025-07-14.1.jsonl', 'usage-2025-07-14.2.jsonl', 'usage.jsonl']);
+    expect((await log.read()).map(entry => entry.timestamp)).toEqual([0, 1, 2, 3, 4].map(i => `2025-07-14T10:00:0${i}.000Z`));
+  });
+
+  it('keeps every entry from concurrent writers', async () => {
+    const writers = [open(), open(), open()];
+    await Promise.all(Array.from({ length: 30 }, (_, i) => writers[i % 3]!.append(call('2025-07-14T10:00:00.000Z', { cost: 0.001 }))));
+
+    expect(await open().read()).toHaveLength(30);
+    const [day] = open().rollups();
+    expect(day!.calls).toBe(30);
+    expect(day!.cost).toBeCloseTo(0.03);
+  });
+
+  it('breaks a stale lock and times out on a live one', async () => {
+    await fs.mkdir(dir, { recursive: true });
+    const lockPath = path.join(dir, 'usage.lock');
+    await fs.writeFile(lockPath, '12345');
+
+    await expect(open({ lockTimeoutMs: 50 }).append(call('2025-07-14T10:00:00.000Z'))).rejects.toThrow(/Timed out after 50ms waiting for usage log lock/);
+
+    await fs.utimes(lockPath, new Date(Date.now() - 60000), new Date(Date.now() - 60000));
+    await open({ lockTimeoutMs: 50 }).append(call('2025-07-14T10:00:00.000Z'));
+    expect(await open().read()).toHaveLength(1);
+  });
+
+  it('serves rollups by day and rebuilds them from the segments when missing', async () => {
+    const log = open();
+    await log.append(call('2025-07-14T10:00:00.000Z', { cacheHit: false }));
+    await log.append(call('2025-07-14T11:00:00.000Z', { cost: 0, cacheHit: true, savedCost: 0.01, provider: 'local' }));
+    await log.append(call('2025-07-16T10:00:00.000Z', { success: false }));
+
+    const saved = log.rollups();
+    expect(saved.map(day => [day.date, day.calls])).toEqual([['2025-07-14', 2], ['2025-07-16', 1]]);
+    expect(saved[0]!.providers).toEqual({ openai: { calls: 1, cost: 0.01 }, local: { calls: 1, cost: 0 } });
+    expect(log.rollups({ since: new Date('2025-07-15T00:00:00.000Z') }).map(day => day.date)).toEqual(['2025-07-16']);
+
+    await fs.rm(path.join(dir, 'rollups.json'));
+    expect(log.rollups()).toEqual(saved);
+  });
+
+  it('skips a line cut short by a crash', async () => {
+    const log = open();
+    await log.append(call('2025-07-14T10:00:00.000Z'));
+    await fs.appendFile(path.join(dir, 'usage.jsonl'), '{"timestamp":"2025-07-14T1');
+    expect(await log.read()).toHaveLength(1);
+  });
+
+  it('imports the legacy JSON log on the first write', async () => {
+    const legacyPath = path.join(root, '.llm-usage-log.json');
+    await fs.writeFile(legacyPath, JSON.stringify([call('2025-07-01T10:00:00.000Z'), call('2025-07-02T10:00:00.000Z')]));
+    const log = open({ legacyPath });
+
+    expect(log.rollups().map(day => day.date)).toEqual(['2025-07-01', '2025-07-02']);
+    expect(await log.read()).toHaveLength(2);
+
+    await log.append(call('2025-07-14T10:00:00.000Z'));
+    expect(await fs.readdir(root)).toContain('.llm-usage-log.json.imported');
+    expect(await fs.readdir(dir)).toContain('usage-2025-07-02.0.jsonl');
+    expect(log.rollups().map(day => day.calls)).toEqual([1, 1, 1]);
+    expect(await log.read({ since: new Date('2025-07-02T00:00:00.000Z') })).toHaveLength(2);
+  });
+
+  it('keeps entries in memory without a directory', async () => {
+    const log = new UsageLog({ maxSegmentBytes: 1024, lockTimeoutMs: 100, staleLockMs: 1000 });
+    await log.append(call('2025-07-14T10:00:00.000Z'));
+    expect(await log.read()).toHaveLength(1);
+    expect(log.rollups()[0]!.calls).toBe(1);
+  });
+});
+
+describe('summarizeRollups', () => {
+  it('computes analytics from daily totals', () => {
+    const analytics = summarizeRollups(rollupUsage([
+      call('2025-07-14T10:00:00.000Z', { valueScore: 1, cacheHit: false }),
+      call('2025-07-14T11:00:00.000Z', { cost: 0, valueScore: 0, cacheHit: true, savedCost: 0.01 }),
+      call('2025-07-15T10:00:00.000Z', { success: false, purpose: 'goal-decomposition', cost: 0.05 }),
+    ]));
+
+    expect(analytics).toMatchObject({
+      totalCalls: 3,
+      totalTokens: 450,
+      successRate: 2 / 3,
+      averageValueScore: 0.5,
+      cacheHits: 1,
+      cacheHitRate: 0.5,
+      cacheSavings: 0.01,
+      topPurposes: [{ purpose: 'goal-decomposition', calls: 1, cost: 0.05 }, { purpose: 'semantic-tagging', calls: 2, cost: 0.01 }],
+      costByDay: [{ date: '2025-07-14', cost: 0.01, calls: 2 }, { date: '2025-07-15', cost: 0.05, calls: 1 }],
+    });
+    expect(analytics.totalCost).toBeCloseTo(0.06);
+  });
+});
@@ -1,26 +1,30 @@
-import { describe, it, expect, beforeEach, afterEach, mock } from 'bun:test';
-import { LLMService, LLMUsageMetrics } from '../../../src/services/llm';
+import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test';
+import { LLMService } from '../../../src/services/llm';
+import { LLMBudgetExceededError, type LLMBudget } from '../../../src/services/llm-budget';
+import { ProviderRateLimiter } from '../../../src/services/llm-rate-limit';
+import { StructuredOutputError } from '../../../src/services/llm-structured';
 import { promises as fs } from 'fs';
+import os from 'os';
 import path from 'path';
-
-// Mock fetch for OpenAI API calls
-const mockFetch = mock(() => Promise.resolve({
-  ok: true,
-  json: () => Promise.resolve({
-    choices: [{ message: { content: 'Mocked response' } }]
-  })
-}));
+import { z } from 'zod';
 
 // Mock child_process for local LLM testing
 const mockExecSync = mock(() => 'mocked version');
 
 describe('LLMService', () => {
   let llmService: LLMService;
+  // Test mode must never reach the OpenAI API
+  let mockFetch: ReturnType<typeof spyOn<typeof globalThis, 'fetch'>>;
   let usageLogPath: string;
+  let usageLogDir: string;
+
+  beforeEach(async () => {
+    usageLogDir = await fs.mkdtemp(path.join(os.tmpdir(), 'llm-usage-'));
 
-  beforeEach(() => {
     // Set up test environment
-    global.fetch = mockFetch as any;
+    mockFetch = spyOn(globalThis, 'fetch').mockResolvedValue(Response.json({
+      choices: [{ message: { content: 'Mocked response' } }]
+    }));
     
     // Mock child_process
     mock.module('child_process', () => ({
@@ -36,6 +40,7 @@ describe('LLMService', () => {
       retryAttempts: 2,
       retryDelayMs: 100,
       testMode: true, // Enable test mode
+      usageLogDir,
       preferLocalLLM: false, // Disable local LLM preference in tests
       complexityThreshold: 0.8, // Higher threshold for tests
       costSensitivity: 0.5 // Lower cost sensitivity for tests
@@ -45,12 +50,15 @@ describe('LLMService', () => {
   });
 
   afterEach(async () => {
+    mockFetch.mockRestore();
+
     // Clean up usage log
     try {
       await fs.unlink(usageLogPath);
     } catch {
       // File doesn't exist, that's fine
     }
+    await fs.rm(usageLogDir, { recursive: true, force: true });
   });
 
   describe('Configuration', () => {
@@ -170,27 +178,20 @@ describe('LLMService', () => {
 
   describe('Rate Limit Handling', () => {
     it('should handle rate limit errors with retry', async () => {
-      let callCount = 0;
-      const rateLimitMock = mock(() => {
-        callCount++;
-        if (callCount === 1) {
-          return Promise.resolve({
-            ok: false,
-            status: 429,
-            text: () => Promise.resolve('Rate limit exceeded')
-          });
-        }
-        return Promise.resolve({
-          ok: true,
-          json: () => Promise.resolve({
-            choices: [{ message: { content: 'Success after retry' } }]
-          })
-        });
+      const call = mock(async () => {
+        if (call.mock.calls.length === 1) throw new Error('OpenAI API error: 429 Rate limit exceeded');
+        return { choices: [{ message: { content: 'Success after retry' } }] };
+      });
+      const service = new LLMService({
+        testMode: false,
+        minValueScore: 0.1,
+        memoryOnly: true,
+        retryAttempts: 2,
+        retryDelayMs: 1,
+        providers: [{ name: 'rate-limited', isAvailable: async () => true, call, estimateTokens: () => 1, estimateCost: () => 0 }]
       });
 
-      global.fetch = rateLimitMock as any;
-
-      const result = await llmService.callLLM({
+      const result = await service.callLLM({
         model: 'gpt-3.5-turbo',
         apiKey: 'test-key',
         messages: [{ role: 'user' as const, content: 'test' }],
@@ -199,8 +200,8 @@ describe('LLMService', () => {
         valueScore: 0.8
       });
 
-      // In test mode, should use fallback response
-      expect(result.choices[0].message.content).toContain('unavailable');
+      expect(result.choices[0].message.content).toBe('Success after retry');
+      expect(call).toHaveBeenCalledTimes(2);
       expect(mockFetch).not.toHaveBeenCalled();
     });
   });
@@ -221,16 +222,15 @@ describe('LLMService', () => {
         testMode: false,
         minValueScore: 0.1,
         enableLocalLLM: false, // Disable local LLM to force OpenAI
-        memoryOnly: true // Use memory-only mode to avoid disk I/O
-      });
-
-      // Inject a custom test provider with name 'openai'
-      (realService as any).providers.unshift({
-        name: 'openai',
-        isAvailable: async () => true,
-        call: async () => ({ choices: [{ message: { content: 'Success response' } }] }),
-        estimateTokens: () => 1,
-        estimateCost: () => 0.001
+        memoryOnly: true, // Use memory-only mode to avoid disk I/O
+        // A custom test provider with name 'openai'
+        providers: [{
+          name: 'openai',
+          isAvailable: async () => true,
+          call: async () => ({ choices: [{ message: { content: 'Success response' } }] }),
+          estimateTokens: () => 1,
+          estimateCost: () => 0.001
+        }]
       });
 
       await realService.callLLM({
@@ -260,15 +260,7 @@ describe('LLMService', () => {
         execSync: localLLMMock
       }));
 
-      const errorMock = mock(() => Promise.resolve({
-        ok: false,
-        status: 500,
-        text: () => Promise.resolve('Internal server error')
-      }));
-
-      // Store original fetch
-      const originalFetch = global.fetch;
-      global.fetch = errorMock as any;
+      mockFetch.mockResolvedValue(new Response('Internal server error', { status: 500 }));
 
       try {
         // Create a service with memory-only mode for reliable testing
@@ -294,13 +286,69 @@ describe('LLMService', () => {
         const analytics = realService.getUsageAnalytics();
         expect(analytics.totalCalls).toBe(1);
         expect(analytics.successRate).toBe(0.0);
+        expect(mockFetch).toHaveBeenCalled();
       } finally {
-        // Restore original fetch
-        global.fetch = originalFetch;
         delete process.env.OPENAI_API_KEY;
       }
     });
 
+    it('should record provider-reported tokens priced per input and output token', async () => {
+      const service: LLMService = new LLMService({
+        testMode: false,
+        minValueScore: 0.1,
+        memoryOnly: true,
+        providers: [{
+          name: 'openai',
+          isAvailable: async () => true,
+          call: async () => ({
+            choices: [{ message: { content: 'Answer' } }],
+            usage: { prompt_tokens: 1000, completion_tokens: 500 }
+          }),
+          estimateTokens: () => 1,
+          estimateCost: (tokens: number, model: string, outputTokens?: number) => service['estimateCost'](tokens, model, outputTokens)
+        }]
+      });
+
+      await service.callLLM({
+        model: 'gpt-4',
+        apiKey: 'test-key',
+        messages: [{ role: 'user' as const, content: 'hello world' }],
+        purpose: 'test-purpose',
+        valueScore: 0.8
+      });
+
+      const [log] = await service.getUsageLog();
+      expect(log).toMatchObject({ inputTokens: 1000, outputTokens: 500, totalTokens: 1500, pricingVersion: service.getPricingTable().version });
+      // gpt-4: $30 per 1M input, $60 per 1M output
+      expect(log!.cost).toBeCloseTo(0.06);
+    });
+
+    it('should count tokens with the model tokenizer when the provider reports none', async () => {
+      const service = new LLMService({
+        testMode: false,
+        minValueScore: 0.1,
+        memoryOnly: true,
+        providers: [{
+          name: 'openai',
+          isAvailable: async () => true,
+          call: async () => ({ choices: [{ message: { content: 'hello world' } }] }),
+          estimateTokens: () => 1,
+          estimateCost: () => 0
+        }]
+      });
+
+      await service.callLLM({
+        model: 'gpt-3.5-turbo',
+        apiKey: 'test-key',
+        messages: [{ role: 'user' as const, content: 'hello world' }],
+        purpose: 'test-purpose',
+        valueScore: 0.8
+      });
+
+      const [log] = await service.getUsageLog();
+      expect(log).toMatchObject({ inputTokens: 9, outputTokens: 2 });
+    });
+
     it('should generate usage reports', () => {
       const report = llmService.generateUsageReport();
       expect(report).toContain('LLM Usage Report');
@@ -330,6 +378,616 @@ describe('LLMService', () => {
     });
   });
 
+  describe('Budgets', () => {
+    const createBudgetedService = (budgets: LLMBudget[]) => {
+      const service = new LLMService({
+        testMode: false,
+        minValueScore: 0.1,
+        enableLocalLLM: false,
+        memoryOnly: true,
+        budgets,
+        providers: [{
+          name: 'openai',
+          isAvailable: async () => true,
+          call: async () => ({ choices: [{ message: { content: 'Cloud response' } }] }),
+          estimateTokens: () => 1,
+          estimateCost: () => 0.001
+        }],
+      });
+      return service;
+    };
+    const call = (service: LLMService) => service.callLLM({
+      model: 'test-model',
+      apiKey: 'test-key',
+      messages: [{ role: 'user' as const, content: 'test' }],
+      context: 'test-context',
+      purpose: 'test-purpose',
+      valueScore: 0.8
+    });
+
+    it('should call the selected provider while the budget has room', async () => {
+      const service = createBudgetedService([{ period: 'daily', limit: 1, onExhausted: 'stop' }]);
+      const result = await call(service);
+      expect(result.choices[0].message.content).toBe('Cloud response');
+
+      const [status] = await service.getBudgetStatuses();
+      expect(status!.spent).toBe(0.001);
+      expect(status!.calls).toBe(1);
+    });
+
+    it('should degrade to a free local backend when a budget is exhausted', async () => {
+      const service = createBudgetedService([{ period: 'daily', limit: 0.0005, context: 'test-context', onExhausted: 'degrade' }]);
+      service.registerLocalBackend('local-stub', async () => ({ choices: [{ message: { content: 'Local response' } }] }));
+
+      const result = await call(service);
+      expect(result.choices[0].message.content).toBe('Local response');
+      expect(service.getUsageAnalytics().providerBreakdown).toEqual([{ provider: 'local-stub', calls: 1, cost: 0 }]);
+    });
+
+    it('should use the fallback response when no free provider is available', async () => {
+      const service = createBudgetedService([{ period: 'daily', limit: 0, onExhausted: 'degrade' }]);
+      const result = await call(service);
+      expect(result.choices[0].message.content).toContain('unavailable');
+      expect(service.getUsageAnalytics().totalCalls).toBe(0);
+    });
+
+    it('should stop calls when a stop budget is exhausted', async () => {
+      const service = createBudgetedService([{ period: 'daily', limit: 0.0005, purpose: 'test-purpose', onExhausted: 'stop' }]);
+      await expect(call(service)).rejects.toBeInstanceOf(LLMBudgetExceededError);
+    });
+
+    it('should ignore budgets scoped to other contexts', async () => {
+      const service = createBudgetedService([{ period: 'daily', limit: 0, context: 'other', onExhausted: 'stop' }]);
+      const result = await call(service);
+      expect(result.choices[0].message.content).toBe('Cloud response');
+    });
+  });
+
+  describe('Provider Chain', () => {
+    const provider = (name: string, call: () => Promise<any>) => ({
+      name,
+      isAvailable: async () => true,
+      call: mock(call),
+      estimateTokens: () => 1,
+      estimateCost: () => 0
+    });
+    const failing = (name: string) => provider(name, async () => { throw new Error(`${name} down`); });
+    const working = (name: string) => provider(name, async () => ({ choices: [{ message: { content: `${name} response` } }] }));
+
+    const createChainService = (providers: ReturnType<typeof provider>[], config = {}) => {
+      const service = new LLMService({
+        testMode: false,
+        minValueScore: 0.1,
+        enableLocalLLM: false,
+        memoryOnly: true,
+        retryAttempts: 1,
+        circuitFailureThreshold: 2,
+        providers,
+        ...config
+      });
+      return service;
+    };
+    const call = (service: LLMService) => service.callLLM({
+      model: 'test-model',
+      apiKey: 'test-key',
+      messages: [{ role: 'user' as const, content: 'test' }],
+      context: 'test-context',
+      purpose: 'test-purpose',
+      valueScore: 0.8
+    });
+    const lastLog = async (service: LLMService) => (await service.getUsageLog()).at(-1)!;
+
+    it('should fall through to the next provider and record the attempt chain', async () => {
+      const service = createChainService([failing('flaky'), working('backup')]);
+      const result = await call(service);
+
+      expect(result.choices[0].message.content).toBe('backup response');
+      const log = await lastLog(service);
+      expect(log.success).toBe(true);
+      expect(log.provider as string).toBe('backup');
+      expect(log.attempts!.map(({ provider, outcome, reason }) => ({ provider, outcome, reason }))).toEqual([
+        { provider: 'flaky', outcome: 'failure', reason: 'flaky down' },
+        { provider: 'backup', outcome: 'success', reason: undefined },
+      ]);
+    });
+
+    it('should route local-preferred calls to a backend registered at runtime', async () => {
+      const service = createChainService([working('openai')]);
+      service.registerLocalBackend('local-stub', async () => ({ choices: [{ message: { content: 'Local response' } }] }));
+
+      const result = await service.callLLM({
+        model: 'test-model',
+        apiKey: 'test-key',
+        messages: [{ role: 'user' as const, content: 'test' }],
+        context: 'test-context',
+        purpose: 'test-purpose',
+        valueScore: 0.8,
+        routingPreference: 'local',
+      });
+      expect(result.choices[0].message.content).toBe('Local response');
+      expect((await lastLog(service)).provider as string).toBe('local-stub');
+    });
+
+    it('should use the fallback response and record one failed call when every provider fails', async () => {
+      const service = createChainService([failing('a'), failing('b')]);
+      const result = await call(service);
+
+      expect(result.choices[0].message.content).toContain('unavailable');
+      expect(service.getUsageAnalytics().totalCalls).toBe(1);
+      expect(await lastLog(service)).toMatchObject({ success: false, error: 'b down' });
+    });
+
+    it('should skip a provider whose circuit is open', async () => {
+      const flaky = failing('flaky');
+      const service = createChainService([flaky, working('backup')]);
+      await call(service);
+      await call(service);
+      await call(service);
+
+      expect(flaky.call).toHaveBeenCalledTimes(2);
+      expect((await lastLog(service)).attempts![0]).toEqual({ provider: 'flaky', outcome: 'skipped', reason: 'circuit open', duration: 0 });
+      const [health] = await service.getProviderHealth();
+      expect(health).toMatchObject({ provider: 'flaky', state: 'open', consecutiveFailures: 2 });
+    });
+
+    it('should try an open provider again after the cooldown', async () => {
+      const flaky = failing('flaky');
+      const service = createChainService([flaky, working('backup')], { circuitCooldownMs: 0 });
+      await call(service);
+      await call(service);
+      await call(service);
+      expect(flaky.call).toHaveBeenCalledTimes(3);
+
+      expect(await service.resetProviderHealth('flaky')).toEqual(['flaky']);
+      expect((await service.getProviderHealth()).map(health => health.provider)).toEqual(['backup']);
+    });
+
+    it('should follow the configured provider order', async () => {
+      const first = working('first');
+      const second = working('second');
+      const service = createChainService([first, second], { providerChain: ['second', 'first'] });
+      const result = await call(service);
+      expect(result.choices[0].message.content).toBe('second response');
+      expect(first.call).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Batch Calls', () => {
+    const createBatchService = (call: (options: any) => Promise<any>, config = {}, cost = 0) => {
+      const service = new LLMService({
+        testMode: false,
+        minValueScore: 0.1,
+        enableLocalLLM: false,
+        memoryOnly: true,
+        retryAttempts: 1,
+        providers: [{
+          name: 'batch-stub',
+          isAvailable: async () => true,
+          call: mock(call),
+          estimateTokens: () => 1,
+          estimateCost: () => cost
+        }],
+        ...config
+      });
+      return service;
+    };
+    const request = (content: string) => ({
+      model: 'test-model',
+      apiKey: 'test-key',
+      messages: [{ role: 'user' as const, content }],
+      context: 'test-context',
+      purpose: 'test-purpose',
+      valueScore: 0.8
+    });
+
+    it('should run calls with bounded concurrency and return results in request order', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const service = createBatchService(async (options: any) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return { choices: [{ message: { content: `answer to ${options.messages[0].content}` } }] };
+      });
+      const progress: Array<[number, number]> = [];
+
+      const results = await service.callLLMBatch(['a', 'b', 'c', 'd', 'e'].map(request), {
+        concurrency: 2,
+        onProgress: ({ completed, total }) => progress.push([completed, total]),
+      });
+
+      expect(maxInFlight).toBe(2);
+      expect(results.map(result => result.success && result.response.choices[0].message.content)).toEqual(
+        ['a', 'b', 'c', 'd', 'e'].map(content => `answer to ${content}`)
+      );
+      expect(progress).toEqual([[1, 5], [2, 5], [3, 5], [4, 5], [5, 5]]);
+      expect(service.getUsageAnalytics().totalCalls).toBe(5);
+    });
+
+    it('should report a failing call without failing the batch', async () => {
+      const service = createBatchService(async () => ({ choices: [{ message: { content: 'ok' } }] }), {
+        budgets: [{ period: 'daily', limit: 0, purpose: 'expensive', onExhausted: 'stop' }],
+      }, 0.01);
+
+      const results = await service.callLLMBatch([request('cheap'), { ...request('pricey'), purpose: 'expensive' }]);
+
+      expect(results[0]).toMatchObject({ index: 0, success: true });
+      expect(results[1]).toMatchObject({ index: 1, success: false });
+      expect(!results[1]!.success && results[1]!.error).toBeInstanceOf(LLMBudgetExceededError);
+    });
+
+    it('should not let concurrent calls overshoot a stop budget', async () => {
+      const service = createBatchService(async () => {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        return { choices: [{ message: { content: 'ok' } }] };
+      }, {
+        budgets: [{ period: 'daily', limit: 0.025, onExhausted: 'stop' }],
+      }, 0.01);
+
+      const results = await service.callLLMBatch([request('a'), request('b'), request('c'), request('d')], { concurrency: 4 });
+
+      // Which two calls get through depends on scheduling; only two may
+      expect(results.filter(result => result.success)).toHaveLength(2);
+      for (const result of results) {
+        if (!result.success) expect(result.error).toBeInstanceOf(LLMBudgetExceededError);
+      }
+      expect((await service.getBudgetStatuses())[0]!.spent).toBeCloseTo(0.02);
+    });
+
+    it('should cancel calls with their own signal when the batch aborts', async () => {
+      const controller = new AbortController();
+      const service = createBatchService((options: any) => new Promise((_, reject) => {
+        options.signal.addEventListener('abort', () => reject(options.signal.reason));
+      }));
+
+      const pending = service.callLLMBatch([{ ...request('a'), signal: new AbortController().signal }], { signal: controller.signal });
+      setTimeout(() => controller.abort(new Error('stopped')), 5);
+      const [result] = await pending;
+
+      expect(result).toMatchObject({ index: 0, success: false });
+      expect(!result!.success && result!.error.message).toBe('stopped');
+    });
+
+    it('should fail calls not yet started once the signal aborts', async () => {
+      const controller = new AbortController();
+      const service = createBatchService(async () => ({ choices: [{ message: { content: 'ok' } }] }));
+
+      const results = await service.callLLMBatch([request('a'), request('b'), request('c')], {
+        concurrency: 1,
+        signal: controller.signal,
+        onProgress: () => controller.abort(new Error('stopped')),
+      });
+
+      expect(results.map(result => result.success)).toEqual([true, false, false]);
+      expect(!results[2]!.success && results[2]!.error.message).toBe('stopped');
+    });
+
+    it('should wait for the provider rate limit', async () => {
+      const rateLimiter = new ProviderRateLimiter({ 'batch-stub': { requestsPerMinute: 600 } });
+      const service = createBatchService(async () => ({ choices: [{ message: { content: 'ok' } }] }), { rateLimiter });
+      // A 600/min bucket starts full, so drain it first
+      for (let i = 0; i < 600; i++) await rateLimiter.acquire('batch-stub', 1);
+
+      const start = Date.now();
+      await service.callLLMBatch([request('a'), request('b')]);
+      expect(Date.now() - start).toBeGreaterThanOrEqual(150);
+    });
+  });
+
+  describe('Streaming', () => {
+    const streaming = (name: string, stream: (options: any) => AsyncIterable<string>) => ({
+      name,
+      isAvailable: async () => true,
+      call: mock(async () => ({ choices: [{ message: { content: `${name} response` } }] })),
+      stream: mock(stream),
+      estimateTokens: () => 1,
+      estimateCost: () => 0
+    });
+    const createStreamingService = (providers: any[], config = {}) => {
+      const service = new LLMService({
+        testMode: false,
+        minValueScore: 0.1,
+        enableLocalLLM: false,
+        memoryOnly: true,
+        retryAttempts: 1,
+        providers,
+        ...config
+      });
+      return service;
+    };
+    const collect = async (service: LLMService, extra: { signal?: AbortSignal; timeoutMs?: number } = {}) => {
+      const chunks: string[] = [];
+      for await (const chunk of service.streamLLM({
+        model: 'test-model',
+        apiKey: 'test-key',
+        messages: [{ role: 'user' as const, content: 'test' }],
+        context: 'test-context',
+        purpose: 'test-purpose',
+        valueScore: 0.8,
+        ...extra
+      })) {
+        chunks.push(`${chunk.provider}:${chunk.delta}`);
+      }
+      return chunks;
+    };
+
+    it('should yield chunks as the provider produces them and track the call', async () => {
+      const service = createStreamingService([streaming('local', async function* () { yield 'Hello'; yield ' world'; })]);
+      expect(await collect(service)).toEqual(['local:Hello', 'local: world']);
+
+      const [log] = await service.getUsageLog();
+      expect(log).toMatchObject({ success: true, provider: 'local' });
+    });
+
+    it('should fall through to the next provider when one fails before streaming', async () => {
+      const service = createStreamingService([
+        streaming('broken', async function* () { throw new Error('connection refused'); }),
+        streaming('backup', async function* () { yield 'ok'; }),
+      ]);
+      expect(await collect(service)).toEqual(['backup:ok']);
+    });
+
+    it('should throw when a provider fails mid-stream', async () => {
+      const service = createStreamingService([
+        streaming('flaky', async function* () { yield 'partial'; throw new Error('connection reset'); }),
+        streaming('backup', async function* () { yield 'ok'; }),
+      ]);
+      await expect(collect(service)).rejects.toThrow('connection reset');
+      expect((await service.getUsageLog())[0]).toMatchObject({ success: false, error: 'connection reset' });
+    });
+
+    it('should yield a non-streaming provider\'s response as one chunk', async () => {
+      const provider = { ...streaming('plain', async function* () {}), stream: undefined };
+      const service = createStreamingService([provider]);
+      expect(await collect(service)).toEqual(['plain:plain response']);
+    });
+
+    it('should time out a stalled provider and move on', async () => {
+      const stalled = streaming('stalled', async function* (options) {
+        await new Promise((_, reject) => options.signal.addEventListener('abort', () => reject(options.signal.reason)));
+      });
+      const service = createStreamingService([stalled, streaming('backup', async function* () { yield 'ok'; })]);
+      expect(await collect(service, { timeoutMs: 10 })).toEqual(['backup:ok']);
+      expect((await service.getProviderHealth())[0]).toMatchObject({ provider: 'stalled', lastError: 'Timed out after 10ms' });
+    });
+
+    it('should stop without falling through when the caller aborts', async () => {
+      const controller = new AbortController();
+      const backup = streaming('backup', async function* () { yield 'ok'; });
+      const service = createStreamingService([
+        streaming('slow', async function* (options) {
+          yield 'first';
+          controller.abort(new Error('cancelled by user'));
+          await new Promise((_, reject) => options.signal.aborted ? reject(options.signal.reason) : options.signal.addEventListener('abort', () => reject(options.signal.reason)));
+        }),
+        backup,
+      ]);
+      await expect(collect(service, { signal: controller.signal })).rejects.toThrow('cancelled by user');
+      expect(backup.stream).not.toHaveBeenCalled();
+      expect(await service.getProviderHealth()).toEqual([]);
+    });
+
+    it('should also cancel non-streaming calls', async () => {
+      const controller = new AbortController();
+      controller.abort(new Error('cancelled by user'));
+      const service = createStreamingService([streaming('local', async function* () { yield 'never'; })]);
+      await expect(service.callLLM({
+        model: 'test-model',
+        apiKey: 'test-key',
+        messages: [{ role: 'user' as const, content: 'test' }],
+        purpose: 'test-purpose',
+        valueScore: 0.8,
+        signal: controller.signal
+      })).rejects.toThrow('cancelled by user');
+    });
+
+    it('should yield the fallback response in test mode', async () => {
+      const service = createStreamingService([], { testMode: true });
+      const [chunk] = await collect(service);
+      expect(chunk).toStartWith('fallback:');
+    });
+  });
+
+  describe('Structured Output', () => {
+    const TagsSchema = z.object({
+      category: z.string(),
+      priority: z.enum(['low', 'medium', 'high']),
+    });
+
+    const createStructuredService = (replies: string[]) => {
+      const call = mock(async (_options: any) => ({ choices: [{ message: { content: replies.shift() ?? '' } }] }));
+      const service = new LLMService({
+        testMode: false,
+        minValueScore: 0.1,
+        memoryOnly: true,
+        retryAttempts: 1,
+        providers: [{
+          name: 'scripted',
+          isAvailable: async () => true,
+          call,
+          estimateTokens: () => 1,
+          estimateCost: () => 0
+        }],
+      });
+      return { service, call };
+    };
+    const callStructured = (service: LLMService, maxRepairAttempts?: number) => service.callLLM({
+      model: 'test-model',
+      apiKey: 'test-key',
+      messages: [{ role: 'user' as const, content: 'tag this' }],
+      context: 'test-context',
+      purpose: 'test-purpose',
+      valueScore: 0.8,
+      schema: TagsSchema,
+      maxRepairAttempts,
+    });
+    const validations = async (service: LLMService) =>
+      (await service.getUsageLog()).map(log => log.validation);
+
+    it('should return the validated object and describe the schema to the model', async () => {
+      const { service, call } = createStructuredService(['```json\n{"category": "docs", "priority": "low"}\n```']);
+      const result = await callStructured(service);
+
+      expect(result).toEqual({ category: 'docs', priority: 'low' });
+      const messages = call.mock.calls[0]![0].messages;
+      expect(messages[0].role).toBe('system');
+      expect(messages[0].content).toContain('"priority": "low" | "medium" | "high"');
+      expect(await validations(service)).toEqual([{ attempt: 0, valid: true }]);
+    });
+
+    it('should re-prompt with the validation errors until the output is valid', async () => {
+      const { service, call } = createStructuredService([
+        'Sure! Here are the tags.',
+        '{"category": "docs", "priority": "urgent"}',
+        '{"category": "docs", "priority": "high"}',
+      ]);
+      const result = await callStructured(service);
+
+      expect(result.priority).toBe('high');
+      expect(call).toHaveBeenCalledTimes(3);
+      const repair = call.mock.calls[2]![0].messages.slice(-2);
+      expect(repair[0]).toEqual({ role: 'assistant', content: '{"category": "docs", "priority": "urgent"}' });
+      expect(repair[1].content).toContain('priority: Invalid enum value');
+      expect((await validations(service)).map(validation => [validation?.attempt, validation?.valid, validation?.stage])).toEqual([
+        [0, false, 'parse'],
+        [1, false, 'schema'],
+        [2, true, undefined],
+      ]);
+    });
+
+    it('should throw StructuredOutputError once the repair attempts are used up', async () => {
+      const { service, call } = createStructuredService(['{}', '{}', '{}']);
+      const error = await callStructured(service, 1).catch(error => error);
+
+      expect(error).toBeInstanceOf(StructuredOutputError);
+      expect(error.validations).toHaveLength(2);
+      expect(error.lastOutput).toBe('{}');
+      expect(call).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Prompt Templates', () => {
+    it('should record the template version on the usage record', async () => {
+      const call = mock(async (_options: any) => ({ choices: [{ message: { content: 'A haiku' } }] }));
+      const service = new LLMService({
+        testMode: false,
+        minValueScore: 0.1,
+        enableLocalLLM: false,
+        memoryOnly: true,
+        retryAttempts: 1,
+        providers: [{ name: 'scripted', isAvailable: async () => true, call, estimateTokens: () => 1, estimateCost: () => 0 }],
+      });
+
+      await service.callLLM({
+        model: 'test-model',
+        apiKey: 'test-key',
+        ...service.renderPrompt('content-generation', { contentType: 'haiku', topic: 'caching' }),
+        purpose: 'content-generation',
+        valueScore: 0.8
+      });
+
+      expect(call.mock.calls[0]![0].messages[1].content).toBe('Generate haiku content about: caching');
+      expect(call.mock.calls[0]![0].prompt).toBeUndefined();
+      const log = (await service.getUsageLog()).at(-1)!;
+      expect(log.prompt).toEqual({ id: 'content-generation', version: 1 });
+    });
+  });
+
+  describe('Caching', () => {
+    const createCachingService = () => {
+      const provider = mock(async () => ({ choices: [{ message: { content: 'Cloud response' } }] }));
+      const service = new LLMService({
+        testMode: false,
+        minValueScore: 0.1,
+        enableLocalLLM: false,
+        enableCaching: true,
+        memoryOnly: true,
+        cachePurposes: ['semantic-tagging'],
+        providers: [{
+          name: 'openai',
+          isAvailable: async () => true,
+          call: provider,
+          estimateTokens: () => 1,
+          estimateCost: () => 0.001
+        }],
+      });
+      return { service, provider };
+    };
+    const call = (service: LLMService, purpose: string, cache?: boolean) => service.callLLM({
+      model: 'test-model',
+      apiKey: 'test-key',
+      messages: [{ role: 'user' as const, content: 'test' }],
+      context: 'test-context',
+      purpose,
+      valueScore: 0.8,
+      ...(cache !== undefined && { cache })
+    });
+
+    it('should serve repeated prompts for cached purposes from the cache', async () => {
+      const { service, provider } = createCachingService();
+      await call(service, 'semantic-tagging');
+      const result = await call(service, 'semantic-tagging');
+
+      expect(result.choices[0].message.content).toBe('Cloud response');
+      expect(provider).toHaveBeenCalledTimes(1);
+
+      const [miss, hit] = await service.getUsageLog();
+      expect(miss!.cacheHit).toBe(false);
+      expect(hit).toMatchObject({ cacheHit: true, cost: 0, savedCost: 0.001 });
+    });
+
+    it('should not cache purposes that have not opted in', async () => {
+      const { service, provider } = createCachingService();
+      await call(service, 'goal-decomposition');
+      await call(service, 'goal-decomposition');
+      expect(provider).toHaveBeenCalledTimes(2);
+      expect((await service.getUsageLog()).every(log => log.cacheHit === undefined)).toBe(true);
+    });
+
+    it('should let a call opt in or out explicitly', async () => {
+      const { service, provider } = createCachingService();
+      await call(service, 'goal-decomposition', true);
+      await call(service, 'goal-decomposition', true);
+      await call(service, 'semantic-tagging', false);
+      await call(service, 'semantic-tagging', false);
+      expect(provider).toHaveBeenCalledTimes(3);
+    });
+
+    it('should report hits and savings in analytics', async () => {
+      const { service } = createCachingService();
+      await call(service, 'semantic-tagging');
+      await call(service, 'semantic-tagging');
+      await call(service, 'semantic-tagging');
+
+      const analytics = service.getUsageAnalytics();
+      expect(analytics.cacheHits).toBe(2);
+      expect(analytics.cacheHitRate).toBeCloseTo(2 / 3);
+      expect(analytics.cacheSavings).toBeCloseTo(0.002);
+      expect(service.generateUsageReport()).toContain('Response Cache');
+    });
+  });
+
+  describe('Embeddings', () => {
+    it('should fall back to the offline hashing embedder', async () => {
+      const embedder = await llmService.getEmbedder();
+      expect(embedder.name).toBe('hashing-256');
+      const [vector] = await embedder.embed(['local embeddings']);
+      expect(vector).toHaveLength(256);
+    });
+
+    it('should use a registered local backend that supports embeddings', async () => {
+      const embedFn = mock(async (texts: string[]) => texts.map(text => [text.length, 1]));
+      llmService.registerLocalBackend('offline-stub', async () => ({ choices: [] }), async () => false, async () => [[0]]);
+      llmService.registerLocalBackend('local-embed', async () => ({ choices: [] }), undefined, embedFn);
+
+      const embedder = await llmService.getEmbedder();
+      expect(embedder.name).toBe('local-embed');
+      expect(await embedder.embed(['abc'])).toEqual([[3, 1]]);
+      expect(embedFn).toHaveBeenCalledWith(['abc']);
+    });
+  });
+
   describe('Fallback Responses', () => {
     it('should provide appropriate fallbacks for different purposes', () => {
       const semanticFallback = llmService['getFallbackResponse']('semantic-tagging');
@@ -369,7 +1027,7 @@ describe('LLMService', () => {
     });
 
     it('should handle empty usage log', () => {
-      const emptyService = new LLMService();
+      const emptyService = new LLMService({ usageLogDir });
       const analytics = emptyService.getUsageAnalytics();
       
       expect(analytics.totalCalls).toBe(0);
@@ -416,18 +1074,57 @@ describe('LLMService', () => {
       expect(llmService['config'].preferLocalLLM).toBe(true);
       expect(llmService['config'].complexityThreshold).toBe(0.6);
     });
-    it('should respect routingPreference in callLLM', async () => {
-      await llmService.callLLM({
-        model: 'gpt-3.5-turbo',
-        apiKey: 'test-key',
-        messages: [{ role: 'user' as const, content: 'test' }],
-        context: 'test',
-        purpose: 'test',
-        valueScore: 0.8,
-        routingPreference: 'cloud',
+    const routedService = () => {
+      const answer = (name: string) => async () => {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        return { choices: [{ message: { content: `${name} response` } }] };
+      };
+      const service = new LLMService({
+        testMode: false,
+        minValueScore: 0.1,
+        enableLocalLLM: false,
+        memoryOnly: true,
+        retryAttempts: 1,
+        providers: [{ name: 'openai', isAvailable: async () => true, call: answer('openai'), estimateTokens: () => 1, estimateCost: () => 0 }],
       });
-      expect(llmService['config'].preferLocalLLM).toBe(false);
-      expect(llmService['config'].complexityThreshold).toBe(0.0);
+      service.registerLocalBackend('local-stub', answer('local-stub'));
+      return service;
+    };
+    const routedRequest = (routingPreference?: 'auto' | 'local' | 'cloud') => ({
+      model: 'test-model',
+      apiKey: 'test-key',
+      messages: [{ role: 'user' as const, content: 'test' }],
+      context: 'test-context',
+      purpose: 'test-purpose',
+      valueScore: 0.8,
+      routingPreference,
+    });
+
+    it('should respect routingPreference in callLLM without changing the service preference', async () => {
+      const service = routedService();
+      service.setRoutingPreference('local');
+
+      const response = await service.callLLM(routedRequest('cloud'));
+      expect(response.choices[0].message.content).toBe('openai response');
+      expect(service['config'].preferLocalLLM).toBe(true);
+      expect(service['config'].complexityThreshold).toBe(1.0);
+
+      // Calls without a preference use the service's
+      expect((await service.callLLM(routedRequest())).choices[0].message.content).toBe('local-stub response');
+    });
+
+    it('should keep each batched call on its own routingPreference', async () => {
+      const service = routedService();
+      const results = await service.callLLMBatch(
+        [routedRequest('local'), routedRequest('cloud'), routedRequest('local'), routedRequest('cloud')],
+        { concurrency: 4 }
+      );
+
+      expect(results.map(result => result.success && result.response.choices[0].message.content)).toEqual([
+        'local-stub response', 'openai response', 'local-stub response', 'openai response',
+      ]);
+      expect(service['config'].preferLocalLLM).toBe(true);
+      expect(service['config'].complexityThreshold).toBe(0.6);
     });
   });
 }); 
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'bun:test';
+import { diffEntryFields, diffFossilSets, diffLines, formatLineDiff } from '../../../src/utils/fossilDiff';
+import type { ContextEntry } from '../../../src/types';
+
+const makeEntry = (id: string, overrides: Partial<ContextEntry> = {}): ContextEntry => ({
+  id,
+  type: 'knowledge',
+  title: `Entry ${id}`,
+  content: 'content',
+  tags: [],
+  metadata: {},
+  source: 'manual',
+  version: 1,
+  children: [],
+  createdAt: '2025-07-01T00:00:00.000Z',
+  updatedAt: '2025-07-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('diffEntryFields', () => {
+  it('classifies added, removed and changed fields', () => {
+    const result = diffEntryFields(
+      { title: 'a', parentId: 'p', tags: ['x'] },
+      { title: 'b', excerpt: 'new', tags: ['x'] },
+    );
+    expect(result).toEqual({ addedFields: ['excerpt'], removedFields: ['parentId'], changedFields: ['title'] });
+  });
+});
+
+describe('diffFossilSets', () => {
+  it('reports added, removed and changed entries', () => {
+    const before = [makeEntry('a'), makeEntry('b'), makeEntry('c')];
+    const after = [makeEntry('a'), makeEntry('b', { content: 'edited', version: 2 }), makeEntry('d')];
+
+    const diff = diffFossilSets(before, after);
+    expect(diff.added.map(e => e.id)).toEqual(['d']);
+    expect(diff.removed.map(e => e.id)).toEqual(['c']);
+    expect(diff.changed).toEqual([
+      { id: 'b', title: 'Entry b', addedFields: [], removedFields: [], changedFields: ['content', 'version'] },
+    ]);
+    expect(diff.unchanged).toBe(1);
+  });
+});
+
+describe('diffLines', () => {
+  it('marks removed, added and unchanged lines', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc')).toEqual([
+      { op: ' ', line: 'a' },
+      { op: '-', line: 'b' },
+      { op: '+', line: 'x' },
+      { op: ' ', line: 'c' },
+    ]);
+  });
+
+  it('handles appended lines and empty input', () => {
+    expect(diffLines('a', 'a\nb')).toEqual([{ op: ' ', line: 'a' }, { op: '+', line: 'b' }]);
+    expect(diffLines('', '').every(op => op.op === ' ')).toBe(true);
+  });
+
+  it('diffs long texts with scattered edits', () => {
+    const before = Array.from({ length: 3000 }, (_, i) => `line ${i}`);
+    const after = before.filter((_, i) => i % 10 !== 0).map((line, i) => (i % 7 === 0 ? `${line} edited` : line));
+    const ops = diffLines(before.join('\n'), after.join('\n'));
+
+    expect(ops.filter(op => op.op !== '+').map(op => op.line)).toEqual(before);
+    expect(ops.filter(op => op.op !== '-').map(op => op.line)).toEqual(after);
+    expect(ops.filter(op => op.op === ' ').length).toBe(after.filter(line => !line.endsWith('edited')).length);
+  });
+});
+
+describe('formatLineDiff', () => {
+  it('collapses unchanged lines outside the context window', () => {
+    const before = ['1', '2', '3', '4', '5', '6'].join('\n');
+    const after = ['1', '2', '3', '4', '5', 'six'].join('\n');
+    expect(formatLineDiff(diffLines(before, after), 1)).toBe(
+      ['  … 4 unchanged lines', '  5', '- 6', '+ six'].join('\n')
+    );
+  });
+
+  it('returns an empty string when nothing changed', () => {
+    expect(formatLineDiff(diffLines('same', 'same'))).toBe('');
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'bun:test';
+import yaml from 'js-yaml';
+import { CSV_COLUMNS, serializeFossilExport, toCsvExport, toYamlExport, type FossilExportFormat } from '../../../src/utils/fossilExport';
+import { parseCsv, parseFossilExport, validateImportRecords } from '../../../src/utils/fossilImport';
+import type { ContextEntry } from '../../../src/types';
+
+const plain: ContextEntry = {
+  id: 'fossil_plain',
+  type: 'knowledge',
+  title: 'Plain entry',
+  content: 'Single line',
+  tags: [],
+  metadata: {},
+  source: 'manual',
+  version: 1,
+  children: [],
+  createdAt: '2025-07-01T00:00:00.000Z',
+  updatedAt: '2025-07-01T00:00:00.000Z',
+};
+
+const tricky: ContextEntry = {
+  id: 'fossil_tricky',
+  type: 'decision',
+  title: 'Key: "value" # not a comment, with commas',
+  content: '  indented first line\nsecond: line with "quotes", commas\r\n- list-like\n\n# heading-like\ntrailing newline\n',
+  tags: ['a;b', 'ünïcode', 'yes'],
+  metadata: { contentHash: 'abc123', score: 0.75, nested: { flag: true, list: [1, '2'] }, count: '42' },
+  source: 'llm',
+  version: 3,
+  parentId: 'fossil_plain',
+  children: ['fossil_child'],
+  createdAt: '2025-07-01T00:00:00.000Z',
+  updatedAt: '2025-07-03T12:34:56.789Z',
+  previousVersions: [{ ...plain, id: 'fossil_tricky', version: 2, content: 'older\ncontent' }],
+  semanticTags: { contentHash: 'abc123', concepts: ['yaml', 'csv'], confidence: 0.9, autoGenerated: true },
+  relationships: { dependsOn: ['fossil_plain'], relatedTo: [] },
+  temporal: { lifecycle: 'active', accessCount: 2 },
+  excerpt: 'Key: value',
+};
+
+const entries = [plain, tricky];
+
+const roundTrip = (format: FossilExportFormat, options = {}) => {
+  const records = parseFossilExport(serializeFossilExport(entries, format, options), format);
+  const result = validateImportRecords(records);
+  expect(result.errors).toEqual([]);
+  return result.entries;
+};
+
+describe('export → import round trip', () => {
+  for (const format of ['json', 'yaml', 'csv'] as const) {
+    it(`preserves every field through ${format}`, () => {
+      expect(roundTrip(format)).toEqual(entries);
+    });
+  }
+
+  it('preserves every field through CSV with flattened metadata columns', () => {
+    expect(roundTrip('csv', { flattenMetadata: true })).toEqual(entries);
+  });
+
+  it('preserves the documented fields through markdown', () => {
+    const simple = { ...tricky, title: 'Simple title', content: '\nLine one\n\n### Line two\n---\n```ts\ncode\n```\n', tags: ['x', 'y'] };
+    const [imported] = validateImportRecords(parseFossilExport(serializeFossilExport([simple], 'markdown'), 'markdown')).entries;
+    expect(imported).toMatchObject({
+      id: simple.id,
+      type: simple.type,
+      title: simple.title,
+      content: simple.content,
+      tags: simple.tags,
+      source: simple.source,
+      createdAt: simple.createdAt,
+    });
+  });
+});
+
+describe('toCsvExport', () => {
+  it('quotes every field and uses CRLF line endings', () => {
+    const csv = toCsvExport([plain]);
+    const [header, row] = csv.split('\r\n');
+    expect(header).toBe(CSV_COLUMNS.map(column => `"${column}"`).join(','));
+    expect(row!.startsWith('"fossil_plain","knowledge","Plain entry"')).toBe(true);
+    expect(csv.endsWith('\r\n')).toBe(true);
+  });
+
+  it('adds sorted metadata.<key> columns when flattening', () => {
+    const [header, , row] = parseCsv(toCsvExport(entries, { flattenMetadata: true }));
+    const flat = header!.filter(column => column.startsWith('metadata.'));
+    expect(flat).toEqual(['metadata.contentHash', 'metadata.count', 'metadata.nested', 'metadata.score']);
+    const cell = (column: string) => row![header!.indexOf(column)];
+    expect(cell('metadata.contentHash')).toBe('abc123');
+    expect(cell('metadata.nested')).toBe('{"flag":true,"list":[1,"2"]}');
+  });
+
+  it('rebuilds metadata from flattened columns when the JSON column is missing', () => {
+    const csv = '"id","type","title","content","tags","source","createdAt","updatedAt","version","metadata.note","metadata.score"\r\n'
+      + '"f1","plan","T","C","","api","2025-07-01T00:00:00.000Z","2025-07-01T00:00:00.000Z","1","hello","0.5"\r\n';
+    expect(parseFossilExport(csv, 'csv')[0]!.metadata).toEqual({ note: 'hello', score: 0.5 });
+  });
+});
+
+describe('toYamlExport', () => {
+  it('produces YAML that loads back with the header fields', () => {
+    const document = yaml.load(toYamlExport(entries, '2025-07-04T00:00:00.000Z')) as Record<string, unknown>;
+    expect(document.generated).toBe('2025-07-04T00:00:00.000Z');
+    expect(document.total_entries).toBe(2);
+    expect((document.entries as ContextEntry[])[1]!.title).toBe(tricky.title);
+  });
+
+  it('still reads legacy hand-built exports', () => {
+    const legacy = [
+      'entries:',
+      '  - id: fossil_legacy',
+      '    type: plan',
+      '    title: Legacy',
+      '    content: |',
+      '      line one',
+      '      line two',
+      '    tags: ["a"]',
+      '    source: manual',
+      '    created_at: 2025-07-01T00:00:00.000Z',
+      '    updated_at: 2025-07-02T00:00:00.000Z',
+      '    version: 1',
+    ].join('\n');
+    expect(parseFossilExport(legacy, 'yaml')[0]).toMatchObject({
+      content: 'line one\nline two',
+      createdAt: '2025-07-01T00:00:00.000Z',
+      updatedAt: '2025-07-02T00:00:00.000Z',
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'bun:test';
+import { findCycles, findPath, relationshipEdges, toDot, toMermaid, transitiveClosure } from '../../../src/utils/fossilGraph';
+import type { FossilEdge } from '../../../src/services/fossil-store';
+import type { ContextEntry } from '../../../src/types';
+
+const edge = (from: string, to: string, type: FossilEdge['type'] = 'depends-on'): FossilEdge => ({
+  from,
+  to,
+  type,
+  createdAt: '2025-07-01T00:00:00.000Z',
+});
+
+describe('relationshipEdges', () => {
+  it('maps semantic relationship tags to typed edges', () => {
+    const entry = {
+      id: 'a',
+      relationships: { dependsOn: ['b'], supersedes: ['c'], relatedTo: ['d', 'a'] },
+    } as unknown as ContextEntry;
+    expect(relationshipEdges(entry, '2025-07-01T00:00:00.000Z')).toEqual([
+      edge('a', 'b'),
+      edge('a', 'c', 'supersedes'),
+      edge('a', 'd', 'references'),
+    ]);
+  });
+});
+
+describe('findPath', () => {
+  const edges = [edge('a', 'b'), edge('b', 'c'), edge('a', 'd'), edge('d', 'e'), edge('e', 'c')];
+
+  it('returns the shortest directed path', () => {
+    expect(findPath(edges, 'a', 'c')).toEqual(['a', 'b', 'c']);
+    expect(findPath(edges, 'c', 'a')).toBeNull();
+  });
+
+  it('can follow edges in either direction', () => {
+    expect(findPath(edges, 'c', 'a', 'both')).toEqual(['c', 'b', 'a']);
+  });
+});
+
+describe('transitiveClosure', () => {
+  const edges = [edge('a', 'b'), edge('b', 'c'), edge('c', 'a'), edge('x', 'a')];
+
+  it('lists every reachable entry with its depth', () => {
+    expect(transitiveClosure(edges, 'a')).toEqual([{ id: 'b', depth: 1 }, { id: 'c', depth: 2 }]);
+  });
+
+  it('follows reversed edges and honours maxDepth', () => {
+    expect(transitiveClosure(edges, 'a', 'in')).toEqual([{ id: 'c', depth: 1 }, { id: 'x', depth: 1 }, { id: 'b', depth: 2 }]);
+    expect(transitiveClosure(edges, 'a', 'out', 1)).toEqual([{ id: 'b', depth: 1 }]);
+  });
+});
+
+describe('findCycles', () => {
+  it('reports one closed walk per cycle', () => {
+    const cycles = findCycles([edge('a', 'b'), edge('b', 'c'), edge('c', 'a'), edge('c', 'd'), edge('d', 'd')]);
+    expect(cycles).toHaveLength(2);
+    expect(cycles).toContainEqual(['d', 'd']);
+    const triangle = cycles.find(cycle => cycle.length === 4)!;
+    expect(triangle[0]).toBe(triangle[3]!);
+    expect(new Set(triangle)).toEqual(new Set(['a', 'b', 'c']));
+  });
+
+  it('returns nothing for a DAG', () => {
+    expect(findCycles([edge('a', 'b'), edge('a', 'c'), edge('b', 'c')])).toEqual([]);
+  });
+});
+
+describe('graph export', () => {
+  const edges = [edge('a', 'b', 'supersedes')];
+
+  it('renders DOT with titles as labels', () => {
+    expect(toDot(edges, { a: 'Plan "v2"' })).toBe([
+      'digraph fossils {',
+      '  rankdir=LR;',
+      '  node [shape=box];',
+      '  "a" [label="Plan \\"v2\\""];',
+      '  "b" [label="b"];',
+      '  "a" -> "b" [label="supersedes"];',
+      '}',
+    ].join('\n'));
+  });
+
+  it('renders a Mermaid flowchart', () => {
+    expect(toMermaid(edges, { b: 'Plan "v1"' })).toBe([
+      'flowchart LR',
+      '  n0["a"]',
+      '  n1["Plan #quot;v1#quot;"]',
+      '  n0 -->|supersedes| n1',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'bun:test';
+import { getVersionHistory, pruneVersionHistory, type EntryVersion } from '../../../src/utils/fossilHistory';
+import type { ContextEntry } from '../../../src/types';
+
+const makeVersion = (version: number, updatedAt: string): EntryVersion => ({
+  id: 'fossil_1',
+  type: 'knowledge',
+  title: `v${version}`,
+  content: `content ${version}`,
+  tags: [],
+  metadata: {},
+  source: 'manual',
+  version,
+  children: [],
+  createdAt: '2025-07-01T00:00:00.000Z',
+  updatedAt,
+});
+
+describe('getVersionHistory', () => {
+  it('returns previous versions oldest first followed by the current entry', () => {
+    const entry: ContextEntry = {
+      ...makeVersion(3, '2025-07-03T00:00:00.000Z'),
+      previousVersions: [makeVersion(1, '2025-07-01T00:00:00.000Z'), makeVersion(2, '2025-07-02T00:00:00.000Z')],
+    };
+    const history = getVersionHistory(entry);
+    expect(history.map(v => v.version)).toEqual([1, 2, 3]);
+    expect('previousVersions' in history[2]!).toBe(false);
+  });
+});
+
+describe('pruneVersionHistory', () => {
+  const versions = [1, 2, 3, 4, 5].map(n => makeVersion(n, `2025-07-0${n}T00:00:00.000Z`));
+  const now = new Date('2025-07-06T00:00:00.000Z');
+
+  it('keeps the newest versions up to maxVersions', () => {
+    expect(pruneVersionHistory(versions, { maxVersions: 2 }, now).map(v => v.version)).toEqual([4, 5]);
+  });
+
+  it('drops versions older than maxAgeDays', () => {
+    expect(pruneVersionHistory(versions, { maxAgeDays: 3 }, now).map(v => v.version)).toEqual([3, 4, 5]);
+  });
+
+  it('combines both limits and allows disabling history entirely', () => {
+    expect(pruneVersionHistory(versions, { maxVersions: 1, maxAgeDays: 3 }, now).map(v => v.version)).toEqual([5]);
+    expect(pruneVersionHistory(versions, { maxVersions: 0 }, now)).toEqual([]);
+  });
+
+  it('applies the default limit when no policy is given', () => {
+    const many = Array.from({ length: 25 }, (_, i) => makeVersion(i + 1, '2025-07-01T00:00:00.000Z'));
+    expect(pruneVersionHistory(many)).toHaveLength(20);
+  });
+});
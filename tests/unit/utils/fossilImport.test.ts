@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  detectExportFormat,
+  parseCsv,
+  parseFossilExport,
+  validateImportRecords,
+} from '../../../src/utils/fossilImport';
+
+const entry = {
+  id: 'fossil_1',
+  type: 'decision',
+  title: 'Use Bun',
+  content: 'Bun is the runtime.\nIt is fast.',
+  tags: ['runtime', 'tooling'],
+  metadata: {},
+  source: 'manual',
+  version: 2,
+  children: [],
+  createdAt: '2025-07-01T00:00:00.000Z',
+  updatedAt: '2025-07-02T00:00:00.000Z',
+};
+
+describe('detectExportFormat', () => {
+  it('maps file extensions to export formats', () => {
+    expect(detectExportFormat('a/export.json')).toBe('json');
+    expect(detectExportFormat('export.MD')).toBe('markdown');
+    expect(detectExportFormat('fossil-export-latest.markdown')).toBe('markdown');
+    expect(detectExportFormat('export.csv')).toBe('csv');
+    expect(detectExportFormat('export.yml')).toBe('yaml');
+  });
+
+  it('rejects unknown extensions', () => {
+    expect(() => detectExportFormat('export.txt')).toThrow('--format');
+  });
+});
+
+describe('parseCsv', () => {
+  it('handles quoted fields, doubled quotes and embedded newlines', () => {
+    const rows = parseCsv('a,b,c\r\n1,"x, ""y""","line 1\nline 2"\n');
+    expect(rows).toEqual([
+      ['a', 'b', 'c'],
+      ['1', 'x, "y"', 'line 1\nline 2'],
+    ]);
+  });
+
+  it('throws on an unterminated quote', () => {
+    expect(() => parseCsv('a\n"open')).toThrow('Unterminated');
+  });
+});
+
+describe('parseFossilExport', () => {
+  it('parses JSON arrays', () => {
+    expect(parseFossilExport(JSON.stringify([entry]), 'json')).toEqual([entry]);
+  });
+
+  it('parses CSV exports', () => {
+    const csv = [
+      'id,type,title,content,tags,source,createdAt,updatedAt,version',
+      'fossil_1,decision,"Use Bun","Bun is the runtime.\nIt is fast.","runtime;tooling",manual,2025-07-01T00:00:00.000Z,2025-07-02T00:00:00.000Z,2',
+    ].join('\n');
+    const [record] = parseFossilExport(csv, 'csv');
+    const { metadata: _metadata, children: _children, ...expected } = entry;
+    expect(record).toEqual(expected);
+  });
+
+  it('reports a CSV row with an invalid JSON cell and keeps the other rows', () => {
+    const csv = [
+      'id,type,title,content,tags,source,createdAt,updatedAt,version,metadata',
+      'fossil_bad,decision,Bad,Broken,runtime,manual,2025-07-01T00:00:00.000Z,2025-07-02T00:00:00.000Z,1,"{oops"',
+      'fossil_1,decision,"Use Bun","Bun is the runtime.\nIt is fast.","runtime;tooling",manual,2025-07-01T00:00:00.000Z,2025-07-02T00:00:00.000Z,2,"{}"',
+    ].join('\n');
+    const { entries, errors } = validateImportRecords(parseFossilExport(csv, 'csv'));
+    expect(entries.map(imported => imported.id)).toEqual(['fossil_1']);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ index: 0, id: 'fossil_bad' });
+    expect(errors[0]!.message).toContain('metadata: invalid JSON');
+  });
+
+  it('parses YAML exports with snake_case timestamps', () => {
+    const yaml = [
+      'entries:',
+      '  - id: fossil_1',
+      '    type: decision',
+      '    title: Use Bun',
+      '    content: |',
+      '      Bun is the runtime.',
+      '      It is fast.',
+      '    tags: ["runtime", "tooling"]',
+      '    source: manual',
+      '    created_at: 2025-07-01T00:00:00.000Z',
+      '    updated_at: 2025-07-02T00:00:00.000Z',
+      '    version: 2',
+    ].join('\n');
+    const { metadata: _metadata, children: _children, ...expected } = entry;
+    expect(parseFossilExport(yaml, 'yaml')).toEqual([expected]);
+  });
+
+  it('parses Markdown exports, defaulting version and updatedAt', () => {
+    const markdown = [
+      '# Context Fossil Storage Export',
+      '',
+      '## Decision (1)',
+      '',
+      '### Use Bun',
+      '',
+      '**ID:** fossil_1',
+      '**Created:** 2025-07-01T00:00:00.000Z',
+      '**Source:** manual',
+      '**Tags:** runtime, tooling',
+      '',
+      'Bun is the runtime.',
+      'It is fast.',
+      '',
+      '---',
+      '',
+    ].join('\n');
+    expect(parseFossilExport(markdown, 'markdown')).toEqual([
+      {
+        id: 'fossil_1',
+        type: 'decision',
+        title: 'Use Bun',
+        content: 'Bun is the runtime.\nIt is fast.',
+        tags: ['runtime', 'tooling'],
+        source: 'manual',
+        version: 1,
+        createdAt: '2025-07-01T00:00:00.000Z',
+        updatedAt: '2025-07-01T00:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('reads fenced Markdown bodies verbatim, headings and separators included', () => {
+    const markdown = [
+      '## Decision (1)',
+      '',
+      '### Use Bun',
+      '',
+      '**ID:** fossil_1',
+      '**Created:** 2025-07-01T00:00:00.000Z',
+      '**Source:** manual',
+      '**Tags:** runtime',
+      '',
+      '````',
+      '### Not a title',
+      '## Plan (2)',
+      '---',
+      '```',
+      '````',
+      '',
+      '---',
+      '',
+    ].join('\n');
+    const records = parseFossilExport(markdown, 'markdown');
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({ title: 'Use Bun', content: '### Not a title\n## Plan (2)\n---\n```' });
+  });
+});
+
+describe('validateImportRecords', () => {
+  it('applies schema defaults and keeps fields outside the schema', () => {
+    const { metadata: _metadata, children: _children, ...record } = entry;
+    const { entries, errors } = validateImportRecords([{ ...record, excerpt: 'Bun' }]);
+    expect(errors).toEqual([]);
+    expect(entries[0]).toMatchObject({ metadata: {}, children: [], excerpt: 'Bun' });
+  });
+
+  it('reports invalid records with their position', () => {
+    const { entries, errors } = validateImportRecords([entry, { ...entry, id: 'bad', type: 'nope' }]);
+    expect(entries).toHaveLength(1);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ index: 1, id: 'bad' });
+    expect(errors[0]!.message).toContain('type');
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import * as yaml from 'js-yaml';
+import { FetchTransport, GitHubClient } from '../../../src/services/github-client';
+import type { E2ERoadmap, E2ERoadmapTask, GitHubIssue } from '../../../src/types';
+import {
+  applyRoadmapSyncPlan,
+  formatRoadmapSyncPlan,
+  planRoadmapSync,
+  writeRoadmap,
+  type RoadmapSyncState,
+} from '../../../src/utils/roadmapSync';
+import { startFakeGitHub } from '../../fake-github-server';
+
+const roadmapOf = (...tasks: E2ERoadmapTask[]): E2ERoadmap => ({
+  type: 'e2e_automation_roadmap',
+  source: 'test',
+  createdBy: 'test',
+  createdAt: '2025-07-01T00:00:00.000Z',
+  tasks,
+});
+
+const issue = (number: number, title: string, state: 'open' | 'closed' = 'open', labels = ['roadmap']): GitHubIssue => ({
+  number,
+  title,
+  state,
+  labels,
+  assignees: [],
+  created_at: '2025-07-01T00:00:00Z',
+  updated_at: '2025-07-01T00:00:00Z',
+});
+
+const synced = (issues: RoadmapSyncState['issues']): RoadmapSyncState => ({ syncedAt: '2025-07-01T00:00:00.000Z', issues });
+
+describe('planRoadmapSync', () => {
+  it('sends each one-sided change to the other side', () => {
+    const roadmap = roadmapOf(
+      { task: 'Renamed locally', status: 'pending', issues: [1] },
+      { task: 'Closed on GitHub', status: 'pending', issues: [2] },
+      { task: 'Finished locally', status: 'done', issues: [3] },
+      { task: 'Unchanged', status: 'pending', issues: [4] },
+    );
+    const plan = planRoadmapSync(roadmap, [
+      issue(1, 'Original'),
+      issue(2, 'Closed on GitHub', 'closed'),
+      issue(3, 'Finished locally'),
+      issue(4, 'Unchanged'),
+    ], synced({
+      1: { title: 'Original', closed: false },
+      2: { title: 'Closed on GitHub', closed: false },
+      3: { title: 'Finished locally', closed: false },
+      4: { title: 'Unchanged', closed: false },
+    }));
+
+    expect(plan.actions).toEqual([
+      { type: 'update-issue', taskIndex: 0, issue: 1, changes: { title: 'Renamed locally' } },
+      { type: 'update-task', taskIndex: 1, issue: 2, changes: { status: 'done' } },
+      { type: 'update-issue', taskIndex: 2, issue: 3, changes: { state: 'closed' } },
+    ]);
+    expect(plan.conflicts).toEqual([]);
+  });
+
+  it('reports edits to the same field on both sides as conflicts', () => {
+    const roadmap = roadmapOf({ task: 'Local title', status: 'done', issues: [1] });
+    const issues = [issue(1, 'Remote title', 'open')];
+    const state = synced({ 1: { title: 'Base title', closed: false } });
+
+    const plan = planRoadmapSync(roadmap, issues, state);
+    expect(plan.conflicts).toEqual([
+      { taskIndex: 0, issue: 1, field: 'title', base: 'Base title', local: 'Local title', remote: 'Remote title', resolution: undefined },
+    ]);
+    // The status only changed locally, so it still syncs
+    expect(plan.actions).toEqual([{ type: 'update-issue', taskIndex: 0, issue: 1, changes: { state: 'closed' } }]);
+
+    expect(planRoadmapSync(roadmap, issues, state, { prefer: 'remote' }).actions).toEqual([
+      { type: 'update-issue', taskIndex: 0, issue: 1, changes: { state: 'closed' } },
+      { type: 'update-task', taskIndex: 0, issue: 1, changes: { task: 'Remote title' } },
+    ]);
+  });
+
+  it('treats a never-synced pair that differs as a conflict', () => {
+    const plan = planRoadmapSync(roadmapOf({ task: 'Task', status: 'pending', issues: [1] }), [issue(1, 'Task', 'closed')], synced({}));
+    expect(plan.conflicts.map(conflict => [conflict.field, conflict.base])).toEqual([['closed', undefined]]);
+    expect(plan.actions).toEqual([]);
+  });
+
+  it('creates issues for open unlinked tasks and imports new roadmap issues', () => {
+    const roadmap = roadmapOf(
+      { task: 'New task', status: 'pending' },
+      { task: 'Already done', status: 'done' },
+      { task: 'Gone', status: 'pending', issues: [9] },
+    );
+    const plan = planRoadmapSync(roadmap, [
+      issue(5, 'Filed on GitHub', 'closed'),
+      issue(6, 'Unrelated bug', 'open', ['bug']),
+      issue(7, 'Unlinked earlier'),
+    ], synced({ 7: { title: 'Unlinked earlier', closed: false } }));
+
+    expect(plan.actions).toEqual([
+      { type: 'create-issue', taskIndex: 0, title: 'New task' },
+      { type: 'import-issue', issue: 5, title: 'Filed on GitHub', status: 'done' },
+    ]);
+    expect(plan.missing).toEqual([{ taskIndex: 2, issue: 9 }]);
+    expect(formatRoadmapSyncPlan(plan, roadmap)).toEqual([
+      '🆕 Create issue for task: New task',
+      '📥 Import issue #5 as task: Filed on GitHub',
+      '❓ Task "Gone" links missing issue #9',
+    ]);
+  });
+
+  it('links an unlinked task to the issue carrying its task id, whatever its title', () => {
+    const roadmap = roadmapOf({ id: 't-1', task: 'Renamed task', status: 'pending' });
+    const plan = planRoadmapSync(roadmap, [
+      issue(3, 'Renamed task', 'open', ['bug']),
+      { ...issue(4, 'Original task'), body: 'Body\n\n---\nTask ID: t-1' },
+    ], synced({}));
+
+    expect(plan.actions).toEqual([{ type: 'link-issue', taskIndex: 0, issue: 4 }]);
+    expect(plan.conflicts.map(conflict => conflict.field)).toEqual(['title']);
+    expect(formatRoadmapSyncPlan(plan, roadmap)[0]).toBe('🔗 Link task "Renamed task" to #4 by task id');
+  });
+});
+
+describe('applyRoadmapSyncPlan', () => {
+  let fake: ReturnType<typeof startFakeGitHub>;
+  let client: GitHubClient;
+
+  beforeAll(() => {
+    fake = startFakeGitHub('octo', 'widgets');
+  });
+
+  afterAll(() => {
+    fake.server.stop(true);
+  });
+
+  beforeEach(() => {
+    Object.assign(fake.state, { issues: [], milestones: [], comments: [], requests: [] });
+    client = new GitHubClient('octo', 'widgets', { transport: new FetchTransport({ token: 'test', baseUrl: fake.baseUrl }) });
+  });
+
+  it('updates both sides and records the agreed state', async () => {
+    fake.state.issues = [1, 2, 3].map(number => ({
+      number,
+      title: ['Old title', 'Closed remotely', 'Conflicted'][number - 1]!,
+      body: null,
+      state: number === 2 ? 'closed' as const : 'open' as const,
+      labels: ['roadmap'],
+      assignees: [],
+      milestone: null,
+      created_at: '2025-07-01T00:00:00Z',
+      updated_at: '2025-07-01T00:00:00Z',
+    }));
+    const roadmap = roadmapOf(
+      { task: 'New title', status: 'pending', issues: [1] },
+      { task: 'Closed remotely', status: 'pending', issues: [2] },
+      { task: 'Conflicted locally', status: 'pending', issues: [3] },
+      { task: 'Brand new', status: 'pending' },
+    );
+    const state = synced({
+      1: { title: 'Old title', closed: false },
+      2: { title: 'Closed remotely', closed: false },
+      3: { title: 'Conflicted base', closed: false },
+    });
+    const issues = await client.listIssues({ state: 'all' });
+    const plan = planRoadmapSync(roadmap, issues, state);
+
+    const result = await applyRoadmapSyncPlan(plan, roadmap, issues, state, client);
+
+    expect(result.failed).toEqual([]);
+    expect(fake.state.issues.map(found => [found.number, found.title, found.state])).toEqual([
+      [1, 'New title', 'open'],
+      [2, 'Closed remotely', 'closed'],
+      [3, 'Conflicted', 'open'],
+      [4, 'Brand new', 'open'],
+    ]);
+    expect(roadmap.tasks.map(task => [task.status, task.issues])).toEqual([
+      ['pending', [1]],
+      ['done', [2]],
+      ['pending', [3]],
+      ['pending', [4]],
+    ]);
+    expect(result.state.issues).toEqual({
+      1: { title: 'New title', closed: false },
+      2: { title: 'Closed remotely', closed: true },
+      3: { title: 'Conflicted base', closed: false },
+      4: { title: 'Brand new', closed: false },
+    });
+
+    // Nothing left to do but the unresolved conflict
+    const next = planRoadmapSync(roadmap, await client.listIssues({ state: 'all' }), result.state);
+    expect(next.actions).toEqual([]);
+    expect(next.conflicts).toHaveLength(1);
+  });
+
+  it('keeps a failed pair out of the new state', async () => {
+    const roadmap = roadmapOf({ task: 'Needs milestone', status: 'pending', milestone: 'Missing' });
+    const plan = planRoadmapSync(roadmap, [], synced({}));
+
+    const result = await applyRoadmapSyncPlan(plan, roadmap, [], synced({}), client);
+
+    expect(result.failed.map(failure => failure.error)).toEqual(['Milestone not found: Missing']);
+    expect(roadmap.tasks[0]!.issues).toBeUndefined();
+    expect(result.state.issues).toEqual({});
+  });
+
+  it('gives imported issues a task id in their footer and the new task', async () => {
+    fake.state.issues = [{
+      number: 1,
+      title: 'Filed on GitHub',
+      body: 'Details',
+      state: 'open',
+      labels: ['roadmap'],
+      assignees: [],
+      milestone: null,
+      created_at: '2025-07-01T00:00:00Z',
+      updated_at: '2025-07-01T00:00:00Z',
+    }];
+    const roadmap = roadmapOf({ id: 't-new', task: 'New task', status: 'pending' });
+    const issues = await client.listIssues({ state: 'all' });
+    const plan = planRoadmapSync(roadmap, issues, synced({}));
+
+    const result = await applyRoadmapSyncPlan(plan, roadmap, issues, synced({}), client);
+
+    expect(result.failed).toEqual([]);
+    const imported = roadmap.tasks[1]!;
+    expect(imported.id).toMatch(/^t-[0-9a-f]{8}$/);
+    expect(fake.state.issues.map(found => found.body)).toEqual([
+      `Details\n\n---\nTask ID: ${imported.id}`,
+      '---\nTask ID: t-new',
+    ]);
+  });
+});
+
+describe('writeRoadmap', () => {
+  it('keeps the comment header and writes the tasks back', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'roadmap-sync-'));
+    try {
+      const file = path.join(dir, 'roadmap.yml');
+      await fs.writeFile(file, '# Canonical roadmap\n#\n\ntype: e2e_automation_roadmap\ntasks: []\n');
+      writeRoadmap(file, roadmapOf({ task: 'Task', status: 'done', issues: [3] }));
+
+      const content = await fs.readFile(file, 'utf8');
+      expect(content.startsWith('# Canonical roadmap\n#\n\ntype: e2e_automation_roadmap\n')).toBe(true);
+      expect((yaml.load(content) as E2ERoadmap).tasks).toEqual([{ task: 'Task', status: 'done', issues: [3] }]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,399 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'bun:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FetchTransport, GitHubClient } from '../../../src/services/github-client';
+import { SyncJournal } from '../../../src/utils/syncJournal';
+import {
+  applyTrackerSyncPlan,
+  buildTrackerSyncPlan,
+  findProjectStatusGaps,
+  formatTrackerSyncPlan,
+  parseTrackerTasks,
+  planTrackerSync,
+  revertTrackerSync,
+  type ProjectItemOperations,
+  type SyncTrackerOptions,
+  type TrackerSyncPlan,
+  type TrackerSyncStep,
+} from '../../../src/utils/syncTracker';
+import { createTaskId, withTaskIdFooter } from '../../../src/utils/taskAnchor';
+import { startFakeGitHub, type FakeIssue } from '../../fake-github-server';
+
+const TRACKER = [
+  '### Phase 1',
+  '- [ ] Write "quoted" $docs <!-- task-id: t-write -->',
+  '- [ ] Existing closed task <!-- task-id: t-closed -->',
+  '- [x] Finished task <!-- task-id: t-done -->',
+  '### Testing & Automation',
+  '- [ ] Existing open task <!-- task-id: t-open -->',
+].join('\n');
+
+const fakeIssue = (number: number, title: string, state: 'open' | 'closed', taskId: string): FakeIssue => ({
+  number,
+  title,
+  body: withTaskIdFooter('', taskId),
+  state,
+  labels: [],
+  assignees: [],
+  milestone: null,
+  created_at: '2025-07-01T00:00:00Z',
+  updated_at: '2025-07-01T00:00:00Z',
+});
+
+function fakeProjectItems() {
+  const items = new Map<string, string>();
+  const ops = {
+    items,
+    failNext: false,
+    async add(_projectNumber: number, _owner: string, issueUrl: string) {
+      if (ops.failNext) {
+        ops.failNext = false;
+        throw new Error('board unavailable');
+      }
+      const present = [...items].find(([, url]) => url === issueUrl);
+      if (present) return { itemId: present[0], alreadyPresent: true };
+      const id = `item-${items.size + 1}`;
+      items.set(id, issueUrl);
+      return { itemId: id };
+    },
+    async remove(_projectNumber: number, _owner: string, itemId: string) {
+      items.delete(itemId);
+    },
+  };
+  return ops satisfies ProjectItemOperations;
+}
+
+describe('buildTrackerSyncPlan', () => {
+  it('plans milestones, creates, reopens, closes and project adds', () => {
+    const plan = buildTrackerSyncPlan({
+      tasks: parseTrackerTasks(TRACKER),
+      gaps: findProjectStatusGaps({ modules: { core: { files: [{ 'src/a.ts': { functions: ['run'], fossilized_output: false } }] } } }),
+      milestones: [{ number: 1, title: 'Testing & Automation', description: null, state: 'open', due_on: null }],
+      issues: [
+        // Renamed on GitHub: still matched through the task id
+        { number: 7, title: 'Old title', body: '---\nTask ID: t-closed', state: 'closed', labels: [], assignees: [], created_at: '', updated_at: '' },
+        { number: 8, title: 'Finished task', body: '---\nTask ID: t-done', state: 'open', labels: [], assignees: [], created_at: '', updated_at: '' },
+        { number: 9, title: 'Existing open task', body: '---\nTask ID: t-open', state: 'open', labels: [], assignees: [], created_at: '', updated_at: '' },
+        // Created before task ids: linked by exact title
+        { number: 10, title: 'Write "quoted" $docs', state: 'open', labels: [], assignees: [], created_at: '', updated_at: '' },
+        { number: 11, title: 'Add test for run in src/a.ts', state: 'closed', labels: [], assignees: [], created_at: '', updated_at: '' },
+      ],
+      owner: 'octo',
+      repo: 'widgets',
+      projectNumber: 4,
+      autoClose: true,
+      syncTests: true,
+    });
+
+    expect(formatTrackerSyncPlan(plan)).toEqual([
+      '+ create milestone "Phase 1"',
+      '~ link issue #10 "Write "quoted" $docs" to task t-write',
+      '+ add issue #10 to project 4',
+      '~ reopen issue #7 "Existing closed task"',
+      '+ add issue #7 to project 4',
+      '- close issue #8 "Finished task"',
+      '+ add issue #9 to project 4',
+      `~ link issue #11 "Add test for run in src/a.ts" to task ${createTaskId('test:src/a.ts:run')}`,
+      '~ reopen issue #11 "Add test for run in src/a.ts"',
+      '+ add issue #11 to project 4',
+      '+ create issue "Add fossilization for src/a.ts in src/a.ts" (milestone: Testing & Automation, labels: fossilization)',
+      '+ add new issue "Add fossilization for src/a.ts in src/a.ts" to project 4',
+    ]);
+    expect(plan.steps.map(step => step.id).slice(0, 4)).toEqual([
+      'create-milestone:Phase 1',
+      'link-issue:t-write',
+      'project-add:t-write',
+      'reopen-issue:t-closed',
+    ]);
+    expect(plan.id).toMatch(/^[0-9a-f]{12}$/);
+  });
+
+  it('refuses tasks without a task id', () => {
+    expect(() => buildTrackerSyncPlan({
+      tasks: parseTrackerTasks('### Phase 1\n- [ ] Unanchored'),
+      gaps: [],
+      milestones: [],
+      issues: [],
+      owner: 'octo',
+      repo: 'widgets',
+      projectNumber: 4,
+    })).toThrow('has no task id');
+  });
+
+  it('refuses a title shared by several issues without a task id', () => {
+    const issue = (number: number) => ({ number, title: 'Twice', state: 'open' as const, labels: [], assignees: [], created_at: '', updated_at: '' });
+    expect(() => buildTrackerSyncPlan({
+      tasks: parseTrackerTasks('### Phase 1\n- [ ] Twice <!-- task-id: t-twice -->'),
+      gaps: [],
+      milestones: [],
+      issues: [issue(1), issue(2)],
+      owner: 'octo',
+      repo: 'widgets',
+      projectNumber: 4,
+    })).toThrow('"Twice" matches issues #1, #2');
+  });
+});
+
+describe('applyTrackerSyncPlan', () => {
+  let fake: ReturnType<typeof startFakeGitHub>;
+  let client: GitHubClient;
+  let journal: SyncJournal<TrackerSyncStep>;
+  let board: ReturnType<typeof fakeProjectItems>;
+
+  const createIssue = async (step: Extract<TrackerSyncStep, { type: 'create-issue' }>) =>
+    ({ issue: (await client.createIssue({ title: step.title, body: withTaskIdFooter(step.body, step.taskId), labels: step.labels, milestone: step.milestone })).number });
+
+  const plan = async (): Promise<TrackerSyncPlan> => buildTrackerSyncPlan({
+    tasks: parseTrackerTasks(TRACKER),
+    gaps: [],
+    milestones: await client.listMilestones('all'),
+    issues: await client.listIssues({ state: 'all' }),
+    owner: 'octo',
+    repo: 'widgets',
+    projectNumber: 4,
+    autoClose: true,
+  });
+
+  beforeAll(() => {
+    fake = startFakeGitHub('octo', 'widgets');
+  });
+
+  afterAll(() => {
+    fake.server.stop(true);
+  });
+
+  beforeEach(() => {
+    Object.assign(fake.state, {
+      issues: [
+        fakeIssue(1, 'Existing closed task', 'closed', 't-closed'),
+        fakeIssue(2, 'Finished task', 'open', 't-done'),
+        fakeIssue(3, 'Existing open task', 'open', 't-open'),
+      ],
+      milestones: [{ number: 1, title: 'Testing & Automation', description: null, state: 'open', due_on: null }],
+      comments: [],
+      requests: [],
+    });
+    client = new GitHubClient('octo', 'widgets', { transport: new FetchTransport({ token: 'test', baseUrl: fake.baseUrl }) });
+    journal = new SyncJournal<TrackerSyncStep>();
+    board = fakeProjectItems();
+  });
+
+  it('executes every step and journals it', async () => {
+    const syncPlan = await plan();
+    const result = await applyTrackerSyncPlan(syncPlan, client, { journal, createIssue, projectItems: board });
+
+    expect(result.failed).toEqual([]);
+    expect(result.done).toHaveLength(syncPlan.steps.length);
+    expect(fake.state.milestones.map(milestone => milestone.title)).toEqual(['Testing & Automation', 'Phase 1']);
+    expect(fake.state.issues.map(issue => [issue.number, issue.title, issue.state, issue.milestone])).toEqual([
+      [1, 'Existing closed task', 'open', null],
+      [2, 'Finished task', 'closed', null],
+      [3, 'Existing open task', 'open', null],
+      [4, 'Write "quoted" $docs', 'open', 2],
+    ]);
+    expect([...board.items.values()].map(url => url.split('/').pop())).toEqual(['4', '1', '3']);
+    expect(journal.status(syncPlan.id).get('create-issue:t-write')).toMatchObject({ event: 'done', result: { issue: 4 } });
+  });
+
+  it('resumes an interrupted run without repeating finished steps', async () => {
+    const syncPlan = await plan();
+    const createStep = syncPlan.steps.find(step => step.type === 'create-issue')!;
+    // The previous run died after creating the issue but before journalling it
+    journal.append({ planId: syncPlan.id, stepId: 'create-milestone:Phase 1', event: 'start', step: syncPlan.steps[0] });
+    journal.append({ planId: syncPlan.id, stepId: 'create-milestone:Phase 1', event: 'done', result: { milestone: 2 } });
+    journal.append({ planId: syncPlan.id, stepId: createStep.id, event: 'start', step: createStep });
+    fake.state.milestones.push({ number: 2, title: 'Phase 1', description: null, state: 'open', due_on: null });
+    await client.createIssue({ title: createStep.title, body: '---\nTask ID: t-write', milestone: 2 });
+    board.failNext = true;
+
+    const first = await applyTrackerSyncPlan(syncPlan, client, { journal, createIssue, projectItems: board });
+    expect(first.skipped).toEqual(['create-milestone:Phase 1']);
+    expect(first.done).toEqual([createStep.id]);
+    expect(first.failed).toEqual([{ stepId: 'project-add:t-write', error: 'board unavailable' }]);
+    expect(fake.state.issues.filter(issue => issue.title === createStep.title)).toHaveLength(1);
+    // Later steps wait for the failed one
+    expect(fake.state.issues[0]?.state).toBe('closed');
+
+    const second = await applyTrackerSyncPlan(syncPlan, client, { journal, createIssue, projectItems: board });
+    expect(second.done[0]).toBe('project-add:t-write');
+    expect(second.done).toHaveLength(syncPlan.steps.length - 2);
+    expect(second.failed).toEqual([]);
+    expect(board.items.size).toBe(3);
+  });
+
+  it('looks up an issue whose create failed after reaching GitHub before retrying it', async () => {
+    const syncPlan = await plan();
+    const failingCreate = async (step: Extract<TrackerSyncStep, { type: 'create-issue' }>) => {
+      await createIssue(step);
+      throw new Error('connection reset');
+    };
+
+    const first = await applyTrackerSyncPlan(syncPlan, client, { journal, createIssue: failingCreate, projectItems: board });
+    expect(first.failed).toEqual([{ stepId: 'create-issue:t-write', error: 'connection reset' }]);
+
+    const second = await applyTrackerSyncPlan(syncPlan, client, { journal, createIssue, projectItems: board });
+    expect(second.failed).toEqual([]);
+    expect(fake.state.issues.filter(issue => issue.title === 'Write "quoted" $docs')).toHaveLength(1);
+    expect(journal.status(syncPlan.id).get('create-issue:t-write')).toMatchObject({ event: 'done', result: { issue: 4 } });
+  });
+
+  it('writes the task id into an issue created before task ids and restores it on revert', async () => {
+    fake.state.issues[2]!.body = 'Filed by hand';
+    const syncPlan = await plan();
+    expect(syncPlan.steps.filter(step => step.type === 'create-issue').map(step => step.title)).toEqual(['Write "quoted" $docs']);
+
+    await applyTrackerSyncPlan(syncPlan, client, { journal, createIssue, projectItems: board });
+    expect(fake.state.issues[2]?.body).toBe('Filed by hand\n\n---\nTask ID: t-open');
+    // The next plan finds it by id
+    expect((await plan()).steps.map(step => step.type)).not.toContain('link-issue');
+
+    await revertTrackerSync(syncPlan.id, client, { journal, projectItems: board, owner: 'octo' });
+    expect(fake.state.issues[2]?.body).toBe('Filed by hand');
+  });
+
+  it('restores the original body when a link was retried after the footer was written', async () => {
+    fake.state.issues[2]!.body = 'Filed by hand';
+    const syncPlan = await plan();
+    const linkStep = syncPlan.steps.find(step => step.type === 'link-issue')!;
+    // The previous run died after writing the footer but before journalling it
+    journal.append({ planId: syncPlan.id, stepId: linkStep.id, event: 'start', step: linkStep });
+    fake.state.issues[2]!.body = withTaskIdFooter('Filed by hand', 't-open');
+
+    await applyTrackerSyncPlan(syncPlan, client, { journal, createIssue, projectItems: board });
+    await revertTrackerSync(syncPlan.id, client, { journal, projectItems: board, owner: 'octo' });
+    expect(fake.state.issues[2]?.body).toBe('Filed by hand');
+  });
+
+  it('leaves items that were on the board before the plan when reverting', async () => {
+    board.items.set('item-0', 'https://github.com/octo/widgets/issues/3');
+    const syncPlan = await plan();
+    await applyTrackerSyncPlan(syncPlan, client, { journal, createIssue, projectItems: board });
+    expect(journal.status(syncPlan.id).get('project-add:t-open')).toMatchObject({ result: { issue: 3, itemId: 'item-0', alreadyPresent: true } });
+
+    const result = await revertTrackerSync(syncPlan.id, client, { journal, projectItems: board, owner: 'octo' });
+
+    expect(result.skipped).toEqual(['project-add:t-open']);
+    expect([...board.items]).toEqual([['item-0', 'https://github.com/octo/widgets/issues/3']]);
+  });
+
+  it('removes the fossils recorded for created issues on revert', async () => {
+    const syncPlan = await plan();
+    const removed: Array<[string, number]> = [];
+    const fossilCreate = async (step: Extract<TrackerSyncStep, { type: 'create-issue' }>) => ({ ...(await createIssue(step)), fossilId: `fossil-${step.taskId}` });
+
+    await applyTrackerSyncPlan(syncPlan, client, { journal, createIssue: fossilCreate, projectItems: board });
+    expect(journal.status(syncPlan.id).get('create-issue:t-write')).toMatchObject({ result: { issue: 4, fossilId: 'fossil-t-write' } });
+
+    await revertTrackerSync(syncPlan.id, client, {
+      journal,
+      projectItems: board,
+      owner: 'octo',
+      removeFossil: async (fossilId, issue) => { removed.push([fossilId, issue]); },
+    });
+    expect(removed).toEqual([['fossil-t-write', 4]]);
+  });
+
+  it('reverts a run newest first', async () => {
+    const syncPlan = await plan();
+    await applyTrackerSyncPlan(syncPlan, client, { journal, createIssue, projectItems: board });
+
+    const result = await revertTrackerSync(syncPlan.id, client, { journal, projectItems: board, owner: 'octo' });
+
+    expect(result.failed).toEqual([]);
+    expect(result.done[0]).toBe('project-add:t-open');
+    expect(result.done.at(-1)).toBe('create-milestone:Phase 1');
+    expect(board.items.size).toBe(0);
+    expect(fake.state.milestones.map(milestone => milestone.title)).toEqual(['Testing & Automation']);
+    expect(fake.state.issues.map(issue => issue.state)).toEqual(['closed', 'open', 'open', 'closed']);
+    expect(fake.state.issues[3]?.state_reason).toBe('not_planned');
+
+    // Reverted steps are neither reverted twice nor re-applied under the same plan
+    expect((await revertTrackerSync(syncPlan.id, client, { journal, projectItems: board, owner: 'octo' })).done).toEqual([]);
+    expect((await applyTrackerSyncPlan(syncPlan, client, { journal, createIssue, projectItems: board })).done).toEqual([]);
+  });
+});
+
+describe('planTrackerSync', () => {
+  let fake: ReturnType<typeof startFakeGitHub>;
+  let client: GitHubClient;
+  let dir: string;
+  let options: SyncTrackerOptions;
+  const tracker = ['### Phase 1', '- [ ] Anchored <!-- task-id: t-anchored -->', '- [ ] New task'].join('\n');
+
+  beforeAll(() => {
+    fake = startFakeGitHub('octo', 'widgets');
+  });
+
+  afterAll(() => {
+    fake.server.stop(true);
+  });
+
+  beforeEach(async () => {
+    Object.assign(fake.state, { issues: [], milestones: [], comments: [], requests: [] });
+    client = new GitHubClient('octo', 'widgets', { transport: new FetchTransport({ token: 'test', baseUrl: fake.baseUrl }) });
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'sync-tracker-'));
+    options = {
+      trackerMdPath: path.join(dir, 'tracker.md'),
+      projectStatusYmlPath: path.join(dir, 'project_status.yml'),
+      owner: 'octo',
+      repo: 'widgets',
+      projectNumber: 4,
+    };
+    await fs.writeFile(options.trackerMdPath, tracker);
+    await fs.writeFile(options.projectStatusYmlPath, 'modules: {}\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const newTaskId = createTaskId('Phase 1\nNew task', new Set(['t-anchored']));
+  const noopCreate = async () => ({ issue: 1 });
+
+  it('anchors new items in memory and leaves the tracker file alone', async () => {
+    const syncPlan = await planTrackerSync(options, client);
+
+    expect(await fs.readFile(options.trackerMdPath, 'utf8')).toBe(tracker);
+    expect(syncPlan.anchors).toEqual({ trackerMdPath: options.trackerMdPath, taskIds: [newTaskId] });
+    expect(syncPlan.steps.map(step => step.id)).toContain(`create-issue:${newTaskId}`);
+    expect(formatTrackerSyncPlan(syncPlan)[0]).toBe(`~ write 1 task id(s) into ${options.trackerMdPath}`);
+  });
+
+  it('writes the planned task ids into the tracker on apply', async () => {
+    const syncPlan = await planTrackerSync(options, client);
+    await applyTrackerSyncPlan(syncPlan, client, { journal: new SyncJournal<TrackerSyncStep>(), createIssue: noopCreate, projectItems: fakeProjectItems() });
+
+    expect(await fs.readFile(options.trackerMdPath, 'utf8')).toBe(`${tracker} <!-- task-id: ${newTaskId} -->`);
+    expect((await planTrackerSync(options, client)).anchors).toBeUndefined();
+  });
+
+  it('refuses to apply when the tracker changed since the plan', async () => {
+    const syncPlan = await planTrackerSync(options, client);
+    await fs.writeFile(options.trackerMdPath, tracker.replace('New task', 'Renamed task'));
+
+    await expect(applyTrackerSyncPlan(syncPlan, client, { journal: new SyncJournal<TrackerSyncStep>(), createIssue: noopCreate, projectItems: fakeProjectItems() }))
+      .rejects.toThrow(`task ids ${newTaskId} not found`);
+  });
+});
+
+describe('SyncJournal', () => {
+  it('persists entries as JSON lines and skips a truncated line', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'sync-journal-'));
+    try {
+      const file = path.join(dir, 'journal.jsonl');
+      const journal = new SyncJournal(file);
+      journal.append({ planId: 'a', stepId: 'one', event: 'start' });
+      journal.append({ planId: 'a', stepId: 'one', event: 'done', result: { issue: 1 } });
+      journal.append({ planId: 'b', stepId: 'two', event: 'start' });
+      await fs.appendFile(file, '{"planId":"b","stepId');
+
+      const reopened = new SyncJournal(file);
+      expect(reopened.entries()).toHaveLength(3);
+      expect(reopened.lastPlanId()).toBe('b');
+      expect([...reopened.status('a')]).toEqual([['one', { event: 'done', step: undefined, result: { issue: 1 } }]]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
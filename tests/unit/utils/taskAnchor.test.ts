@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { FetchTransport, GitHubClient } from '../../../src/services/github-client';
+import type { E2ERoadmap } from '../../../src/types';
+import { parseTrackerTasks } from '../../../src/utils/syncTracker';
+import { migrateRoadmapTaskIds } from '../../../src/utils/roadmapSync';
+import {
+  anchorRoadmapTasks,
+  anchorTrackerTasks,
+  extractTaskId,
+  linkExistingIssues,
+  withTaskIdFooter,
+} from '../../../src/utils/taskAnchor';
+import { startFakeGitHub, type FakeIssue } from '../../fake-github-server';
+
+const fakeIssue = (number: number, title: string, body: string | null = null): FakeIssue => ({
+  number,
+  title,
+  body,
+  state: 'open',
+  labels: [],
+  assignees: [],
+  milestone: null,
+  created_at: '2025-07-01T00:00:00Z',
+  updated_at: '2025-07-01T00:00:00Z',
+});
+
+describe('anchorTrackerTasks', () => {
+  it('anchors new items once and keeps ids through renames', () => {
+    const { markdown, assigned } = anchorTrackerTasks([
+      '### Phase 1',
+      '- [ ] Same text',
+      '- [x] Same text',
+      '- [ ] Kept <!-- task-id: t-kept -->',
+      'Not a task',
+    ].join('\n'));
+
+    expect(assigned).toBe(2);
+    const tasks = parseTrackerTasks(markdown);
+    expect(tasks.map(task => task.text)).toEqual(['Same text', 'Same text', 'Kept']);
+    expect(new Set(tasks.map(task => task.id)).size).toBe(3);
+    expect(tasks[2]?.id).toBe('t-kept');
+    expect(anchorTrackerTasks(markdown)).toEqual({ markdown, assigned: 0 });
+
+    const renamed = parseTrackerTasks(markdown.replace('- [ ] Same text', '- [ ] Better text'));
+    expect(renamed[0]).toEqual({ section: 'Phase 1', checked: false, text: 'Better text', id: tasks[0]!.id! });
+  });
+});
+
+describe('withTaskIdFooter', () => {
+  it('extends the fossil footer, replaces an old id or starts a footer', () => {
+    const fossil = 'Purpose\n\n---\nFossil Content Hash: abc';
+    expect(withTaskIdFooter(fossil, 't-1')).toBe(`${fossil}\nTask ID: t-1`);
+    expect(withTaskIdFooter(`${fossil}\nTask ID: t-1`, 't-2')).toBe(`${fossil}\nTask ID: t-2`);
+    expect(withTaskIdFooter('Plain body\n', 't-1')).toBe('Plain body\n\n---\nTask ID: t-1');
+    expect(extractTaskId(withTaskIdFooter('', 't-1'))).toBe('t-1');
+    expect(extractTaskId('Mentions Task ID: t-1 inline')).toBeUndefined();
+  });
+
+  it('only reads and replaces the id in the trailing footer', () => {
+    const quoted = 'Steps:\nTask ID: t-quoted\n\n---\nFossil Content Hash: abc';
+    expect(extractTaskId(quoted)).toBeUndefined();
+    expect(withTaskIdFooter(quoted, 't-1')).toBe(`${quoted}\nTask ID: t-1`);
+    expect(extractTaskId(withTaskIdFooter(quoted, 't-1'))).toBe('t-1');
+
+    const notFooter = 'Intro\n---\nTask ID: t-old\n\nMore text';
+    expect(extractTaskId(notFooter)).toBeUndefined();
+    expect(withTaskIdFooter(notFooter, 't-1')).toBe(`${notFooter}\n\n---\nTask ID: t-1`);
+  });
+
+  it('rejects a long near-footer in linear time', () => {
+    const body = `---\n${'Key: a: b: c: d\n'.repeat(5000)}no colon`;
+    const started = performance.now();
+    expect(extractTaskId(body)).toBeUndefined();
+    expect(performance.now() - started).toBeLessThan(100);
+  });
+});
+
+describe('task id migration', () => {
+  let fake: ReturnType<typeof startFakeGitHub>;
+  let client: GitHubClient;
+
+  beforeAll(() => {
+    fake = startFakeGitHub('octo', 'widgets');
+    client = new GitHubClient('octo', 'widgets', { transport: new FetchTransport({ token: 'test', baseUrl: fake.baseUrl }) });
+  });
+
+  afterAll(() => {
+    fake.server.stop(true);
+  });
+
+  it('links tasks to unanchored issues by title and skips ambiguous titles', async () => {
+    fake.state.issues = [
+      fakeIssue(1, 'Unique', 'Body\n\n---\nFossil Content Hash: abc'),
+      fakeIssue(2, 'Twice'),
+      fakeIssue(3, 'Twice'),
+      fakeIssue(4, 'Already linked', '---\nTask ID: t-c'),
+    ];
+    const tasks = [
+      { id: 't-a', title: 'Unique' },
+      { id: 't-b', title: 'Twice' },
+      { id: 't-c', title: 'Already linked' },
+    ];
+
+    const dryRun = await linkExistingIssues(tasks, await client.listIssues({ state: 'all' }), client, { dryRun: true });
+    expect(dryRun.linked).toEqual([{ id: 't-a', title: 'Unique', issue: 1 }]);
+    expect(fake.state.issues[0]?.body).toBe('Body\n\n---\nFossil Content Hash: abc');
+
+    const migration = await linkExistingIssues(tasks, await client.listIssues({ state: 'all' }), client);
+    expect(migration).toEqual({
+      linked: [{ id: 't-a', title: 'Unique', issue: 1 }],
+      ambiguous: [{ id: 't-b', title: 'Twice', issues: [2, 3] }],
+    });
+    expect(fake.state.issues[0]?.body).toBe('Body\n\n---\nFossil Content Hash: abc\nTask ID: t-a');
+
+    // A second run finds nothing new to link
+    expect((await linkExistingIssues(tasks, await client.listIssues({ state: 'all' }), client)).linked).toEqual([]);
+  });
+
+  it('assigns roadmap ids and links by issue number before title', async () => {
+    fake.state.issues = [fakeIssue(1, 'Renamed since'), fakeIssue(2, 'Unlinked task')];
+    const roadmap: E2ERoadmap = {
+      type: 'e2e_automation_roadmap',
+      source: 'test',
+      createdBy: 'test',
+      createdAt: '2025-07-01T00:00:00.000Z',
+      tasks: [
+        { task: 'Linked task', status: 'pending', issues: [1] },
+        { task: 'Unlinked task', status: 'pending' },
+        { id: 't-kept', task: 'No issue yet', status: 'pending' },
+      ],
+    };
+
+    const migration = await migrateRoadmapTaskIds(roadmap, await client.listIssues({ state: 'all' }), client);
+
+    const [linked, unlinked, kept] = roadmap.tasks;
+    expect(kept?.id).toBe('t-kept');
+    expect(migration.linked.map(link => link.issue)).toEqual([1, 2]);
+    expect(unlinked?.issues).toEqual([2]);
+    expect(fake.state.issues.map(issue => extractTaskId(issue.body))).toEqual([linked?.id, unlinked?.id]);
+    expect(anchorRoadmapTasks(roadmap)).toBe(0);
+  });
+});